@@ -6,10 +6,14 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { SubscriptionProvider } from "@/contexts/SubscriptionContext";
+import { OrganizationProvider, useOrganization } from "@/contexts/OrganizationContext";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Feedback from "./pages/Feedback";
+import FeedbackReply from "./pages/FeedbackReply";
+import TeamInvite from "./pages/TeamInvite";
+import QRRedirect from "./pages/QRRedirect";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,8 +21,9 @@ const queryClient = new QueryClient();
 // Protected Route Component
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   const { user, loading } = useAuth();
+  const { currentOrganization, loading: organizationLoading } = useOrganization();
   
-  if (loading) {
+  if (loading || (user && organizationLoading)) {
     return <div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>;
   }
   
@@ -26,7 +31,8 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     return <Navigate to="/auth" replace />;
   }
   
-  return <>{children}</>;
+  // Remount on organization switch so every view reloads the new workspace's data
+  return <React.Fragment key={currentOrganization?.id ?? 'none'}>{children}</React.Fragment>;
 };
 
 const App = () => {
@@ -36,6 +42,7 @@ const App = () => {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
+        <OrganizationProvider>
         <SubscriptionProvider>
           <TooltipProvider>
           <Toaster />
@@ -45,6 +52,9 @@ const App = () => {
               <Route path="/" element={<Index />} />
               <Route path="/auth" element={<Auth />} />
               <Route path="/feedback" element={<Feedback />} />
+              <Route path="/reply/:token" element={<FeedbackReply />} />
+              <Route path="/invite/:token" element={<TeamInvite />} />
+              <Route path="/q/:slug" element={<QRRedirect />} />
               <Route 
                 path="/dashboard" 
                 element={
@@ -59,6 +69,7 @@ const App = () => {
           </BrowserRouter>
         </TooltipProvider>
       </SubscriptionProvider>
+        </OrganizationProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
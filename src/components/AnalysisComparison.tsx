@@ -0,0 +1,157 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { GitCompareArrows } from 'lucide-react';
+import {
+  AnalysisComparison as Comparison,
+  AnalysisStats,
+  Sentiment,
+  formatAnalysisPeriod,
+  formatDelta,
+  getDeltaClass,
+} from '@/lib/feedbackAnalysis';
+
+interface AnalysisComparisonProps {
+  comparison: Comparison;
+  stats: AnalysisStats;
+}
+
+interface MetricTile {
+  label: string;
+  value: string;
+  delta: number | null;
+  suffix?: string;
+  lowerIsBetter?: boolean;
+  // Changes that are neither good nor bad
+  neutral?: boolean;
+}
+
+const sentimentKeys: (keyof Sentiment)[] = ['positive', 'neutral', 'negative'];
+
+export const AnalysisComparison = ({ comparison, stats }: AnalysisComparisonProps) => {
+  const { deltas, previousStats, previousSentiment, topics } = comparison;
+
+  const tiles: MetricTile[] = [
+    {
+      label: 'Responses',
+      value: String(stats.totalFeedback),
+      delta: deltas.totalFeedback,
+    },
+    {
+      label: 'Avg rating',
+      value: stats.totalFeedback > 0 ? `${stats.averageRating.toFixed(1)}/5` : '—',
+      delta: deltas.averageRating,
+    },
+    ...(stats.nps || previousStats.nps ? [{
+      label: 'NPS',
+      value: stats.nps ? String(stats.nps.score) : '—',
+      delta: deltas.nps,
+    }] : []),
+    ...(stats.csat || previousStats.csat ? [{
+      label: 'CSAT',
+      value: stats.csat ? `${stats.csat.score}%` : '—',
+      delta: deltas.csat,
+      suffix: ' pts',
+    }] : []),
+    // Shares of all responses, so changes are in percentage points
+    ...(deltas.sentiment ? sentimentKeys.map((key) => ({
+      label: `${key.charAt(0).toUpperCase()}${key.slice(1)} sentiment`,
+      value: `${previousSentiment[key] + deltas.sentiment[key]}%`,
+      delta: deltas.sentiment[key],
+      suffix: ' pts',
+      lowerIsBetter: key === 'negative',
+      neutral: key === 'neutral',
+    })) : []),
+  ];
+
+  const renderTopics = (label: string, list: string[], variant: 'default' | 'secondary' | 'outline') =>
+    list.length > 0 && (
+      <div className="space-y-2">
+        <p className="text-sm font-medium">{label}</p>
+        <div className="flex flex-wrap gap-2">
+          {list.map((topic) => (
+            <Badge key={topic} variant={variant}>{topic}</Badge>
+          ))}
+        </div>
+      </div>
+    );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompareArrows className="h-5 w-5" />
+          Compared with {formatAnalysisPeriod(comparison.previousPeriod)}
+        </CardTitle>
+        <CardDescription>
+          {comparison.summary || `${previousStats.totalFeedback} responses in the previous period`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {tiles.map((tile) => (
+            <div key={tile.label} className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">{tile.label}</p>
+              <div className="flex items-baseline gap-2">
+                <span className="text-xl font-bold">{tile.value}</span>
+                <span
+                  className={`text-sm font-medium ${
+                    tile.neutral ? 'text-muted-foreground' : getDeltaClass(tile.delta, tile.lowerIsBetter)
+                  }`}
+                >
+                  {formatDelta(tile.delta, tile.suffix)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Ratings</p>
+          <div className="grid grid-cols-5 gap-2">
+            {[1, 2, 3, 4, 5].map((rating) => (
+              <div key={rating} className="rounded-lg border p-2 text-center">
+                <div className="text-sm text-muted-foreground">{rating}★</div>
+                <div className="font-semibold">{stats.ratingDistribution[rating] ?? 0}</div>
+                <div className={`text-xs ${getDeltaClass(deltas.ratingDistribution[rating] ?? 0, rating <= 2)}`}>
+                  {formatDelta(deltas.ratingDistribution[rating] ?? 0)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {(topics.emerging.length > 0 || topics.fading.length > 0 || topics.persisting.length > 0) && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderTopics('New this period', topics.emerging, 'default')}
+            {renderTopics('No longer mentioned', topics.fading, 'outline')}
+            {renderTopics('Still mentioned', topics.persisting, 'secondary')}
+          </div>
+        )}
+
+        {deltas.categories.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Categories</p>
+            {deltas.categories.map((category) => (
+              <div key={category.id ?? 'uncategorized'} className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: category.color }} />
+                  {category.name}
+                </div>
+                <div className="flex items-center gap-4">
+                  <span>
+                    {category.count}{' '}
+                    <span className="text-muted-foreground">({formatDelta(category.countDelta)})</span>
+                  </span>
+                  <span className={`w-20 text-right ${getDeltaClass(category.averageRatingDelta)}`}>
+                    {formatDelta(category.averageRatingDelta, '★')}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
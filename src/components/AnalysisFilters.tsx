@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CalendarDays, ChevronDown } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermissions';
+import { AnalysisScope } from '@/lib/feedbackAnalysis';
+import {
+  TrendRangePreset,
+  getPresetRange,
+  toDateInput,
+  trendRangePresetLabels,
+  trendRangePresets,
+} from '@/lib/feedbackTrends';
+
+interface AnalysisFiltersProps {
+  preset: TrendRangePreset;
+  onPresetChange: (preset: TrendRangePreset) => void;
+  scope: AnalysisScope;
+  onScopeChange: (scope: AnalysisScope) => void;
+}
+
+interface FilterOption {
+  id: string;
+  name: string;
+}
+
+const toggleId = (ids: string[], id: string, checked: boolean) =>
+  checked ? [...ids, id] : ids.filter((existing) => existing !== id);
+
+export const AnalysisFilters = ({ preset, onPresetChange, scope, onScopeChange }: AnalysisFiltersProps) => {
+  const { canAccessBranch } = usePermissions();
+  const [branches, setBranches] = useState<FilterOption[]>([]);
+  const [categories, setCategories] = useState<FilterOption[]>([]);
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
+
+  const fetchOptions = async () => {
+    try {
+      const [branchesResult, categoriesResult] = await Promise.all([
+        supabase.from('branches').select('id, name').eq('is_active', true).order('name'),
+        supabase.from('feedback_categories').select('id, name').eq('is_active', true).order('sort_order'),
+      ]);
+
+      if (branchesResult.error) throw branchesResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+
+      setBranches((branchesResult.data || []).filter((branch) => canAccessBranch(branch.id)));
+      setCategories(categoriesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching analysis filters:', error);
+    }
+  };
+
+  const changePreset = (value: TrendRangePreset) => {
+    onPresetChange(value);
+    if (value !== 'custom') {
+      onScopeChange({ ...scope, range: getPresetRange(value) });
+    }
+  };
+
+  const selectRange = (selected: DateRange | undefined) => {
+    if (!selected?.from) return;
+    onScopeChange({
+      ...scope,
+      range: { from: toDateInput(selected.from), to: toDateInput(selected.to ?? selected.from) },
+    });
+  };
+
+  const selectionLabel = (ids: string[], options: FilterOption[], allLabel: string) => {
+    if (ids.length === 0) return allLabel;
+    if (ids.length === 1) return options.find((option) => option.id === ids[0])?.name ?? '1 selected';
+    return `${ids.length} selected`;
+  };
+
+  const renderMultiSelect = (
+    label: string,
+    allLabel: string,
+    options: FilterOption[],
+    ids: string[],
+    onChange: (ids: string[]) => void
+  ) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="sm:w-44 justify-between">
+          <span className="truncate">{selectionLabel(ids, options, allLabel)}</span>
+          <ChevronDown className="h-4 w-4 ml-2 shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="max-h-72 overflow-y-auto">
+        <DropdownMenuLabel>{label}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={ids.length === 0}
+          onCheckedChange={() => onChange([])}
+          onSelect={(e) => e.preventDefault()}
+        >
+          {allLabel}
+        </DropdownMenuCheckboxItem>
+        {options.map((option) => (
+          <DropdownMenuCheckboxItem
+            key={option.id}
+            checked={ids.includes(option.id)}
+            onCheckedChange={(checked) => onChange(toggleId(ids, option.id, checked === true))}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {option.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:flex-wrap sm:items-center gap-2">
+      <Select value={preset} onValueChange={(value) => changePreset(value as TrendRangePreset)}>
+        <SelectTrigger className="sm:w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {trendRangePresets.map((option) => (
+            <SelectItem key={option} value={option}>{trendRangePresetLabels[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {preset === 'custom' && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="justify-start font-normal">
+              <CalendarDays className="h-4 w-4 mr-2" />
+              {format(new Date(`${scope.range.from}T00:00:00`), 'MMM d, yyyy')} –{' '}
+              {format(new Date(`${scope.range.to}T00:00:00`), 'MMM d, yyyy')}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              numberOfMonths={2}
+              defaultMonth={new Date(`${scope.range.from}T00:00:00`)}
+              selected={{
+                from: new Date(`${scope.range.from}T00:00:00`),
+                to: new Date(`${scope.range.to}T00:00:00`),
+              }}
+              onSelect={selectRange}
+              disabled={{ after: new Date() }}
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+      {branches.length > 1 && renderMultiSelect(
+        'Branches',
+        'All branches',
+        branches,
+        scope.branchIds,
+        (branchIds) => onScopeChange({ ...scope, branchIds })
+      )}
+      {categories.length > 0 && renderMultiSelect(
+        'Categories',
+        'All categories',
+        categories,
+        scope.categoryIds,
+        (categoryIds) => onScopeChange({ ...scope, categoryIds })
+      )}
+      <div className="flex items-center gap-2 sm:ml-2">
+        <Switch
+          id="compare-previous-period"
+          checked={scope.compare}
+          onCheckedChange={(compare) => onScopeChange({ ...scope, compare })}
+        />
+        <Label htmlFor="compare-previous-period" className="text-sm font-normal">
+          Compare to previous period
+        </Label>
+      </div>
+    </div>
+  );
+};
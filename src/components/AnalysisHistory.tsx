@@ -0,0 +1,453 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Eye, GitCompareArrows, History, Trash2 } from 'lucide-react';
+import {
+  AnalysisInsights,
+  AnalysisMeta,
+  AnalysisRecord,
+  formatAnalysisScope,
+  formatDelta,
+  getDeltaClass,
+} from '@/lib/feedbackAnalysis';
+
+interface AnalysisHistoryProps {
+  onOpen: (insights: AnalysisInsights, analysis: AnalysisMeta, type: string) => void;
+}
+
+interface LoadedReport {
+  record: AnalysisRecord;
+  insights: AnalysisInsights;
+}
+
+interface ComparedMetric {
+  label: string;
+  value: (insights: AnalysisInsights) => number | null;
+  format: (value: number) => string;
+  lowerIsBetter?: boolean;
+}
+
+const HISTORY_LIMIT = 50;
+
+const analysisTypeLabels: Record<string, string> = {
+  overview: 'Overview',
+  sentiment: 'Sentiment',
+  trends: 'Trends',
+  recommendations: 'Recommendations',
+};
+
+const comparedMetrics: ComparedMetric[] = [
+  {
+    label: 'Responses',
+    value: (insights) => insights.stats?.totalFeedback ?? null,
+    format: String,
+  },
+  {
+    label: 'Avg rating',
+    value: (insights) => (insights.stats?.totalFeedback ? Math.round(insights.stats.averageRating * 10) / 10 : null),
+    format: (value) => `${value.toFixed(1)}/5`,
+  },
+  {
+    label: 'NPS',
+    value: (insights) => insights.stats?.nps?.score ?? null,
+    format: String,
+  },
+  {
+    label: 'CSAT',
+    value: (insights) => insights.stats?.csat?.score ?? null,
+    format: (value) => `${value}%`,
+  },
+  {
+    label: 'Positive sentiment',
+    value: (insights) => insights.sentiment?.positive ?? null,
+    format: (value) => `${value}%`,
+  },
+  {
+    label: 'Negative sentiment',
+    value: (insights) => insights.sentiment?.negative ?? null,
+    format: (value) => `${value}%`,
+    lowerIsBetter: true,
+  },
+];
+
+const getAuthorName = (record: AnalysisRecord) =>
+  record.author?.display_name || record.author?.email || 'Former member';
+
+const toMeta = (record: AnalysisRecord): AnalysisMeta => ({
+  id: record.id,
+  model: record.model,
+  createdAt: record.created_at,
+  cached: true,
+});
+
+export const AnalysisHistory = ({ onOpen }: AnalysisHistoryProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [compared, setCompared] = useState<LoadedReport[] | null>(null);
+  const [recordToDelete, setRecordToDelete] = useState<AnalysisRecord | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      fetchHistory();
+      fetchProfileId();
+    } else {
+      setSelectedIds([]);
+      setCompared(null);
+    }
+  }, [open]);
+
+  const fetchProfileId = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) throw error;
+      setProfileId(data.id);
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  // Insights are loaded on demand; the list only needs the metadata
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('feedback_analyses')
+        .select('id, analysis_type, parameters, model, feedback_count, created_at, created_by, author:profiles(display_name, email)')
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      setRecords((data || []) as unknown as AnalysisRecord[]);
+    } catch (error) {
+      console.error('Error fetching analysis history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load analysis history",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchReports = async (ids: string[]): Promise<LoadedReport[]> => {
+    const { data, error } = await supabase
+      .from('feedback_analyses')
+      .select('id, insights')
+      .in('id', ids);
+
+    if (error) throw error;
+
+    // Oldest first so the change column reads forward in time
+    return records
+      .filter((record) => ids.includes(record.id))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map((record) => ({
+        record,
+        insights: (data?.find((row) => row.id === record.id)?.insights ?? {}) as AnalysisInsights,
+      }));
+  };
+
+  const handleOpen = async (record: AnalysisRecord) => {
+    try {
+      const [report] = await fetchReports([record.id]);
+      onOpen(report.insights, toMeta(record), record.analysis_type);
+      setOpen(false);
+    } catch (error) {
+      console.error('Error opening analysis:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open analysis",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCompare = async () => {
+    try {
+      setCompared(await fetchReports(selectedIds));
+    } catch (error) {
+      console.error('Error comparing analyses:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load analyses",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!recordToDelete) return;
+
+    try {
+      const { error } = await supabase
+        .from('feedback_analyses')
+        .delete()
+        .eq('id', recordToDelete.id);
+
+      if (error) throw error;
+
+      setRecords((prev) => prev.filter((record) => record.id !== recordToDelete.id));
+      setSelectedIds((prev) => prev.filter((id) => id !== recordToDelete.id));
+      toast({
+        title: "Analysis deleted",
+        description: "The report was removed from the history",
+      });
+    } catch (error) {
+      console.error('Error deleting analysis:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete analysis",
+        variant: "destructive",
+      });
+    } finally {
+      setRecordToDelete(null);
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((existing) => existing !== id)));
+
+  const renderList = () => (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Select two reports to compare them side by side.
+        </p>
+        <Button size="sm" onClick={handleCompare} disabled={selectedIds.length !== 2}>
+          <GitCompareArrows className="h-4 w-4 mr-2" />
+          Compare
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">Loading history...</p>
+      ) : records.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">
+          No saved analyses yet. Every analysis you run is kept here.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10" />
+              <TableHead>Created</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Scope</TableHead>
+              <TableHead className="text-right">Responses</TableHead>
+              <TableHead>Model</TableHead>
+              <TableHead>Author</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {records.map((record) => {
+              const selected = selectedIds.includes(record.id);
+              return (
+                <TableRow key={record.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected}
+                      disabled={!selected && selectedIds.length >= 2}
+                      onCheckedChange={(checked) => toggleSelected(record.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(record.created_at), 'MMM d, yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {analysisTypeLabels[record.analysis_type] ?? record.analysis_type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{formatAnalysisScope(record.parameters)}</TableCell>
+                  <TableCell className="text-right">{record.feedback_count}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{record.model}</TableCell>
+                  <TableCell className="text-sm">{getAuthorName(record)}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => handleOpen(record)} title="Open report">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      {record.created_by === profileId && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setRecordToDelete(record)}
+                          title="Delete report"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+
+  const renderItems = (label: string, items: string[] | undefined, badges = false) =>
+    items && items.length > 0 && (
+      <div className="space-y-2">
+        <p className="text-sm font-medium">{label}</p>
+        {badges ? (
+          <div className="flex flex-wrap gap-2">
+            {items.map((item) => (
+              <Badge key={item} variant="secondary">{item}</Badge>
+            ))}
+          </div>
+        ) : (
+          <ul className="list-disc pl-5 space-y-1 text-sm">
+            {items.map((item, index) => (
+              <li key={index}>{item}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+
+  const renderComparison = (reports: LoadedReport[]) => {
+    const [earlier, later] = reports;
+
+    return (
+      <div className="space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => setCompared(null)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to history
+        </Button>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              {reports.map(({ record }) => (
+                <TableHead key={record.id}>
+                  {format(new Date(record.created_at), 'MMM d, yyyy HH:mm')}
+                </TableHead>
+              ))}
+              <TableHead>Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {comparedMetrics.map((metric) => {
+              const before = metric.value(earlier.insights);
+              const after = metric.value(later.insights);
+              const delta = before !== null && after !== null ? Math.round((after - before) * 10) / 10 : null;
+              return (
+                <TableRow key={metric.label}>
+                  <TableCell className="font-medium">{metric.label}</TableCell>
+                  <TableCell>{before === null ? '—' : metric.format(before)}</TableCell>
+                  <TableCell>{after === null ? '—' : metric.format(after)}</TableCell>
+                  <TableCell className={getDeltaClass(delta, metric.lowerIsBetter)}>{formatDelta(delta)}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {reports.map(({ record, insights }) => (
+            <div key={record.id} className="space-y-4 rounded-lg border p-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">
+                    {analysisTypeLabels[record.analysis_type] ?? record.analysis_type}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {record.model} · {getAuthorName(record)}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground">{formatAnalysisScope(record.parameters)}</p>
+              </div>
+              {insights.summary && <p className="text-sm leading-relaxed">{insights.summary}</p>}
+              {renderItems('Key topics', insights.keyTopics, true)}
+              {renderItems('Trends', insights.trends)}
+              {renderItems('Priority actions', insights.priorityActions)}
+              {renderItems('Recommendations', insights.recommendations)}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm">
+            <History className="h-4 w-4 mr-2" />
+            History
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Analysis History</DialogTitle>
+            <DialogDescription>
+              {compared ? 'Two saved reports side by side' : `Your ${HISTORY_LIMIT} most recent saved analyses`}
+            </DialogDescription>
+          </DialogHeader>
+          {compared ? renderComparison(compared) : renderList()}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!recordToDelete} onOpenChange={(isOpen) => !isOpen && setRecordToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this analysis?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This saved report is permanently removed from the analysis history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,348 @@
+import React, { useState, useEffect } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { BarChart3, LineChart as LineChartIcon, Trophy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { RegionSelect } from '@/components/RegionSelect';
+import { ALL_REGIONS, Region, filterBranchesByRegion } from '@/lib/regions';
+import {
+  BranchMetrics,
+  ComparisonPeriod,
+  LeaderboardMetric,
+  TimelineMetric,
+  buildTimeline,
+  calculateBranchMetrics,
+  comparisonColors,
+  comparisonPeriodLabels,
+  comparisonPeriods,
+  formatMetric,
+  getPeriodStart,
+  leaderboardMetricLabels,
+  leaderboardMetrics,
+  maxComparedBranches,
+  rankBranches,
+  timelineMetricLabels,
+} from '@/lib/branchComparison';
+import { getBrowserTimezone } from '@/lib/branches';
+import { FeedbackDailyRow } from '@/lib/feedbackStats';
+import { toDateInput } from '@/lib/feedbackTrends';
+
+interface ComparisonBranch {
+  id: string;
+  name: string;
+  region_id: string | null;
+}
+
+export const BranchComparison = () => {
+  const { toast } = useToast();
+  const { canAccessBranch } = usePermissions();
+  const [branches, setBranches] = useState<ComparisonBranch[]>([]);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [dailyStats, setDailyStats] = useState<FeedbackDailyRow[]>([]);
+  const [period, setPeriod] = useState<ComparisonPeriod>('30d');
+  const [regionFilter, setRegionFilter] = useState(ALL_REGIONS);
+  const [leaderboardMetric, setLeaderboardMetric] = useState<LeaderboardMetric>('rating');
+  const [timelineMetric, setTimelineMetric] = useState<TimelineMetric>('volume');
+  const [comparedIds, setComparedIds] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchBranches();
+  }, []);
+
+  useEffect(() => {
+    fetchPeriodData();
+  }, [period]);
+
+  const fetchBranches = async () => {
+    try {
+      const [branchesResult, regionsResult] = await Promise.all([
+        supabase.from('branches').select('id, name, region_id').eq('is_active', true).order('name'),
+        supabase.from('regions').select('id, name, parent_id'),
+      ]);
+
+      if (branchesResult.error) throw branchesResult.error;
+      if (regionsResult.error) throw regionsResult.error;
+
+      setBranches((branchesResult.data || []).filter((branch) => canAccessBranch(branch.id)));
+      setRegions(regionsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching branches:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load branches",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchPeriodData = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_feedback_daily_stats', {
+        start_date: toDateInput(getPeriodStart(period)),
+        end_date: toDateInput(new Date()),
+        time_zone: getBrowserTimezone(),
+      });
+
+      if (error) throw error;
+      setDailyStats(data || []);
+    } catch (error) {
+      console.error('Error fetching comparison data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load branch comparison",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const visibleBranches = filterBranchesByRegion(branches, regions, regionFilter);
+  const branchNames = Object.fromEntries(branches.map((branch) => [branch.id, branch.name]));
+  const metrics = calculateBranchMetrics(visibleBranches.map((branch) => branch.id), dailyStats);
+  const metricsById = new Map(metrics.map((m) => [m.branchId, m]));
+  const leaderboard = rankBranches(metrics, leaderboardMetric);
+
+  // Until the user picks, compare the busiest branches in view
+  const compared = (comparedIds ?? rankBranches(metrics, 'volume').map((m) => m.branchId))
+    .filter((id) => metricsById.has(id))
+    .slice(0, maxComparedBranches);
+  const comparedMetrics = compared.map((id) => metricsById.get(id));
+
+  const toggleCompared = (branchId: string, checked: boolean) => {
+    setComparedIds(checked
+      ? [...compared.filter((id) => id !== branchId), branchId].slice(-maxComparedBranches)
+      : compared.filter((id) => id !== branchId));
+  };
+
+  const chartConfig: ChartConfig = Object.fromEntries(compared.map((id, index) => [
+    id,
+    { label: branchNames[id], color: comparisonColors[index % comparisonColors.length] },
+  ]));
+  const timeline = buildTimeline(period, compared, dailyStats, timelineMetric);
+
+  // Highlights the best value in each side-by-side row
+  const isBest = (branchMetrics: BranchMetrics, metric: LeaderboardMetric) =>
+    comparedMetrics.length > 1
+    && branchMetrics.volume > 0
+    && rankBranches(comparedMetrics, metric)[0].branchId === branchMetrics.branchId
+    && formatMetric(branchMetrics, metric) !== '—';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold mb-2">Branch Comparison</h2>
+          <p className="text-muted-foreground">Rank branches and compare them side by side over a period</p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          {regions.length > 0 && (
+            <RegionSelect value={regionFilter} onValueChange={setRegionFilter} regions={regions} className="sm:w-48" />
+          )}
+          <Select value={period} onValueChange={(value) => setPeriod(value as ComparisonPeriod)}>
+            <SelectTrigger className="sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {comparisonPeriods.map((option) => (
+                <SelectItem key={option} value={option}>{comparisonPeriodLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : visibleBranches.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12 text-muted-foreground">
+            No branches to compare in this view.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Trophy className="h-5 w-5" />
+                  Leaderboard
+                </CardTitle>
+                <CardDescription>
+                  Tick up to {maxComparedBranches} branches to compare them below.
+                </CardDescription>
+              </div>
+              <Select value={leaderboardMetric} onValueChange={(value) => setLeaderboardMetric(value as LeaderboardMetric)}>
+                <SelectTrigger className="md:w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {leaderboardMetrics.map((option) => (
+                    <SelectItem key={option} value={option}>{leaderboardMetricLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10"></TableHead>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Branch</TableHead>
+                    <TableHead className="text-right">{leaderboardMetricLabels[leaderboardMetric]}</TableHead>
+                    <TableHead className="text-right">Feedback</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaderboard.map((branchMetrics, index) => (
+                    <TableRow key={branchMetrics.branchId}>
+                      <TableCell>
+                        <Checkbox
+                          checked={compared.includes(branchMetrics.branchId)}
+                          onCheckedChange={(checked) => toggleCompared(branchMetrics.branchId, checked === true)}
+                          aria-label={`Compare ${branchNames[branchMetrics.branchId]}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {formatMetric(branchMetrics, leaderboardMetric) === '—' ? '—' : index + 1}
+                      </TableCell>
+                      <TableCell className="font-medium">{branchNames[branchMetrics.branchId]}</TableCell>
+                      <TableCell className="text-right">{formatMetric(branchMetrics, leaderboardMetric)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">{branchMetrics.volume}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {comparedMetrics.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BarChart3 className="h-5 w-5" />
+                  Side by Side
+                </CardTitle>
+                <CardDescription>{comparisonPeriodLabels[period]}</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Metric</TableHead>
+                      {comparedMetrics.map((branchMetrics, index) => (
+                        <TableHead key={branchMetrics.branchId} className="text-right">
+                          <span className="inline-flex items-center gap-2">
+                            <span
+                              className="h-2.5 w-2.5 rounded-full"
+                              style={{ backgroundColor: comparisonColors[index % comparisonColors.length] }}
+                            />
+                            {branchNames[branchMetrics.branchId]}
+                          </span>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {leaderboardMetrics.map((metric) => (
+                      <TableRow key={metric}>
+                        <TableCell>{leaderboardMetricLabels[metric]}</TableCell>
+                        {comparedMetrics.map((branchMetrics) => (
+                          <TableCell key={branchMetrics.branchId} className="text-right">
+                            {isBest(branchMetrics, metric) ? (
+                              <Badge variant="secondary">{formatMetric(branchMetrics, metric)}</Badge>
+                            ) : (
+                              formatMetric(branchMetrics, metric)
+                            )}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell>Pending</TableCell>
+                      {comparedMetrics.map((branchMetrics) => (
+                        <TableCell key={branchMetrics.branchId} className="text-right">{branchMetrics.pending}</TableCell>
+                      ))}
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {compared.length > 0 && (
+            <Card>
+              <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <LineChartIcon className="h-5 w-5" />
+                    Timeline
+                  </CardTitle>
+                  <CardDescription>The compared branches on one timeline</CardDescription>
+                </div>
+                <Select value={timelineMetric} onValueChange={(value) => setTimelineMetric(value as TimelineMetric)}>
+                  <SelectTrigger className="md:w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(timelineMetricLabels) as TimelineMetric[]).map((option) => (
+                      <SelectItem key={option} value={option}>{timelineMetricLabels[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                  <LineChart data={timeline} margin={{ left: 0, right: 12, top: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      width={32}
+                      allowDecimals={timelineMetric === 'rating'}
+                      domain={timelineMetric === 'rating' ? [1, 5] : [0, 'auto']}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {compared.map((id) => (
+                      <Line
+                        key={id}
+                        dataKey={id}
+                        type="monotone"
+                        stroke={`var(--color-${id})`}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { getStaffName } from '@/hooks/useFeedbackAssignment';
+import { getRoleLabel, multiBranchRoles, organizationWideRoles, Role } from '@/lib/permissions';
+import {
+  BranchDetails,
+  DEFAULT_DAY_HOURS,
+  OpeningHours,
+  formatDayHours,
+  getBrowserTimezone,
+  getTimezones,
+  isValidDayHours,
+  parseOpeningHours,
+  weekdayLabels,
+  weekdays,
+} from '@/lib/branches';
+import { Region, flattenRegions } from '@/lib/regions';
+
+interface ManagerCandidate {
+  profile_id: string;
+  role: string;
+  branch_id: string | null;
+  profile: {
+    display_name: string | null;
+    email: string | null;
+  } | null;
+}
+
+interface BranchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  branch: BranchDetails | null;
+  regions: Region[];
+  onSaved?: (branchId: string) => void;
+}
+
+const NO_MANAGER = 'none';
+const NO_REGION = 'none';
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const BranchDialog = ({ open, onOpenChange, branch, regions, onSaved }: BranchDialogProps) => {
+  const { toast } = useToast();
+  const { currentOrganization } = useOrganization();
+  const [name, setName] = useState('');
+  const [location, setLocation] = useState('');
+  const [description, setDescription] = useState('');
+  const [timezone, setTimezone] = useState('UTC');
+  const [openingHours, setOpeningHours] = useState<OpeningHours>({});
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [managerId, setManagerId] = useState(NO_MANAGER);
+  const [regionId, setRegionId] = useState(NO_REGION);
+  const [candidates, setCandidates] = useState<ManagerCandidate[]>([]);
+  const [branchNames, setBranchNames] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const timezones = getTimezones();
+
+  useEffect(() => {
+    if (open) {
+      setName(branch?.name || '');
+      setLocation(branch?.location || '');
+      setDescription(branch?.description || '');
+      setTimezone(branch?.timezone || getBrowserTimezone());
+      setOpeningHours(parseOpeningHours(branch?.opening_hours));
+      setPhone(branch?.phone || '');
+      setEmail(branch?.email || '');
+      setManagerId(branch?.manager_id || NO_MANAGER);
+      setRegionId(branch?.region_id || NO_REGION);
+      fetchCandidates();
+    }
+  }, [open, branch]);
+
+  const fetchCandidates = async () => {
+    if (!currentOrganization) return;
+
+    try {
+      const [membersResult, branchesResult] = await Promise.all([
+        supabase
+          .from('organization_members')
+          .select('profile_id, role, branch_id, profile:profiles(display_name, email)')
+          .eq('organization_id', currentOrganization.id),
+        supabase.from('branches').select('id, name'),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+      if (branchesResult.error) throw branchesResult.error;
+
+      setCandidates(
+        (membersResult.data || [])
+          .filter((member) => member.role !== 'analyst')
+          .sort((a, b) => getStaffName(a.profile).localeCompare(getStaffName(b.profile)))
+      );
+      setBranchNames(Object.fromEntries((branchesResult.data || []).map((b) => [b.id, b.name])));
+    } catch (error) {
+      console.error('Error fetching branch managers:', error);
+    }
+  };
+
+  const toggleDay = (day: keyof OpeningHours, isOpen: boolean) => {
+    setOpeningHours((prev) => ({ ...prev, [day]: isOpen ? (prev[day] || DEFAULT_DAY_HOURS) : null }));
+  };
+
+  const updateDay = (day: keyof OpeningHours, field: 'open' | 'close', value: string) => {
+    setOpeningHours((prev) => ({ ...prev, [day]: { ...(prev[day] || DEFAULT_DAY_HOURS), [field]: value } }));
+  };
+
+  const invalidDays = weekdays.filter((day) => openingHours[day] && !isValidDayHours(openingHours[day]));
+  const emailInvalid = !!email.trim() && !emailPattern.test(email.trim());
+  const canSave = !!name.trim() && invalidDays.length === 0 && !emailInvalid;
+
+  const selectedManager = candidates.find((candidate) => candidate.profile_id === managerId);
+
+  // Explains what assigning this person does to their own branch before it happens
+  const getManagerHint = () => {
+    if (!selectedManager || selectedManager.profile_id === branch?.manager_id) return null;
+
+    const role = selectedManager.role as Role;
+    const managerName = getStaffName(selectedManager.profile);
+    if (organizationWideRoles.includes(role)) {
+      return `${managerName} already covers every branch as ${getRoleLabel(role)}.`;
+    }
+    if (multiBranchRoles.includes(role)) {
+      return selectedManager.branch_id && selectedManager.branch_id !== branch?.id
+        ? `${managerName} keeps ${branchNames[selectedManager.branch_id] || 'their branch'} and covers this branch too.`
+        : null;
+    }
+
+    const move = selectedManager.branch_id && selectedManager.branch_id !== branch?.id
+      ? `${managerName} will move from ${branchNames[selectedManager.branch_id] || 'their branch'} to this branch.`
+      : `${managerName} will be assigned to this branch.`;
+    return role === 'branch_manager'
+      ? move
+      : `${move} As ${getRoleLabel(role)}, they won't get manager permissions until their role is changed.`;
+  };
+
+  const managerHint = getManagerHint();
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      const values = {
+        name: name.trim(),
+        location: location.trim() || null,
+        description: description.trim() || null,
+        timezone,
+        opening_hours: Object.fromEntries(weekdays.map((day) => [day, openingHours[day] || null])),
+        phone: phone.trim() || null,
+        email: email.trim() || null,
+        manager_id: managerId === NO_MANAGER ? null : managerId,
+        region_id: regionId === NO_REGION ? null : regionId,
+      };
+
+      const { data, error } = branch
+        ? await supabase.from('branches').update(values).eq('id', branch.id).select('id').single()
+        : await supabase.from('branches').insert(values).select('id').single();
+
+      if (error) throw error;
+
+      toast({
+        title: branch ? "Branch updated" : "Branch created",
+        description: `${values.name} has been saved`,
+      });
+      onOpenChange(false);
+      onSaved?.(data.id);
+    } catch (error) {
+      console.error('Error saving branch:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save branch",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{branch ? 'Edit Branch' : 'New Branch'}</DialogTitle>
+          <DialogDescription>
+            Business details shown to staff, plus who manages the branch.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="branch-name">Name</Label>
+              <Input
+                id="branch-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="branch-location">Location</Label>
+              <Input
+                id="branch-location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="e.g., 12 High Street, Leeds"
+                maxLength={200}
+              />
+            </div>
+          </div>
+
+          {regions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Region</Label>
+              <Select value={regionId} onValueChange={setRegionId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_REGION}>No region</SelectItem>
+                  {flattenRegions(regions).map(({ region, depth }) => (
+                    <SelectItem key={region.id} value={region.id}>
+                      <span style={{ paddingLeft: depth * 12 }}>{region.name}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="branch-description">Description</Label>
+            <Textarea
+              id="branch-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="branch-phone">Phone</Label>
+              <Input
+                id="branch-phone"
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                maxLength={30}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="branch-email">Email</Label>
+              <Input
+                id="branch-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              {emailInvalid && <p className="text-sm text-destructive">Enter a valid email address.</p>}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Manager</Label>
+              <Select value={managerId} onValueChange={setManagerId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MANAGER}>No manager</SelectItem>
+                  {candidates.map((candidate) => (
+                    <SelectItem key={candidate.profile_id} value={candidate.profile_id}>
+                      {getStaffName(candidate.profile)} · {getRoleLabel(candidate.role)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Time zone</Label>
+              <Select value={timezone} onValueChange={setTimezone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(timezones.includes(timezone) ? timezones : [timezone, ...timezones]).map((zone) => (
+                    <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {managerHint && <p className="text-xs text-muted-foreground">{managerHint}</p>}
+
+          <div className="space-y-2">
+            <Label>Opening hours</Label>
+            <div className="space-y-2 rounded-md border p-3">
+              {weekdays.map((day) => {
+                const hours = openingHours[day];
+                return (
+                  <div key={day} className="flex items-center gap-3">
+                    <Switch
+                      checked={!!hours}
+                      onCheckedChange={(checked) => toggleDay(day, checked)}
+                      aria-label={`Open on ${weekdayLabels[day]}`}
+                    />
+                    <span className="w-24 text-sm">{weekdayLabels[day]}</span>
+                    {hours ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="time"
+                          className="w-28"
+                          value={hours.open}
+                          onChange={(e) => updateDay(day, 'open', e.target.value)}
+                        />
+                        <span className="text-muted-foreground">to</span>
+                        <Input
+                          type="time"
+                          className="w-28"
+                          value={hours.close}
+                          onChange={(e) => updateDay(day, 'close', e.target.value)}
+                        />
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">{formatDayHours(hours)}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {invalidDays.length > 0 ? (
+              <p className="text-sm text-destructive">
+                Check the hours for {invalidDays.map((day) => weekdayLabels[day]).join(', ')}.
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                A closing time before the opening time runs past midnight.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !canSave}>
+            {isSaving ? 'Saving...' : branch ? 'Save' : 'Create branch'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,9 +3,20 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { 
   Building, 
   QrCode, 
@@ -16,29 +27,52 @@ import {
   TrendingUp,
   Star,
   Calendar,
-  Filter,
-  Search,
-  ChevronDown
+  ChevronDown,
+  Clock,
+  Mail,
+  Pencil,
+  Phone,
+  Plus,
+  UserCog,
+  FolderTree
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
-
-interface Branch {
-  id: string;
-  name: string;
-  location?: string;
-  description?: string;
-  is_active: boolean;
-  created_at: string;
-  manager_id?: string;
+import { FeedbackList } from '@/components/FeedbackList';
+import { FeedbackRoutingRules } from '@/components/FeedbackRoutingRules';
+import { FeedbackCategoryBreakdown } from '@/components/FeedbackCategoryBreakdown';
+import { BranchDialog } from '@/components/BranchDialog';
+import { QRCodeDesignDialog } from '@/components/QRCodeDesignDialog';
+import { QRCodeImage } from '@/components/QRCodeImage';
+import { RegionManagerDialog } from '@/components/RegionManagerDialog';
+import { RegionRollup } from '@/components/RegionRollup';
+import { RegionSelect } from '@/components/RegionSelect';
+import { getStaffName, useFeedbackAssignment } from '@/hooks/useFeedbackAssignment';
+import { useFeedbackFilters } from '@/hooks/useFeedbackFilters';
+import { usePermissions } from '@/hooks/usePermissions';
+import { CategoryBreakdown, FeedbackCategory, calculateCategoryBreakdown } from '@/lib/feedbackCategories';
+import { FeedbackSummaryRow, Trend, averageOf, getMonthTrends, sumSummaryRows } from '@/lib/feedbackStats';
+import { getQrCodeStatus } from '@/lib/qrCodes';
+import { backfillQrImages } from '@/lib/qrImages';
+import { BranchDetails, formatDayHours, getBrowserTimezone, parseOpeningHours, weekdayLabels, weekdays } from '@/lib/branches';
+import { ALL_REGIONS, Region, filterBranchesByRegion } from '@/lib/regions';
+
+interface Branch extends BranchDetails {
+  manager: {
+    display_name: string | null;
+    email: string | null;
+  } | null;
 }
 
 interface BranchQRCode {
   id: string;
   name?: string;
-  qr_code_url: string;
+  organization_id: string;
   feedback_url: string;
+  image_path: string | null;
   is_active: boolean;
+  starts_at: string | null;
+  ends_at: string | null;
   created_at: string;
 }
 
@@ -47,65 +81,99 @@ interface BranchAnalytics {
   pendingFeedback: number;
   averageRating: number;
   responsesThisMonth: number;
-  responsesTrend: string;
-  satisfactionTrend: string;
+  responsesTrend: Trend;
+  satisfactionTrend: Trend;
+  categoryBreakdown: CategoryBreakdown[];
 }
 
-interface BranchFeedback {
-  id: string;
-  subject: string;
-  message: string;
-  rating: number;
-  status: string;
-  priority: string;
-  customer_name?: string;
-  customer_email?: string;
-  created_at: string;
-  branch_id?: string;
-}
+const NO_BRANCH = 'none';
+
+const getBranchAnalytics = (
+  summary: FeedbackSummaryRow[],
+  categories: Pick<FeedbackCategory, 'id' | 'name' | 'color'>[]
+): BranchAnalytics => {
+  const totals = sumSummaryRows(summary);
+
+  return {
+    totalFeedback: totals.total,
+    pendingFeedback: totals.pending,
+    averageRating: averageOf(totals.rating_sum, totals.total) ?? 0,
+    responsesThisMonth: totals.this_month,
+    ...getMonthTrends(totals),
+    categoryBreakdown: calculateCategoryBreakdown(summary, categories),
+  };
+};
 
 const BranchManagement = () => {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { getAssignableStaff } = useFeedbackAssignment();
+  const { can, canAccessBranch, loading: permissionsLoading } = usePermissions();
+  const { updateFilters } = useFeedbackFilters();
   const [branches, setBranches] = useState<Branch[]>([]);
   const [selectedBranch, setSelectedBranch] = useState<Branch | null>(null);
   const [branchQRCodes, setBranchQRCodes] = useState<BranchQRCode[]>([]);
-  const [branchAnalytics, setBranchAnalytics] = useState<BranchAnalytics | null>(null);
-  const [branchFeedback, setBranchFeedback] = useState<BranchFeedback[]>([]);
-  const [filteredFeedback, setFilteredFeedback] = useState<BranchFeedback[]>([]);
+  const [designQRCode, setDesignQRCode] = useState<BranchQRCode | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
-  const [feedbackFilters, setFeedbackFilters] = useState({
-    search: '',
-    status: 'all',
-    rating: 'all',
-    priority: 'all'
-  });
+  const [showInactive, setShowInactive] = useState(false);
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [isBranchDialogOpen, setIsBranchDialogOpen] = useState(false);
+  const [branchToDeactivate, setBranchToDeactivate] = useState<Branch | null>(null);
+  const [reassignTo, setReassignTo] = useState(NO_BRANCH);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [regionFilter, setRegionFilter] = useState(ALL_REGIONS);
+  // Per-branch totals from the database; null until the first load
+  const [feedbackSummary, setFeedbackSummary] = useState<FeedbackSummaryRow[] | null>(null);
+  const [categories, setCategories] = useState<Pick<FeedbackCategory, 'id' | 'name' | 'color'>[]>([]);
+  const [isRegionDialogOpen, setIsRegionDialogOpen] = useState(false);
+
+  const canEditRouting = !!selectedBranch && can('routing.manage', selectedBranch.id);
+  const branchAnalytics = selectedBranch && feedbackSummary
+    ? getBranchAnalytics(feedbackSummary.filter((row) => row.branch_id === selectedBranch.id), categories)
+    : null;
+  const canManageBranches = can('branches.manage');
+  // Regional and branch managers only see the branches in their scope
+  const visibleBranches = filterBranchesByRegion(
+    branches.filter((branch) => (showInactive || branch.is_active) && canAccessBranch(branch.id)),
+    regions,
+    regionFilter
+  );
 
   useEffect(() => {
-    fetchBranches();
+    fetchRegions();
+    fetchCategories();
+    fetchFeedbackSummary();
   }, []);
 
+  // The default selection depends on which branches the caller can access
+  useEffect(() => {
+    if (!permissionsLoading) fetchBranches();
+  }, [permissionsLoading]);
+
   useEffect(() => {
     if (selectedBranch) {
-      fetchBranchData(selectedBranch.id);
+      fetchBranchQRCodes(selectedBranch.id);
     }
   }, [selectedBranch]);
 
-  const fetchBranches = async () => {
+  const fetchBranches = async (selectBranchId?: string) => {
     try {
       const { data, error } = await supabase
         .from('branches')
-        .select('*')
-        .eq('is_active', true)
+        .select('*, manager:profiles(display_name, email)')
         .order('name');
 
       if (error) throw error;
 
       setBranches(data || []);
-      if (data && data.length > 0 && !selectedBranch) {
-        setSelectedBranch(data[0]);
-      }
+      // Keep the current selection, refreshed, unless a specific branch was asked for
+      const targetId = selectBranchId ?? selectedBranch?.id;
+      setSelectedBranch(
+        data?.find((branch) => branch.id === targetId)
+          ?? data?.find((branch) => branch.is_active && canAccessBranch(branch.id))
+          ?? null
+      );
     } catch (error) {
       console.error('Error fetching branches:', error);
       toast({
@@ -118,129 +186,125 @@ const BranchManagement = () => {
     }
   };
 
-  const fetchBranchData = async (branchId: string) => {
-    await Promise.all([
-      fetchBranchQRCodes(branchId),
-      fetchBranchAnalytics(branchId),
-      fetchBranchFeedback(branchId)
-    ]);
+  const fetchRegions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('regions')
+        .select('id, name, parent_id')
+        .order('name');
+
+      if (error) throw error;
+      setRegions(data || []);
+    } catch (error) {
+      console.error('Error fetching regions:', error);
+    }
   };
 
-  const fetchBranchQRCodes = async (branchId: string) => {
+  const fetchCategories = async () => {
     try {
       const { data, error } = await supabase
-        .from('qr_codes')
-        .select('*')
-        .eq('branch_id', branchId)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false });
+        .from('feedback_categories')
+        .select('id, name, color');
 
       if (error) throw error;
-      setBranchQRCodes(data || []);
+      setCategories(data || []);
     } catch (error) {
-      console.error('Error fetching branch QR codes:', error);
-      setBranchQRCodes([]);
+      console.error('Error fetching categories:', error);
     }
   };
 
-  const fetchBranchFeedback = async (branchId: string) => {
+  // Feeds both the regional roll-up and the selected branch's analytics
+  const fetchFeedbackSummary = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_feedback_summary', { time_zone: getBrowserTimezone() });
+
+      if (error) throw error;
+      setFeedbackSummary(data || []);
+    } catch (error) {
+      console.error('Error fetching feedback summary:', error);
+      setFeedbackSummary(null);
+    }
+  };
+
+  const fetchBranchQRCodes = async (branchId: string) => {
     try {
       const { data, error } = await supabase
-        .from('feedback')
-        .select('*')
+        .from('qr_codes')
+        .select('id, name, organization_id, feedback_url, image_path, is_active, starts_at, ends_at, created_at')
         .eq('branch_id', branchId)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setBranchFeedback(data || []);
+      // Scheduled and expired codes are switched on but don't show the form yet (or any more)
+      const activeQRCodes = (data || []).filter((qrCode) => getQrCodeStatus(qrCode) === 'active');
+      setBranchQRCodes(activeQRCodes);
+
+      if (can('qr_codes.manage', branchId) && activeQRCodes.some((qrCode) => !qrCode.image_path)) {
+        setBranchQRCodes(await backfillQrImages(activeQRCodes));
+      }
     } catch (error) {
-      console.error('Error fetching branch feedback:', error);
-      setBranchFeedback([]);
+      console.error('Error fetching branch QR codes:', error);
+      setBranchQRCodes([]);
     }
   };
 
-  const fetchBranchAnalytics = async (branchId: string) => {
+  const openBranchDialog = (branch: Branch | null) => {
+    setEditingBranch(branch);
+    setIsBranchDialogOpen(true);
+  };
+
+  const handleDeactivate = async () => {
+    if (!branchToDeactivate) return;
+
     try {
-      const { data: feedback, error } = await supabase
-        .from('feedback')
-        .select('rating, status, created_at')
-        .eq('branch_id', branchId);
+      const { error } = await supabase.rpc('deactivate_branch', {
+        branch_uuid: branchToDeactivate.id,
+        reassign_to: reassignTo === NO_BRANCH ? null : reassignTo,
+      });
 
       if (error) throw error;
 
-      const now = new Date();
-      const thisMonth = feedback?.filter(f => {
-        const createdAt = new Date(f.created_at);
-        return createdAt.getMonth() === now.getMonth() && 
-               createdAt.getFullYear() === now.getFullYear();
-      }) || [];
-
-      const lastMonth = feedback?.filter(f => {
-        const createdAt = new Date(f.created_at);
-        const lastMonthDate = new Date(now.getFullYear(), now.getMonth() - 1);
-        return createdAt.getMonth() === lastMonthDate.getMonth() && 
-               createdAt.getFullYear() === lastMonthDate.getFullYear();
-      }) || [];
-
-      const totalFeedback = feedback?.length || 0;
-      const pendingFeedback = feedback?.filter(f => f.status === 'pending').length || 0;
-      const averageRating = feedback?.length > 0 
-        ? feedback.reduce((sum, f) => sum + f.rating, 0) / feedback.length 
-        : 0;
-
-      const responsesTrend = thisMonth.length > lastMonth.length ? 'up' : 
-                           thisMonth.length < lastMonth.length ? 'down' : 'stable';
-
-      const thisMonthAvgRating = thisMonth.length > 0 
-        ? thisMonth.reduce((sum, f) => sum + f.rating, 0) / thisMonth.length 
-        : 0;
-      const lastMonthAvgRating = lastMonth.length > 0 
-        ? lastMonth.reduce((sum, f) => sum + f.rating, 0) / lastMonth.length 
-        : 0;
-
-      const satisfactionTrend = thisMonthAvgRating > lastMonthAvgRating ? 'up' : 
-                              thisMonthAvgRating < lastMonthAvgRating ? 'down' : 'stable';
-
-      setBranchAnalytics({
-        totalFeedback,
-        pendingFeedback,
-        averageRating: Math.round(averageRating * 10) / 10,
-        responsesThisMonth: thisMonth.length,
-        responsesTrend,
-        satisfactionTrend
+      toast({
+        title: "Branch deactivated",
+        description: `${branchToDeactivate.name} no longer appears in branch lists`,
       });
+      setShowInactive(true);
+      fetchBranches(branchToDeactivate.id);
     } catch (error) {
-      console.error('Error fetching branch analytics:', error);
-      setBranchAnalytics(null);
+      console.error('Error deactivating branch:', error);
+      toast({
+        title: "Error",
+        description: "Failed to deactivate branch",
+        variant: "destructive",
+      });
+    } finally {
+      setBranchToDeactivate(null);
     }
   };
 
-  // Filter feedback based on current filters
-  useEffect(() => {
-    let filtered = branchFeedback;
-
-    if (feedbackFilters.search) {
-      filtered = filtered.filter(f => 
-        f.subject.toLowerCase().includes(feedbackFilters.search.toLowerCase()) ||
-        f.message.toLowerCase().includes(feedbackFilters.search.toLowerCase()) ||
-        (f.customer_name && f.customer_name.toLowerCase().includes(feedbackFilters.search.toLowerCase()))
-      );
-    }
-
-    if (feedbackFilters.status !== 'all') {
-      filtered = filtered.filter(f => f.status === feedbackFilters.status);
-    }
+  const handleReactivate = async (branch: Branch) => {
+    try {
+      const { error } = await supabase
+        .from('branches')
+        .update({ is_active: true })
+        .eq('id', branch.id);
 
-    if (feedbackFilters.rating !== 'all') {
-      filtered = filtered.filter(f => f.rating.toString() === feedbackFilters.rating);
-    }
+      if (error) throw error;
 
-    if (feedbackFilters.priority !== 'all') {
-      filtered = filtered.filter(f => f.priority === feedbackFilters.priority);
+      toast({
+        title: "Branch reactivated",
+        description: `${branch.name} is collecting feedback again`,
+      });
+      fetchBranches(branch.id);
+    } catch (error) {
+      console.error('Error reactivating branch:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reactivate branch",
+        variant: "destructive",
+      });
     }
-
-    setFilteredFeedback(filtered);
-  }, [branchFeedback, feedbackFilters]);
+  };
 
   const getTrendIcon = (trend: string) => {
     switch (trend) {
@@ -253,33 +317,6 @@ const BranchManagement = () => {
     }
   };
 
-  const downloadQRCode = async (qrCodeUrl: string, name: string) => {
-    try {
-      const response = await fetch(qrCodeUrl);
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = `${name || 'qr-code'}.png`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-      
-      toast({
-        title: "Download started",
-        description: "QR code is being downloaded",
-      });
-    } catch (error) {
-      toast({
-        title: "Download failed",
-        description: "Failed to download QR code",
-        variant: "destructive",
-      });
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -293,11 +330,36 @@ const BranchManagement = () => {
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center gap-2">
-        <Building className="h-5 w-5" />
-        <h2 className="text-2xl font-bold">Branch Management</h2>
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Building className="h-5 w-5" />
+          <h2 className="text-2xl font-bold">Branch Management</h2>
+        </div>
+        {canManageBranches && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsRegionDialogOpen(true)}>
+              <FolderTree className="h-4 w-4 mr-2" />
+              Regions
+            </Button>
+            <Button onClick={() => openBranchDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New branch
+            </Button>
+          </div>
+        )}
       </div>
 
+      {visibleBranches.length > 1 && (
+        <RegionRollup
+          regions={regions}
+          branches={visibleBranches}
+          summary={feedbackSummary || []}
+          regionFilter={regionFilter}
+          selectedBranchId={selectedBranch?.id}
+          onSelectBranch={(branchId) => setSelectedBranch(branches.find((branch) => branch.id === branchId) ?? null)}
+        />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Branch Selection Sidebar */}
         <div className="lg:col-span-1">
@@ -305,10 +367,19 @@ const BranchManagement = () => {
             <CardHeader>
               <CardTitle className="text-lg">Branches</CardTitle>
               <CardDescription>Select a branch to manage</CardDescription>
+              {regions.length > 0 && (
+                <RegionSelect value={regionFilter} onValueChange={setRegionFilter} regions={regions} className="mt-2" />
+              )}
+              {branches.some((branch) => !branch.is_active) && (
+                <div className="flex items-center gap-2 pt-2">
+                  <Switch id="show-inactive-branches" checked={showInactive} onCheckedChange={setShowInactive} />
+                  <Label htmlFor="show-inactive-branches" className="text-sm font-normal">Show inactive</Label>
+                </div>
+              )}
             </CardHeader>
             <CardContent className="p-0">
               <div className="space-y-1">
-                {branches.map((branch) => (
+                {visibleBranches.map((branch) => (
                   <button
                     key={branch.id}
                     onClick={() => setSelectedBranch(branch)}
@@ -329,6 +400,9 @@ const BranchManagement = () => {
                       <Badge variant="secondary" className="text-xs">
                         {branchQRCodes.length} QR Codes
                       </Badge>
+                      {!branch.is_active && (
+                        <Badge variant="outline" className="text-xs">Inactive</Badge>
+                      )}
                     </div>
                   </button>
                 ))}
@@ -344,14 +418,88 @@ const BranchManagement = () => {
               {/* Branch Header */}
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Building className="h-5 w-5" />
-                    {selectedBranch.name}
-                  </CardTitle>
-                  <CardDescription>
-                    {selectedBranch.description || selectedBranch.location || 'Branch details and analytics'}
-                  </CardDescription>
+                  <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        <Building className="h-5 w-5" />
+                        {selectedBranch.name}
+                        {!selectedBranch.is_active && <Badge variant="outline">Inactive</Badge>}
+                      </CardTitle>
+                      <CardDescription>
+                        {selectedBranch.description || selectedBranch.location || 'Branch details and analytics'}
+                      </CardDescription>
+                    </div>
+                    {canManageBranches && (
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openBranchDialog(selectedBranch)}>
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit
+                        </Button>
+                        {selectedBranch.is_active ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setReassignTo(NO_BRANCH);
+                              setBranchToDeactivate(selectedBranch);
+                            }}
+                          >
+                            Deactivate
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => handleReactivate(selectedBranch)}>
+                            Reactivate
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
                 </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <UserCog className="h-4 w-4 text-muted-foreground" />
+                      {selectedBranch.manager ? getStaffName(selectedBranch.manager) : 'No manager assigned'}
+                    </div>
+                    {selectedBranch.location && (
+                      <div className="flex items-center gap-2">
+                        <MapPin className="h-4 w-4 text-muted-foreground" />
+                        {selectedBranch.location}
+                      </div>
+                    )}
+                    {selectedBranch.phone && (
+                      <div className="flex items-center gap-2">
+                        <Phone className="h-4 w-4 text-muted-foreground" />
+                        <a href={`tel:${selectedBranch.phone}`} className="hover:underline">{selectedBranch.phone}</a>
+                      </div>
+                    )}
+                    {selectedBranch.email && (
+                      <div className="flex items-center gap-2">
+                        <Mail className="h-4 w-4 text-muted-foreground" />
+                        <a href={`mailto:${selectedBranch.email}`} className="hover:underline">{selectedBranch.email}</a>
+                      </div>
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                      Opening hours ({selectedBranch.timezone.replace(/_/g, ' ')})
+                    </div>
+                    {(() => {
+                      const hours = parseOpeningHours(selectedBranch.opening_hours);
+                      return weekdays.some((day) => hours[day]) ? (
+                        weekdays.map((day) => (
+                          <div key={day} className="flex justify-between max-w-xs text-muted-foreground">
+                            <span>{weekdayLabels[day]}</span>
+                            <span>{formatDayHours(hours[day])}</span>
+                          </div>
+                        ))
+                      ) : (
+                        <p className="text-muted-foreground">Not set</p>
+                      );
+                    })()}
+                  </div>
+                </CardContent>
               </Card>
 
               {/* Analytics Overview */}
@@ -411,215 +559,49 @@ const BranchManagement = () => {
 
               {/* Tabbed Content */}
               <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                <TabsList className="grid w-full grid-cols-3">
+                <TabsList className={`grid w-full ${canEditRouting ? 'grid-cols-4' : 'grid-cols-3'}`}>
                   <TabsTrigger value="overview">Overview</TabsTrigger>
                   <TabsTrigger value="feedback">
-                    Feedback ({filteredFeedback.length})
+                    Feedback ({branchAnalytics?.totalFeedback ?? 0})
                   </TabsTrigger>
                   <TabsTrigger value="qr-codes">
                     QR Codes ({branchQRCodes.length})
                   </TabsTrigger>
+                  {canEditRouting && (
+                    <TabsTrigger value="routing">Routing</TabsTrigger>
+                  )}
                 </TabsList>
 
                 <TabsContent value="overview" className="space-y-4">
                   <Card>
                     <CardHeader>
-                      <CardTitle>Branch Analytics Overview</CardTitle>
+                      <CardTitle className="flex items-center gap-2">
+                        <BarChart3 className="h-5 w-5" />
+                        Feedback by Category
+                      </CardTitle>
                       <CardDescription>
-                        Complete analytics for {selectedBranch.name} branch
+                        What customers at {selectedBranch.name} talk about. Click a category to see its feedback.
                       </CardDescription>
                     </CardHeader>
                     <CardContent>
-                      <div className="text-center py-4">
-                        <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                        <p className="text-muted-foreground">
-                          Detailed analytics charts and insights will be displayed here
-                        </p>
-                      </div>
+                      <FeedbackCategoryBreakdown
+                        breakdown={branchAnalytics?.categoryBreakdown || []}
+                        onSelect={(categoryId) => {
+                          updateFilters({ category: categoryId ?? 'none' });
+                          setActiveTab('feedback');
+                        }}
+                      />
                     </CardContent>
                   </Card>
                 </TabsContent>
 
                 <TabsContent value="feedback" className="space-y-4">
-                  {/* Feedback Filters */}
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="flex items-center gap-2">
-                        <Filter className="h-5 w-5" />
-                        Filter Feedback
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                        <div className="space-y-2">
-                          <label className="text-sm font-medium">Search</label>
-                          <div className="relative">
-                            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                            <Input
-                              placeholder="Search feedback..."
-                              value={feedbackFilters.search}
-                              onChange={(e) => setFeedbackFilters(prev => ({ ...prev, search: e.target.value }))}
-                              className="pl-10"
-                            />
-                          </div>
-                        </div>
-
-                        <div className="space-y-2">
-                          <label className="text-sm font-medium">Status</label>
-                          <Select 
-                            value={feedbackFilters.status} 
-                            onValueChange={(value) => setFeedbackFilters(prev => ({ ...prev, status: value }))}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="All statuses" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="all">All Statuses</SelectItem>
-                              <SelectItem value="pending">Pending</SelectItem>
-                              <SelectItem value="in_progress">In Progress</SelectItem>
-                              <SelectItem value="resolved">Resolved</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </div>
-
-                        <div className="space-y-2">
-                          <label className="text-sm font-medium">Rating</label>
-                          <Select 
-                            value={feedbackFilters.rating} 
-                            onValueChange={(value) => setFeedbackFilters(prev => ({ ...prev, rating: value }))}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="All ratings" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="all">All Ratings</SelectItem>
-                              <SelectItem value="5">5 Stars</SelectItem>
-                              <SelectItem value="4">4 Stars</SelectItem>
-                              <SelectItem value="3">3 Stars</SelectItem>
-                              <SelectItem value="2">2 Stars</SelectItem>
-                              <SelectItem value="1">1 Star</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </div>
-
-                        <div className="space-y-2">
-                          <label className="text-sm font-medium">Priority</label>
-                          <Select 
-                            value={feedbackFilters.priority} 
-                            onValueChange={(value) => setFeedbackFilters(prev => ({ ...prev, priority: value }))}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="All priorities" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="all">All Priorities</SelectItem>
-                              <SelectItem value="high">High</SelectItem>
-                              <SelectItem value="medium">Medium</SelectItem>
-                              <SelectItem value="low">Low</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-
-                  {/* Feedback List */}
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="flex items-center gap-2">
-                        <MessageSquare className="h-5 w-5" />
-                        Branch Feedback ({filteredFeedback.length})
-                      </CardTitle>
-                      <CardDescription>
-                        Customer feedback for {selectedBranch.name}
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      {filteredFeedback.length > 0 ? (
-                        <div className="space-y-4">
-                          {filteredFeedback.map((feedback) => (
-                            <Card key={feedback.id} className="p-4">
-                              <div className="space-y-3">
-                                <div className="flex items-start justify-between">
-                                  <div className="space-y-1">
-                                    <h4 className="font-medium">{feedback.subject}</h4>
-                                    <div className="flex items-center gap-2">
-                                      <div className="flex items-center">
-                                        {[...Array(5)].map((_, i) => (
-                                          <Star
-                                            key={i}
-                                            className={`h-4 w-4 ${
-                                              i < feedback.rating
-                                                ? 'text-yellow-400 fill-current'
-                                                : 'text-gray-300'
-                                            }`}
-                                          />
-                                        ))}
-                                      </div>
-                                      <Badge 
-                                        variant={
-                                          feedback.status === 'resolved' ? 'default' :
-                                          feedback.status === 'in_progress' ? 'secondary' : 'outline'
-                                        }
-                                      >
-                                        {feedback.status}
-                                      </Badge>
-                                      <Badge 
-                                        variant={
-                                          feedback.priority === 'high' ? 'destructive' :
-                                          feedback.priority === 'medium' ? 'secondary' : 'outline'
-                                        }
-                                      >
-                                        {feedback.priority}
-                                      </Badge>
-                                    </div>
-                                  </div>
-                                  <div className="text-sm text-muted-foreground">
-                                    {new Date(feedback.created_at).toLocaleDateString()}
-                                  </div>
-                                </div>
-                                
-                                <p className="text-sm text-muted-foreground line-clamp-2">
-                                  {feedback.message}
-                                </p>
-                                
-                                {feedback.customer_name && (
-                                  <div className="text-sm">
-                                    <span className="font-medium">From:</span> {feedback.customer_name}
-                                    {feedback.customer_email && (
-                                      <span className="text-muted-foreground ml-2">
-                                        ({feedback.customer_email})
-                                      </span>
-                                    )}
-                                  </div>
-                                )}
-                              </div>
-                            </Card>
-                          ))}
-                        </div>
-                      ) : (
-                        <div className="text-center py-8">
-                          <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                          <h3 className="text-lg font-medium mb-2">No Feedback Found</h3>
-                          <p className="text-muted-foreground">
-                            {branchFeedback.length === 0 
-                              ? "No feedback has been received for this branch yet."
-                              : "No feedback matches your current filters."
-                            }
-                          </p>
-                          {branchFeedback.length > 0 && (
-                            <Button 
-                              variant="outline" 
-                              className="mt-4"
-                              onClick={() => setFeedbackFilters({ search: '', status: 'all', rating: 'all', priority: 'all' })}
-                            >
-                              Clear Filters
-                            </Button>
-                          )}
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
+                  <FeedbackList
+                    key={selectedBranch.id}
+                    mode="inbox"
+                    branchId={selectedBranch.id}
+                    onFeedbackUpdate={fetchFeedbackSummary}
+                  />
                 </TabsContent>
 
                 <TabsContent value="qr-codes" className="space-y-4">
@@ -639,8 +621,8 @@ const BranchManagement = () => {
                           {branchQRCodes.map((qrCode) => (
                             <Card key={qrCode.id} className="p-4">
                               <div className="text-center space-y-3">
-                                <img
-                                  src={qrCode.qr_code_url}
+                                <QRCodeImage
+                                  qrCode={qrCode}
                                   alt={`QR Code - ${qrCode.name || 'Feedback'}`}
                                   className="w-32 h-32 mx-auto border rounded-lg"
                                 />
@@ -656,10 +638,10 @@ const BranchManagement = () => {
                                   <Button
                                     size="sm"
                                     variant="outline"
-                                    onClick={() => downloadQRCode(qrCode.qr_code_url, qrCode.name || 'qr-code')}
+                                    onClick={() => setDesignQRCode(qrCode)}
                                     className="flex-1"
                                   >
-                                    Download
+                                    Design & export
                                   </Button>
                                   <Button
                                     size="sm"
@@ -689,6 +671,15 @@ const BranchManagement = () => {
                     </CardContent>
                   </Card>
                 </TabsContent>
+
+                {canEditRouting && (
+                  <TabsContent value="routing" className="space-y-4">
+                    <FeedbackRoutingRules
+                      branchId={selectedBranch.id}
+                      staff={getAssignableStaff(selectedBranch.id)}
+                    />
+                  </TabsContent>
+                )}
               </Tabs>
             </div>
           ) : (
@@ -706,6 +697,61 @@ const BranchManagement = () => {
           )}
         </div>
       </div>
+
+      <QRCodeDesignDialog
+        open={!!designQRCode}
+        onOpenChange={(open) => !open && setDesignQRCode(null)}
+        qrCode={designQRCode && { ...designQRCode, branch_id: selectedBranch?.id }}
+      />
+
+      <BranchDialog
+        open={isBranchDialogOpen}
+        onOpenChange={setIsBranchDialogOpen}
+        branch={editingBranch}
+        regions={regions}
+        onSaved={(branchId) => fetchBranches(branchId)}
+      />
+
+      <RegionManagerDialog
+        open={isRegionDialogOpen}
+        onOpenChange={setIsRegionDialogOpen}
+        regions={regions}
+        onChanged={fetchRegions}
+      />
+
+      <AlertDialog open={!!branchToDeactivate} onOpenChange={(open) => !open && setBranchToDeactivate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate "{branchToDeactivate?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The branch keeps its feedback history but disappears from branch lists and its manager is removed.
+              Staff based here are moved to the branch you pick below.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label>Move staff to</Label>
+            <Select value={reassignTo} onValueChange={setReassignTo}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_BRANCH}>Leave without a branch</SelectItem>
+                {branches
+                  .filter((branch) => branch.is_active && branch.id !== branchToDeactivate?.id)
+                  .map((branch) => (
+                    <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeactivate} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
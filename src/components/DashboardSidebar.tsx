@@ -19,17 +19,28 @@ import {
   Settings,
   BarChart3,
   Building,
+  Building2,
   Palette,
-  Brain
+  Brain,
+  Inbox,
+  Tags,
+  Trophy,
+  Users
 } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermissions';
 
 const menuItems = [
   { title: 'Dashboard', icon: Home, id: 'dashboard' },
   { title: 'QR Codes', icon: QrCode, id: 'qr-codes' },
   { title: 'Feedback', icon: MessageSquare, id: 'feedback' },
+  { title: 'My Queue', icon: Inbox, id: 'my-queue' },
+  { title: 'Teams', icon: Users, id: 'teams' },
   { title: 'AI Analytics', icon: Brain, id: 'analytics' },
   { title: 'Form Settings', icon: Palette, id: 'form-settings' },
+  { title: 'Categories', icon: Tags, id: 'categories' },
   { title: 'Branches', icon: Building, id: 'branches' },
+  { title: 'Compare Branches', icon: Trophy, id: 'branch-comparison' },
+  { title: 'Organization', icon: Building2, id: 'organization' },
   { title: 'Settings', icon: Settings, id: 'settings' },
 ];
 
@@ -40,6 +51,7 @@ interface DashboardSidebarProps {
 
 export function DashboardSidebar({ activeSection, onSectionChange }: DashboardSidebarProps) {
   const { state } = useSidebar();
+  const { canViewSection } = usePermissions();
   const collapsed = state === 'collapsed';
 
   const isActive = (id: string) => activeSection === id;
@@ -53,7 +65,7 @@ export function DashboardSidebar({ activeSection, onSectionChange }: DashboardSi
           <SidebarGroupLabel>Main Menu</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => (
+              {menuItems.filter(item => canViewSection(item.id)).map((item) => (
                 <SidebarMenuItem key={item.id}>
                   <SidebarMenuButton
                     onClick={() => onSectionChange(item.id)}
@@ -68,7 +80,7 @@ export function DashboardSidebar({ activeSection, onSectionChange }: DashboardSi
           </SidebarGroupContent>
         </SidebarGroup>
         
-        {!collapsed && (
+        {!collapsed && canViewSection('qr-codes') && (
           <SidebarGroup>
             <SidebarGroupLabel>Quick Actions</SidebarGroupLabel>
             <SidebarGroupContent>
@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { FeedbackFilters } from '@/lib/feedbackFilters';
+import { FeedbackDailyRow } from '@/lib/feedbackStats';
+import { getBrowserTimezone } from '@/lib/branches';
+import {
+  TrendBucket,
+  TrendGranularity,
+  TrendRange,
+  TrendRangePreset,
+  TrendStatus,
+  buildRatingDistribution,
+  buildTrendBuckets,
+  getPresetRange,
+  isValidTrendRange,
+  maxTrendDays,
+  trendRangePresetLabels,
+  trendRangePresets,
+  trendStatusColors,
+  trendStatusLabels,
+  trendStatuses,
+} from '@/lib/feedbackTrends';
+
+interface DashboardTrendsProps {
+  refreshTrigger?: number;
+  onDrillDown: (filters: Partial<FeedbackFilters>) => void;
+}
+
+const volumeConfig: ChartConfig = {
+  volume: { label: 'Feedback', color: '#6366f1' },
+};
+
+const ratingConfig: ChartConfig = {
+  averageRating: { label: 'Avg rating', color: '#f59e0b' },
+};
+
+const distributionConfig: ChartConfig = {
+  count: { label: 'Feedback', color: '#eab308' },
+};
+
+const statusConfig: ChartConfig = Object.fromEntries(trendStatuses.map((status) => [
+  status,
+  { label: trendStatusLabels[status], color: trendStatusColors[status] },
+]));
+
+// Recharts passes the hovered point's row as activePayload on chart clicks
+type ChartClickState = { activePayload?: Array<{ payload: TrendBucket }> } | null;
+
+export const DashboardTrends = ({ refreshTrigger, onDrillDown }: DashboardTrendsProps) => {
+  const [preset, setPreset] = useState<TrendRangePreset>('30d');
+  const [customRange, setCustomRange] = useState<TrendRange>(getPresetRange('30d'));
+  const [granularity, setGranularity] = useState<TrendGranularity>('day');
+  const [dailyStats, setDailyStats] = useState<FeedbackDailyRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const range = preset === 'custom' ? customRange : getPresetRange(preset);
+  const rangeValid = isValidTrendRange(range);
+
+  useEffect(() => {
+    if (rangeValid) {
+      fetchDailyStats();
+    }
+  }, [range.from, range.to, refreshTrigger]);
+
+  const fetchDailyStats = async () => {
+    setIsLoading(true);
+    try {
+      // Archived feedback is left out, as in the inbox the charts drill into
+      const { data, error } = await supabase.rpc('get_feedback_daily_stats', {
+        start_date: range.from,
+        end_date: range.to,
+        time_zone: getBrowserTimezone(),
+        include_archived: false,
+      });
+
+      if (error) throw error;
+      setDailyStats(data || []);
+    } catch (error) {
+      console.error('Error fetching feedback trends:', error);
+      setDailyStats([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const buckets = buildTrendBuckets(range, granularity, dailyStats);
+  const distribution = buildRatingDistribution(dailyStats);
+
+  const drillIntoBucket = (state: ChartClickState, changes: Partial<FeedbackFilters> = {}) => {
+    const bucket = state?.activePayload?.[0]?.payload;
+    if (bucket) {
+      onDrillDown({ from: bucket.from, to: bucket.to, ...changes });
+    }
+  };
+
+  const changePreset = (value: TrendRangePreset) => {
+    if (value === 'custom' && preset !== 'custom') {
+      setCustomRange(range);
+    }
+    setPreset(value);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Trends</h3>
+          <p className="text-sm text-muted-foreground">Click any point or bar to open the matching feedback</p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={preset} onValueChange={(value) => changePreset(value as TrendRangePreset)}>
+            <SelectTrigger className="sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {trendRangePresets.map((option) => (
+                <SelectItem key={option} value={option}>{trendRangePresetLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {preset === 'custom' && (
+            <>
+              <Input
+                type="date"
+                className="sm:w-40"
+                value={customRange.from}
+                max={customRange.to || undefined}
+                onChange={(e) => setCustomRange((prev) => ({ ...prev, from: e.target.value }))}
+              />
+              <Input
+                type="date"
+                className="sm:w-40"
+                value={customRange.to}
+                min={customRange.from || undefined}
+                onChange={(e) => setCustomRange((prev) => ({ ...prev, to: e.target.value }))}
+              />
+            </>
+          )}
+          <Select value={granularity} onValueChange={(value) => setGranularity(value as TrendGranularity)}>
+            <SelectTrigger className="sm:w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!rangeValid ? (
+        <p className="text-sm text-destructive">
+          Pick a start and end date up to {maxTrendDays} days apart.
+        </p>
+      ) : (
+        <div className={`grid grid-cols-1 lg:grid-cols-2 gap-6 ${isLoading ? 'opacity-60' : ''}`}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Feedback volume</CardTitle>
+              <CardDescription>New feedback per {granularity}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={volumeConfig} className="h-56 w-full aspect-auto">
+                <BarChart data={buckets} onClick={(state) => drillIntoBucket(state as ChartClickState)}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="volume" fill="var(--color-volume)" radius={4} className="cursor-pointer" />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Average rating</CardTitle>
+              <CardDescription>On the shared 1–5 scale, per {granularity}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={ratingConfig} className="h-56 w-full aspect-auto">
+                <LineChart data={buckets} onClick={(state) => drillIntoBucket(state as ChartClickState)}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={32} domain={[1, 5]} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line
+                    dataKey="averageRating"
+                    type="monotone"
+                    stroke="var(--color-averageRating)"
+                    strokeWidth={2}
+                    connectNulls
+                    dot={{ r: 3 }}
+                    activeDot={{ r: 5, className: 'cursor-pointer' }}
+                  />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Rating distribution</CardTitle>
+              <CardDescription>All feedback in the selected range</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={distributionConfig} className="h-56 w-full aspect-auto">
+                <BarChart data={distribution}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar
+                    dataKey="count"
+                    fill="var(--color-count)"
+                    radius={4}
+                    className="cursor-pointer"
+                    onClick={(data) => onDrillDown({ from: range.from, to: range.to, rating: String(data.payload.rating) })}
+                  />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Status backlog</CardTitle>
+              <CardDescription>Where feedback from each {granularity} stands now</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={statusConfig} className="h-56 w-full aspect-auto">
+                <BarChart data={buckets}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {trendStatuses.map((status: TrendStatus) => (
+                    <Bar
+                      key={status}
+                      dataKey={status}
+                      stackId="status"
+                      fill={`var(--color-${status})`}
+                      className="cursor-pointer"
+                      onClick={(data) => onDrillDown({ from: data.payload.from, to: data.payload.to, status })}
+                    />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
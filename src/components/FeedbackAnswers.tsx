@@ -0,0 +1,42 @@
+import React from 'react';
+import { ListChecks } from 'lucide-react';
+import { FeedbackAnswer, formatAnswer } from '@/lib/feedbackQuestions';
+
+interface FeedbackAnswersProps {
+  answers?: FeedbackAnswer[];
+  compact?: boolean;
+}
+
+export const FeedbackAnswers = ({ answers, compact = false }: FeedbackAnswersProps) => {
+  if (!answers || answers.length === 0) return null;
+
+  if (compact) {
+    return (
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+        {answers.map((answer) => (
+          <span key={answer.id}>
+            <span className="font-medium text-foreground">{answer.question_text}:</span>{' '}
+            {formatAnswer(answer.question_type, answer.answer)}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium flex items-center gap-2">
+        <ListChecks className="h-4 w-4" />
+        Form Answers
+      </div>
+      <div className="space-y-2">
+        {answers.map((answer) => (
+          <div key={answer.id} className="p-3 bg-muted rounded-lg">
+            <p className="text-xs text-muted-foreground">{answer.question_text}</p>
+            <p className="text-sm mt-1">{formatAnswer(answer.question_type, answer.answer)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import {
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+} from '@/components/ui/dropdown-menu';
+import { StaffProfile, getStaffName } from '@/hooks/useFeedbackAssignment';
+import { getRoleLabel } from '@/lib/permissions';
+import { Check, UserMinus, UserPlus, Users } from 'lucide-react';
+
+interface FeedbackAssignMenuProps {
+  feedback: {
+    id: string;
+    assigned_to?: string | null;
+    branch_id?: string | null;
+  };
+  currentProfile: StaffProfile | null;
+  canAssignOthers: boolean;
+  assignableStaff: StaffProfile[];
+  onAssign: (feedbackId: string, assigneeId: string | null) => void;
+}
+
+// Assignment items for a feedback item's actions dropdown
+export const FeedbackAssignMenu = ({
+  feedback,
+  currentProfile,
+  canAssignOthers,
+  assignableStaff,
+  onAssign,
+}: FeedbackAssignMenuProps) => {
+  if (!currentProfile) return null;
+
+  const isMine = feedback.assigned_to === currentProfile.id;
+  const canClaim = !feedback.assigned_to || canAssignOthers;
+  const canRelease = !!feedback.assigned_to && (isMine || canAssignOthers);
+
+  if (!canClaim && !canRelease) {
+    return <DropdownMenuItem disabled>Assigned to another team member</DropdownMenuItem>;
+  }
+
+  return (
+    <>
+      {!isMine && canClaim && (
+        <DropdownMenuItem onClick={() => onAssign(feedback.id, currentProfile.id)}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Assign to Me
+        </DropdownMenuItem>
+      )}
+      {canAssignOthers && (
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <Users className="h-4 w-4 mr-2" />
+            Assign to...
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="max-h-64 overflow-y-auto">
+            {assignableStaff.length === 0 ? (
+              <DropdownMenuItem disabled>No staff available</DropdownMenuItem>
+            ) : (
+              assignableStaff.map((member) => (
+                <DropdownMenuItem
+                  key={member.id}
+                  onClick={() => onAssign(feedback.id, member.id)}
+                >
+                  {feedback.assigned_to === member.id ? (
+                    <Check className="h-4 w-4 mr-2" />
+                  ) : (
+                    <span className="w-4 mr-2" />
+                  )}
+                  <span className="flex-1">{getStaffName(member)}</span>
+                  <span className="text-xs text-muted-foreground ml-2">{getRoleLabel(member.role)}</span>
+                </DropdownMenuItem>
+              ))
+            )}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      )}
+      {canRelease && (
+        <DropdownMenuItem onClick={() => onAssign(feedback.id, null)}>
+          <UserMinus className="h-4 w-4 mr-2" />
+          Unassign
+        </DropdownMenuItem>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive, ArchiveRestore, Tag, X } from 'lucide-react';
+import { StaffProfile, getStaffName } from '@/hooks/useFeedbackAssignment';
+import { BulkFeedbackChanges, normalizeTag } from '@/lib/feedbackBulkActions';
+
+interface FeedbackCategory {
+  id: string;
+  name: string;
+}
+
+interface FeedbackBulkActionsProps {
+  selectedCount: number;
+  currentProfile: StaffProfile | null;
+  canAssignOthers: boolean;
+  assignableStaff: StaffProfile[];
+  showingArchived: boolean;
+  // Tag currently filtered on, offered as a one-click removal
+  activeTag?: string;
+  isApplying: boolean;
+  onApply: (changes: BulkFeedbackChanges) => void;
+  onClear: () => void;
+}
+
+export const FeedbackBulkActions = ({
+  selectedCount,
+  currentProfile,
+  canAssignOthers,
+  assignableStaff,
+  showingArchived,
+  activeTag,
+  isApplying,
+  onApply,
+  onClear,
+}: FeedbackBulkActionsProps) => {
+  const [categories, setCategories] = useState<FeedbackCategory[]>([]);
+  const [tag, setTag] = useState('');
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('feedback_categories')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('sort_order');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
+
+  const handleAssign = (value: string) => {
+    if (value === 'unassign') {
+      onApply({ assigned_to: null });
+    } else if (value === 'me') {
+      onApply({ assigned_to: currentProfile?.id ?? null });
+    } else {
+      onApply({ assigned_to: value });
+    }
+  };
+
+  const handleTag = () => {
+    const normalized = normalizeTag(tag);
+    if (!normalized) return;
+
+    onApply({ add_tag: normalized });
+    setTag('');
+  };
+
+  // Selects act as one-shot menus, so they never hold a value
+  return (
+    <Card className="border-primary/40 bg-primary/5">
+      <CardContent className="py-3 flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium mr-2">
+          {selectedCount} selected
+        </span>
+
+        <Select value="" onValueChange={(value) => onApply({ status: value })} disabled={isApplying}>
+          <SelectTrigger className="w-36 h-8">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="in_progress">In Progress</SelectItem>
+            <SelectItem value="resolved">Resolved</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={(value) => onApply({ priority: value })} disabled={isApplying}>
+          <SelectTrigger className="w-36 h-8">
+            <SelectValue placeholder="Set priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="high">High</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="low">Low</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={handleAssign} disabled={isApplying}>
+          <SelectTrigger className="w-36 h-8">
+            <SelectValue placeholder="Assign" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="me">Assign to me</SelectItem>
+            <SelectItem value="unassign">Unassign</SelectItem>
+            {canAssignOthers && assignableStaff
+              .filter(member => member.id !== currentProfile?.id)
+              .map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {getStaffName(member)}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={(value) => onApply({ category_id: value })} disabled={isApplying}>
+          <SelectTrigger className="w-40 h-8">
+            <SelectValue placeholder="Set category" />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map((category) => (
+              <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1">
+          <Input
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleTag();
+              }
+            }}
+            placeholder="Add tag"
+            className="w-32 h-8"
+            disabled={isApplying}
+          />
+          <Button size="sm" variant="outline" className="h-8" onClick={handleTag} disabled={isApplying || !tag.trim()}>
+            <Tag className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {activeTag && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            onClick={() => onApply({ remove_tag: activeTag })}
+            disabled={isApplying}
+          >
+            <X className="h-4 w-4 mr-2" />
+            Remove "{activeTag}"
+          </Button>
+        )}
+
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8"
+          onClick={() => onApply({ archived: !showingArchived })}
+          disabled={isApplying}
+        >
+          {showingArchived ? (
+            <>
+              <ArchiveRestore className="h-4 w-4 mr-2" />
+              Restore
+            </>
+          ) : (
+            <>
+              <Archive className="h-4 w-4 mr-2" />
+              Archive
+            </>
+          )}
+        </Button>
+
+        <Button size="sm" variant="ghost" className="h-8 ml-auto" onClick={onClear} disabled={isApplying}>
+          <X className="h-4 w-4 mr-2" />
+          Clear
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
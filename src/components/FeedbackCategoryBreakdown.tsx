@@ -0,0 +1,55 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { Star } from 'lucide-react';
+import { CategoryBreakdown } from '@/lib/feedbackCategories';
+
+interface FeedbackCategoryBreakdownProps {
+  breakdown: CategoryBreakdown[];
+  // Called with the category id (null for uncategorized) when a row is clicked
+  onSelect?: (categoryId: string | null) => void;
+}
+
+export const FeedbackCategoryBreakdown = ({ breakdown, onSelect }: FeedbackCategoryBreakdownProps) => {
+  const total = breakdown.reduce((sum, item) => sum + item.count, 0);
+
+  if (total === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        No feedback to break down yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {breakdown.map((item) => {
+        const share = Math.round((item.count / total) * 100);
+
+        return (
+          <button
+            key={item.id ?? 'uncategorized'}
+            type="button"
+            onClick={() => onSelect?.(item.id)}
+            disabled={!onSelect}
+            className="w-full text-left space-y-1 rounded-md p-2 enabled:hover:bg-muted transition-colors"
+          >
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 font-medium">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: item.color }} />
+                {item.name}
+              </span>
+              <span className="flex items-center gap-3 text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <Star className="h-3 w-3" />
+                  {item.averageRating.toFixed(1)}
+                </span>
+                <span>{item.count} ({share}%)</span>
+              </span>
+            </div>
+            <Progress value={share} className="h-2" />
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,419 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GripVertical, Pencil, Plus, Tags, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  DEFAULT_CATEGORY_COLOR,
+  FeedbackCategory,
+  categoryIcons,
+  getCategoryColor,
+  getCategoryIcon
+} from '@/lib/feedbackCategories';
+
+interface CategoryForm {
+  id?: string;
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+  is_active: boolean;
+}
+
+const emptyForm: CategoryForm = {
+  name: '',
+  description: '',
+  icon: 'Tag',
+  color: DEFAULT_CATEGORY_COLOR,
+  is_active: true,
+};
+
+export const FeedbackCategoryManager = () => {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [categories, setCategories] = useState<FeedbackCategory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<CategoryForm | null>(null);
+  const [categoryToDelete, setCategoryToDelete] = useState<FeedbackCategory | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Categories are shared by every branch, so changing them is an organization-level capability
+  const canManage = can('categories.manage');
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('feedback_categories')
+        .select('id, name, description, icon, color, is_active, sort_order')
+        .order('sort_order')
+        .order('name');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load categories",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveOrder = async (ordered: FeedbackCategory[]) => {
+    try {
+      const { error } = await supabase
+        .from('feedback_categories')
+        .upsert(ordered.map((category, index) => ({ ...category, sort_order: index + 1 })));
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving category order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save category order",
+        variant: "destructive",
+      });
+      fetchCategories();
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+
+    // Reorder live while dragging so the list previews the drop position
+    setCategories(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(dragIndex, 1);
+      next.splice(index, 0, moved);
+      return next;
+    });
+    setDragIndex(index);
+  };
+
+  const handleDragEnd = () => {
+    if (dragIndex === null) return;
+    setDragIndex(null);
+    saveOrder(categories);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const name = form.name.trim();
+    if (!name) {
+      toast({
+        title: "Name required",
+        description: "Please give the category a name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const categoryData = {
+        name,
+        description: form.description.trim() || null,
+        icon: form.icon,
+        color: form.color,
+        is_active: form.is_active,
+      };
+
+      const { error } = form.id
+        ? await supabase.from('feedback_categories').update(categoryData).eq('id', form.id)
+        : await supabase.from('feedback_categories').insert({ ...categoryData, sort_order: categories.length + 1 });
+
+      if (error) throw error;
+
+      toast({
+        title: form.id ? "Category updated" : "Category created",
+        description: `"${name}" has been saved`,
+      });
+
+      setForm(null);
+      fetchCategories();
+    } catch (error) {
+      console.error('Error saving category:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save category",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = async (category: FeedbackCategory, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('feedback_categories')
+        .update({ is_active: isActive })
+        .eq('id', category.id);
+
+      if (error) throw error;
+      setCategories(prev => prev.map(c => c.id === category.id ? { ...c, is_active: isActive } : c));
+    } catch (error) {
+      console.error('Error updating category:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update category",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!categoryToDelete) return;
+
+    try {
+      const { error } = await supabase
+        .from('feedback_categories')
+        .delete()
+        .eq('id', categoryToDelete.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Category deleted",
+        description: `Feedback in "${categoryToDelete.name}" is now uncategorized`,
+      });
+
+      fetchCategories();
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete category",
+        variant: "destructive",
+      });
+    } finally {
+      setCategoryToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          <h2 className="text-2xl font-bold">Feedback Categories</h2>
+        </div>
+        {canManage && (
+          <Button onClick={() => setForm(emptyForm)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Category
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Categories</CardTitle>
+          <CardDescription>
+            {canManage
+              ? 'Drag to reorder. The order is used on the feedback form and in filters. Hidden categories stay on existing feedback.'
+              : 'Only administrators can change categories.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No categories yet
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {categories.map((category, index) => {
+                const Icon = getCategoryIcon(category.icon);
+
+                return (
+                  <div
+                    key={category.id}
+                    draggable={canManage}
+                    onDragStart={() => setDragIndex(index)}
+                    onDragOver={(e) => handleDragOver(e, index)}
+                    onDragEnd={handleDragEnd}
+                    className={`flex items-center gap-3 border rounded-lg p-3 bg-card ${
+                      dragIndex === index ? 'opacity-50' : ''
+                    }`}
+                  >
+                    {canManage && (
+                      <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+                    )}
+                    <div
+                      className="h-8 w-8 rounded-md flex items-center justify-center text-white"
+                      style={{ backgroundColor: getCategoryColor(category) }}
+                    >
+                      <Icon className="h-4 w-4" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{category.name}</span>
+                        {!category.is_active && <Badge variant="outline">Hidden</Badge>}
+                      </div>
+                      {category.description && (
+                        <p className="text-sm text-muted-foreground truncate">{category.description}</p>
+                      )}
+                    </div>
+                    {canManage && (
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={category.is_active}
+                          onCheckedChange={(checked) => toggleActive(category, checked)}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setForm({
+                            id: category.id,
+                            name: category.name,
+                            description: category.description || '',
+                            icon: category.icon || 'Tag',
+                            color: getCategoryColor(category),
+                            is_active: category.is_active,
+                          })}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setCategoryToDelete(category)}>
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit Category' : 'New Category'}</DialogTitle>
+            <DialogDescription>
+              Categories help customers and staff sort feedback by topic
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="category-name">Name</Label>
+                <Input
+                  id="category-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Food Quality"
+                  maxLength={60}
+                />
+              </div>
+              <div>
+                <Label htmlFor="category-description">Description</Label>
+                <Textarea
+                  id="category-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Icon</Label>
+                  <Select value={form.icon} onValueChange={(value) => setForm({ ...form, icon: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(categoryIcons).map(([name, Icon]) => (
+                        <SelectItem key={name} value={name}>
+                          <span className="flex items-center gap-2">
+                            <Icon className="h-4 w-4" />
+                            {name}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="category-color">Color</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="category-color"
+                      type="color"
+                      value={form.color}
+                      onChange={(e) => setForm({ ...form, color: e.target.value })}
+                      className="w-20 h-10 p-1"
+                    />
+                    <Input
+                      value={form.color}
+                      onChange={(e) => setForm({ ...form, color: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                />
+                <Label>Visible on feedback forms</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Category'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!categoryToDelete} onOpenChange={(open) => !open && setCategoryToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{categoryToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Existing feedback and QR codes in this category will become uncategorized.
+              Hide the category instead if you want to keep its history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
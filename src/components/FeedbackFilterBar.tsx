@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Tag, X } from 'lucide-react';
+import { StaffProfile, getStaffName } from '@/hooks/useFeedbackAssignment';
+import { FeedbackFilters, hasActiveFeedbackFilters } from '@/lib/feedbackFilters';
+
+interface FilterOption {
+  id: string;
+  name: string;
+}
+
+interface FeedbackFilterBarProps {
+  filters: FeedbackFilters;
+  onChange: (changes: Partial<FeedbackFilters>) => void;
+  onReset: () => void;
+  staff: StaffProfile[];
+  showBranchFilter?: boolean;
+}
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+export const FeedbackFilterBar = ({
+  filters,
+  onChange,
+  onReset,
+  staff,
+  showBranchFilter = true,
+}: FeedbackFilterBarProps) => {
+  const [search, setSearch] = useState(filters.q);
+  const [branches, setBranches] = useState<FilterOption[]>([]);
+  const [categories, setCategories] = useState<FilterOption[]>([]);
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
+
+  // Keep the input in sync when the URL changes (back/forward, reset)
+  useEffect(() => {
+    setSearch(filters.q);
+  }, [filters.q]);
+
+  useEffect(() => {
+    if (search === filters.q) return;
+
+    const timeout = setTimeout(() => onChange({ q: search }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const fetchOptions = async () => {
+    try {
+      const [branchResult, categoryResult] = await Promise.all([
+        supabase.from('branches').select('id, name').eq('is_active', true).order('name'),
+        supabase.from('feedback_categories').select('id, name').order('sort_order').order('name'),
+      ]);
+
+      if (branchResult.error) throw branchResult.error;
+      if (categoryResult.error) throw categoryResult.error;
+
+      setBranches(branchResult.data || []);
+      setCategories(categoryResult.data || []);
+    } catch (error) {
+      console.error('Error fetching filter options:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search subject, message or customer name..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        {hasActiveFeedbackFilters(filters) && (
+          <Button variant="outline" onClick={onReset}>
+            <X className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3">
+        {showBranchFilter && (
+          <div className="space-y-1">
+            <Label className="text-xs">Branch</Label>
+            <Select value={filters.branch} onValueChange={(value) => onChange({ branch: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Branches</SelectItem>
+                {branches.map((branch) => (
+                  <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label className="text-xs">Category</Label>
+          <Select value={filters.category} onValueChange={(value) => onChange({ category: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              <SelectItem value="none">Uncategorized</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Status</Label>
+          <Select value={filters.status} onValueChange={(value) => onChange({ status: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="in_progress">In Progress</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectItem value="archived">Archived</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Priority</Label>
+          <Select value={filters.priority} onValueChange={(value) => onChange({ priority: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Priorities</SelectItem>
+              <SelectItem value="high">High</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="low">Low</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Rating</Label>
+          <Select value={filters.rating} onValueChange={(value) => onChange({ rating: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Ratings</SelectItem>
+              <SelectItem value="5">5 Stars</SelectItem>
+              <SelectItem value="4">4 Stars</SelectItem>
+              <SelectItem value="3">3 Stars</SelectItem>
+              <SelectItem value="2">2 Stars</SelectItem>
+              <SelectItem value="1">1 Star</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Assignee</Label>
+          <Select value={filters.assignee} onValueChange={(value) => onChange({ assignee: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Anyone</SelectItem>
+              <SelectItem value="mine">My Queue</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {staff.map((member) => (
+                <SelectItem key={member.id} value={member.id}>{getStaffName(member)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">From</Label>
+          <Input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => onChange({ from: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">To</Label>
+          <Input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => onChange({ to: e.target.value })}
+          />
+        </div>
+      </div>
+
+      {filters.tag && (
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary" className="flex items-center gap-1">
+            <Tag className="h-3 w-3" />
+            {filters.tag}
+            <button
+              type="button"
+              className="ml-1 rounded-full hover:bg-muted"
+              onClick={() => onChange({ tag: '' })}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        </div>
+      )}
+    </div>
+  );
+};
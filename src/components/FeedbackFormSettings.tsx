@@ -6,9 +6,13 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { Palette, Upload, Save, Star } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
 import { useAuth } from '@/contexts/AuthContext';
+import { FeedbackQuestionBuilder } from '@/components/FeedbackQuestionBuilder';
+import { SurveyMode, surveyModeLabels } from '@/lib/surveyMetrics';
 
 interface FeedbackFormSettings {
   id?: string;
@@ -19,16 +23,21 @@ interface FeedbackFormSettings {
   primary_color: string;
   background_color: string;
   google_place_id?: string;
+  survey_mode: string;
+  show_category_picker: boolean;
 }
 
 const FeedbackFormSettings = () => {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { can } = usePermissions();
   const [settings, setSettings] = useState<FeedbackFormSettings>({
     welcome_title: 'Welcome! 🍽️',
     welcome_description: "We'd love to hear your feedback",
     primary_color: '#3b82f6',
-    background_color: '#ffffff'
+    background_color: '#ffffff',
+    survey_mode: 'stars',
+    show_category_picker: false
   });
   const [branches, setBranches] = useState<Array<{ id: string; name: string }>>([]);
   const [selectedBranchId, setSelectedBranchId] = useState<string>('');
@@ -54,10 +63,13 @@ const FeedbackFormSettings = () => {
         .order('name');
 
       if (error) throw error;
-      setBranches(data || []);
+
+      // Managers only edit the forms of branches their role covers
+      const editableBranches = (data || []).filter(branch => can('forms.manage', branch.id));
+      setBranches(editableBranches);
       
-      if (data && data.length > 0) {
-        setSelectedBranchId(data[0].id);
+      if (editableBranches.length > 0) {
+        setSelectedBranchId(editableBranches[0].id);
       }
     } catch (error) {
       console.error('Error fetching branches:', error);
@@ -91,7 +103,9 @@ const FeedbackFormSettings = () => {
           welcome_title: 'Welcome! 🍽️',
           welcome_description: "We'd love to hear your feedback",
           primary_color: '#3b82f6',
-          background_color: '#ffffff'
+          background_color: '#ffffff',
+          survey_mode: 'stars',
+          show_category_picker: false
         });
       }
     } catch (error) {
@@ -224,12 +238,48 @@ const FeedbackFormSettings = () => {
                     />
                     <p className="text-sm text-muted-foreground mt-1">
                       <Star className="h-3 w-3 inline mr-1" />
-                      Users with 4-5 star ratings will be redirected to leave a Google Review
+                      Customers with positive scores (4-5 stars, satisfied, or NPS promoters) will be redirected to leave a Google Review
                     </p>
                   </div>
                 </div>
 
                 <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="survey-mode">Survey Mode</Label>
+                    <Select
+                      value={settings.survey_mode}
+                      onValueChange={(value) => handleInputChange('survey_mode', value)}
+                    >
+                      <SelectTrigger id="survey-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(surveyModeLabels) as SurveyMode[]).map((mode) => (
+                          <SelectItem key={mode} value={mode}>
+                            {surveyModeLabels[mode]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Choose how customers rate their experience
+                    </p>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="show-category-picker"
+                        checked={settings.show_category_picker}
+                        onCheckedChange={(checked) => setSettings(prev => ({ ...prev, show_category_picker: checked }))}
+                      />
+                      <Label htmlFor="show-category-picker">Let customers pick a category</Label>
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Shows an optional topic picker using your active feedback categories
+                    </p>
+                  </div>
+
                   <div>
                     <Label htmlFor="primary-color">Primary Color</Label>
                     <div className="flex gap-2">
@@ -307,6 +357,8 @@ const FeedbackFormSettings = () => {
           )}
         </CardContent>
       </Card>
+
+      {selectedBranchId && <FeedbackQuestionBuilder branchId={selectedBranchId} />}
     </div>
   );
 };
@@ -4,16 +4,37 @@ import { supabase } from '@/integrations/supabase/client';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Pagination, PaginationContent, PaginationItem, PaginationLink,
+  PaginationNext, PaginationPrevious, PaginationEllipsis
+} from '@/components/ui/pagination';
 import { useToast } from '@/hooks/use-toast';
+import { FeedbackAnswers } from '@/components/FeedbackAnswers';
+import { FeedbackThread } from '@/components/FeedbackThread';
+import { FeedbackAssignMenu } from '@/components/FeedbackAssignMenu';
+import { FeedbackFilterBar } from '@/components/FeedbackFilterBar';
+import { FeedbackBulkActions } from '@/components/FeedbackBulkActions';
+import { TaskDialog } from '@/components/TaskDialog';
+import { getStaffName, useFeedbackAssignment } from '@/hooks/useFeedbackAssignment';
+import { useFeedbackFilters } from '@/hooks/useFeedbackFilters';
+import { useTeams } from '@/hooks/useTeams';
+import { usePermissions } from '@/hooks/usePermissions';
+import { FEEDBACK_PAGE_SIZE, getDateRangeBounds, toPrefixTsQuery } from '@/lib/feedbackFilters';
+import { BulkFeedbackChanges, describeBulkChanges } from '@/lib/feedbackBulkActions';
+import { getCategoryColor } from '@/lib/feedbackCategories';
+import { FeedbackAnswer } from '@/lib/feedbackQuestions';
+import { formatScore, getSurveyMode } from '@/lib/surveyMetrics';
 import { 
   MessageSquare, Star, Clock, CheckCircle, 
-  MoreHorizontal, Eye, Phone, Mail, User, Calendar
+  MoreHorizontal, Eye, Phone, Mail, User, Calendar, UserCheck, Inbox,
+  MessageCircle, ChevronDown, Tag, Archive, ClipboardList, MapPin
 } from 'lucide-react';
 
 interface Feedback {
@@ -21,6 +42,8 @@ interface Feedback {
   subject: string;
   message: string;
   rating: number;
+  score?: number | null;
+  survey_mode?: string;
   status: string;
   priority: string;
   created_at: string;
@@ -28,36 +51,141 @@ interface Feedback {
   customer_email?: string;
   customer_phone?: string;
   is_anonymous: boolean;
+  branch_id?: string | null;
+  assigned_to?: string | null;
+  category_id?: string | null;
+  location_label?: string | null;
+  category?: {
+    name: string;
+    color: string | null;
+  } | null;
+  tags?: string[];
+  archived_at?: string | null;
+  assignee?: {
+    display_name: string | null;
+    email: string | null;
+  } | null;
+  feedback_answers?: FeedbackAnswer[];
 }
 
+type FeedbackQueue = 'all' | 'mine';
+
 interface FeedbackListProps {
   onFeedbackUpdate?: () => void;
+  queue?: FeedbackQueue;
+  // 'recent' shows the latest items; 'inbox' adds URL-backed filters, search and pagination
+  mode?: 'recent' | 'inbox';
+  // Locks the inbox to one branch (used inside branch management)
+  branchId?: string;
 }
 
-export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
+export const FeedbackList = ({ onFeedbackUpdate, queue = 'all', mode = 'recent', branchId }: FeedbackListProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const {
+    currentProfile,
+    canAssignOthers,
+    getAssignableStaff,
+    assignFeedback,
+  } = useFeedbackAssignment();
+  const { filters, updateFilters, setPage, resetFilters } = useFeedbackFilters();
+  const { teams } = useTeams();
+  const { can } = usePermissions();
   const [feedback, setFeedback] = useState<Feedback[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [selectedFeedback, setSelectedFeedback] = useState<Feedback | null>(null);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [view, setView] = useState<FeedbackQueue>(queue);
+  const [expandedFeedbackId, setExpandedFeedbackId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isApplyingBulk, setIsApplyingBulk] = useState(false);
+  const [taskFeedback, setTaskFeedback] = useState<Feedback | null>(null);
+
+  const isInbox = mode === 'inbox';
+  // Bulk triage touches many branches at once, so it needs the manage capability
+  const canBulkEdit = isInbox && can('feedback.manage');
+  const filterKey = isInbox ? JSON.stringify(filters) : '';
+  const showingArchived = isInbox && filters.status === 'archived';
 
   useEffect(() => {
     fetchFeedback();
-  }, [user]);
+  }, [user, view, currentProfile?.id, filterKey, branchId]);
+
+  // Selection only spans the visible page; drop it whenever the result set changes
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [filterKey, branchId]);
 
   const fetchFeedback = async () => {
+    // The personal queue needs the current profile before it can be filtered
+    const needsProfile = isInbox ? filters.assignee === 'mine' : view === 'mine';
+    if (needsProfile && !currentProfile) return;
+
     try {
       setLoading(true);
       
-      const { data, error } = await supabase
+      let query = supabase
         .from('feedback')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(10);
+        .select(
+          '*, feedback_answers(*), assignee:profiles!feedback_assigned_to_fkey(display_name, email), category:feedback_categories(name, color)',
+          { count: isInbox ? 'exact' : undefined }
+        )
+        .order('created_at', { ascending: false });
+
+      if (isInbox) {
+        const branch = branchId || filters.branch;
+        if (branch !== 'all') query = query.eq('branch_id', branch);
+        if (filters.category === 'none') {
+          query = query.is('category_id', null);
+        } else if (filters.category !== 'all') {
+          query = query.eq('category_id', filters.category);
+        }
+        if (showingArchived) {
+          query = query.not('archived_at', 'is', null);
+        } else {
+          query = query.is('archived_at', null);
+          if (filters.status !== 'all') query = query.eq('status', filters.status);
+        }
+        if (filters.tag) query = query.contains('tags', [filters.tag]);
+        if (filters.priority !== 'all') query = query.eq('priority', filters.priority);
+        if (filters.rating !== 'all') query = query.eq('rating', Number(filters.rating));
+
+        if (filters.assignee === 'mine') {
+          query = query.eq('assigned_to', currentProfile.id);
+        } else if (filters.assignee === 'unassigned') {
+          query = query.is('assigned_to', null);
+        } else if (filters.assignee !== 'all') {
+          query = query.eq('assigned_to', filters.assignee);
+        }
+
+        const tsQuery = toPrefixTsQuery(filters.q);
+        if (tsQuery) {
+          query = query.textSearch('search_vector', tsQuery, { config: 'simple' });
+        }
+
+        const { start, end } = getDateRangeBounds(filters.from, filters.to);
+        if (start) query = query.gte('created_at', start);
+        if (end) query = query.lt('created_at', end);
+
+        const offset = (filters.page - 1) * FEEDBACK_PAGE_SIZE;
+        query = query.range(offset, offset + FEEDBACK_PAGE_SIZE - 1);
+      } else if (view === 'mine') {
+        query = query
+          .eq('assigned_to', currentProfile.id)
+          .is('archived_at', null)
+          .neq('status', 'resolved');
+      } else {
+        query = query
+          .is('archived_at', null)
+          .limit(10);
+      }
+
+      const { data, error, count } = await query;
 
       if (error) throw error;
       setFeedback(data || []);
+      setTotalCount(count ?? data?.length ?? 0);
     } catch (error) {
       console.error('Error fetching feedback:', error);
       toast({
@@ -70,6 +198,10 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
     }
   };
 
+  // Mirrors the feedback update policies: managers of the branch, or whoever it's assigned to
+  const canUpdateStatus = (item: Feedback) =>
+    can('feedback.manage', item.branch_id) || (!!currentProfile && item.assigned_to === currentProfile.id);
+
   const updateFeedbackStatus = async (feedbackId: string, newStatus: string) => {
     try {
       const { error } = await supabase
@@ -102,6 +234,67 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
   };
 
 
+  const handleAssign = async (feedbackId: string, assigneeId: string | null) => {
+    const success = await assignFeedback(feedbackId, assigneeId);
+    if (success) {
+      fetchFeedback();
+      if (onFeedbackUpdate) {
+        onFeedbackUpdate();
+      }
+    }
+  };
+
+  const toggleSelected = (feedbackId: string, checked: boolean) => {
+    setSelectedIds(prev =>
+      checked ? [...prev, feedbackId] : prev.filter(id => id !== feedbackId)
+    );
+  };
+
+  const allOnPageSelected = feedback.length > 0 && feedback.every(item => selectedIds.includes(item.id));
+
+  const toggleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? feedback.map(item => item.id) : []);
+  };
+
+  const applyBulkChanges = async (changes: BulkFeedbackChanges) => {
+    if (selectedIds.length === 0) return;
+
+    try {
+      setIsApplyingBulk(true);
+
+      const { data: updatedCount, error } = await supabase.rpc('bulk_update_feedback', {
+        feedback_ids: selectedIds,
+        changes: { ...changes },
+      });
+
+      if (error) throw error;
+
+      // Rows the caller may not update are skipped by RLS rather than failing the batch
+      const skipped = selectedIds.length - (updatedCount ?? 0);
+      toast({
+        title: "Bulk update complete",
+        description: `${updatedCount ?? 0} feedback ${updatedCount === 1 ? 'item' : 'items'} ${describeBulkChanges(changes)}` +
+          (skipped > 0 ? `, ${skipped} skipped (no permission)` : ''),
+        variant: updatedCount === 0 ? "destructive" : undefined,
+      });
+
+      setSelectedIds([]);
+      fetchFeedback();
+      if (onFeedbackUpdate) {
+        onFeedbackUpdate();
+      }
+    } catch (error) {
+      console.error('Error applying bulk update:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the selected feedback",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingBulk(false);
+    }
+  };
+
   const getRatingStars = (rating: number) => {
     return Array.from({ length: 5 }, (_, index) => (
       <Star
@@ -113,6 +306,21 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
     ));
   };
 
+  const renderScore = (item: Feedback) => {
+    if (getSurveyMode(item) !== 'stars') {
+      return <Badge variant="secondary">{formatScore(item)}</Badge>;
+    }
+
+    return (
+      <>
+        {getRatingStars(item.rating)}
+        <span className="text-sm text-muted-foreground ml-2">
+          {item.rating}/5
+        </span>
+      </>
+    );
+  };
+
   const getStatusBadge = (status: string) => {
     const variants = {
       pending: 'bg-yellow-100 text-yellow-800',
@@ -141,31 +349,217 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
     );
   };
 
-  if (loading) {
+  const getAssigneeBadge = (item: Feedback) => {
+    if (!item.assigned_to) return null;
+
     return (
-      <div className="flex items-center justify-center p-8">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      <Badge variant="outline" className="flex items-center gap-1">
+        <UserCheck className="h-3 w-3" />
+        {item.assigned_to === currentProfile?.id ? 'You' : getStaffName(item.assignee)}
+      </Badge>
+    );
+  };
+
+  const getCategoryBadge = (item: Feedback) => {
+    if (!item.category) return null;
+
+    const color = getCategoryColor(item.category);
+    return (
+      <Badge
+        variant="outline"
+        className={`flex items-center gap-1 ${isInbox ? 'cursor-pointer' : ''}`}
+        style={{ borderColor: color, color }}
+        onClick={isInbox && item.category_id ? () => updateFilters({ category: item.category_id }) : undefined}
+      >
+        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+        {item.category.name}
+      </Badge>
+    );
+  };
+
+  const getTagBadges = (item: Feedback) => {
+    if (!item.tags || item.tags.length === 0) return null;
+
+    return item.tags.map((tag) => (
+      <Badge
+        key={tag}
+        variant="secondary"
+        className={`flex items-center gap-1 ${isInbox ? 'cursor-pointer' : ''}`}
+        onClick={isInbox ? () => updateFilters({ tag }) : undefined}
+      >
+        <Tag className="h-3 w-3" />
+        {tag}
+      </Badge>
+    ));
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / FEEDBACK_PAGE_SIZE));
+
+  const getPageNumbers = () => {
+    const pages = new Set([1, totalPages, filters.page - 1, filters.page, filters.page + 1]);
+    return Array.from(pages)
+      .filter(page => page >= 1 && page <= totalPages)
+      .sort((a, b) => a - b);
+  };
+
+  const renderPagination = () => {
+    if (!isInbox || totalCount <= FEEDBACK_PAGE_SIZE) return null;
+
+    const firstItem = (filters.page - 1) * FEEDBACK_PAGE_SIZE + 1;
+    const lastItem = Math.min(filters.page * FEEDBACK_PAGE_SIZE, totalCount);
+
+    return (
+      <div className="flex flex-col md:flex-row items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground whitespace-nowrap">
+          Showing {firstItem}–{lastItem} of {totalCount}
+        </p>
+        <Pagination className="md:justify-end">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                className={filters.page <= 1 ? 'pointer-events-none opacity-50' : ''}
+                onClick={(e) => {
+                  e.preventDefault();
+                  setPage(filters.page - 1);
+                }}
+              />
+            </PaginationItem>
+            {getPageNumbers().map((page, index, pages) => (
+              <React.Fragment key={page}>
+                {index > 0 && page - pages[index - 1] > 1 && (
+                  <PaginationItem>
+                    <PaginationEllipsis />
+                  </PaginationItem>
+                )}
+                <PaginationItem>
+                  <PaginationLink
+                    href="#"
+                    isActive={page === filters.page}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage(page);
+                    }}
+                  >
+                    {page}
+                  </PaginationLink>
+                </PaginationItem>
+              </React.Fragment>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                className={filters.page >= totalPages ? 'pointer-events-none opacity-50' : ''}
+                onClick={(e) => {
+                  e.preventDefault();
+                  setPage(filters.page + 1);
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
       </div>
     );
-  }
+  };
 
   return (
     <div className="space-y-4">
-      {feedback.length === 0 ? (
+      {isInbox ? (
+        <Card>
+          <CardContent className="pt-6">
+            <FeedbackFilterBar
+              filters={filters}
+              onChange={updateFilters}
+              onReset={resetFilters}
+              staff={getAssignableStaff(branchId)}
+              showBranchFilter={!branchId}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="flex gap-2">
+          <Button
+            variant={view === 'all' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setView('all')}
+          >
+            <MessageSquare className="h-4 w-4 mr-2" />
+            All Feedback
+          </Button>
+          <Button
+            variant={view === 'mine' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setView('mine')}
+          >
+            <Inbox className="h-4 w-4 mr-2" />
+            My Queue
+          </Button>
+        </div>
+      )}
+
+      {canBulkEdit && selectedIds.length > 0 && (
+        <FeedbackBulkActions
+          selectedCount={selectedIds.length}
+          currentProfile={currentProfile}
+          canAssignOthers={canAssignOthers}
+          assignableStaff={getAssignableStaff(branchId)}
+          showingArchived={showingArchived}
+          activeTag={filters.tag}
+          isApplying={isApplyingBulk}
+          onApply={applyBulkChanges}
+          onClear={() => setSelectedIds([])}
+        />
+      )}
+
+      {canBulkEdit && !loading && feedback.length > 0 && (
+        <div className="flex items-center gap-2 px-1">
+          <Checkbox
+            id="select-all-feedback"
+            checked={allOnPageSelected}
+            onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+          />
+          <Label htmlFor="select-all-feedback" className="text-sm text-muted-foreground">
+            Select all on this page
+          </Label>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : feedback.length === 0 ? (
         <Card>
           <CardContent className="flex items-center justify-center py-8">
             <div className="text-center text-muted-foreground">
               <MessageSquare className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No feedback available</p>
+              <p>
+                {isInbox
+                  ? 'No feedback matches your current filters'
+                  : view === 'mine' ? 'Nothing is assigned to you right now' : 'No feedback available'}
+              </p>
             </div>
           </CardContent>
         </Card>
       ) : (
         <div className="grid gap-4">
           {feedback.map((item) => (
-            <Card key={item.id} className="hover:shadow-md transition-shadow">
+            <Card
+              key={item.id}
+              className={`hover:shadow-md transition-shadow ${
+                selectedIds.includes(item.id) ? 'ring-2 ring-primary/40' : ''
+              }`}
+            >
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
+                  {canBulkEdit && (
+                    <Checkbox
+                      className="mt-1 mr-3"
+                      checked={selectedIds.includes(item.id)}
+                      onCheckedChange={(checked) => toggleSelected(item.id, checked === true)}
+                      aria-label={`Select ${item.subject}`}
+                    />
+                  )}
                   <div className="space-y-1 flex-1">
                     <CardTitle className="text-base font-medium">{item.subject}</CardTitle>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -174,6 +568,12 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                    {item.archived_at && (
+                      <Badge variant="outline" className="flex items-center gap-1">
+                        <Archive className="h-3 w-3" />
+                        Archived
+                      </Badge>
+                    )}
                     {getStatusBadge(item.status)}
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
@@ -189,7 +589,7 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
                           <Eye className="h-4 w-4 mr-2" />
                           View Details
                         </DropdownMenuItem>
-                        {item.status === 'pending' && (
+                        {canUpdateStatus(item) && item.status === 'pending' && (
                           <>
                             <DropdownMenuItem onClick={() => updateFeedbackStatus(item.id, 'in_progress')}>
                               <Clock className="h-4 w-4 mr-2" />
@@ -201,26 +601,50 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
                             </DropdownMenuItem>
                           </>
                         )}
-                        {item.status === 'in_progress' && (
+                        {canUpdateStatus(item) && item.status === 'in_progress' && (
                           <DropdownMenuItem onClick={() => updateFeedbackStatus(item.id, 'resolved')}>
                             <CheckCircle className="h-4 w-4 mr-2" />
                             Mark Resolved
                           </DropdownMenuItem>
                         )}
+                        {can('tasks.create') && (
+                          <DropdownMenuItem onClick={() => setTaskFeedback(item)}>
+                            <ClipboardList className="h-4 w-4 mr-2" />
+                            Create Task
+                          </DropdownMenuItem>
+                        )}
+                        {can('feedback.respond', item.branch_id) && (
+                          <>
+                            <DropdownMenuSeparator />
+                            <FeedbackAssignMenu
+                              feedback={item}
+                              currentProfile={currentProfile}
+                              canAssignOthers={canAssignOthers}
+                              assignableStaff={getAssignableStaff(item.branch_id)}
+                              onAssign={handleAssign}
+                            />
+                          </>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-3">
-                <div className="flex items-center gap-4">
+                <div className="flex flex-wrap items-center gap-4">
                   <div className="flex items-center gap-1">
-                    {getRatingStars(item.rating)}
-                    <span className="text-sm text-muted-foreground ml-2">
-                      {item.rating}/5
-                    </span>
+                    {renderScore(item)}
                   </div>
                   {getPriorityBadge(item.priority)}
+                  {getAssigneeBadge(item)}
+                  {getCategoryBadge(item)}
+                  {item.location_label && (
+                    <Badge variant="outline" className="flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {item.location_label}
+                    </Badge>
+                  )}
+                  {getTagBadges(item)}
                 </div>
                 
                 <p className="text-sm text-muted-foreground line-clamp-2">
@@ -249,15 +673,50 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
                     )}
                   </div>
                 )}
+
+                {isInbox && (
+                  <>
+                    <FeedbackAnswers answers={item.feedback_answers} compact />
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="px-0"
+                      onClick={() => setExpandedFeedbackId(
+                        expandedFeedbackId === item.id ? null : item.id
+                      )}
+                    >
+                      <MessageCircle className="h-4 w-4 mr-2" />
+                      {expandedFeedbackId === item.id ? 'Hide Conversation' : 'Conversation'}
+                      <ChevronDown
+                        className={`h-4 w-4 ml-1 transition-transform ${
+                          expandedFeedbackId === item.id ? 'rotate-180' : ''
+                        }`}
+                      />
+                    </Button>
+
+                    {expandedFeedbackId === item.id && (
+                      <div className="border-t pt-3">
+                        <FeedbackThread
+                          feedbackId={item.id}
+                          customerName={item.is_anonymous ? undefined : item.customer_name}
+                          customerEmail={item.is_anonymous ? undefined : item.customer_email}
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
               </CardContent>
             </Card>
           ))}
         </div>
       )}
 
+      {renderPagination()}
+
       {/* View Feedback Dialog */}
       <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Feedback Details</DialogTitle>
           </DialogHeader>
@@ -279,8 +738,7 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
                 <div>
                   <Label className="text-sm font-medium">Rating</Label>
                   <div className="flex items-center gap-1 mt-1">
-                    {getRatingStars(selectedFeedback.rating)}
-                    <span className="text-sm ml-1">{selectedFeedback.rating}/5</span>
+                    {renderScore(selectedFeedback)}
                   </div>
                 </div>
                 <div>
@@ -290,6 +748,27 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
                   </div>
                 </div>
               </div>
+
+              <div>
+                <Label className="text-sm font-medium">Category</Label>
+                <div className="mt-1">
+                  {getCategoryBadge(selectedFeedback) || (
+                    <span className="text-sm text-muted-foreground">Uncategorized</span>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium">Assigned To</Label>
+                <p className="text-sm mt-1 flex items-center gap-2">
+                  <UserCheck className="h-4 w-4" />
+                  {selectedFeedback.assigned_to
+                    ? getStaffName(selectedFeedback.assignee)
+                    : 'Unassigned'}
+                </p>
+              </div>
+
+              <FeedbackAnswers answers={selectedFeedback.feedback_answers} />
               
               {!selectedFeedback.is_anonymous && (
                 <div className="space-y-2">
@@ -322,11 +801,25 @@ export const FeedbackList = ({ onFeedbackUpdate }: FeedbackListProps) => {
                   {new Date(selectedFeedback.created_at).toLocaleString()}
                 </p>
               </div>
+
+              <div className="border-t pt-4">
+                <FeedbackThread
+                  feedbackId={selectedFeedback.id}
+                  customerName={selectedFeedback.is_anonymous ? undefined : selectedFeedback.customer_name}
+                  customerEmail={selectedFeedback.is_anonymous ? undefined : selectedFeedback.customer_email}
+                />
+              </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
 
+      <TaskDialog
+        open={!!taskFeedback}
+        onOpenChange={(open) => !open && setTaskFeedback(null)}
+        teams={teams}
+        feedback={taskFeedback}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,327 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUp, ArrowDown, Trash2, Plus, Save, ListChecks } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { FeedbackQuestionField } from '@/components/FeedbackQuestionField';
+import {
+  FeedbackQuestion,
+  QuestionType,
+  questionTypeLabels,
+  hasOptions,
+  toFeedbackQuestion
+} from '@/lib/feedbackQuestions';
+
+interface FeedbackQuestionBuilderProps {
+  branchId: string;
+}
+
+export const FeedbackQuestionBuilder = ({ branchId }: FeedbackQuestionBuilderProps) => {
+  const { toast } = useToast();
+  const [questions, setQuestions] = useState<FeedbackQuestion[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const [newQuestionType, setNewQuestionType] = useState<QuestionType>('single_choice');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (branchId) {
+      fetchQuestions(branchId);
+    }
+  }, [branchId]);
+
+  const fetchQuestions = async (branchId: string) => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('feedback_questions')
+        .select('*')
+        .eq('branch_id', branchId)
+        .order('sort_order');
+
+      if (error) throw error;
+      setQuestions((data || []).map(toFeedbackQuestion));
+      setRemovedIds([]);
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load questions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addQuestion = () => {
+    setQuestions(prev => [
+      ...prev,
+      {
+        branch_id: branchId,
+        question_text: '',
+        question_type: newQuestionType,
+        options: hasOptions(newQuestionType) ? ['', ''] : [],
+        is_required: false,
+        is_active: true,
+        sort_order: prev.length
+      }
+    ]);
+  };
+
+  const updateQuestion = (index: number, changes: Partial<FeedbackQuestion>) => {
+    setQuestions(prev => prev.map((question, i) => i === index ? { ...question, ...changes } : question));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+
+    setQuestions(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeQuestion = (index: number) => {
+    const question = questions[index];
+    if (question.id) {
+      setRemovedIds(prev => [...prev, question.id as string]);
+    }
+    setQuestions(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const validateQuestions = () => {
+    for (const [index, question] of questions.entries()) {
+      if (!question.question_text.trim()) {
+        return `Question ${index + 1} needs a label`;
+      }
+      if (hasOptions(question.question_type) && question.options.filter(o => o.trim()).length < 2) {
+        return `Question ${index + 1} needs at least two options`;
+      }
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validateQuestions();
+    if (validationError) {
+      toast({
+        title: "Invalid question",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (removedIds.length > 0) {
+        const { error } = await supabase
+          .from('feedback_questions')
+          .delete()
+          .in('id', removedIds);
+
+        if (error) throw error;
+      }
+
+      const rows = questions.map((question, index) => ({
+        ...question,
+        branch_id: branchId,
+        question_text: question.question_text.trim(),
+        options: hasOptions(question.question_type)
+          ? question.options.map(o => o.trim()).filter(Boolean)
+          : [],
+        sort_order: index
+      }));
+
+      const existingRows = rows.filter(row => row.id);
+      const newRows = rows.filter(row => !row.id);
+
+      if (existingRows.length > 0) {
+        const { error } = await supabase
+          .from('feedback_questions')
+          .upsert(existingRows);
+
+        if (error) throw error;
+      }
+
+      if (newRows.length > 0) {
+        const { error } = await supabase
+          .from('feedback_questions')
+          .insert(newRows);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Questions saved",
+        description: "Your feedback form questions have been updated",
+      });
+
+      fetchQuestions(branchId);
+    } catch (error) {
+      console.error('Error saving questions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save questions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Custom Questions
+        </CardTitle>
+        <CardDescription>
+          Ask customers additional questions after the rating. Answers are stored with each feedback.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            {questions.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No custom questions yet. Add one below.
+              </p>
+            )}
+
+            {questions.map((question, index) => (
+              <div key={question.id || `new-${index}`} className="border rounded-lg p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{index + 1}</Badge>
+                    <Badge variant="outline">{questionTypeLabels[question.question_type]}</Badge>
+                    {!question.is_active && <Badge variant="outline">Hidden</Badge>}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveQuestion(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveQuestion(index, 1)}
+                      disabled={index === questions.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => removeQuestion(index)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-4">
+                    <div>
+                      <Label>Question</Label>
+                      <Input
+                        value={question.question_text}
+                        onChange={(e) => updateQuestion(index, { question_text: e.target.value })}
+                        placeholder="e.g., How did you hear about us?"
+                        maxLength={300}
+                      />
+                    </div>
+
+                    {hasOptions(question.question_type) && (
+                      <div>
+                        <Label>Options</Label>
+                        <Textarea
+                          value={question.options.join('\n')}
+                          onChange={(e) => updateQuestion(index, { options: e.target.value.split('\n') })}
+                          placeholder={'One option per line'}
+                          rows={4}
+                        />
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Enter one option per line
+                        </p>
+                      </div>
+                    )}
+
+                    <div className="flex items-center gap-6">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={question.is_required}
+                          onCheckedChange={(checked) => updateQuestion(index, { is_required: checked })}
+                        />
+                        <Label>Required</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={question.is_active}
+                          onCheckedChange={(checked) => updateQuestion(index, { is_active: checked })}
+                        />
+                        <Label>Visible on form</Label>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="p-4 bg-muted rounded-lg">
+                    <p className="text-xs text-muted-foreground mb-2">Preview</p>
+                    <FeedbackQuestionField
+                      question={{
+                        ...question,
+                        question_text: question.question_text || 'Untitled question',
+                        options: question.options.filter(o => o.trim())
+                      }}
+                      value={undefined}
+                      onChange={() => {}}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex flex-col md:flex-row gap-2 pt-4 border-t">
+              <Select value={newQuestionType} onValueChange={(value) => setNewQuestionType(value as QuestionType)}>
+                <SelectTrigger className="md:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(questionTypeLabels) as QuestionType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {questionTypeLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={addQuestion}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Question
+              </Button>
+              <div className="flex-1" />
+              <Button onClick={handleSave} disabled={isSaving}>
+                <Save className="h-4 w-4 mr-2" />
+                {isSaving ? 'Saving...' : 'Save Questions'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
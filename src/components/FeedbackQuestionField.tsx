@@ -0,0 +1,136 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { AnswerValue, FeedbackQuestion } from '@/lib/feedbackQuestions';
+
+interface FeedbackQuestionFieldProps {
+  question: FeedbackQuestion;
+  value: AnswerValue | undefined;
+  onChange: (value: AnswerValue) => void;
+  primaryColor?: string;
+}
+
+export const FeedbackQuestionField = ({
+  question,
+  value,
+  onChange,
+  primaryColor = '#3b82f6'
+}: FeedbackQuestionFieldProps) => {
+  const fieldId = `question-${question.id || question.sort_order}`;
+
+  const renderInput = () => {
+    switch (question.question_type) {
+      case 'single_choice':
+        return (
+          <RadioGroup
+            value={typeof value === 'string' ? value : ''}
+            onValueChange={onChange}
+            className="mt-2"
+          >
+            {question.options.map((option, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`${fieldId}-${index}`} />
+                <Label htmlFor={`${fieldId}-${index}`} className="font-normal">{option}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+
+      case 'multi_choice': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="grid gap-2 mt-2">
+            {question.options.map((option, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${fieldId}-${index}`}
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) =>
+                    onChange(checked
+                      ? [...selected, option]
+                      : selected.filter((item) => item !== option))
+                  }
+                />
+                <Label htmlFor={`${fieldId}-${index}`} className="font-normal">{option}</Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      case 'yes_no':
+        return (
+          <div className="flex gap-2 mt-2">
+            {[true, false].map((option) => (
+              <button
+                key={String(option)}
+                type="button"
+                onClick={() => onChange(option)}
+                className="px-4 py-2 rounded-md border text-sm transition-colors"
+                style={value === option ? { backgroundColor: primaryColor, borderColor: primaryColor, color: '#ffffff' } : undefined}
+              >
+                {option ? 'Yes' : 'No'}
+              </button>
+            ))}
+          </div>
+        );
+
+      case 'scale':
+        return (
+          <div className="mt-2">
+            <div className="flex flex-wrap gap-1">
+              {Array.from({ length: 11 }, (_, score) => (
+                <button
+                  key={score}
+                  type="button"
+                  onClick={() => onChange(score)}
+                  className="h-9 w-9 rounded-md border text-sm transition-colors"
+                  style={value === score ? { backgroundColor: primaryColor, borderColor: primaryColor, color: '#ffffff' } : undefined}
+                >
+                  {score}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground mt-1">
+              <span>Not at all</span>
+              <span>Extremely</span>
+            </div>
+          </div>
+        );
+
+      case 'date':
+        return (
+          <Input
+            id={fieldId}
+            type="date"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value)}
+            className="mt-2"
+          />
+        );
+
+      default:
+        return (
+          <Input
+            id={fieldId}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value)}
+            maxLength={200}
+            className="mt-2"
+          />
+        );
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor={fieldId} className="text-sm font-medium">
+        {question.question_text}
+        {question.is_required && <span className="text-red-500 ml-1">*</span>}
+      </label>
+      {renderInput()}
+    </div>
+  );
+};
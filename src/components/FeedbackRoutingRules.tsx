@@ -0,0 +1,388 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUp, ArrowDown, Trash2, Plus, Route } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { StaffProfile, getStaffName } from '@/hooks/useFeedbackAssignment';
+import { getRoleLabel } from '@/lib/permissions';
+
+type RoutingStrategy = 'round_robin' | 'branch_manager' | 'specific_user';
+
+interface RoutingRule {
+  id: string;
+  branch_id: string;
+  name: string;
+  strategy: string;
+  category_id: string | null;
+  max_rating: number | null;
+  assignee_id: string | null;
+  is_active: boolean;
+  sort_order: number;
+}
+
+interface FeedbackCategory {
+  id: string;
+  name: string;
+}
+
+interface FeedbackRoutingRulesProps {
+  branchId: string;
+  staff: StaffProfile[];
+}
+
+const strategyLabels: Record<RoutingStrategy, string> = {
+  round_robin: 'Round-robin across branch staff',
+  branch_manager: 'Branch manager',
+  specific_user: 'Specific team member',
+};
+
+const emptyRule = {
+  name: '',
+  strategy: 'round_robin' as RoutingStrategy,
+  category_id: 'any',
+  max_rating: 'any',
+  assignee_id: '',
+};
+
+export const FeedbackRoutingRules = ({ branchId, staff }: FeedbackRoutingRulesProps) => {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<RoutingRule[]>([]);
+  const [categories, setCategories] = useState<FeedbackCategory[]>([]);
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (branchId) {
+      fetchRules(branchId);
+    }
+  }, [branchId]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchRules = async (branchId: string) => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('feedback_routing_rules')
+        .select('*')
+        .eq('branch_id', branchId)
+        .order('sort_order');
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error fetching routing rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load routing rules",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('feedback_categories')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('sort_order');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
+
+  const handleAddRule = async () => {
+    if (!newRule.name.trim()) {
+      toast({
+        title: "Invalid rule",
+        description: "Give the rule a name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newRule.strategy === 'specific_user' && !newRule.assignee_id) {
+      toast({
+        title: "Invalid rule",
+        description: "Choose who should receive matching feedback",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('feedback_routing_rules')
+        .insert({
+          branch_id: branchId,
+          name: newRule.name.trim(),
+          strategy: newRule.strategy,
+          category_id: newRule.category_id === 'any' ? null : newRule.category_id,
+          max_rating: newRule.max_rating === 'any' ? null : Number(newRule.max_rating),
+          assignee_id: newRule.strategy === 'specific_user' ? newRule.assignee_id : null,
+          sort_order: rules.length,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Rule added",
+        description: "New feedback will be routed using this rule",
+      });
+      setNewRule(emptyRule);
+      fetchRules(branchId);
+    } catch (error) {
+      console.error('Error adding routing rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add routing rule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: RoutingRule) => {
+    try {
+      const { error } = await supabase
+        .from('feedback_routing_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: !r.is_active } : r));
+    } catch (error) {
+      console.error('Error updating routing rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update routing rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const moveRule = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRules(next);
+
+    try {
+      const results = await Promise.all(
+        next.map((rule, order) =>
+          supabase
+            .from('feedback_routing_rules')
+            .update({ sort_order: order })
+            .eq('id', rule.id)
+        )
+      );
+
+      const failed = results.find(r => r.error);
+      if (failed) throw failed.error;
+    } catch (error) {
+      console.error('Error reordering routing rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reorder routing rules",
+        variant: "destructive",
+      });
+      fetchRules(branchId);
+    }
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('feedback_routing_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+      setRules(prev => prev.filter(r => r.id !== ruleId));
+    } catch (error) {
+      console.error('Error deleting routing rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete routing rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeRule = (rule: RoutingRule) => {
+    const conditions = [];
+    if (rule.category_id) {
+      const category = categories.find(c => c.id === rule.category_id);
+      conditions.push(`category is ${category?.name || 'unknown'}`);
+    }
+    if (rule.max_rating) {
+      conditions.push(`rating is ${rule.max_rating} or lower`);
+    }
+
+    const target = rule.strategy === 'specific_user'
+      ? getStaffName(staff.find(s => s.id === rule.assignee_id))
+      : strategyLabels[rule.strategy as RoutingStrategy]?.toLowerCase();
+
+    return `${conditions.length > 0 ? `When ${conditions.join(' and ')}` : 'All new feedback'} → ${target}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          Auto-Routing Rules
+        </CardTitle>
+        <CardDescription>
+          New feedback is assigned by the first matching active rule, from top to bottom
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center p-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No routing rules yet. New feedback stays unassigned until someone picks it up.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className="flex items-center gap-3 p-3 border rounded-lg">
+                <Badge variant="outline">{index + 1}</Badge>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">{rule.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+                </div>
+                <Switch checked={rule.is_active} onCheckedChange={() => toggleRule(rule)} />
+                <Button variant="ghost" size="sm" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => deleteRule(rule.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 border-t pt-4">
+          <h4 className="text-sm font-medium">Add Rule</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={newRule.name}
+                onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Low ratings to manager"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Assign To</Label>
+              <Select
+                value={newRule.strategy}
+                onValueChange={(value: RoutingStrategy) => setNewRule(prev => ({ ...prev, strategy: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(strategyLabels) as RoutingStrategy[]).map((strategy) => (
+                    <SelectItem key={strategy} value={strategy}>
+                      {strategyLabels[strategy]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>When Category Is</Label>
+              <Select
+                value={newRule.category_id}
+                onValueChange={(value) => setNewRule(prev => ({ ...prev, category_id: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any category</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>When Rating Is At Most</Label>
+              <Select
+                value={newRule.max_rating}
+                onValueChange={(value) => setNewRule(prev => ({ ...prev, max_rating: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any rating</SelectItem>
+                  {[1, 2, 3, 4].map((rating) => (
+                    <SelectItem key={rating} value={rating.toString()}>
+                      {rating} star{rating > 1 ? 's' : ''} or lower
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {newRule.strategy === 'specific_user' && (
+              <div className="space-y-2 md:col-span-2">
+                <Label>Team Member</Label>
+                <Select
+                  value={newRule.assignee_id}
+                  onValueChange={(value) => setNewRule(prev => ({ ...prev, assignee_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a team member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {staff.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {getStaffName(member)} ({getRoleLabel(member.role)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <Button onClick={handleAddRule} disabled={isSaving}>
+            <Plus className="h-4 w-4 mr-2" />
+            {isSaving ? 'Adding...' : 'Add Rule'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,343 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Lock, Mail, MessageCircle, RefreshCw, Send, Trash2 } from 'lucide-react';
+
+interface FeedbackResponse {
+  id: string;
+  feedback_id: string;
+  message: string;
+  is_internal: boolean;
+  responder_id: string | null;
+  author_type: string;
+  email_status: string | null;
+  email_error: string | null;
+  created_at: string;
+  profiles?: {
+    display_name: string | null;
+    email: string | null;
+  } | null;
+}
+
+interface FeedbackThreadProps {
+  feedbackId: string;
+  customerName?: string;
+  customerEmail?: string;
+  onResponseAdded?: () => void;
+}
+
+export const FeedbackThread = ({ feedbackId, customerName, customerEmail, onResponseAdded }: FeedbackThreadProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [responses, setResponses] = useState<FeedbackResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [isInternal, setIsInternal] = useState(true);
+  const [sendEmail, setSendEmail] = useState(true);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fetchResponses();
+  }, [feedbackId]);
+
+  useEffect(() => {
+    fetchProfileId();
+  }, [user]);
+
+  const fetchProfileId = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) throw error;
+      setProfileId(data.id);
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchResponses = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('feedback_responses')
+        .select('*, profiles(display_name, email)')
+        .eq('feedback_id', feedbackId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setResponses(data || []);
+    } catch (error) {
+      console.error('Error fetching responses:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load conversation",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!message.trim()) return;
+
+    if (!profileId) {
+      toast({
+        title: "Error",
+        description: "Your profile could not be found",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSending(true);
+    try {
+      const { data, error } = await supabase
+        .from('feedback_responses')
+        .insert({
+          feedback_id: feedbackId,
+          responder_id: profileId,
+          message: message.trim(),
+          is_internal: isInternal,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const shouldEmail = !isInternal && sendEmail && !!customerEmail;
+
+      toast({
+        title: isInternal ? "Note added" : "Reply added",
+        description: isInternal
+          ? "Internal note is visible to staff only"
+          : shouldEmail
+            ? `Reply is being emailed to ${customerEmail}`
+            : "Reply has been added to the conversation",
+      });
+
+      setMessage('');
+      if (shouldEmail) {
+        await emailResponse(data.id);
+      }
+      fetchResponses();
+      if (onResponseAdded) {
+        onResponseAdded();
+      }
+    } catch (error) {
+      console.error('Error adding response:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add response",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const emailResponse = async (responseId: string) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('send-feedback-reply', {
+        body: { responseId }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+    } catch (error) {
+      console.error('Error emailing reply:', error);
+      toast({
+        title: "Email not sent",
+        description: "The reply was saved but could not be emailed to the customer",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResend = async (responseId: string) => {
+    await emailResponse(responseId);
+    fetchResponses();
+  };
+
+  const handleDelete = async (responseId: string) => {
+    try {
+      const { error } = await supabase
+        .from('feedback_responses')
+        .delete()
+        .eq('id', responseId);
+
+      if (error) throw error;
+
+      setResponses(prev => prev.filter(r => r.id !== responseId));
+    } catch (error) {
+      console.error('Error deleting response:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete response",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getAuthorName = (response: FeedbackResponse) => {
+    if (response.author_type === 'customer') {
+      return customerName || 'Customer';
+    }
+    return response.profiles?.display_name || response.profiles?.email || 'Team member';
+  };
+
+  const getEmailStatusBadge = (response: FeedbackResponse) => {
+    if (!response.email_status) return null;
+
+    const variants = {
+      pending: 'bg-yellow-100 text-yellow-800',
+      sent: 'bg-green-100 text-green-800',
+      failed: 'bg-red-100 text-red-800'
+    };
+
+    return (
+      <Badge
+        variant="outline"
+        className={variants[response.email_status as keyof typeof variants]}
+        title={response.email_error || undefined}
+      >
+        <Mail className="h-3 w-3 mr-1" />
+        {response.email_status === 'sent' ? 'Emailed' : response.email_status === 'failed' ? 'Email failed' : 'Sending'}
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-medium flex items-center gap-2">
+        <MessageCircle className="h-4 w-4" />
+        Conversation
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center p-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : responses.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No replies or notes yet</p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+          {responses.map((response) => (
+            <div
+              key={response.id}
+              className={`p-3 rounded-lg border ${
+                response.is_internal
+                  ? 'bg-amber-50 border-amber-200'
+                  : response.author_type === 'customer'
+                    ? 'bg-background border-blue-200'
+                    : 'bg-muted border-transparent'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-medium">{getAuthorName(response)}</span>
+                  {response.is_internal ? (
+                    <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
+                      <Lock className="h-3 w-3 mr-1" />
+                      Internal note
+                    </Badge>
+                  ) : response.author_type === 'customer' ? (
+                    <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">
+                      Customer
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">Reply</Badge>
+                  )}
+                  {getEmailStatusBadge(response)}
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(response.created_at).toLocaleString()}
+                  </span>
+                  {response.email_status === 'failed' && customerEmail && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      title="Retry email"
+                      onClick={() => handleResend(response.id)}
+                    >
+                      <RefreshCw className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {response.responder_id === profileId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => handleDelete(response.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <p className="text-sm mt-2 whitespace-pre-wrap">{response.message}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {can('feedback.respond') && (
+        <div className="space-y-2">
+          <Textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder={isInternal ? "Add an internal note for your team..." : "Write a reply to the customer..."}
+            rows={3}
+          />
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`internal-${feedbackId}`}
+                checked={isInternal}
+                onCheckedChange={setIsInternal}
+              />
+              <Label htmlFor={`internal-${feedbackId}`} className="text-sm">
+                Internal note
+              </Label>
+              {!isInternal && customerEmail && (
+                <>
+                  <Switch
+                    id={`email-${feedbackId}`}
+                    checked={sendEmail}
+                    onCheckedChange={setSendEmail}
+                    className="ml-4"
+                  />
+                  <Label htmlFor={`email-${feedbackId}`} className="text-sm">
+                    Email customer
+                  </Label>
+                </>
+              )}
+            </div>
+            <Button size="sm" onClick={handleSend} disabled={sending || !message.trim()}>
+              <Send className="h-4 w-4 mr-2" />
+              {sending ? 'Sending...' : isInternal ? 'Add Note' : 'Reply'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
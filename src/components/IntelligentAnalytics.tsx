@@ -1,14 +1,26 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { FeedbackCategoryBreakdown } from '@/components/FeedbackCategoryBreakdown';
+import { AnalysisFilters } from '@/components/AnalysisFilters';
+import { AnalysisComparison } from '@/components/AnalysisComparison';
+import { AnalysisHistory } from '@/components/AnalysisHistory';
+import {
+  AnalysisInsights,
+  AnalysisMeta,
+  AnalysisScope,
+  buildAnalysisRequest,
+  formatAnalysisPeriod,
+} from '@/lib/feedbackAnalysis';
+import { TrendRangePreset, getPresetRange, isValidTrendRange, maxTrendDays } from '@/lib/feedbackTrends';
 import { 
   TrendingUp, 
   Brain, 
@@ -19,46 +31,27 @@ import {
   RefreshCw,
   AlertCircle,
   CheckCircle,
-  Clock
+  Clock,
+  Tags
 } from 'lucide-react';
 
-interface AnalysisInsights {
-  sentiment?: {
-    positive: number;
-    neutral: number;
-    negative: number;
-  };
-  trends?: string[];
-  recommendations?: string[];
-  summary?: string;
-  keyTopics?: string[];
-  priorityActions?: string[];
-  impactAreas?: string[];
-  ratingDistribution?: {
-    1: number;
-    2: number;
-    3: number;
-    4: number;
-    5: number;
-  };
-  stats?: {
-    totalFeedback: number;
-    averageRating: number;
-    ratingDistribution: Record<string, number>;
-    pendingCount: number;
-    resolvedCount: number;
-  };
-}
-
 export const IntelligentAnalytics = () => {
   const { user } = useAuth();
   const { subscribed, subscriptionTier } = useSubscription();
   const { toast } = useToast();
+  const [, setSearchParams] = useSearchParams();
   const [insights, setInsights] = useState<AnalysisInsights>({});
   const [loading, setLoading] = useState(false);
-  const [timeRange, setTimeRange] = useState('30d');
+  const [preset, setPreset] = useState<TrendRangePreset>('30d');
+  const [scope, setScope] = useState<AnalysisScope>({
+    range: getPresetRange('30d'),
+    branchIds: [],
+    categoryIds: [],
+    compare: false,
+  });
   const [analysisType, setAnalysisType] = useState('overview');
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisMeta | null>(null);
   const [usageCount, setUsageCount] = useState(0);
   const [usageLimit, setUsageLimit] = useState(0);
 
@@ -105,7 +98,8 @@ export const IntelligentAnalytics = () => {
     return usageCount < usageLimit;
   };
 
-  const analyzeData = async (type: string = analysisType) => {
+  // refresh skips the saved result and asks the model again
+  const analyzeData = async (type: string = analysisType, refresh = false) => {
     if (!user) return;
 
     // Check if user can use AI features
@@ -120,18 +114,36 @@ export const IntelligentAnalytics = () => {
       return;
     }
 
+    if (!isValidTrendRange(scope.range)) {
+      toast({
+        title: "Invalid date range",
+        description: `Pick a start and end date up to ${maxTrendDays} days apart.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setLoading(true);
       
       const { data, error } = await supabase.functions.invoke('analyze-feedback', {
-        body: { type, timeRange }
+        body: { ...buildAnalysisRequest(type, scope), refresh }
       });
 
       if (error) throw error;
 
       if (data.success) {
         setInsights(data.insights);
-        setLastUpdated(new Date());
+        setAnalysis(data.analysis ?? null);
+        setLastUpdated(data.analysis ? new Date(data.analysis.createdAt) : new Date());
+
+        if (data.analysis?.cached) {
+          toast({
+            title: "Saved Analysis Loaded",
+            description: "No feedback has changed since this analysis was generated",
+          });
+          return;
+        }
         
         // Track usage for Basic plan users
         if (subscriptionTier === 'Basic') {
@@ -140,7 +152,7 @@ export const IntelligentAnalytics = () => {
             .insert({
               user_id: user.id,
               event_type: 'ai_analysis',
-              event_data: { type, timeRange }
+              event_data: { type, ...scope.range, branchIds: scope.branchIds, categoryIds: scope.categoryIds, compare: scope.compare }
             });
           setUsageCount(prev => prev + 1);
         }
@@ -164,9 +176,42 @@ export const IntelligentAnalytics = () => {
     }
   };
 
+  const openSavedAnalysis = (saved: AnalysisInsights, meta: AnalysisMeta, type: string) => {
+    setInsights(saved);
+    setAnalysis(meta);
+    setLastUpdated(new Date(meta.createdAt));
+    if (type !== 'overview') setAnalysisType(type);
+  };
+
+  // Opens on the latest saved analysis; new ones only run from the button so visiting the page
+  // or editing the filters doesn't spend analyses
   useEffect(() => {
-    analyzeData();
-  }, [timeRange]);
+    const fetchLatestAnalysis = async () => {
+      if (!user) return;
+
+      try {
+        const { data, error } = await supabase
+          .from('feedback_analyses')
+          .select('id, analysis_type, model, created_at, insights')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          openSavedAnalysis(
+            data.insights as unknown as AnalysisInsights,
+            { id: data.id, model: data.model, createdAt: data.created_at, cached: true },
+            data.analysis_type
+          );
+        }
+      } catch (error) {
+        console.error('Error fetching latest analysis:', error);
+      }
+    };
+
+    fetchLatestAnalysis();
+  }, [user]);
 
   const getSentimentColor = (type: string) => {
     switch (type) {
@@ -255,6 +300,70 @@ export const IntelligentAnalytics = () => {
         </Card>
       )}
 
+      {(insights.stats?.nps || insights.stats?.csat) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {insights.stats.nps && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Net Promoter Score</CardTitle>
+                <CardDescription>{insights.stats.nps.responses} NPS responses</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className={`text-3xl font-bold ${insights.stats.nps.score >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {insights.stats.nps.score}
+                </div>
+                {[
+                  { label: 'Promoters (9-10)', count: insights.stats.nps.promoters, color: 'text-green-600' },
+                  { label: 'Passives (7-8)', count: insights.stats.nps.passives, color: 'text-yellow-600' },
+                  { label: 'Detractors (0-6)', count: insights.stats.nps.detractors, color: 'text-red-600' }
+                ].map(({ label, count, color }) => (
+                  <div key={label}>
+                    <div className="flex justify-between text-sm">
+                      <span className={color}>{label}</span>
+                      <span>{count}</span>
+                    </div>
+                    <Progress value={(count / insights.stats.nps.responses) * 100} className="mt-1" />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+          {insights.stats.csat && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Customer Satisfaction (CSAT)</CardTitle>
+                <CardDescription>{insights.stats.csat.responses} CSAT responses</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="text-3xl font-bold">{insights.stats.csat.score}%</div>
+                <Progress value={insights.stats.csat.score} />
+                <p className="text-sm text-muted-foreground">
+                  {insights.stats.csat.satisfied} customers answered satisfied or very satisfied
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      {insights.stats?.categoryBreakdown && insights.stats.categoryBreakdown.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Tags className="h-5 w-5" />
+              Feedback by Category
+            </CardTitle>
+            <CardDescription>Click a category to open its feedback in the inbox</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FeedbackCategoryBreakdown
+              breakdown={insights.stats.categoryBreakdown}
+              onSelect={(categoryId) => setSearchParams({ section: 'feedback', category: categoryId ?? 'none' })}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {insights.stats && (
         <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
           {Object.entries(insights.stats.ratingDistribution).map(([rating, count]) => (
@@ -412,18 +521,10 @@ export const IntelligentAnalytics = () => {
           </Card>
         )}
 
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            <Select value={timeRange} onValueChange={setTimeRange}>
-              <SelectTrigger className="w-32">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="7d">Last 7 days</SelectItem>
-                <SelectItem value="30d">Last 30 days</SelectItem>
-                <SelectItem value="90d">Last 90 days</SelectItem>
-              </SelectContent>
-            </Select>
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+          <AnalysisFilters preset={preset} onPresetChange={setPreset} scope={scope} onScopeChange={setScope} />
+          <div className="flex items-center gap-2">
+            <AnalysisHistory onOpen={openSavedAnalysis} />
             <Button 
               onClick={() => analyzeData()} 
               disabled={loading || !canUseAI()}
@@ -455,17 +556,12 @@ export const IntelligentAnalytics = () => {
           </h2>
           <p className="text-muted-foreground">AI-powered insights from your customer feedback</p>
         </div>
-        <div className="flex items-center gap-4">
-          <Select value={timeRange} onValueChange={setTimeRange}>
-            <SelectTrigger className="w-32">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="7d">Last 7 days</SelectItem>
-              <SelectItem value="30d">Last 30 days</SelectItem>
-              <SelectItem value="90d">Last 90 days</SelectItem>
-            </SelectContent>
-          </Select>
+      </div>
+
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <AnalysisFilters preset={preset} onPresetChange={setPreset} scope={scope} onScopeChange={setScope} />
+        <div className="flex items-center gap-2">
+          <AnalysisHistory onOpen={openSavedAnalysis} />
           <Button 
             onClick={() => analyzeData()} 
             disabled={loading}
@@ -491,11 +587,33 @@ export const IntelligentAnalytics = () => {
             <div className="flex items-center gap-2">
               <Clock className="h-4 w-4" />
               Last updated: {lastUpdated.toLocaleString()}
+              {insights.period && <span>· {formatAnalysisPeriod(insights.period)}</span>}
+              {analysis?.cached && (
+                <>
+                  <Badge variant="outline">Saved result</Badge>
+                  {canUseAI() && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => analyzeData(analysisType, true)}
+                      disabled={loading}
+                    >
+                      Regenerate
+                    </Button>
+                  )}
+                </>
+              )}
             </div>
             {insights.stats && (
               <div className="flex items-center gap-4">
                 <span>{insights.stats.totalFeedback} responses analyzed</span>
+                {insights.sample?.sampled && (
+                  <span>AI read the {insights.sample.promptRows} most recent</span>
+                )}
                 <span>Avg rating: {insights.stats.averageRating.toFixed(1)}/5</span>
+                {insights.stats.nps && <span>NPS: {insights.stats.nps.score}</span>}
+                {insights.stats.csat && <span>CSAT: {insights.stats.csat.score}%</span>}
               </div>
             )}
           </div>
@@ -516,6 +634,10 @@ export const IntelligentAnalytics = () => {
           </Card>
         )}
 
+        {insights.comparison && insights.stats && (
+          <AnalysisComparison comparison={insights.comparison} stats={insights.stats} />
+        )}
+
         {/* Analysis Tabs */}
         <Tabs value={analysisType} onValueChange={setAnalysisType}>
           <TabsList className="grid w-full grid-cols-3">
@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Brain, Building2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { usePermissions } from '@/hooks/usePermissions';
+
+// Must match the providers analyze-feedback knows about; API keys are function secrets, not settings
+const aiProviders = [
+  { value: 'openai', label: 'OpenAI', modelPlaceholder: 'gpt-5-mini-2025-08-07' },
+  { value: 'anthropic', label: 'Anthropic', modelPlaceholder: 'claude-sonnet-4-5' },
+  { value: 'azure', label: 'Azure OpenAI', modelPlaceholder: 'Deployment name' },
+  { value: 'local', label: 'Self-hosted (OpenAI-compatible)', modelPlaceholder: 'llama3.1' },
+];
+
+const DEFAULT_PROVIDER = 'default';
+
+export const OrganizationSettings = () => {
+  const { toast } = useToast();
+  const { currentOrganization, refreshOrganizations } = useOrganization();
+  const { can } = usePermissions();
+  const [name, setName] = useState(currentOrganization?.name || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [aiProvider, setAiProvider] = useState(DEFAULT_PROVIDER);
+  const [aiModel, setAiModel] = useState('');
+  const [isSavingAi, setIsSavingAi] = useState(false);
+  // Providers with their secrets set on the server; null until known, when nothing is disabled
+  const [configuredProviders, setConfiguredProviders] = useState<string[] | null>(null);
+  const [defaultProvider, setDefaultProvider] = useState<string | null>(null);
+
+  const canManage = can('organization.manage');
+
+  useEffect(() => {
+    fetchAiSettings();
+  }, [currentOrganization?.id]);
+
+  useEffect(() => {
+    fetchConfiguredProviders();
+  }, []);
+
+  const fetchConfiguredProviders = async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke('analyze-feedback', {
+        body: { action: 'providers' }
+      });
+
+      if (error) throw error;
+      setConfiguredProviders(data.configured ?? []);
+      setDefaultProvider(data.defaultProvider ?? null);
+    } catch (error) {
+      console.error('Error fetching configured AI providers:', error);
+    }
+  };
+
+  const isConfigured = (provider: string) => !configuredProviders || configuredProviders.includes(provider);
+  const providerLabel = (provider: string) =>
+    aiProviders.find((option) => option.value === provider)?.label ?? provider;
+
+  const fetchAiSettings = async () => {
+    if (!currentOrganization) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('ai_provider, ai_model')
+        .eq('id', currentOrganization.id)
+        .single();
+
+      if (error) throw error;
+      setAiProvider(data.ai_provider ?? DEFAULT_PROVIDER);
+      setAiModel(data.ai_model ?? '');
+    } catch (error) {
+      console.error('Error fetching AI settings:', error);
+    }
+  };
+
+  const saveAiSettings = async () => {
+    if (!currentOrganization) return;
+
+    const provider = aiProvider === DEFAULT_PROVIDER ? null : aiProvider;
+    if (provider && !isConfigured(provider)) {
+      toast({
+        title: "Provider not configured",
+        description: `${providerLabel(provider)} needs its API keys set on the server before it can be used`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSavingAi(true);
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update({ ai_provider: provider, ai_model: provider ? aiModel.trim() || null : null })
+        .eq('id', currentOrganization.id);
+
+      if (error) throw error;
+
+      if (!provider) setAiModel('');
+      toast({
+        title: "AI settings saved",
+        description: "New analyses will use the selected model",
+      });
+    } catch (error) {
+      console.error('Error saving AI settings:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save AI settings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingAi(false);
+    }
+  };
+
+  const saveName = async () => {
+    if (!currentOrganization || !name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update({ name: name.trim() })
+        .eq('id', currentOrganization.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Organization updated",
+        description: `Renamed to "${name.trim()}"`,
+      });
+      refreshOrganizations();
+    } catch (error) {
+      console.error('Error renaming organization:', error);
+      toast({
+        title: "Error",
+        description: "Failed to rename organization",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!currentOrganization) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Building2 className="h-5 w-5" />
+        <h2 className="text-2xl font-bold">Organization</h2>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+          <CardDescription>
+            Branches, feedback, QR codes, categories and teams all belong to this organization.
+            Member roles are managed under Settings → Roles.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Label htmlFor="organization-settings-name">Name</Label>
+          <div className="flex gap-2">
+            <Input
+              id="organization-settings-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={!canManage}
+              maxLength={100}
+            />
+            {canManage && (
+              <Button onClick={saveName} disabled={isSaving || !name.trim() || name.trim() === currentOrganization.name}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5" />
+            AI Analysis
+          </CardTitle>
+          <CardDescription>
+            The model used by Intelligent Analytics. Leave it on the default to use the platform's configured
+            provider; other providers need their API keys set on the server.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="organization-settings-ai-provider">Provider</Label>
+            <Select value={aiProvider} onValueChange={setAiProvider} disabled={!canManage}>
+              <SelectTrigger id="organization-settings-ai-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PROVIDER}>
+                  Platform default{defaultProvider ? ` (${providerLabel(defaultProvider)})` : ''}
+                </SelectItem>
+                {aiProviders.map((provider) => (
+                  <SelectItem key={provider.value} value={provider.value} disabled={!isConfigured(provider.value)}>
+                    {provider.label}{isConfigured(provider.value) ? '' : ' (not configured)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {aiProvider !== DEFAULT_PROVIDER && !isConfigured(aiProvider) && (
+              <p className="text-xs text-destructive">
+                {providerLabel(aiProvider)} isn't configured on the server, so analyses fall back to basic statistics.
+              </p>
+            )}
+            {aiProvider === DEFAULT_PROVIDER && defaultProvider && !isConfigured(defaultProvider) && (
+              <p className="text-xs text-destructive">
+                The platform default isn't configured on the server, so analyses fall back to basic statistics.
+              </p>
+            )}
+          </div>
+          {aiProvider !== DEFAULT_PROVIDER && (
+            <div className="space-y-2">
+              <Label htmlFor="organization-settings-ai-model">
+                {aiProvider === 'azure' ? 'Deployment' : 'Model'}
+              </Label>
+              <Input
+                id="organization-settings-ai-model"
+                value={aiModel}
+                onChange={(e) => setAiModel(e.target.value)}
+                placeholder={aiProviders.find((provider) => provider.value === aiProvider)?.modelPlaceholder}
+                disabled={!canManage}
+                maxLength={100}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to use the provider's default model.</p>
+            </div>
+          )}
+          {canManage && (
+            <Button onClick={saveAiSettings} disabled={isSavingAi}>
+              {isSavingAi ? 'Saving...' : 'Save'}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
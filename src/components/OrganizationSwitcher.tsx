@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/contexts/OrganizationContext';
+
+const NEW_ORGANIZATION = '__new';
+
+export const OrganizationSwitcher = () => {
+  const { toast } = useToast();
+  const { organizations, currentOrganization, switchOrganization, createOrganization } = useOrganization();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = async (value: string) => {
+    if (value === NEW_ORGANIZATION) {
+      setIsDialogOpen(true);
+      return;
+    }
+
+    try {
+      await switchOrganization(value);
+    } catch (error) {
+      console.error('Error switching organization:', error);
+      toast({
+        title: "Error",
+        description: "Failed to switch organization",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreate = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setIsSaving(true);
+    try {
+      await createOrganization(trimmed);
+      toast({
+        title: "Organization created",
+        description: `You're now working in ${trimmed}`,
+      });
+      setName('');
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create organization",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      {organizations.length > 0 ? (
+        <Select value={currentOrganization?.id ?? ''} onValueChange={handleChange}>
+          <SelectTrigger className="w-56">
+            <Building2 className="h-4 w-4 mr-2 shrink-0" />
+            <SelectValue placeholder="Select organization" />
+          </SelectTrigger>
+          <SelectContent>
+            {organizations.map((organization) => (
+              <SelectItem key={organization.id} value={organization.id}>{organization.name}</SelectItem>
+            ))}
+            <SelectSeparator />
+            <SelectItem value={NEW_ORGANIZATION}>
+              <span className="flex items-center">
+                <Plus className="h-4 w-4 mr-2" />
+                New organization
+              </span>
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New organization
+        </Button>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Organization</DialogTitle>
+            <DialogDescription>
+              Organizations keep their branches, feedback, QR codes and teams separate. You'll be its admin.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="organization-name">Name</Label>
+            <Input
+              id="organization-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Acme Restaurants"
+              maxLength={100}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={!name.trim() || isSaving}>
+              {isSaving ? 'Creating...' : 'Create Organization'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
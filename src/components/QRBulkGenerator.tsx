@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { Printer, QrCode } from 'lucide-react';
+import {
+  expandNamePattern,
+  generateQrSlug,
+  getQrShortUrl,
+  maxBulkQrCodes,
+  parseLocationList,
+  renderQrDataUrl,
+} from '@/lib/qrCodes';
+import { backfillQrImages } from '@/lib/qrImages';
+import {
+  QRSheetItem,
+  QRSheetLayout,
+  buildQrSheetHtml,
+  printQrSheet,
+  qrSheetLayoutLabels,
+  qrSheetLayouts,
+} from '@/lib/qrSheets';
+
+type BulkMode = 'range' | 'list';
+
+interface QRBulkGeneratorProps {
+  branchId: string;
+  onCreated?: () => void;
+}
+
+export const QRBulkGenerator = ({ branchId, onCreated }: QRBulkGeneratorProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<BulkMode>('range');
+  const [pattern, setPattern] = useState('Table {n}');
+  const [rangeFrom, setRangeFrom] = useState('1');
+  const [rangeTo, setRangeTo] = useState('10');
+  const [locationList, setLocationList] = useState('');
+  const [layout, setLayout] = useState<QRSheetLayout>('a4-grid');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [lastBatch, setLastBatch] = useState<QRSheetItem[]>([]);
+
+  const from = parseInt(rangeFrom, 10);
+  const to = parseInt(rangeTo, 10);
+  const rangeCount = Number.isInteger(from) && Number.isInteger(to) && to >= from ? to - from + 1 : 0;
+
+  // Expanding is only safe once the range is known to be within the limit
+  const labels = mode === 'range'
+    ? (rangeCount > 0 && rangeCount <= maxBulkQrCodes && pattern.trim() ? expandNamePattern(pattern, from, to) : [])
+    : parseLocationList(locationList);
+  const count = mode === 'range' ? rangeCount : labels.length;
+  const tooMany = count > maxBulkQrCodes;
+
+  const generateBatch = async () => {
+    if (!user || labels.length === 0 || tooMany) return;
+
+    setIsGenerating(true);
+    try {
+      const rows = labels.map((label) => {
+        const slug = generateQrSlug();
+        return {
+          user_id: user.id,
+          name: label.slice(0, 100),
+          location_label: label.slice(0, 100),
+          slug,
+          feedback_url: getQrShortUrl(slug),
+          branch_id: branchId,
+          category_id: null,
+        };
+      });
+
+      const { data, error } = await supabase
+        .from('qr_codes')
+        .insert(rows)
+        .select('id, organization_id, feedback_url, image_path');
+
+      if (error) throw error;
+
+      setLastBatch(await Promise.all(rows.map(async (row) => ({
+        label: row.location_label,
+        imageUrl: await renderQrDataUrl(row.feedback_url),
+      }))));
+      await backfillQrImages(data || []);
+      toast({
+        title: "QR codes created",
+        description: `${rows.length} codes saved and ready to print`,
+      });
+      onCreated?.();
+    } catch (error) {
+      console.error('Error creating QR codes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create QR codes",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const printBatch = () => {
+    const opened = printQrSheet(buildQrSheetHtml(layout, lastBatch, 'Feedback QR codes'));
+    if (!opened) {
+      toast({
+        title: "Pop-up blocked",
+        description: "Allow pop-ups for this site to open the print sheet",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          Bulk generate
+        </CardTitle>
+        <CardDescription>
+          One code per table, room or location. Feedback from each code is tagged with its label.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={mode} onValueChange={(value) => setMode(value as BulkMode)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="range">Numbered range</TabsTrigger>
+            <TabsTrigger value="list">List of locations</TabsTrigger>
+          </TabsList>
+          <TabsContent value="range" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="qr-bulk-pattern">Name pattern</Label>
+              <Input
+                id="qr-bulk-pattern"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder="e.g., Table {n}"
+              />
+              <p className="text-xs text-muted-foreground">{'{n}'} is replaced by each number in the range</p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="qr-bulk-from">From</Label>
+                <Input id="qr-bulk-from" type="number" value={rangeFrom} onChange={(e) => setRangeFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="qr-bulk-to">To</Label>
+                <Input id="qr-bulk-to" type="number" value={rangeTo} onChange={(e) => setRangeTo(e.target.value)} />
+              </div>
+            </div>
+          </TabsContent>
+          <TabsContent value="list" className="space-y-2">
+            <Label htmlFor="qr-bulk-list">Locations</Label>
+            <Textarea
+              id="qr-bulk-list"
+              value={locationList}
+              onChange={(e) => setLocationList(e.target.value)}
+              placeholder={'Terrace 1\nTerrace 2\nRoom 101'}
+              rows={6}
+            />
+            <p className="text-xs text-muted-foreground">One label per line</p>
+          </TabsContent>
+        </Tabs>
+
+        <div className="space-y-2">
+          <Label>Print layout</Label>
+          <Select value={layout} onValueChange={(value) => setLayout(value as QRSheetLayout)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {qrSheetLayouts.map((option) => (
+                <SelectItem key={option} value={option}>{qrSheetLayoutLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {tooMany && (
+          <p className="text-sm text-destructive">Up to {maxBulkQrCodes} codes can be created at once.</p>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            className="flex-1"
+            onClick={generateBatch}
+            disabled={isGenerating || !branchId || labels.length === 0 || tooMany}
+          >
+            {isGenerating ? 'Creating...' : `Create ${count || ''} QR codes`}
+          </Button>
+          {lastBatch.length > 0 && (
+            <Button variant="outline" onClick={printBatch}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print sheet
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
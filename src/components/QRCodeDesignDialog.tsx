@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  QRDesign,
+  QRExportFormat,
+  QRLogo,
+  buildQrPdf,
+  buildQrSvg,
+  defaultQrDesign,
+  downloadBlob,
+  fetchQrLogoImage,
+  flattenQrLogo,
+  isScannableDesign,
+  isValidHexColor,
+  maxCaptionLength,
+  renderQrPng,
+  svgToDataUrl,
+} from '@/lib/qrDesign';
+
+interface DesignableQRCode {
+  name?: string | null;
+  feedback_url: string;
+  branch_id?: string | null;
+}
+
+interface QRCodeDesignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  qrCode: DesignableQRCode | null;
+}
+
+const colorFields: Array<{ key: 'foreground' | 'background'; label: string }> = [
+  { key: 'foreground', label: 'Foreground' },
+  { key: 'background', label: 'Background' },
+];
+
+export const QRCodeDesignDialog = ({ open, onOpenChange, qrCode }: QRCodeDesignDialogProps) => {
+  const { toast } = useToast();
+  const [design, setDesign] = useState<QRDesign>(defaultQrDesign);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [logoImage, setLogoImage] = useState<HTMLImageElement | null>(null);
+  const [logo, setLogo] = useState<QRLogo | null>(null);
+  const [logoFailed, setLogoFailed] = useState(false);
+  const [exporting, setExporting] = useState<QRExportFormat | null>(null);
+
+  useEffect(() => {
+    if (open && qrCode) {
+      loadBranding(qrCode.branch_id);
+    }
+  }, [open, qrCode]);
+
+  useEffect(() => {
+    setLogoImage(null);
+    if (!logoUrl) return;
+
+    let cancelled = false;
+    fetchQrLogoImage(logoUrl).then((image) => {
+      if (cancelled) return;
+      setLogoImage(image);
+      setLogoFailed(!image);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [logoUrl]);
+
+  // The logo is flattened onto the background, so redo it when that changes
+  useEffect(() => {
+    if (!logoImage || !design.showLogo || !isValidHexColor(design.background)) {
+      setLogo(null);
+      return;
+    }
+
+    let cancelled = false;
+    flattenQrLogo(logoImage, design.background).then((flattened) => {
+      if (!cancelled) setLogo(flattened);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [logoImage, design.showLogo, design.background]);
+
+  // Start from the branch's feedback form branding
+  const loadBranding = async (branchId?: string | null) => {
+    setDesign(defaultQrDesign);
+    setLogoUrl(null);
+    setLogoFailed(false);
+    if (!branchId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('feedback_form_settings')
+        .select('primary_color, logo_url')
+        .eq('branch_id', branchId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data?.primary_color && isValidHexColor(data.primary_color)) {
+        setDesign((current) => ({ ...current, foreground: data.primary_color }));
+      }
+      setLogoUrl(data?.logo_url || null);
+    } catch (error) {
+      console.error('Error fetching branch branding:', error);
+    }
+  };
+
+  const updateDesign = (changes: Partial<QRDesign>) => {
+    setDesign((current) => ({ ...current, ...changes }));
+  };
+
+  const colorsValid = isValidHexColor(design.foreground) && isValidHexColor(design.background);
+  const previewUrl = qrCode && colorsValid ? svgToDataUrl(buildQrSvg(qrCode.feedback_url, design, logo)) : '';
+  const filename = (qrCode?.name || 'qr-code').replace(/[^a-z0-9-_ ]/gi, '').trim() || 'qr-code';
+
+  const exportQRCode = async (format: QRExportFormat) => {
+    if (!qrCode) return;
+
+    setExporting(format);
+    try {
+      if (format === 'svg') {
+        downloadBlob(new Blob([buildQrSvg(qrCode.feedback_url, design, logo)], { type: 'image/svg+xml' }), `${filename}.svg`);
+      } else if (format === 'png') {
+        downloadBlob(await renderQrPng(qrCode.feedback_url, design, logo), `${filename}.png`);
+      } else {
+        downloadBlob(buildQrPdf(qrCode.feedback_url, design, logo), `${filename}.pdf`);
+      }
+    } catch (error) {
+      console.error('Error exporting QR code:', error);
+      toast({
+        title: "Export failed",
+        description: "Failed to export QR code",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Design & export</DialogTitle>
+          <DialogDescription>
+            {qrCode?.name || 'Feedback QR code'}: brand the code and download it for print.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            {colorFields.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`qr-design-${key}`}>{label}</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`qr-design-${key}`}
+                    type="color"
+                    value={isValidHexColor(design[key]) ? design[key] : '#000000'}
+                    onChange={(e) => updateDesign({ [key]: e.target.value })}
+                    className="w-20 h-10 p-1"
+                  />
+                  <Input
+                    value={design[key]}
+                    onChange={(e) => updateDesign({ [key]: e.target.value })}
+                    placeholder="#000000"
+                  />
+                </div>
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <Label htmlFor="qr-design-caption">Call to action</Label>
+              <Input
+                id="qr-design-caption"
+                value={design.caption}
+                onChange={(e) => updateDesign({ caption: e.target.value })}
+                maxLength={maxCaptionLength}
+                placeholder="Leave empty for no frame"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="qr-design-logo">Logo</Label>
+                <p className="text-xs text-muted-foreground">
+                  {logoUrl ? 'From the branch feedback form settings' : 'Add a logo URL in Form Settings to use one'}
+                </p>
+              </div>
+              <Switch
+                id="qr-design-logo"
+                checked={design.showLogo && !!logoUrl}
+                onCheckedChange={(checked) => updateDesign({ showLogo: checked })}
+                disabled={!logoUrl}
+              />
+            </div>
+
+            {design.showLogo && logoUrl && logoFailed && (
+              <p className="text-xs text-muted-foreground">
+                The logo's host doesn't allow it to be embedded, so it's left out.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="border rounded-lg p-4 flex items-center justify-center bg-muted/30 min-h-[240px]">
+              {previewUrl ? (
+                <img src={previewUrl} alt="QR code preview" className="max-h-64" />
+              ) : (
+                <p className="text-sm text-muted-foreground">Enter valid hex colors to preview</p>
+              )}
+            </div>
+            {colorsValid && !isScannableDesign(design) && (
+              <div className="flex items-start gap-2 text-sm text-amber-600">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                Use a darker foreground on a lighter background, or some phones won't scan it.
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {(['svg', 'png', 'pdf'] as QRExportFormat[]).map((format) => (
+            <Button
+              key={format}
+              variant={format === 'pdf' ? 'default' : 'outline'}
+              onClick={() => exportQRCode(format)}
+              disabled={!colorsValid || exporting !== null}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {exporting === format ? 'Exporting...' : format.toUpperCase()}
+            </Button>
+          ))}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { fromDateTimeInput, toDateTimeInput } from '@/lib/qrCodes';
+
+export interface EditableQRCode {
+  id: string;
+  name: string | null;
+  feedback_url: string;
+  branch_id: string | null;
+  category_id: string | null;
+  is_active: boolean;
+  starts_at: string | null;
+  ends_at: string | null;
+}
+
+interface QRCodeEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  qrCode: EditableQRCode | null;
+  onSaved?: () => void;
+}
+
+const NO_CATEGORY = 'none';
+
+export const QRCodeEditDialog = ({ open, onOpenChange, qrCode, onSaved }: QRCodeEditDialogProps) => {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [name, setName] = useState('');
+  const [branchId, setBranchId] = useState('');
+  const [categoryId, setCategoryId] = useState(NO_CATEGORY);
+  const [isActive, setIsActive] = useState(true);
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [branches, setBranches] = useState<Array<{ id: string; name: string }>>([]);
+  const [categories, setCategories] = useState<Array<{ id: string; name: string }>>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && qrCode) {
+      setName(qrCode.name || '');
+      setBranchId(qrCode.branch_id || '');
+      setCategoryId(qrCode.category_id || NO_CATEGORY);
+      setIsActive(qrCode.is_active);
+      setStartsAt(toDateTimeInput(qrCode.starts_at));
+      setEndsAt(toDateTimeInput(qrCode.ends_at));
+      fetchOptions();
+    }
+  }, [open, qrCode]);
+
+  const fetchOptions = async () => {
+    try {
+      const [branchesResult, categoriesResult] = await Promise.all([
+        supabase.from('branches').select('id, name').eq('is_active', true).order('name'),
+        supabase.from('feedback_categories').select('id, name').eq('is_active', true).order('sort_order'),
+      ]);
+
+      if (branchesResult.error) throw branchesResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+
+      // A code can only be pointed at branches the user manages QR codes for
+      setBranches((branchesResult.data || []).filter((branch) => can('qr_codes.manage', branch.id)));
+      setCategories(categoriesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching QR code options:', error);
+    }
+  };
+
+  const scheduleInvalid = !!startsAt && !!endsAt && new Date(endsAt) <= new Date(startsAt);
+  // Codes from before short links encode the form URL itself, so a new branch won't reach them
+  const isLegacyCode = !!qrCode && !qrCode.feedback_url.includes('/q/');
+
+  const handleSave = async () => {
+    if (!qrCode || !name.trim() || !branchId || scheduleInvalid) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('qr_codes')
+        .update({
+          name: name.trim(),
+          branch_id: branchId,
+          category_id: categoryId === NO_CATEGORY ? null : categoryId,
+          is_active: isActive,
+          starts_at: fromDateTimeInput(startsAt),
+          ends_at: fromDateTimeInput(endsAt),
+        })
+        .eq('id', qrCode.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "QR code updated",
+        description: "Scans use the new settings right away",
+      });
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error('Error updating QR code:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update QR code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit QR Code</DialogTitle>
+          <DialogDescription>
+            Printed codes pick up these changes on their next scan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="qr-edit-name">Name</Label>
+            <Input
+              id="qr-edit-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Branch</Label>
+              <Select value={branchId} onValueChange={setBranchId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a branch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {branches.map((branch) => (
+                    <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CATEGORY}>None (visitor chooses)</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isLegacyCode && branchId !== qrCode?.branch_id && (
+            <p className="text-xs text-muted-foreground">
+              This code was printed before short links, so copies already posted keep going to the old branch. Reprint it to move them.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="qr-edit-starts">Starts</Label>
+              <Input
+                id="qr-edit-starts"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qr-edit-ends">Ends</Label>
+              <Input
+                id="qr-edit-ends"
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+              />
+            </div>
+          </div>
+          {scheduleInvalid ? (
+            <p className="text-sm text-destructive">The end must be after the start.</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">Leave both empty for a permanent code.</p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="qr-edit-active">Active</Label>
+              <p className="text-xs text-muted-foreground">
+                Deactivated codes show a friendly notice instead of the form
+              </p>
+            </div>
+            <Switch id="qr-edit-active" checked={isActive} onCheckedChange={setIsActive} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim() || !branchId || scheduleInvalid}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,14 +1,31 @@
 import React, { useState, useEffect } from 'react';
-import QRCode from 'qrcode';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Download, Copy } from 'lucide-react';
+import { Download, Copy, MapPin, Palette, Pencil, Printer, ScanLine } from 'lucide-react';
+import { QRBulkGenerator } from '@/components/QRBulkGenerator';
+import { QRCodeDesignDialog } from '@/components/QRCodeDesignDialog';
+import { QRCodeEditDialog } from '@/components/QRCodeEditDialog';
+import { QRCodeImage } from '@/components/QRCodeImage';
+import {
+  QRCodeStats,
+  QRCodeStatus,
+  generateQrSlug,
+  getConversionRate,
+  getQrCodeStatus,
+  getQrShortUrl,
+  qrCodeStatusLabels,
+  qrCodeStatuses,
+  renderQrDataUrl,
+} from '@/lib/qrCodes';
+import { backfillQrImages, getQrImageSrc, uploadQrImage } from '@/lib/qrImages';
+import { QRSheetLayout, buildQrSheetHtml, printQrSheet, qrSheetLayoutLabels, qrSheetLayouts } from '@/lib/qrSheets';
 
 interface FeedbackCategory {
   id: string;
@@ -18,19 +35,40 @@ interface FeedbackCategory {
 interface SavedQRCode {
   id: string;
   name: string;
+  slug: string;
+  location_label: string | null;
+  branch_id: string | null;
+  category_id: string | null;
+  organization_id: string;
   feedback_url: string;
-  qr_code_url: string;
+  image_path: string | null;
+  is_active: boolean;
+  starts_at: string | null;
+  ends_at: string | null;
   created_at: string;
 }
 
+const statusBadgeClasses: Record<QRCodeStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  expired: 'bg-gray-100 text-gray-800',
+  inactive: 'bg-red-100 text-red-800',
+};
+
 export const QRCodeGenerator = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [qrCodeUrl, setQrCodeUrl] = useState<string>('');
   const [feedbackUrl, setFeedbackUrl] = useState<string>('');
   const [qrName, setQrName] = useState<string>('');
+  const [slug, setSlug] = useState<string>('');
   const [branchId, setBranchId] = useState<string>('');
   const [savedQRCodes, setSavedQRCodes] = useState<SavedQRCode[]>([]);
+  const [qrStats, setQrStats] = useState<Record<string, QRCodeStats>>({});
+  const [sheetLayout, setSheetLayout] = useState<QRSheetLayout>('a4-grid');
+  const [designQRCode, setDesignQRCode] = useState<SavedQRCode | null>(null);
+  const [editQRCode, setEditQRCode] = useState<SavedQRCode | null>(null);
+  const [statusFilter, setStatusFilter] = useState<QRCodeStatus | 'all'>('all');
 
   useEffect(() => {
     fetchUserBranch();
@@ -43,18 +81,33 @@ export const QRCodeGenerator = () => {
     try {
       const { data, error } = await supabase
         .from('qr_codes')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('is_active', true)
+        .select('id, name, slug, location_label, branch_id, category_id, organization_id, feedback_url, image_path, is_active, starts_at, ends_at, created_at')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       setSavedQRCodes(data || []);
+      fetchQRCodeStats();
+
+      if (data?.some((qr) => !qr.image_path)) {
+        setSavedQRCodes(await backfillQrImages(data));
+      }
     } catch (error) {
       console.error('Error fetching saved QR codes:', error);
     }
   };
 
+  const fetchQRCodeStats = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_qr_code_stats');
+
+      if (error) throw error;
+      setQrStats(Object.fromEntries((data || []).map((row) => [row.qr_code_id, row])));
+    } catch (error) {
+      console.error('Error fetching QR code stats:', error);
+      // Stats are informational; the codes themselves still work
+    }
+  };
+
   const fetchUserBranch = async () => {
     if (!user) return;
 
@@ -82,19 +135,23 @@ export const QRCodeGenerator = () => {
       return;
     }
 
+    if (!branchId) {
+      toast({
+        title: "No branch",
+        description: "Your profile needs a branch before you can create QR codes",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
-      const baseUrl = window.location.origin;
-      const url = `${baseUrl}/feedback?branch=${branchId}`;
+      // Encode a short link rather than the form URL, so the destination can change after printing
+      const newSlug = generateQrSlug();
+      const url = getQrShortUrl(newSlug);
+      setSlug(newSlug);
       setFeedbackUrl(url);
       
-      const qrDataUrl = await QRCode.toDataURL(url, {
-        width: 200,
-        margin: 2,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF'
-        }
-      });
+      const qrDataUrl = await renderQrDataUrl(url);
       
       setQrCodeUrl(qrDataUrl);
       
@@ -123,19 +180,28 @@ export const QRCodeGenerator = () => {
     }
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('qr_codes')
         .insert([{
           user_id: user.id,
           name: qrName.trim(),
+          slug,
           feedback_url: feedbackUrl,
-          qr_code_url: qrCodeUrl,
           branch_id: branchId,
           category_id: null
-        }]);
+        }])
+        .select('id, organization_id, feedback_url, image_path')
+        .single();
 
       if (error) throw error;
 
+      try {
+        await uploadQrImage(data, qrCodeUrl);
+      } catch (uploadError) {
+        // The code works without it; the image is stored again next time the list loads
+        console.error('Error storing QR image:', uploadError);
+      }
+
       toast({
         title: "QR Code saved",
         description: "Your QR code has been saved successfully",
@@ -143,6 +209,7 @@ export const QRCodeGenerator = () => {
 
       // Reset form and refresh saved QR codes
       setQrName('');
+      setSlug('');
       setQrCodeUrl('');
       setFeedbackUrl('');
       fetchSavedQRCodes();
@@ -167,6 +234,25 @@ export const QRCodeGenerator = () => {
     document.body.removeChild(link);
   };
 
+  const visibleQRCodes = statusFilter === 'all'
+    ? savedQRCodes
+    : savedQRCodes.filter((qr) => getQrCodeStatus(qr) === statusFilter);
+
+  const printSavedQRCodes = async () => {
+    const items = await Promise.all(visibleQRCodes.map(async (qr) => ({
+      label: qr.location_label || qr.name,
+      imageUrl: await getQrImageSrc(qr),
+    })));
+
+    if (!printQrSheet(buildQrSheetHtml(sheetLayout, items, 'Feedback QR codes'))) {
+      toast({
+        title: "Pop-up blocked",
+        description: "Allow pop-ups for this site to open the print sheet",
+        variant: "destructive",
+      });
+    }
+  };
+
   const copyFeedbackUrl = async (url?: string) => {
     const urlToCopy = url || feedbackUrl;
     if (!urlToCopy) return;
@@ -244,30 +330,82 @@ export const QRCodeGenerator = () => {
         )}
       </div>
 
+      <QRBulkGenerator branchId={branchId} onCreated={fetchSavedQRCodes} />
+
       {savedQRCodes.length > 0 && (
         <div className="space-y-4">
-          <h3 className="text-lg font-semibold">Saved QR Codes</h3>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold">Saved QR Codes</h3>
+            <div className="flex flex-wrap gap-2">
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as QRCodeStatus | 'all')}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {qrCodeStatuses.map((status) => (
+                    <SelectItem key={status} value={status}>{qrCodeStatusLabels[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={sheetLayout} onValueChange={(value) => setSheetLayout(value as QRSheetLayout)}>
+                <SelectTrigger className="w-[260px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {qrSheetLayouts.map((option) => (
+                    <SelectItem key={option} value={option}>{qrSheetLayoutLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={printSavedQRCodes} disabled={visibleQRCodes.length === 0}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print {statusFilter === 'all' ? 'all' : 'these'}
+              </Button>
+            </div>
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {savedQRCodes.map((qr) => (
+            {visibleQRCodes.map((qr) => (
               <Card key={qr.id}>
                 <CardContent className="p-4">
                   <div className="text-center space-y-2">
-                    <img 
-                      src={qr.qr_code_url} 
-                      alt={`QR Code for ${qr.name}`} 
+                    <QRCodeImage
+                      qrCode={qr}
+                      alt={`QR Code for ${qr.name}`}
                       className="mx-auto w-24 h-24"
                     />
                     <h4 className="font-medium">{qr.name}</h4>
+                    <Badge className={statusBadgeClasses[getQrCodeStatus(qr)]}>
+                      {qrCodeStatusLabels[getQrCodeStatus(qr)]}
+                    </Badge>
+                    {qr.location_label && (
+                      <p className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+                        <MapPin className="h-3 w-3" />
+                        {qr.location_label}
+                      </p>
+                    )}
                     <p className="text-xs text-muted-foreground">
                       Created {new Date(qr.created_at).toLocaleDateString()}
                     </p>
+                    {(qr.starts_at || qr.ends_at) && (
+                      <p className="text-xs text-muted-foreground">
+                        {qr.starts_at ? new Date(qr.starts_at).toLocaleDateString() : 'Now'}
+                        {' – '}
+                        {qr.ends_at ? new Date(qr.ends_at).toLocaleDateString() : 'No end date'}
+                      </p>
+                    )}
+                    <div className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+                      <ScanLine className="h-3 w-3" />
+                      {qrStats[qr.id]?.scans ?? 0} scans · {qrStats[qr.id]?.submissions ?? 0} submissions
+                      {getConversionRate(qrStats[qr.id]) !== null && ` · ${getConversionRate(qrStats[qr.id])}% converted`}
+                    </div>
                     <div className="flex gap-1">
                       <Button 
                         size="sm" 
                         variant="outline" 
-                        onClick={() => {
+                        onClick={async () => {
                           const link = document.createElement('a');
-                          link.href = qr.qr_code_url;
+                          link.href = await renderQrDataUrl(qr.feedback_url);
                           link.download = `${qr.name}-qr-code.png`;
                           link.click();
                         }}
@@ -281,6 +419,22 @@ export const QRCodeGenerator = () => {
                       >
                         <Copy className="h-3 w-3" />
                       </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setDesignQRCode(qr)}
+                        aria-label="Design and export"
+                      >
+                        <Palette className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditQRCode(qr)}
+                        aria-label="Edit"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
                     </div>
                   </div>
                 </CardContent>
@@ -289,6 +443,19 @@ export const QRCodeGenerator = () => {
           </div>
         </div>
       )}
+
+      <QRCodeDesignDialog
+        open={!!designQRCode}
+        onOpenChange={(open) => !open && setDesignQRCode(null)}
+        qrCode={designQRCode}
+      />
+
+      <QRCodeEditDialog
+        open={!!editQRCode}
+        onOpenChange={(open) => !open && setEditQRCode(null)}
+        qrCode={editQRCode}
+        onSaved={fetchSavedQRCodes}
+      />
     </div>
   );
-};
\ No newline at end of file
+};
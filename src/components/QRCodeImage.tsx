@@ -0,0 +1,29 @@
+import React, { useState, useEffect } from 'react';
+import { cn } from '@/lib/utils';
+import { StoredQRCode, getQrImageSrc, getQrImageUrl } from '@/lib/qrImages';
+
+interface QRCodeImageProps {
+  qrCode: StoredQRCode;
+  alt: string;
+  className?: string;
+}
+
+export const QRCodeImage = ({ qrCode, alt, className }: QRCodeImageProps) => {
+  const [src, setSrc] = useState(qrCode.image_path ? getQrImageUrl(qrCode.image_path) : '');
+
+  useEffect(() => {
+    let cancelled = false;
+    getQrImageSrc(qrCode).then((imageSrc) => {
+      if (!cancelled) setSrc(imageSrc);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [qrCode.image_path, qrCode.feedback_url]);
+
+  if (!src) {
+    return <div className={cn('bg-muted animate-pulse rounded', className)} />;
+  }
+
+  return <img src={src} alt={alt} className={className} />;
+};
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Trash2 } from 'lucide-react';
+import { Region, flattenRegions, getDescendantRegionIds } from '@/lib/regions';
+
+interface RegionManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  regions: Region[];
+  onChanged: () => void;
+}
+
+const NO_PARENT = 'none';
+
+export const RegionManagerDialog = ({ open, onOpenChange, regions, onChanged }: RegionManagerDialogProps) => {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState('');
+  const [newParentId, setNewParentId] = useState(NO_PARENT);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const nodes = flattenRegions(regions);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createRegion = async () => {
+    if (!newName.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const { error } = await supabase
+        .from('regions')
+        .insert({ name: newName.trim(), parent_id: newParentId === NO_PARENT ? null : newParentId });
+
+      if (error) throw error;
+
+      setNewName('');
+      onChanged();
+    } catch (error) {
+      console.error('Error creating region:', error);
+      showError(error, "Failed to create region");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const updateRegion = async (region: Region, changes: Partial<Pick<Region, 'name' | 'parent_id'>>) => {
+    try {
+      const { error } = await supabase
+        .from('regions')
+        .update(changes)
+        .eq('id', region.id);
+
+      if (error) throw error;
+      onChanged();
+    } catch (error) {
+      console.error('Error updating region:', error);
+      showError(error, "Failed to update region");
+    }
+  };
+
+  const deleteRegion = async (region: Region) => {
+    try {
+      const { error } = await supabase
+        .from('regions')
+        .delete()
+        .eq('id', region.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Region deleted",
+        description: `Branches and sub-regions of ${region.name} are no longer grouped under it`,
+      });
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting region:', error);
+      showError(error, "Failed to delete region");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Regions</DialogTitle>
+          <DialogDescription>
+            Group branches by region or franchisee. Regions can sit inside other regions, and regional
+            managers assigned to a region cover every branch below it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="new-region-name">New region</Label>
+              <Input
+                id="new-region-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g., North West"
+                maxLength={100}
+              />
+            </div>
+            <Select value={newParentId} onValueChange={setNewParentId}>
+              <SelectTrigger className="sm:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARENT}>Top level</SelectItem>
+                {nodes.map(({ region, depth }) => (
+                  <SelectItem key={region.id} value={region.id}>
+                    <span style={{ paddingLeft: depth * 12 }}>{region.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={createRegion} disabled={isCreating || !newName.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+
+          {nodes.length > 0 ? (
+            <div className="space-y-2">
+              {nodes.map(({ region, depth }) => {
+                // A region can't move under itself or anything nested in it
+                const excluded = getDescendantRegionIds(regions, region.id);
+                return (
+                  <div key={region.id} className="flex items-center gap-2" style={{ paddingLeft: depth * 16 }}>
+                    <Input
+                      key={region.name}
+                      defaultValue={region.name}
+                      maxLength={100}
+                      onBlur={(e) => {
+                        const name = e.target.value.trim();
+                        if (name && name !== region.name) updateRegion(region, { name });
+                      }}
+                    />
+                    <Select
+                      value={region.parent_id || NO_PARENT}
+                      onValueChange={(value) => updateRegion(region, { parent_id: value === NO_PARENT ? null : value })}
+                    >
+                      <SelectTrigger className="w-48 shrink-0">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PARENT}>Top level</SelectItem>
+                        {nodes
+                          .filter((node) => !excluded.has(node.region.id))
+                          .map((node) => (
+                            <SelectItem key={node.region.id} value={node.region.id}>
+                              <span style={{ paddingLeft: node.depth * 12 }}>{node.region.name}</span>
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" onClick={() => deleteRegion(region)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">No regions yet.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,156 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Building, FolderTree, TrendingUp } from 'lucide-react';
+import {
+  ALL_REGIONS,
+  NO_REGION,
+  Region,
+  RollupMetrics,
+  calculateRollup,
+  filterBranchesByRegion,
+  flattenRegions,
+} from '@/lib/regions';
+import { FeedbackSummaryRow, Trend, groupRowsBy } from '@/lib/feedbackStats';
+
+interface RollupBranch {
+  id: string;
+  name: string;
+  region_id: string | null;
+}
+
+interface RegionRollupProps {
+  regions: Region[];
+  branches: RollupBranch[];
+  summary: FeedbackSummaryRow[];
+  regionFilter: string;
+  selectedBranchId?: string;
+  onSelectBranch: (branchId: string) => void;
+}
+
+interface RollupRow {
+  key: string;
+  label: string;
+  depth: number;
+  kind: 'total' | 'region' | 'branch';
+  branchId?: string;
+  metrics: RollupMetrics;
+}
+
+const trendClasses: Record<Trend, string> = {
+  up: 'text-green-500',
+  down: 'text-red-500 rotate-180',
+  stable: 'text-gray-400',
+};
+
+export const RegionRollup = ({
+  regions,
+  branches,
+  summary,
+  regionFilter,
+  selectedBranchId,
+  onSelectBranch,
+}: RegionRollupProps) => {
+  const summaryByBranch = groupRowsBy(summary, (row) => row.branch_id);
+
+  const rollupFor = (branchList: RollupBranch[]) =>
+    calculateRollup(branchList.flatMap((branch) => summaryByBranch.get(branch.id) || []));
+
+  const branchRows = (branchList: RollupBranch[], depth: number): RollupRow[] =>
+    [...branchList]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((branch) => ({
+        key: branch.id,
+        label: branch.name,
+        depth,
+        kind: 'branch',
+        branchId: branch.id,
+        metrics: rollupFor([branch]),
+      }));
+
+  // Each region is followed by the branches placed directly in it; its metrics cover all sub-regions
+  const rows: RollupRow[] = [];
+  if (regionFilter !== NO_REGION) {
+    if (regionFilter === ALL_REGIONS) {
+      rows.push({ key: 'total', label: 'All branches', depth: 0, kind: 'total', metrics: rollupFor(branches) });
+    }
+    const offset = regionFilter === ALL_REGIONS ? 1 : 0;
+    flattenRegions(regions, regionFilter === ALL_REGIONS ? null : regionFilter).forEach(({ region, depth }) => {
+      rows.push({
+        key: region.id,
+        label: region.name,
+        depth: depth + offset,
+        kind: 'region',
+        metrics: rollupFor(filterBranchesByRegion(branches, regions, region.id)),
+      });
+      rows.push(...branchRows(branches.filter((branch) => branch.region_id === region.id), depth + offset + 1));
+    });
+  }
+
+  const unassigned = branches.filter((branch) => !branch.region_id);
+  if ((regionFilter === ALL_REGIONS || regionFilter === NO_REGION) && unassigned.length > 0) {
+    const offset = regionFilter === ALL_REGIONS ? 1 : 0;
+    if (regions.length > 0) {
+      rows.push({ key: 'no-region', label: 'No region', depth: offset, kind: 'region', metrics: rollupFor(unassigned) });
+    }
+    rows.push(...branchRows(unassigned, offset + (regions.length > 0 ? 1 : 0)));
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FolderTree className="h-5 w-5" />
+          Regional Roll-up
+        </CardTitle>
+        <CardDescription>
+          Totals for every region include its sub-regions. Click a branch to open it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Feedback</TableHead>
+              <TableHead className="text-right">Avg rating</TableHead>
+              <TableHead className="text-right">Pending</TableHead>
+              <TableHead className="text-right">This month</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow
+                key={row.key}
+                onClick={row.branchId ? () => onSelectBranch(row.branchId) : undefined}
+                className={`${row.branchId ? 'cursor-pointer' : 'bg-muted/40 font-medium'} ${
+                  row.branchId && row.branchId === selectedBranchId ? 'bg-muted' : ''
+                }`}
+              >
+                <TableCell>
+                  <div className="flex items-center gap-2" style={{ paddingLeft: row.depth * 16 }}>
+                    {row.kind === 'branch'
+                      ? <Building className="h-4 w-4 text-muted-foreground" />
+                      : <FolderTree className="h-4 w-4 text-muted-foreground" />}
+                    {row.label}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{row.metrics.volume}</TableCell>
+                <TableCell className="text-right">
+                  {row.metrics.volume > 0 ? `${row.metrics.averageRating}/5` : '—'}
+                </TableCell>
+                <TableCell className="text-right">{row.metrics.pending}</TableCell>
+                <TableCell className="text-right">
+                  <div className="flex items-center justify-end gap-1" title={`${row.metrics.lastMonth} last month`}>
+                    {row.metrics.thisMonth}
+                    <TrendingUp className={`h-4 w-4 ${trendClasses[row.metrics.trend]}`} />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
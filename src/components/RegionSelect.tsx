@@ -0,0 +1,28 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ALL_REGIONS, NO_REGION, Region, flattenRegions } from '@/lib/regions';
+
+interface RegionSelectProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  regions: Region[];
+  className?: string;
+}
+
+// Region filter shared by the branch views; sub-regions are indented under their parent
+export const RegionSelect = ({ value, onValueChange, regions, className }: RegionSelectProps) => (
+  <Select value={value} onValueChange={onValueChange}>
+    <SelectTrigger className={className}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={ALL_REGIONS}>All regions</SelectItem>
+      {flattenRegions(regions).map(({ region, depth }) => (
+        <SelectItem key={region.id} value={region.id}>
+          <span style={{ paddingLeft: depth * 12 }}>{region.name}</span>
+        </SelectItem>
+      ))}
+      <SelectItem value={NO_REGION}>No region</SelectItem>
+    </SelectContent>
+  </Select>
+);
@@ -0,0 +1,447 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, ChevronDown, KeyRound, Trash2, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getStaffName } from '@/hooks/useFeedbackAssignment';
+import {
+  Permission,
+  Role,
+  multiBranchRoles,
+  organizationWideRoles,
+  permissionLabels,
+  roleDescriptions,
+  roleLabels,
+  roles,
+} from '@/lib/permissions';
+import { Region, flattenRegions } from '@/lib/regions';
+
+interface OrganizationMember {
+  id: string;
+  profile_id: string;
+  role: string;
+  branch_id: string | null;
+  region_id: string | null;
+  profile: {
+    display_name: string | null;
+    email: string | null;
+  } | null;
+  branches: Array<{ branch_id: string }>;
+}
+
+const NO_BRANCH = 'none';
+const NO_REGION = 'none';
+
+export const RoleManagement = () => {
+  const { toast } = useToast();
+  const { currentOrganization } = useOrganization();
+  const { can } = usePermissions();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [branches, setBranches] = useState<Array<{ id: string; name: string }>>([]);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [grants, setGrants] = useState<Array<{ role: string; permission: string }>>([]);
+  const [currentProfileId, setCurrentProfileId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Only owners may hand out or take away ownership
+  const canManageOwners = can('organization.manage');
+
+  useEffect(() => {
+    fetchData();
+  }, [currentOrganization?.id]);
+
+  const fetchData = async () => {
+    if (!currentOrganization) return;
+
+    try {
+      setLoading(true);
+      const [membersResult, branchesResult, regionsResult, grantsResult, profileResult] = await Promise.all([
+        supabase
+          .from('organization_members')
+          .select('id, profile_id, role, branch_id, region_id, profile:profiles(display_name, email), branches:organization_member_branches(branch_id)')
+          .eq('organization_id', currentOrganization.id),
+        supabase
+          .from('branches')
+          .select('id, name')
+          .order('name'),
+        supabase
+          .from('regions')
+          .select('id, name, parent_id'),
+        supabase
+          .from('role_permissions')
+          .select('role, permission'),
+        supabase.auth.getUser().then(({ data }) =>
+          supabase.from('profiles').select('id').eq('user_id', data.user?.id ?? '').single()
+        ),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+      if (branchesResult.error) throw branchesResult.error;
+      if (regionsResult.error) throw regionsResult.error;
+      if (grantsResult.error) throw grantsResult.error;
+
+      setMembers(
+        (membersResult.data || []).sort((a, b) => getStaffName(a.profile).localeCompare(getStaffName(b.profile)))
+      );
+      setBranches(branchesResult.data || []);
+      setRegions(regionsResult.data || []);
+      setGrants(grantsResult.data || []);
+      setCurrentProfileId(profileResult.data?.id ?? null);
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load member roles",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getBranchName = (branchId: string) =>
+    branches.find(b => b.id === branchId)?.name || 'Unknown branch';
+
+  const updateRole = async (member: OrganizationMember, role: Role) => {
+    try {
+      // Organization-wide roles have no branch; only multi-branch roles keep extra branches and a region
+      const branchId = organizationWideRoles.includes(role) ? null : member.branch_id;
+      const keepsExtraBranches = multiBranchRoles.includes(role);
+      const regionId = keepsExtraBranches ? member.region_id : null;
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ role, branch_id: branchId, region_id: regionId })
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      if (!keepsExtraBranches && member.branches.length > 0) {
+        const { error: branchesError } = await supabase
+          .from('organization_member_branches')
+          .delete()
+          .eq('member_id', member.id);
+
+        if (branchesError) throw branchesError;
+      }
+
+      setMembers(prev => prev.map(m => m.id === member.id
+        ? { ...m, role, branch_id: branchId, region_id: regionId, branches: keepsExtraBranches ? m.branches : [] }
+        : m));
+      toast({
+        title: "Role updated",
+        description: `${getStaffName(member.profile)} is now ${roleLabels[role].toLowerCase()}`,
+      });
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateHomeBranch = async (member: OrganizationMember, branchId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ branch_id: branchId })
+        .eq('id', member.id);
+
+      if (error) throw error;
+      setMembers(prev => prev.map(m => m.id === member.id ? { ...m, branch_id: branchId } : m));
+    } catch (error) {
+      console.error('Error updating branch:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update branch",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateRegion = async (member: OrganizationMember, regionId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ region_id: regionId })
+        .eq('id', member.id);
+
+      if (error) throw error;
+      setMembers(prev => prev.map(m => m.id === member.id ? { ...m, region_id: regionId } : m));
+    } catch (error) {
+      console.error('Error updating region:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update region",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleExtraBranch = async (member: OrganizationMember, branchId: string, covered: boolean) => {
+    try {
+      const { error } = covered
+        ? await supabase
+          .from('organization_member_branches')
+          .insert({ member_id: member.id, branch_id: branchId })
+        : await supabase
+          .from('organization_member_branches')
+          .delete()
+          .eq('member_id', member.id)
+          .eq('branch_id', branchId);
+
+      if (error) throw error;
+      setMembers(prev => prev.map(m => m.id === member.id
+        ? {
+          ...m,
+          branches: covered
+            ? [...m.branches, { branch_id: branchId }]
+            : m.branches.filter(b => b.branch_id !== branchId),
+        }
+        : m));
+    } catch (error) {
+      console.error('Error updating branch coverage:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update branches",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeMember = async (member: OrganizationMember) => {
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+      toast({
+        title: "Member removed",
+        description: `${getStaffName(member.profile)} no longer has access to ${currentOrganization?.name}`,
+      });
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove member",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderBranchScope = (member: OrganizationMember, editable: boolean) => {
+    const role = member.role as Role;
+
+    if (organizationWideRoles.includes(role)) {
+      return <Badge variant="outline">All branches</Badge>;
+    }
+
+    if (!editable) {
+      const branchIds = [
+        ...(member.branch_id ? [member.branch_id] : []),
+        ...member.branches.map(b => b.branch_id),
+      ];
+      const region = regions.find(r => r.id === member.region_id);
+      return branchIds.length > 0 || region ? (
+        <div className="flex flex-wrap gap-1">
+          {region && <Badge variant="outline">{region.name} region</Badge>}
+          {branchIds.map(id => <Badge key={id} variant="outline">{getBranchName(id)}</Badge>)}
+        </div>
+      ) : (
+        <Badge variant="outline">No branch</Badge>
+      );
+    }
+
+    const extraBranchIds = member.branches.map(b => b.branch_id);
+
+    return (
+      <div className="flex flex-col md:flex-row gap-2">
+        <Select
+          value={member.branch_id || NO_BRANCH}
+          onValueChange={(value) => updateHomeBranch(member, value === NO_BRANCH ? null : value)}
+        >
+          <SelectTrigger className="md:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_BRANCH}>No branch</SelectItem>
+            {branches.map((branch) => (
+              <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {multiBranchRoles.includes(role) && regions.length > 0 && (
+          <Select
+            value={member.region_id || NO_REGION}
+            onValueChange={(value) => updateRegion(member, value === NO_REGION ? null : value)}
+          >
+            <SelectTrigger className="md:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_REGION}>No region</SelectItem>
+              {flattenRegions(regions).map(({ region, depth }) => (
+                <SelectItem key={region.id} value={region.id}>
+                  <span style={{ paddingLeft: depth * 12 }}>{region.name}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {multiBranchRoles.includes(role) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="md:w-44 justify-between">
+                {extraBranchIds.length > 0 ? `+${extraBranchIds.length} more` : 'Add branches'}
+                <ChevronDown className="h-4 w-4 ml-2" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuLabel>Also covers</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {branches
+                .filter(branch => branch.id !== member.branch_id)
+                .map((branch) => (
+                  <DropdownMenuCheckboxItem
+                    key={branch.id}
+                    checked={extraBranchIds.includes(branch.id)}
+                    onCheckedChange={(checked) => toggleExtraBranch(member, branch.id, checked === true)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {branch.name}
+                  </DropdownMenuCheckboxItem>
+                ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  const hasGrant = (role: Role, permission: Permission) =>
+    grants.some(g => g.role === role && g.permission === permission);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Member Roles ({members.length})
+          </CardTitle>
+          <CardDescription>
+            Roles apply within {currentOrganization?.name}. Branch-level roles only see and manage the branches assigned here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {members.map((member) => {
+            const isSelf = member.profile_id === currentProfileId;
+            // Owners can only be changed by other owners, and nobody edits their own access
+            const editable = !isSelf && (member.role !== 'owner' || canManageOwners);
+
+            return (
+              <div key={member.id} className="flex flex-col lg:flex-row lg:items-center gap-3 border rounded-lg p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{getStaffName(member.profile)}</span>
+                    {isSelf && <Badge variant="secondary">You</Badge>}
+                  </div>
+                  {member.profile?.email && member.profile.display_name && (
+                    <p className="text-sm text-muted-foreground">{member.profile.email}</p>
+                  )}
+                </div>
+                {renderBranchScope(member, editable)}
+                {editable ? (
+                  <>
+                    <Select value={member.role} onValueChange={(value) => updateRole(member, value as Role)}>
+                      <SelectTrigger className="lg:w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles
+                          .filter(role => role !== 'owner' || canManageOwners)
+                          .map((role) => (
+                            <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" onClick={() => removeMember(member)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </>
+                ) : (
+                  <Badge variant="outline">{roleLabels[member.role as Role] || member.role}</Badge>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            Permission Matrix
+          </CardTitle>
+          <CardDescription>
+            What each role can do. The same list is enforced by the database.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Capability</TableHead>
+                {roles.map((role) => (
+                  <TableHead key={role} className="text-center" title={roleDescriptions[role]}>
+                    {roleLabels[role]}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(Object.keys(permissionLabels) as Permission[]).map((permission) => (
+                <TableRow key={permission}>
+                  <TableCell>{permissionLabels[permission]}</TableCell>
+                  {roles.map((role) => (
+                    <TableCell key={role} className="text-center">
+                      {hasGrant(role, permission) && <Check className="h-4 w-4 mx-auto text-green-600" />}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
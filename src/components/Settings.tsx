@@ -11,6 +11,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getRoleLabel } from '@/lib/permissions';
+import { RoleManagement } from '@/components/RoleManagement';
 import { 
   CreditCard, 
   User, 
@@ -19,7 +22,8 @@ import {
   Crown,
   Calendar,
   Settings as SettingsIcon,
-  ExternalLink
+  ExternalLink,
+  KeyRound
 } from 'lucide-react';
 
 interface UserProfile {
@@ -42,6 +46,8 @@ export const Settings = () => {
     createCheckout
   } = useSubscription();
   const { toast } = useToast();
+  const { role, can } = usePermissions();
+  const canManageRoles = can('members.manage');
   
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [displayName, setDisplayName] = useState('');
@@ -161,7 +167,7 @@ export const Settings = () => {
       </div>
 
       <Tabs defaultValue="account" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className={`grid w-full ${canManageRoles ? 'grid-cols-5' : 'grid-cols-4'}`}>
           <TabsTrigger value="account">
             <User className="w-4 h-4 mr-2" />
             Account
@@ -178,6 +184,12 @@ export const Settings = () => {
             <Shield className="w-4 h-4 mr-2" />
             Security
           </TabsTrigger>
+          {canManageRoles && (
+            <TabsTrigger value="roles">
+              <KeyRound className="w-4 h-4 mr-2" />
+              Roles
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="account" className="space-y-4">
@@ -220,7 +232,7 @@ export const Settings = () => {
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label>Role</Label>
-                  <Input value={profile?.role || 'user'} disabled className="bg-muted" />
+                  <Input value={getRoleLabel(role)} disabled className="bg-muted" />
                 </div>
                 <div className="space-y-2">
                   <Label>Account Created</Label>
@@ -496,6 +508,12 @@ export const Settings = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {canManageRoles && (
+          <TabsContent value="roles" className="space-y-4">
+            <RoleManagement />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Calendar, MessageSquare, Plus, Trash2, UserCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getStaffName } from '@/hooks/useFeedbackAssignment';
+import { Team } from '@/hooks/useTeams';
+import { TaskDialog } from '@/components/TaskDialog';
+import {
+  TASK_SELECT,
+  Task,
+  TaskPriority,
+  TaskStatus,
+  getStatusChanges,
+  isTaskOverdue,
+  taskPriorityClasses,
+  taskPriorityLabels,
+  taskStatusLabels,
+  taskStatuses
+} from '@/lib/tasks';
+
+interface TaskBoardProps {
+  teamId: string;
+  teams: Team[];
+  // Managers and team leads can delete tasks
+  canDelete: boolean;
+}
+
+export const TaskBoard = ({ teamId, teams, canDelete }: TaskBoardProps) => {
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [teamId]);
+
+  const fetchTasks = async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('tasks')
+        .select(TASK_SELECT)
+        .eq('team_id', teamId)
+        .order('due_date', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load tasks",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const moveTask = async (taskId: string, status: TaskStatus) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || task.status === status) return;
+
+    const changes = getStatusChanges(status);
+    // Move optimistically so the board doesn't jump while the update is in flight
+    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, ...changes } : t));
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update(changes)
+        .eq('id', taskId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error moving task:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update task status",
+        variant: "destructive",
+      });
+      fetchTasks();
+    }
+  };
+
+  const deleteTask = async (taskId: string) => {
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('id', taskId);
+
+      if (error) throw error;
+
+      setTasks(prev => prev.filter(t => t.id !== taskId));
+      toast({
+        title: "Task deleted",
+        description: "The task has been removed from the board",
+      });
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete task",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openTask = (task: Task | null) => {
+    setEditingTask(task);
+    setIsDialogOpen(true);
+  };
+
+  const renderTask = (task: Task) => (
+    <div
+      key={task.id}
+      draggable
+      onDragStart={() => setDraggedTaskId(task.id)}
+      onDragEnd={() => setDraggedTaskId(null)}
+      onClick={() => openTask(task)}
+      className={`border rounded-lg p-3 bg-card space-y-2 cursor-pointer hover:shadow-sm transition-shadow ${
+        draggedTaskId === task.id ? 'opacity-50' : ''
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className={`text-sm font-medium ${task.status === 'done' ? 'line-through text-muted-foreground' : ''}`}>
+          {task.title}
+        </p>
+        {canDelete && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={(e) => {
+              e.stopPropagation();
+              deleteTask(task.id);
+            }}
+          >
+            <Trash2 className="h-3 w-3 text-red-500" />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge className={taskPriorityClasses[task.priority as TaskPriority] || taskPriorityClasses.medium}>
+          {taskPriorityLabels[task.priority as TaskPriority] || task.priority}
+        </Badge>
+        {task.due_date && (
+          <span className={`flex items-center gap-1 text-xs ${isTaskOverdue(task) ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}>
+            <Calendar className="h-3 w-3" />
+            {new Date(task.due_date).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <UserCheck className="h-3 w-3" />
+          {task.assigned_to ? getStaffName(task.assignee) : 'Unassigned'}
+        </span>
+        {task.feedback && (
+          <span className="flex items-center gap-1 truncate max-w-[50%]" title={task.feedback.subject}>
+            <MessageSquare className="h-3 w-3" />
+            {task.feedback.subject}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button size="sm" onClick={() => openTask(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Task
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {taskStatuses.map((status) => {
+          const columnTasks = tasks.filter(task => task.status === status);
+
+          return (
+            <Card
+              key={status}
+              className="bg-muted/40"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (draggedTaskId) moveTask(draggedTaskId, status);
+                setDraggedTaskId(null);
+              }}
+            >
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center justify-between">
+                  {taskStatusLabels[status]}
+                  <Badge variant="secondary">{columnTasks.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 min-h-[120px]">
+                {columnTasks.length === 0 ? (
+                  <p className="text-xs text-muted-foreground text-center py-4">
+                    Drop tasks here
+                  </p>
+                ) : (
+                  columnTasks.map(renderTask)
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <TaskDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        teams={teams}
+        task={editingTask}
+        defaultTeamId={teamId}
+        onSaved={fetchTasks}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,305 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MessageSquare } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getStaffName, useFeedbackAssignment } from '@/hooks/useFeedbackAssignment';
+import { Team } from '@/hooks/useTeams';
+import {
+  Task,
+  TaskPriority,
+  TaskStatus,
+  getStatusChanges,
+  taskPriorityLabels,
+  taskStatusLabels,
+  taskStatuses
+} from '@/lib/tasks';
+
+interface LinkedFeedback {
+  id: string;
+  subject: string;
+  message: string;
+  branch_id?: string | null;
+}
+
+interface TaskDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teams: Team[];
+  // Existing task to edit; omitted when creating
+  task?: Task | null;
+  defaultTeamId?: string | null;
+  // Feedback the new task is created from
+  feedback?: LinkedFeedback | null;
+  onSaved?: () => void;
+}
+
+const NO_TEAM = 'none';
+const UNASSIGNED = 'unassigned';
+
+const toDateInput = (value: string | null) => value ? value.slice(0, 10) : '';
+
+export const TaskDialog = ({
+  open,
+  onOpenChange,
+  teams,
+  task,
+  defaultTeamId,
+  feedback,
+  onSaved,
+}: TaskDialogProps) => {
+  const { toast } = useToast();
+  const { currentProfile, getAssignableStaff } = useFeedbackAssignment();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [teamId, setTeamId] = useState(NO_TEAM);
+  const [assigneeId, setAssigneeId] = useState(UNASSIGNED);
+  const [priority, setPriority] = useState<TaskPriority>('medium');
+  const [status, setStatus] = useState<TaskStatus>('todo');
+  const [dueDate, setDueDate] = useState('');
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (task) {
+      setTitle(task.title);
+      setDescription(task.description || '');
+      setTeamId(task.team_id || NO_TEAM);
+      setAssigneeId(task.assigned_to || UNASSIGNED);
+      setPriority(task.priority as TaskPriority);
+      setStatus(task.status as TaskStatus);
+      setDueDate(toDateInput(task.due_date));
+    } else {
+      setTitle(feedback ? `Follow up: ${feedback.subject}` : '');
+      setDescription(feedback?.message || '');
+      setTeamId(defaultTeamId || NO_TEAM);
+      setAssigneeId(UNASSIGNED);
+      setPriority('medium');
+      setStatus('todo');
+      setDueDate('');
+    }
+  }, [open, task, feedback, defaultTeamId]);
+
+  useEffect(() => {
+    if (open && teamId !== NO_TEAM) {
+      fetchMembers(teamId);
+    } else {
+      setMemberIds([]);
+    }
+  }, [open, teamId]);
+
+  const fetchMembers = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('team_members')
+        .select('user_id')
+        .eq('team_id', id);
+
+      if (error) throw error;
+      setMemberIds((data || []).map(member => member.user_id));
+    } catch (error) {
+      console.error('Error fetching team members:', error);
+    }
+  };
+
+  // Team tasks go to team members; personal tasks to staff who can see the feedback's branch
+  const assignees = teamId !== NO_TEAM
+    ? getAssignableStaff().filter(member => memberIds.includes(member.id))
+    : getAssignableStaff(feedback?.branch_id);
+
+  const handleSave = async () => {
+    if (!title.trim()) {
+      toast({
+        title: "Title required",
+        description: "Please give the task a title",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const taskData = {
+        title: title.trim(),
+        description: description.trim() || null,
+        team_id: teamId === NO_TEAM ? null : teamId,
+        assigned_to: assigneeId === UNASSIGNED ? null : assigneeId,
+        priority,
+        // Due dates are whole days; keep them due until the end of that local day
+        due_date: dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : null,
+      };
+
+      if (task) {
+        const { error } = await supabase
+          .from('tasks')
+          .update({
+            ...taskData,
+            ...(status !== task.status ? getStatusChanges(status) : {}),
+          })
+          .eq('id', task.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('tasks')
+          .insert({
+            ...taskData,
+            status: 'todo',
+            assigned_by: currentProfile?.id,
+            feedback_id: feedback?.id ?? null,
+          });
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: task ? "Task updated" : "Task created",
+        description: taskData.title,
+      });
+
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error('Error saving task:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save task",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{task ? 'Edit Task' : 'New Task'}</DialogTitle>
+          {feedback && (
+            <DialogDescription className="flex items-center gap-2">
+              <MessageSquare className="h-4 w-4" />
+              Linked to feedback "{feedback.subject}"
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="task-title">Title</Label>
+            <Input
+              id="task-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="task-description">Description</Label>
+            <Textarea
+              id="task-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Team</Label>
+              <Select
+                value={teamId}
+                onValueChange={(value) => {
+                  setTeamId(value);
+                  setAssigneeId(UNASSIGNED);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEAM}>No team</SelectItem>
+                  {teams.filter(team => team.is_active).map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Assignee</Label>
+              <Select value={assigneeId} onValueChange={setAssigneeId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {assignees.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.id === currentProfile?.id ? 'Me' : getStaffName(member)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as TaskPriority)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(taskPriorityLabels) as TaskPriority[]).map((value) => (
+                    <SelectItem key={value} value={value}>{taskPriorityLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="task-due-date">Due date</Label>
+              <Input
+                id="task-due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+
+            {task && (
+              <div>
+                <Label>Status</Label>
+                <Select value={status} onValueChange={(value) => setStatus(value as TaskStatus)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {taskStatuses.map((value) => (
+                      <SelectItem key={value} value={value}>{taskStatusLabels[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : task ? 'Save Task' : 'Create Task'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
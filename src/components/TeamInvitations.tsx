@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Ban, Mail, RefreshCw, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Team } from '@/hooks/useTeams';
+import { TeamMember, teamRoleLabels } from '@/components/TeamMembers';
+
+interface TeamInvitation {
+  id: string;
+  email: string;
+  role: string;
+  status: string;
+  expires_at: string;
+  last_sent_at: string | null;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+interface TeamInvitationsProps {
+  team: Team;
+  members: TeamMember[];
+}
+
+// Expiry isn't stored: pending invitations past expires_at are shown as expired
+const getInvitationStatus = (invitation: TeamInvitation) =>
+  invitation.status === 'pending' && new Date(invitation.expires_at) <= new Date()
+    ? 'expired'
+    : invitation.status;
+
+const invitationStatusClasses: Record<string, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  expired: 'bg-yellow-100 text-yellow-800',
+  revoked: 'bg-gray-100 text-gray-800',
+};
+
+export const TeamInvitations = ({ team, members }: TeamInvitationsProps) => {
+  const { toast } = useToast();
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState('member');
+  const [isSending, setIsSending] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [team.id]);
+
+  const fetchInvitations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('team_invitations')
+        .select('id, email, role, status, expires_at, last_sent_at, accepted_at, created_at')
+        .eq('team_id', team.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvitations(data || []);
+    } catch (error) {
+      console.error('Error fetching team invitations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load invitations",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sendInvitation = async (body: Record<string, string>) => {
+    const { data, error } = await supabase.functions.invoke('send-team-invitation', { body });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+  };
+
+  const inviteByEmail = async () => {
+    const address = email.trim().toLowerCase();
+    if (!address) return;
+
+    if (members.some(member => member.profile?.email?.toLowerCase() === address)) {
+      toast({
+        title: "Already a member",
+        description: `${address} is already in ${team.name}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      await sendInvitation({ teamId: team.id, email: address, role });
+
+      toast({
+        title: "Invitation sent",
+        description: `${address} has been invited to ${team.name}`,
+      });
+
+      setEmail('');
+      setRole('member');
+      fetchInvitations();
+    } catch (error) {
+      console.error('Error sending team invitation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const resendInvitation = async (invitation: TeamInvitation) => {
+    setBusyId(invitation.id);
+    try {
+      await sendInvitation({ invitationId: invitation.id });
+
+      toast({
+        title: "Invitation resent",
+        description: `A new link has been sent to ${invitation.email}`,
+      });
+      fetchInvitations();
+    } catch (error) {
+      console.error('Error resending team invitation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to resend invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revokeInvitation = async (invitation: TeamInvitation) => {
+    setBusyId(invitation.id);
+    try {
+      const { error } = await supabase
+        .from('team_invitations')
+        .update({ status: 'revoked' })
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Invitation revoked",
+        description: `The link sent to ${invitation.email} no longer works`,
+      });
+      fetchInvitations();
+    } catch (error) {
+      console.error('Error revoking team invitation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Invitations
+        </CardTitle>
+        <CardDescription>
+          Invite people by email; they join the team once they accept the link, signing up first if needed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="name@example.com"
+            className="md:flex-1"
+          />
+          <Select value={role} onValueChange={setRole}>
+            <SelectTrigger className="md:w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(teamRoleLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={inviteByEmail} disabled={!email.trim() || isSending}>
+            <Send className="h-4 w-4 mr-2" />
+            {isSending ? 'Sending...' : 'Invite'}
+          </Button>
+        </div>
+
+        {invitations.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No invitations sent yet
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {invitations.map((invitation) => {
+              const status = getInvitationStatus(invitation);
+
+              return (
+                <div key={invitation.id} className="flex items-center gap-3 border rounded-lg p-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{invitation.email}</span>
+                      <Badge variant="outline">{teamRoleLabels[invitation.role] || invitation.role}</Badge>
+                      <Badge className={invitationStatusClasses[status]}>
+                        {status.charAt(0).toUpperCase() + status.slice(1)}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {status === 'accepted' && invitation.accepted_at
+                        ? `Accepted ${new Date(invitation.accepted_at).toLocaleDateString()}`
+                        : `Sent ${new Date(invitation.last_sent_at || invitation.created_at).toLocaleDateString()}`}
+                      {status === 'pending' && ` · Expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  {(status === 'pending' || status === 'expired') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => resendInvitation(invitation)}
+                      disabled={busyId === invitation.id}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Resend
+                    </Button>
+                  )}
+                  {status === 'pending' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeInvitation(invitation)}
+                      disabled={busyId === invitation.id}
+                    >
+                      <Ban className="h-4 w-4 mr-2 text-red-500" />
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,403 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Building, ClipboardList, Pencil, Plus, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getStaffName, useFeedbackAssignment } from '@/hooks/useFeedbackAssignment';
+import { Team, useTeams } from '@/hooks/useTeams';
+import { usePermissions } from '@/hooks/usePermissions';
+import { TaskBoard } from '@/components/TaskBoard';
+import { TeamMember, TeamMembers } from '@/components/TeamMembers';
+import { TeamInvitations } from '@/components/TeamInvitations';
+
+interface TeamForm {
+  id?: string;
+  name: string;
+  description: string;
+  branch_id: string;
+  manager_id: string;
+  is_active: boolean;
+}
+
+export const TeamManagement = () => {
+  const { toast } = useToast();
+  const { staff, currentProfile, getAssignableStaff } = useFeedbackAssignment();
+  const { teams, loading, refetch } = useTeams();
+  const { can, canAccessBranch } = usePermissions();
+  const [branches, setBranches] = useState<Array<{ id: string; name: string }>>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [form, setForm] = useState<TeamForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [activeTab, setActiveTab] = useState('tasks');
+
+  const selectedTeam = teams.find(team => team.id === selectedTeamId) || null;
+  const canCreateTeams = can('teams.manage');
+  const canManageTeam = !!selectedTeam && (can('teams.manage', selectedTeam.branch_id) || selectedTeam.manager_id === currentProfile?.id);
+  const isLead = members.some(m => m.user_id === currentProfile?.id && m.role === 'lead');
+
+  useEffect(() => {
+    fetchBranches();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedTeamId && teams.length > 0) {
+      setSelectedTeamId(teams[0].id);
+    }
+  }, [teams]);
+
+  useEffect(() => {
+    if (selectedTeamId) {
+      fetchMembers(selectedTeamId);
+    }
+  }, [selectedTeamId]);
+
+  const fetchBranches = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('branches')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      // Teams can only be created in branches the role covers
+      setBranches((data || []).filter(branch => canAccessBranch(branch.id)));
+    } catch (error) {
+      console.error('Error fetching branches:', error);
+    }
+  };
+
+  const fetchMembers = async (teamId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('team_members')
+        .select('*, profile:profiles!team_members_user_id_fkey(display_name, email)')
+        .eq('team_id', teamId)
+        .order('joined_at');
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      console.error('Error fetching team members:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load team members",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openForm = (team: Team | null) => {
+    setForm(team ? {
+      id: team.id,
+      name: team.name,
+      description: team.description || '',
+      branch_id: team.branch_id || '',
+      manager_id: team.manager_id || '',
+      is_active: team.is_active,
+    } : {
+      name: '',
+      description: '',
+      branch_id: currentProfile?.branch_id || branches[0]?.id || '',
+      manager_id: currentProfile?.id || '',
+      is_active: true,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const name = form.name.trim();
+    if (!name || !form.branch_id) {
+      toast({
+        title: "Missing details",
+        description: "A team needs a name and a branch",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const teamData = {
+        name,
+        description: form.description.trim() || null,
+        branch_id: form.branch_id,
+        manager_id: form.manager_id || null,
+        is_active: form.is_active,
+      };
+
+      if (form.id) {
+        const { error } = await supabase
+          .from('teams')
+          .update(teamData)
+          .eq('id', form.id);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('teams')
+          .insert(teamData)
+          .select('id')
+          .single();
+
+        if (error) throw error;
+
+        // The manager leads the new team so it shows up on their board straight away
+        if (teamData.manager_id) {
+          const { error: memberError } = await supabase
+            .from('team_members')
+            .insert({ team_id: data.id, user_id: teamData.manager_id, role: 'lead' });
+
+          if (memberError) console.error('Error adding team manager as member:', memberError);
+        }
+
+        setSelectedTeamId(data.id);
+      }
+
+      toast({
+        title: form.id ? "Team updated" : "Team created",
+        description: `"${name}" has been saved`,
+      });
+
+      setForm(null);
+      refetch();
+      if (form.id) fetchMembers(form.id);
+    } catch (error) {
+      console.error('Error saving team:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save team",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          <h2 className="text-2xl font-bold">Teams</h2>
+        </div>
+        {canCreateTeams && (
+          <Button onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Team
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-1">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Your Teams</CardTitle>
+              <CardDescription>Select a team to see its board</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {teams.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center p-4">
+                  {canCreateTeams ? 'Create your first team to get started' : "You aren't in any teams yet"}
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {teams.map((team) => (
+                    <button
+                      key={team.id}
+                      onClick={() => setSelectedTeamId(team.id)}
+                      className={`w-full p-3 text-left hover:bg-muted transition-colors border-l-4 ${
+                        selectedTeamId === team.id ? 'border-primary bg-muted' : 'border-transparent'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2 font-medium">
+                        {team.name}
+                        {!team.is_active && <Badge variant="outline" className="text-xs">Inactive</Badge>}
+                      </div>
+                      {team.branch && (
+                        <div className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                          <Building className="h-3 w-3" />
+                          {team.branch.name}
+                        </div>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-3">
+          {selectedTeam ? (
+            <div className="space-y-6">
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1">
+                    <CardTitle className="flex items-center gap-2">
+                      {selectedTeam.name}
+                      {!selectedTeam.is_active && <Badge variant="outline">Inactive</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      {selectedTeam.description || 'No description'}
+                      {selectedTeam.manager_id && (
+                        <> · Managed by {getStaffName(staff.find(s => s.id === selectedTeam.manager_id))}</>
+                      )}
+                    </CardDescription>
+                  </div>
+                  {canManageTeam && (
+                    <Button variant="outline" size="sm" onClick={() => openForm(selectedTeam)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                  )}
+                </CardHeader>
+              </Card>
+
+              <Tabs value={activeTab} onValueChange={setActiveTab}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="tasks">
+                    <ClipboardList className="h-4 w-4 mr-2" />
+                    Task Board
+                  </TabsTrigger>
+                  <TabsTrigger value="members">
+                    <Users className="h-4 w-4 mr-2" />
+                    Members ({members.length})
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="tasks">
+                  <TaskBoard
+                    key={selectedTeam.id}
+                    teamId={selectedTeam.id}
+                    teams={teams}
+                    canDelete={canManageTeam || isLead}
+                  />
+                </TabsContent>
+
+                <TabsContent value="members" className="space-y-6">
+                  <TeamMembers
+                    team={selectedTeam}
+                    members={members}
+                    staff={getAssignableStaff(selectedTeam.branch_id)}
+                    canManage={canManageTeam}
+                    onChange={() => fetchMembers(selectedTeam.id)}
+                  />
+                  {canManageTeam && (
+                    <TeamInvitations team={selectedTeam} members={members} />
+                  )}
+                </TabsContent>
+              </Tabs>
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="flex items-center justify-center h-64">
+                <div className="text-center">
+                  <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No Team Selected</h3>
+                  <p className="text-muted-foreground">
+                    Choose a team to manage its members and tasks
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit Team' : 'New Team'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="team-name">Name</Label>
+                <Input
+                  id="team-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Front of House"
+                  maxLength={80}
+                />
+              </div>
+              <div>
+                <Label htmlFor="team-description">Description</Label>
+                <Textarea
+                  id="team-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Branch</Label>
+                  <Select value={form.branch_id} onValueChange={(value) => setForm({ ...form, branch_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a branch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {branches.map((branch) => (
+                        <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Manager</Label>
+                  <Select value={form.manager_id} onValueChange={(value) => setForm({ ...form, manager_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a manager" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getAssignableStaff(form.branch_id).map((member) => (
+                        <SelectItem key={member.id} value={member.id}>{getStaffName(member)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {form.id && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={form.is_active}
+                    onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                  />
+                  <Label>Active</Label>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Team'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
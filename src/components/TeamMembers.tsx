@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Crown, Trash2, UserPlus, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { StaffProfile, getStaffName } from '@/hooks/useFeedbackAssignment';
+import { Team } from '@/hooks/useTeams';
+
+export interface TeamMember {
+  id: string;
+  team_id: string;
+  user_id: string;
+  role: string;
+  joined_at: string;
+  profile?: {
+    display_name: string | null;
+    email: string | null;
+  } | null;
+}
+
+export const teamRoleLabels: Record<string, string> = {
+  member: 'Member',
+  lead: 'Lead',
+};
+
+interface TeamMembersProps {
+  team: Team;
+  members: TeamMember[];
+  staff: StaffProfile[];
+  canManage: boolean;
+  onChange: () => void;
+}
+
+export const TeamMembers = ({ team, members, staff, canManage, onChange }: TeamMembersProps) => {
+  const { toast } = useToast();
+  const [newMemberId, setNewMemberId] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState('member');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const availableStaff = staff.filter(member => !members.some(m => m.user_id === member.id));
+
+  const addMember = async () => {
+    if (!newMemberId) return;
+
+    setIsAdding(true);
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .insert({ team_id: team.id, user_id: newMemberId, role: newMemberRole });
+
+      if (error) throw error;
+
+      toast({
+        title: "Member added",
+        description: `${getStaffName(staff.find(s => s.id === newMemberId))} joined ${team.name}`,
+      });
+
+      setNewMemberId('');
+      setNewMemberRole('member');
+      onChange();
+    } catch (error) {
+      console.error('Error adding team member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add team member",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const updateRole = async (member: TeamMember, role: string) => {
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .update({ role })
+        .eq('id', member.id);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error('Error updating team member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update member role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeMember = async (member: TeamMember) => {
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Member removed",
+        description: `${getStaffName(member.profile)} left ${team.name}`,
+      });
+      onChange();
+    } catch (error) {
+      console.error('Error removing team member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove team member",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Members ({members.length})
+        </CardTitle>
+        <CardDescription>
+          Leads can delete tasks from the board; members can create and move them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {members.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No members yet
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {members.map((member) => (
+              <div key={member.id} className="flex items-center gap-3 border rounded-lg p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{getStaffName(member.profile)}</span>
+                    {member.user_id === team.manager_id && (
+                      <Badge variant="secondary" className="flex items-center gap-1">
+                        <Crown className="h-3 w-3" />
+                        Manager
+                      </Badge>
+                    )}
+                  </div>
+                  {member.profile?.email && member.profile.display_name && (
+                    <p className="text-sm text-muted-foreground">{member.profile.email}</p>
+                  )}
+                </div>
+                {canManage ? (
+                  <>
+                    <Select value={member.role} onValueChange={(value) => updateRole(member, value)}>
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(teamRoleLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" onClick={() => removeMember(member)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </>
+                ) : (
+                  <Badge variant="outline">{teamRoleLabels[member.role] || member.role}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManage && (
+          <div className="flex flex-col md:flex-row gap-2 pt-4 border-t">
+            <Select value={newMemberId} onValueChange={setNewMemberId}>
+              <SelectTrigger className="md:flex-1">
+                <SelectValue placeholder={availableStaff.length > 0 ? 'Choose a team member' : 'Everyone is already in this team'} />
+              </SelectTrigger>
+              <SelectContent>
+                {availableStaff.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>{getStaffName(member)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newMemberRole} onValueChange={setNewMemberRole}>
+              <SelectTrigger className="md:w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(teamRoleLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={addMember} disabled={!newMemberId || isAdding}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add Member
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
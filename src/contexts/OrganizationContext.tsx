@@ -0,0 +1,126 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { useAuth } from './AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Permission } from '@/lib/permissions';
+
+export interface Organization {
+  id: string;
+  name: string;
+  // The current user's role in this organization
+  role: string;
+}
+
+interface OrganizationContextType {
+  organizations: Organization[];
+  currentOrganization: Organization | null;
+  // What the user's role allows in the current organization, and the branches it covers
+  permissions: Permission[];
+  branchIds: string[];
+  loading: boolean;
+  switchOrganization: (organizationId: string) => Promise<void>;
+  createOrganization: (name: string) => Promise<void>;
+  refreshOrganizations: () => Promise<void>;
+}
+
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+export const useOrganization = () => {
+  const context = useContext(OrganizationContext);
+  if (!context) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+};
+
+export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [currentOrganizationId, setCurrentOrganizationId] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [branchIds, setBranchIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const refreshOrganizations = async () => {
+    if (!user) {
+      setOrganizations([]);
+      setCurrentOrganizationId(null);
+      setPermissions([]);
+      setBranchIds([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('id, current_organization_id')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError) throw profileError;
+
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('role, organization:organizations(id, name)')
+        .eq('profile_id', profile.id);
+
+      if (error) throw error;
+
+      const { data: access, error: accessError } = await supabase.rpc('get_user_access');
+
+      if (accessError) throw accessError;
+
+      setOrganizations(
+        (data || [])
+          .filter(membership => membership.organization)
+          .map(membership => ({ ...membership.organization, role: membership.role }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setCurrentOrganizationId(profile.current_organization_id);
+      setPermissions((access?.[0]?.permissions || []) as Permission[]);
+      setBranchIds(access?.[0]?.branch_ids || []);
+    } catch (error) {
+      console.error('Error fetching organizations:', error);
+      setOrganizations([]);
+      setCurrentOrganizationId(null);
+      setPermissions([]);
+      setBranchIds([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchOrganization = async (organizationId: string) => {
+    const { error } = await supabase.rpc('switch_organization', { org_uuid: organizationId });
+    if (error) throw error;
+    await refreshOrganizations();
+  };
+
+  const createOrganization = async (name: string) => {
+    const { error } = await supabase.rpc('create_organization', { org_name: name });
+    if (error) throw error;
+    await refreshOrganizations();
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    refreshOrganizations();
+  }, [user]);
+
+  const currentOrganization = organizations.find(org => org.id === currentOrganizationId) || null;
+
+  return (
+    <OrganizationContext.Provider value={{
+      organizations,
+      currentOrganization,
+      permissions,
+      branchIds,
+      loading,
+      switchOrganization,
+      createOrganization,
+      refreshOrganizations,
+    }}>
+      {children}
+    </OrganizationContext.Provider>
+  );
+};
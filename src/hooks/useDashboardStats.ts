@@ -1,6 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { getBrowserTimezone } from '@/lib/branches';
+import { getQrCodeStatus } from '@/lib/qrCodes';
+import { averageOf, getSummaryCsat, getSummaryNps, sumSummaryRows } from '@/lib/feedbackStats';
+import { CsatBreakdown, NpsBreakdown } from '@/lib/surveyMetrics';
 
 interface DashboardStats {
   totalFeedback: number;
@@ -11,10 +15,18 @@ interface DashboardStats {
   responsesThisWeek: number;
   totalQRCodes: number;
   activeQRCodes: number;
+  scheduledQRCodes: number;
+  retiredQRCodes: number;
+  nps: NpsBreakdown | null;
+  csat: CsatBreakdown | null;
 }
 
+// Bursts of realtime changes (e.g. bulk updates) trigger a single refetch
+const REALTIME_REFRESH_DELAY = 1000;
+
 export const useDashboardStats = (refreshTrigger?: number) => {
-  const { user } = useAuth();
+  const { currentOrganization } = useOrganization();
+  const organizationId = currentOrganization?.id;
   const [stats, setStats] = useState<DashboardStats>({
     totalFeedback: 0,
     pendingFeedback: 0,
@@ -23,82 +35,62 @@ export const useDashboardStats = (refreshTrigger?: number) => {
     responsesThisMonth: 0,
     responsesThisWeek: 0,
     totalQRCodes: 0,
-    activeQRCodes: 0
+    activeQRCodes: 0,
+    scheduledQRCodes: 0,
+    retiredQRCodes: 0,
+    nps: null,
+    csat: null
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const refreshTimeout = useRef<ReturnType<typeof setTimeout>>();
 
   const fetchStats = async () => {
-    if (!user) return;
+    if (!organizationId) return;
 
     try {
       setLoading(true);
       setError(null);
 
-      // Get user's profile and branch
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('branch_id, role')
-        .eq('user_id', user.id)
-        .single();
-
-      if (profileError) throw profileError;
-
-      const isAdmin = profile?.role === 'admin';
-      const userBranchId = profile?.branch_id;
-
-      // Fetch feedback stats
-      let feedbackQuery = supabase.from('feedback').select('*');
-      if (!isAdmin && userBranchId) {
-        feedbackQuery = feedbackQuery.eq('branch_id', userBranchId);
-      }
-      
-      const { data: feedback, error: feedbackError } = await feedbackQuery;
-      if (feedbackError) throw feedbackError;
+      // Counted in the database within the caller's branch scope, so only totals come back
+      const { data: summary, error: summaryError } = await supabase
+        .rpc('get_feedback_summary', { time_zone: getBrowserTimezone() });
+      if (summaryError) throw summaryError;
 
       // Fetch QR codes stats
-      let qrQuery = supabase.from('qr_codes').select('*');
-      if (!isAdmin) {
-        qrQuery = qrQuery.eq('user_id', user.id);
-      }
-      
-      const { data: qrCodes, error: qrError } = await qrQuery;
+      const { data: qrCodes, error: qrError } = await supabase
+        .from('qr_codes')
+        .select('id, is_active, starts_at, ends_at')
+        .eq('organization_id', organizationId);
       if (qrError) throw qrError;
 
-      // Calculate stats
+      const totals = sumSummaryRows(summary || []);
       const now = new Date();
-      const thisMonth = feedback?.filter(f => {
-        const createdAt = new Date(f.created_at);
-        return createdAt.getMonth() === now.getMonth() && 
-               createdAt.getFullYear() === now.getFullYear();
-      }) || [];
-
-      const thisWeek = feedback?.filter(f => {
-        const createdAt = new Date(f.created_at);
-        const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        return createdAt >= weekAgo;
-      }) || [];
-
-      const totalFeedback = feedback?.length || 0;
-      const pendingFeedback = feedback?.filter(f => f.status === 'pending').length || 0;
-      const resolvedFeedback = feedback?.filter(f => f.status === 'resolved').length || 0;
-      const averageRating = feedback?.length > 0 
-        ? feedback.reduce((sum, f) => sum + f.rating, 0) / feedback.length 
-        : 0;
 
       const totalQRCodes = qrCodes?.length || 0;
-      const activeQRCodes = qrCodes?.filter(qr => qr.is_active).length || 0;
+      const qrStatuses = (qrCodes || []).map(qr => getQrCodeStatus(qr, now));
+      const activeQRCodes = qrStatuses.filter(status => status === 'active').length;
+      const scheduledQRCodes = qrStatuses.filter(status => status === 'scheduled').length;
+      // Deactivated or past their end date; scanning one shows a notice instead of the form
+      const retiredQRCodes = qrStatuses.filter(status => status === 'inactive' || status === 'expired').length;
 
       setStats({
-        totalFeedback,
-        pendingFeedback,
-        resolvedFeedback,
-        averageRating: Math.round(averageRating * 10) / 10,
-        responsesThisMonth: thisMonth.length,
-        responsesThisWeek: thisWeek.length,
+        totalFeedback: totals.total,
+        pendingFeedback: totals.pending,
+        resolvedFeedback: totals.resolved,
+        // Each survey mode gets its own metric instead of mixing scales in one average
+        averageRating: averageOf(totals.star_score_sum, totals.star_responses) ?? 0,
+        responsesThisMonth: totals.this_month,
+        responsesThisWeek: totals.this_week,
         totalQRCodes,
-        activeQRCodes
+        activeQRCodes,
+        scheduledQRCodes,
+        retiredQRCodes,
+        nps: getSummaryNps(totals),
+        csat: getSummaryCsat(totals)
       });
+      setLastUpdated(new Date());
     } catch (error: any) {
       console.error('Error fetching dashboard stats:', error);
       setError(error.message);
@@ -109,33 +101,40 @@ export const useDashboardStats = (refreshTrigger?: number) => {
 
   useEffect(() => {
     fetchStats();
-  }, [user, refreshTrigger]);
+  }, [organizationId, refreshTrigger]);
 
-  // Set up real-time subscriptions
+  // Set up real-time subscriptions, limited to the current organization's rows
   useEffect(() => {
-    if (!user) return;
+    if (!organizationId) return;
+
+    const scheduleRefresh = () => {
+      clearTimeout(refreshTimeout.current);
+      refreshTimeout.current = setTimeout(fetchStats, REALTIME_REFRESH_DELAY);
+    };
+    const filter = `organization_id=eq.${organizationId}`;
 
     const feedbackSubscription = supabase
-      .channel('feedback_changes')
+      .channel(`feedback_changes:${organizationId}`)
       .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'feedback' },
-        () => fetchStats()
+        { event: '*', schema: 'public', table: 'feedback', filter },
+        scheduleRefresh
       )
       .subscribe();
 
     const qrSubscription = supabase
-      .channel('qr_changes')
+      .channel(`qr_changes:${organizationId}`)
       .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'qr_codes' },
-        () => fetchStats()
+        { event: '*', schema: 'public', table: 'qr_codes', filter },
+        scheduleRefresh
       )
       .subscribe();
 
     return () => {
+      clearTimeout(refreshTimeout.current);
       feedbackSubscription.unsubscribe();
       qrSubscription.unsubscribe();
     };
-  }, [user]);
+  }, [organizationId]);
 
-  return { stats, loading, error, refetch: fetchStats };
+  return { stats, loading, error, lastUpdated, refetch: fetchStats };
 };
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Role, organizationWideRoles } from '@/lib/permissions';
+
+export interface StaffProfile {
+  id: string;
+  display_name: string | null;
+  email: string | null;
+  role: string;
+  branch_id: string | null;
+  // Every branch the member's role covers, including branch_id
+  branch_ids?: string[];
+}
+
+export const getStaffName = (profile?: Pick<StaffProfile, 'display_name' | 'email'> | null) =>
+  profile?.display_name || profile?.email || 'Unknown';
+
+export const useFeedbackAssignment = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [staff, setStaff] = useState<StaffProfile[]>([]);
+  const [currentProfile, setCurrentProfile] = useState<StaffProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchStaff = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('id, display_name, email, role, branch_id, current_organization_id')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError) throw profileError;
+      setCurrentProfile(profile);
+
+      // Anyone whose role can respond to feedback can be assigned it
+      const { data: responderRoles, error: rolesError } = await supabase
+        .from('role_permissions')
+        .select('role')
+        .eq('permission', 'feedback.respond');
+
+      if (rolesError) throw rolesError;
+
+      // Roles and branches are per organization, so read them from the memberships
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('role, branch_id, profile:profiles(id, display_name, email), branches:organization_member_branches(branch_id)')
+        .eq('organization_id', profile.current_organization_id)
+        .in('role', (responderRoles || []).map(r => r.role));
+
+      if (error) throw error;
+      setStaff(
+        (data || [])
+          .filter(member => member.profile)
+          .map(member => ({
+            ...member.profile,
+            role: member.role,
+            branch_id: member.branch_id,
+            branch_ids: [
+              ...(member.branch_id ? [member.branch_id] : []),
+              ...member.branches.map(b => b.branch_id),
+            ],
+          }))
+          .sort((a, b) => getStaffName(a).localeCompare(getStaffName(b)))
+      );
+    } catch (error) {
+      console.error('Error fetching staff:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStaff();
+  }, [user]);
+
+  // Staff eligible to work on feedback from a branch; organization-wide roles can take anything
+  const getAssignableStaff = (branchId?: string | null) =>
+    staff.filter(s => !branchId || organizationWideRoles.includes(s.role as Role) || s.branch_ids?.includes(branchId));
+
+  const canAssignOthers = can('feedback.manage');
+
+  const assignFeedback = async (feedbackId: string, assigneeId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('feedback')
+        .update({ assigned_to: assigneeId })
+        .eq('id', feedbackId);
+
+      if (error) throw error;
+
+      const assignee = staff.find(s => s.id === assigneeId);
+      toast({
+        title: assigneeId ? "Feedback assigned" : "Feedback unassigned",
+        description: assigneeId
+          ? `Assigned to ${assigneeId === currentProfile?.id ? 'you' : getStaffName(assignee)}`
+          : "Feedback is back in the shared inbox",
+      });
+      return true;
+    } catch (error) {
+      console.error('Error assigning feedback:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update assignment",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  return {
+    staff,
+    currentProfile,
+    loading,
+    canAssignOthers,
+    getAssignableStaff,
+    assignFeedback,
+  };
+};
@@ -0,0 +1,29 @@
+import { useSearchParams } from 'react-router-dom';
+import {
+  FeedbackFilters,
+  clearFeedbackFilters,
+  parseFeedbackFilters,
+  writeFeedbackFilters
+} from '@/lib/feedbackFilters';
+
+// Inbox filter state lives in the URL so filtered views can be bookmarked and shared
+export const useFeedbackFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseFeedbackFilters(searchParams);
+
+  const updateFilters = (changes: Partial<FeedbackFilters>) => {
+    // Any filter change starts again from the first page
+    const next = { ...filters, page: 1, ...changes };
+    setSearchParams(writeFeedbackFilters(searchParams, next), { replace: true });
+  };
+
+  const setPage = (page: number) => {
+    setSearchParams(writeFeedbackFilters(searchParams, { ...filters, page }));
+  };
+
+  const resetFilters = () => {
+    setSearchParams(clearFeedbackFilters(searchParams), { replace: true });
+  };
+
+  return { filters, updateFilters, setPage, resetFilters };
+};
@@ -0,0 +1,33 @@
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { Permission, Role, organizationWideRoles, sectionPermissions } from '@/lib/permissions';
+
+// Client-side mirror of has_permission/has_branch_permission, for showing and hiding UI.
+// RLS enforces the same rules on the server.
+export const usePermissions = () => {
+  const { currentOrganization, permissions, branchIds, loading } = useOrganization();
+
+  const role = (currentOrganization?.role ?? null) as Role | null;
+  const isOrganizationWide = !!role && organizationWideRoles.includes(role);
+
+  const canAccessBranch = (branchId?: string | null) =>
+    isOrganizationWide || (!!branchId && branchIds.includes(branchId));
+
+  // Without a branch this only checks the capability; pass one to also check scope
+  const can = (permission: Permission, branchId?: string | null) =>
+    permissions.includes(permission) && (branchId === undefined || canAccessBranch(branchId));
+
+  const canViewSection = (section: string) =>
+    !sectionPermissions[section] || can(sectionPermissions[section]);
+
+  return {
+    role,
+    permissions,
+    branchIds,
+    isOrganizationWide,
+    can,
+    canAccessBranch,
+    canViewSection,
+    // True until the caller's role and branches are known; until then nothing is accessible
+    loading,
+  };
+};
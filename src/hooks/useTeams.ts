@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  branch_id: string | null;
+  manager_id: string | null;
+  is_active: boolean;
+  created_at: string;
+  branch?: {
+    name: string;
+  } | null;
+}
+
+// Teams visible to the current user (all in the branches their role manages, plus the ones they belong to)
+export const useTeams = () => {
+  const { user } = useAuth();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTeams = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('teams')
+        .select('*, branch:branches(name)')
+        .order('name');
+
+      if (error) throw error;
+      setTeams(data || []);
+    } catch (error) {
+      console.error('Error fetching teams:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTeams();
+  }, [user]);
+
+  return { teams, loading, refetch: fetchTeams };
+};
@@ -21,6 +21,7 @@ export type Database = {
           event_type: string
           id: string
           ip_address: unknown
+          organization_id: string | null
           session_id: string | null
           user_agent: string | null
           user_id: string | null
@@ -31,6 +32,7 @@ export type Database = {
           event_type: string
           id?: string
           ip_address?: unknown
+          organization_id?: string | null
           session_id?: string | null
           user_agent?: string | null
           user_id?: string | null
@@ -41,41 +43,68 @@ export type Database = {
           event_type?: string
           id?: string
           ip_address?: unknown
+          organization_id?: string | null
           session_id?: string | null
           user_agent?: string | null
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "analytics_events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       branches: {
         Row: {
           created_at: string
           description: string | null
+          email: string | null
           id: string
           is_active: boolean
           location: string | null
           manager_id: string | null
           name: string
+          opening_hours: Json
+          organization_id: string
+          phone: string | null
+          region_id: string | null
+          timezone: string
           updated_at: string
         }
         Insert: {
           created_at?: string
           description?: string | null
+          email?: string | null
           id?: string
           is_active?: boolean
           location?: string | null
           manager_id?: string | null
           name: string
+          opening_hours?: Json
+          organization_id?: string
+          phone?: string | null
+          region_id?: string | null
+          timezone?: string
           updated_at?: string
         }
         Update: {
           created_at?: string
           description?: string | null
+          email?: string | null
           id?: string
           is_active?: boolean
           location?: string | null
           manager_id?: string | null
           name?: string
+          opening_hours?: Json
+          organization_id?: string
+          phone?: string | null
+          region_id?: string | null
+          timezone?: string
           updated_at?: string
         }
         Relationships: [
@@ -86,10 +115,25 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "branches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "branches_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       feedback: {
         Row: {
+          archived_at: string | null
           assigned_to: string | null
           branch_id: string | null
           category_id: string | null
@@ -99,15 +143,23 @@ export type Database = {
           customer_phone: string | null
           id: string
           is_anonymous: boolean
+          location_label: string | null
           message: string
+          organization_id: string
           priority: string
+          qr_code_id: string | null
           rating: number
           resolved_at: string | null
+          score: number | null
+          search_vector: unknown
           status: string
           subject: string
+          survey_mode: string
+          tags: string[]
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           assigned_to?: string | null
           branch_id?: string | null
           category_id?: string | null
@@ -117,15 +169,23 @@ export type Database = {
           customer_phone?: string | null
           id?: string
           is_anonymous?: boolean
+          location_label?: string | null
           message: string
+          organization_id?: string
           priority?: string
+          qr_code_id?: string | null
           rating: number
           resolved_at?: string | null
+          score?: number | null
+          search_vector?: never
           status?: string
           subject: string
+          survey_mode?: string
+          tags?: string[]
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           assigned_to?: string | null
           branch_id?: string | null
           category_id?: string | null
@@ -135,12 +195,19 @@ export type Database = {
           customer_phone?: string | null
           id?: string
           is_anonymous?: boolean
+          location_label?: string | null
           message?: string
+          organization_id?: string
           priority?: string
+          qr_code_id?: string | null
           rating?: number
           resolved_at?: string | null
+          score?: number | null
+          search_vector?: never
           status?: string
           subject?: string
+          survey_mode?: string
+          tags?: string[]
           updated_at?: string
         }
         Relationships: [
@@ -165,6 +232,119 @@ export type Database = {
             referencedRelation: "feedback_categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "feedback_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_qr_code_id_fkey"
+            columns: ["qr_code_id"]
+            isOneToOne: false
+            referencedRelation: "qr_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedback_analyses: {
+        Row: {
+          analysis_type: string
+          created_at: string
+          created_by: string | null
+          feedback_count: number
+          id: string
+          input_hash: string
+          insights: Json
+          model: string
+          organization_id: string
+          parameters: Json
+        }
+        Insert: {
+          analysis_type: string
+          created_at?: string
+          created_by?: string | null
+          feedback_count?: number
+          id?: string
+          input_hash: string
+          insights: Json
+          model: string
+          organization_id: string
+          parameters?: Json
+        }
+        Update: {
+          analysis_type?: string
+          created_at?: string
+          created_by?: string | null
+          feedback_count?: number
+          id?: string
+          input_hash?: string
+          insights?: Json
+          model?: string
+          organization_id?: string
+          parameters?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_analyses_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_analyses_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedback_answers: {
+        Row: {
+          answer: Json
+          created_at: string
+          feedback_id: string
+          id: string
+          question_id: string | null
+          question_text: string
+          question_type: string
+        }
+        Insert: {
+          answer: Json
+          created_at?: string
+          feedback_id: string
+          id?: string
+          question_id?: string | null
+          question_text: string
+          question_type: string
+        }
+        Update: {
+          answer?: Json
+          created_at?: string
+          feedback_id?: string
+          id?: string
+          question_id?: string | null
+          question_text?: string
+          question_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_answers_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedback"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "feedback_questions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       feedback_categories: {
@@ -176,6 +356,7 @@ export type Database = {
           id: string
           is_active: boolean
           name: string
+          organization_id: string
           sort_order: number | null
           updated_at: string
         }
@@ -187,6 +368,7 @@ export type Database = {
           id?: string
           is_active?: boolean
           name: string
+          organization_id?: string
           sort_order?: number | null
           updated_at?: string
         }
@@ -198,10 +380,19 @@ export type Database = {
           id?: string
           is_active?: boolean
           name?: string
+          organization_id?: string
           sort_order?: number | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "feedback_categories_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       feedback_form_settings: {
         Row: {
@@ -211,7 +402,10 @@ export type Database = {
           google_place_id: string | null
           id: string
           logo_url: string | null
+          organization_id: string
           primary_color: string | null
+          show_category_picker: boolean
+          survey_mode: string
           updated_at: string
           welcome_description: string
           welcome_title: string
@@ -223,7 +417,10 @@ export type Database = {
           google_place_id?: string | null
           id?: string
           logo_url?: string | null
+          organization_id?: string
           primary_color?: string | null
+          show_category_picker?: boolean
+          survey_mode?: string
           updated_at?: string
           welcome_description?: string
           welcome_title?: string
@@ -235,39 +432,122 @@ export type Database = {
           google_place_id?: string | null
           id?: string
           logo_url?: string | null
+          organization_id?: string
           primary_color?: string | null
+          show_category_picker?: boolean
+          survey_mode?: string
           updated_at?: string
           welcome_description?: string
           welcome_title?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "feedback_form_settings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedback_questions: {
+        Row: {
+          branch_id: string
+          created_at: string
+          id: string
+          is_active: boolean
+          is_required: boolean
+          options: Json
+          organization_id: string
+          question_text: string
+          question_type: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          branch_id: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_required?: boolean
+          options?: Json
+          organization_id?: string
+          question_text: string
+          question_type: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_required?: boolean
+          options?: Json
+          organization_id?: string
+          question_text?: string
+          question_type?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_questions_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_questions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       feedback_responses: {
         Row: {
+          author_type: string
           created_at: string
+          email_error: string | null
+          email_message_id: string | null
+          email_sent_at: string | null
+          email_status: string | null
           feedback_id: string
           id: string
           is_internal: boolean
           message: string
-          responder_id: string
+          responder_id: string | null
           updated_at: string
         }
         Insert: {
+          author_type?: string
           created_at?: string
+          email_error?: string | null
+          email_message_id?: string | null
+          email_sent_at?: string | null
+          email_status?: string | null
           feedback_id: string
           id?: string
           is_internal?: boolean
           message: string
-          responder_id: string
+          responder_id?: string | null
           updated_at?: string
         }
         Update: {
+          author_type?: string
           created_at?: string
+          email_error?: string | null
+          email_message_id?: string | null
+          email_sent_at?: string | null
+          email_status?: string | null
           feedback_id?: string
           id?: string
           is_internal?: boolean
           message?: string
-          responder_id?: string
+          responder_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -287,10 +567,228 @@ export type Database = {
           },
         ]
       }
+      feedback_routing_rules: {
+        Row: {
+          assignee_id: string | null
+          branch_id: string
+          category_id: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          last_assigned_id: string | null
+          max_rating: number | null
+          name: string
+          organization_id: string
+          sort_order: number
+          strategy: string
+          updated_at: string
+        }
+        Insert: {
+          assignee_id?: string | null
+          branch_id: string
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_assigned_id?: string | null
+          max_rating?: number | null
+          name: string
+          organization_id?: string
+          sort_order?: number
+          strategy?: string
+          updated_at?: string
+        }
+        Update: {
+          assignee_id?: string | null
+          branch_id?: string
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_assigned_id?: string | null
+          max_rating?: number | null
+          name?: string
+          organization_id?: string
+          sort_order?: number
+          strategy?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_routing_rules_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_routing_rules_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_routing_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "feedback_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_routing_rules_last_assigned_id_fkey"
+            columns: ["last_assigned_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_routing_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_member_branches: {
+        Row: {
+          branch_id: string
+          created_at: string
+          member_id: string
+        }
+        Insert: {
+          branch_id: string
+          created_at?: string
+          member_id: string
+        }
+        Update: {
+          branch_id?: string
+          created_at?: string
+          member_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_member_branches_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_member_branches_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "organization_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          branch_id: string | null
+          created_at: string
+          id: string
+          organization_id: string
+          profile_id: string
+          region_id: string | null
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          branch_id?: string | null
+          created_at?: string
+          id?: string
+          organization_id: string
+          profile_id: string
+          region_id?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string | null
+          created_at?: string
+          id?: string
+          organization_id?: string
+          profile_id?: string
+          region_id?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          ai_model: string | null
+          ai_provider: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          ai_model?: string | null
+          ai_provider?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          ai_model?: string | null
+          ai_provider?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organizations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           branch_id: string | null
           created_at: string
+          current_organization_id: string | null
           display_name: string | null
           email: string | null
           id: string
@@ -301,6 +799,7 @@ export type Database = {
         Insert: {
           branch_id?: string | null
           created_at?: string
+          current_organization_id?: string | null
           display_name?: string | null
           email?: string | null
           id?: string
@@ -311,6 +810,7 @@ export type Database = {
         Update: {
           branch_id?: string | null
           created_at?: string
+          current_organization_id?: string | null
           display_name?: string | null
           email?: string | null
           id?: string
@@ -326,6 +826,13 @@ export type Database = {
             referencedRelation: "branches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "profiles_current_organization_id_fkey"
+            columns: ["current_organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       qr_codes: {
@@ -333,11 +840,17 @@ export type Database = {
           branch_id: string | null
           category_id: string | null
           created_at: string
+          ends_at: string | null
           feedback_url: string
           id: string
+          image_path: string | null
           is_active: boolean
+          location_label: string | null
           name: string | null
-          qr_code_url: string
+          organization_id: string
+          qr_code_url: string | null
+          slug: string
+          starts_at: string | null
           updated_at: string
           user_id: string
         }
@@ -345,11 +858,17 @@ export type Database = {
           branch_id?: string | null
           category_id?: string | null
           created_at?: string
+          ends_at?: string | null
           feedback_url: string
           id?: string
+          image_path?: string | null
           is_active?: boolean
+          location_label?: string | null
           name?: string | null
-          qr_code_url: string
+          organization_id?: string
+          qr_code_url?: string | null
+          slug: string
+          starts_at?: string | null
           updated_at?: string
           user_id: string
         }
@@ -357,11 +876,17 @@ export type Database = {
           branch_id?: string | null
           category_id?: string | null
           created_at?: string
+          ends_at?: string | null
           feedback_url?: string
           id?: string
+          image_path?: string | null
           is_active?: boolean
+          location_label?: string | null
           name?: string | null
-          qr_code_url?: string
+          organization_id?: string
+          qr_code_url?: string | null
+          slug?: string
+          starts_at?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -380,8 +905,72 @@ export type Database = {
             referencedRelation: "feedback_categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "qr_codes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      regions: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          organization_id: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          organization_id?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          organization_id?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "regions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "regions_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          permission: string
+          role: string
+        }
+        Insert: {
+          permission: string
+          role: string
+        }
+        Update: {
+          permission?: string
+          role?: string
+        }
+        Relationships: []
+      }
       subscribers: {
         Row: {
           created_at: string
@@ -429,7 +1018,9 @@ export type Database = {
           created_at: string
           description: string | null
           due_date: string | null
+          feedback_id: string | null
           id: string
+          organization_id: string
           priority: string
           status: string
           team_id: string | null
@@ -443,7 +1034,9 @@ export type Database = {
           created_at?: string
           description?: string | null
           due_date?: string | null
+          feedback_id?: string | null
           id?: string
+          organization_id?: string
           priority?: string
           status?: string
           team_id?: string | null
@@ -457,7 +1050,9 @@ export type Database = {
           created_at?: string
           description?: string | null
           due_date?: string | null
+          feedback_id?: string | null
           id?: string
+          organization_id?: string
           priority?: string
           status?: string
           team_id?: string | null
@@ -479,6 +1074,20 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedback"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_team_id_fkey"
             columns: ["team_id"]
@@ -490,11 +1099,14 @@ export type Database = {
       }
       team_invitations: {
         Row: {
+          accepted_at: string | null
+          accepted_by: string | null
           created_at: string
           email: string
           expires_at: string
           id: string
           invited_by: string
+          last_sent_at: string | null
           role: string
           status: string
           team_id: string
@@ -502,11 +1114,14 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           created_at?: string
           email: string
           expires_at?: string
           id?: string
           invited_by: string
+          last_sent_at?: string | null
           role?: string
           status?: string
           team_id: string
@@ -514,11 +1129,14 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           created_at?: string
           email?: string
           expires_at?: string
           id?: string
           invited_by?: string
+          last_sent_at?: string | null
           role?: string
           status?: string
           team_id?: string
@@ -526,6 +1144,13 @@ export type Database = {
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "team_invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "team_invitations_invited_by_fkey"
             columns: ["invited_by"]
@@ -590,6 +1215,7 @@ export type Database = {
           is_active: boolean
           manager_id: string | null
           name: string
+          organization_id: string
           updated_at: string
         }
         Insert: {
@@ -600,6 +1226,7 @@ export type Database = {
           is_active?: boolean
           manager_id?: string | null
           name: string
+          organization_id?: string
           updated_at?: string
         }
         Update: {
@@ -610,6 +1237,7 @@ export type Database = {
           is_active?: boolean
           manager_id?: string | null
           name?: string
+          organization_id?: string
           updated_at?: string
         }
         Relationships: [
@@ -627,6 +1255,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "teams_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -634,30 +1269,179 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      get_feedback_for_staff: {
-        Args: never
+      accept_team_invitation: {
+        Args: { invite_token: string }
+        Returns: string
+      }
+      bulk_update_feedback: {
+        Args: { changes: Json; feedback_ids: string[] }
+        Returns: number
+      }
+      can_access_branch: {
+        Args: { branch_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
+      can_manage_qr_image: { Args: { object_name: string }; Returns: boolean }
+      create_organization: { Args: { org_name: string }; Returns: string }
+      deactivate_branch: {
+        Args: { branch_uuid: string; reassign_to?: string }
+        Returns: undefined
+      }
+      get_feedback_branch_scope: { Args: never; Returns: string[] }
+      get_feedback_daily_stats: {
+        Args: {
+          end_date: string
+          include_archived?: boolean
+          start_date: string
+          time_zone?: string
+        }
         Returns: {
-          assigned_to: string
           branch_id: string
+          day: string
+          in_progress: number
+          pending: number
+          rating_1: number
+          rating_2: number
+          rating_3: number
+          rating_4: number
+          rating_5: number
+          rating_sum: number
+          resolved: number
+          responded: number
+          response_seconds: number
+          total: number
+        }[]
+      }
+      get_feedback_organization: {
+        Args: { feedback_uuid: string }
+        Returns: string
+      }
+      get_feedback_period_stats: {
+        Args: {
+          branch_ids?: string[]
+          category_ids?: string[]
+          end_at: string
+          start_at: string
+        }
+        Returns: {
+          category_color: string
           category_id: string
-          created_at: string
-          customer_email: string
-          customer_name: string
-          customer_phone: string
-          id: string
-          is_anonymous: boolean
-          message: string
-          priority: string
-          rating: number
-          resolved_at: string
+          category_name: string
+          csat_responses: number
+          csat_satisfied: number
+          fingerprint: string
+          in_progress: number
+          nps_detractors: number
+          nps_promoters: number
+          nps_responses: number
+          pending: number
+          rating_1: number
+          rating_2: number
+          rating_3: number
+          rating_4: number
+          rating_5: number
+          rating_sum: number
+          resolved: number
+          total: number
+        }[]
+      }
+      get_feedback_summary: {
+        Args: { time_zone?: string }
+        Returns: {
+          branch_id: string
+          category_id: string
+          csat_responses: number
+          csat_satisfied: number
+          in_progress: number
+          last_month: number
+          last_month_rating_sum: number
+          nps_detractors: number
+          nps_promoters: number
+          nps_responses: number
+          pending: number
+          rating_sum: number
+          resolved: number
+          star_responses: number
+          star_score_sum: number
+          this_month: number
+          this_month_rating_sum: number
+          this_week: number
+          total: number
+        }[]
+      }
+      get_public_feedback_form: {
+        Args: { branch_uuid: string }
+        Returns: Json
+      }
+      get_qr_code_status: {
+        Args: {
+          code_ends_at: string
+          code_is_active: boolean
+          code_starts_at: string
+        }
+        Returns: string
+      }
+      get_qr_code_stats: {
+        Args: never
+        Returns: {
+          last_scanned_at: string
+          qr_code_id: string
+          scans: number
+          submissions: number
+        }[]
+      }
+      get_region_branch_ids: {
+        Args: { region_uuid: string }
+        Returns: string[]
+      }
+      get_team_invitation: {
+        Args: { invite_token: string }
+        Returns: {
+          email: string
+          expires_at: string
+          invited_by_name: string
+          role: string
           status: string
-          subject: string
-          updated_at: string
+          team_name: string
+        }[]
+      }
+      get_team_organization: { Args: { team_uuid: string }; Returns: string }
+      get_user_access: {
+        Args: never
+        Returns: {
+          branch_ids: string[]
+          permissions: string[]
+          role: string
         }[]
       }
       get_user_branch: { Args: { user_uuid: string }; Returns: string }
+      get_user_organization: { Args: { user_uuid: string }; Returns: string }
       get_user_profile_id: { Args: { user_uuid: string }; Returns: string }
       get_user_role: { Args: { user_uuid: string }; Returns: string }
+      has_branch_permission: {
+        Args: { branch_uuid: string; permission_key: string; user_uuid: string }
+        Returns: boolean
+      }
+      has_permission: {
+        Args: { permission_key: string; user_uuid: string }
+        Returns: boolean
+      }
+      is_organization_admin: {
+        Args: { org_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
+      is_organization_member: {
+        Args: { org_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
+      is_organization_wide_role: {
+        Args: { role_name: string }
+        Returns: boolean
+      }
+      is_team_lead: {
+        Args: { team_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
       is_team_manager: {
         Args: { team_uuid: string; user_uuid: string }
         Returns: boolean
@@ -666,6 +1450,26 @@ export type Database = {
         Args: { team_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      is_valid_feedback_answer: {
+        Args: { answer: Json; options: Json; question_type: string }
+        Returns: boolean
+      }
+      resolve_qr_code: {
+        Args: { qr_slug: string; scan_user_agent?: string }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          category_id: string
+          qr_code_id: string
+          starts_at: string
+          status: string
+        }[]
+      }
+      submit_feedback: {
+        Args: { answers?: Json; feedback: Json }
+        Returns: string
+      }
+      switch_organization: { Args: { org_uuid: string }; Returns: undefined }
       validate_email_format: { Args: { email: string }; Returns: boolean }
     }
     Enums: {
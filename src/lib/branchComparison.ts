@@ -0,0 +1,172 @@
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+import { FeedbackDailyRow, groupRowsBy, sumDailyRows } from '@/lib/feedbackStats';
+
+export type ComparisonPeriod = '7d' | '30d' | '90d' | '365d';
+export type LeaderboardMetric = 'rating' | 'responseTime' | 'resolutionRate' | 'volume';
+export type TimelineMetric = 'volume' | 'rating';
+export type TimelineBucket = 'day' | 'week' | 'month';
+
+export interface BranchMetrics {
+  branchId: string;
+  volume: number;
+  averageRating: number | null;
+  resolutionRate: number | null;
+  averageResponseHours: number | null;
+  pending: number;
+}
+
+export type TimelinePoint = { bucket: string; label: string } & Record<string, number | string | null>;
+
+export const comparisonPeriods: ComparisonPeriod[] = ['7d', '30d', '90d', '365d'];
+
+export const comparisonPeriodLabels: Record<ComparisonPeriod, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  '365d': 'Last 12 months',
+};
+
+const periodDays: Record<ComparisonPeriod, number> = { '7d': 7, '30d': 30, '90d': 90, '365d': 365 };
+
+export const leaderboardMetrics: LeaderboardMetric[] = ['rating', 'responseTime', 'resolutionRate', 'volume'];
+
+export const leaderboardMetricLabels: Record<LeaderboardMetric, string> = {
+  rating: 'Average rating',
+  responseTime: 'First response time',
+  resolutionRate: 'Resolution rate',
+  volume: 'Feedback volume',
+};
+
+export const timelineMetricLabels: Record<TimelineMetric, string> = {
+  volume: 'Feedback volume',
+  rating: 'Average rating',
+};
+
+// Up to this many branches are plotted and compared side by side
+export const maxComparedBranches = 5;
+
+export const comparisonColors = ['#6366f1', '#f59e0b', '#10b981', '#ef4444', '#0ea5e9'];
+
+export const getPeriodStart = (period: ComparisonPeriod, now = new Date()) =>
+  startOfDay(subDays(now, periodDays[period] - 1));
+
+// Short periods plot per day; longer ones group by week or month to stay readable
+export const getTimelineBucket = (period: ComparisonPeriod): TimelineBucket =>
+  period === '365d' ? 'month' : period === '90d' ? 'week' : 'day';
+
+const bucketStart: Record<TimelineBucket, (date: Date) => Date> = {
+  day: startOfDay,
+  week: (date) => startOfWeek(date, { weekStartsOn: 1 }),
+  month: startOfMonth,
+};
+
+const bucketFormat: Record<TimelineBucket, string> = {
+  day: 'MMM d',
+  week: "'Wk of' MMM d",
+  month: 'MMM yyyy',
+};
+
+const average = (sum: number, count: number) => (count > 0 ? sum / count : null);
+
+export const calculateBranchMetrics = (branchIds: string[], rows: FeedbackDailyRow[]): BranchMetrics[] => {
+  const rowsByBranch = groupRowsBy(rows, (row) => row.branch_id);
+
+  return branchIds.map((branchId) => {
+    const totals = sumDailyRows(rowsByBranch.get(branchId) || []);
+
+    return {
+      branchId,
+      volume: totals.total,
+      averageRating: average(totals.rating_sum, totals.total),
+      resolutionRate: average(totals.resolved, totals.total),
+      // Time to each item's first public staff reply
+      averageResponseHours: average(totals.response_seconds / 3600, totals.responded),
+      pending: totals.pending,
+    };
+  });
+};
+
+const metricValue = (metrics: BranchMetrics, metric: LeaderboardMetric) => {
+  switch (metric) {
+    case 'rating':
+      return metrics.averageRating;
+    case 'responseTime':
+      return metrics.averageResponseHours;
+    case 'resolutionRate':
+      return metrics.resolutionRate;
+    default:
+      return metrics.volume;
+  }
+};
+
+// Best first; faster responses rank higher, and branches without data for the metric go last
+export const rankBranches = (metrics: BranchMetrics[], metric: LeaderboardMetric) =>
+  [...metrics].sort((a, b) => {
+    const valueA = metricValue(a, metric);
+    const valueB = metricValue(b, metric);
+    if (valueA === null || valueB === null) return valueA === null ? (valueB === null ? 0 : 1) : -1;
+    return metric === 'responseTime' ? valueA - valueB : valueB - valueA;
+  });
+
+export const formatResponseHours = (hours: number | null) => {
+  if (hours === null) return '—';
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+  if (hours < 48) return `${Math.round(hours * 10) / 10}h`;
+  return `${Math.round(hours / 24 * 10) / 10}d`;
+};
+
+export const formatMetric = (metrics: BranchMetrics, metric: LeaderboardMetric) => {
+  const value = metricValue(metrics, metric);
+  if (value === null) return '—';
+
+  switch (metric) {
+    case 'rating':
+      return `${value.toFixed(1)}/5`;
+    case 'responseTime':
+      return formatResponseHours(value);
+    case 'resolutionRate':
+      return `${Math.round(value * 100)}%`;
+    default:
+      return String(value);
+  }
+};
+
+// One point per bucket with a value per branch, keyed by branch id for the chart series
+export const buildTimeline = (
+  period: ComparisonPeriod,
+  branchIds: string[],
+  rows: FeedbackDailyRow[],
+  metric: TimelineMetric,
+  now = new Date()
+): TimelinePoint[] => {
+  const bucket = getTimelineBucket(period);
+  const interval = { start: getPeriodStart(period, now), end: now };
+  const starts = bucket === 'day'
+    ? eachDayOfInterval(interval)
+    : bucket === 'week'
+      ? eachWeekOfInterval(interval, { weekStartsOn: 1 })
+      : eachMonthOfInterval(interval);
+
+  // Rows are per local day, so each one falls wholly inside a bucket
+  const grouped = groupRowsBy(rows, (row) => `${bucketStart[bucket](parseISO(row.day)).toISOString()}|${row.branch_id}`);
+
+  return starts.map((start) => {
+    const point: TimelinePoint = { bucket: start.toISOString(), label: format(start, bucketFormat[bucket]) };
+    branchIds.forEach((branchId) => {
+      const totals = sumDailyRows(grouped.get(`${start.toISOString()}|${branchId}`) || []);
+      const rating = average(totals.rating_sum, totals.total);
+      point[branchId] = metric === 'volume' ? totals.total : rating === null ? null : Math.round(rating * 10) / 10;
+    });
+    return point;
+  });
+};
@@ -0,0 +1,74 @@
+import { Json } from '@/integrations/supabase/types';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// A type rather than an interface so the hours stay assignable to the jsonb column
+export type DayHours = {
+  open: string;
+  close: string;
+};
+
+// Stored as branches.opening_hours; a missing or null day means the branch is closed
+export type OpeningHours = Partial<Record<Weekday, DayHours | null>>;
+
+export interface BranchDetails {
+  id: string;
+  name: string;
+  location: string | null;
+  description: string | null;
+  is_active: boolean;
+  created_at: string;
+  manager_id: string | null;
+  region_id: string | null;
+  timezone: string;
+  opening_hours: Json;
+  phone: string | null;
+  email: string | null;
+}
+
+export const weekdays: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export const weekdayLabels: Record<Weekday, string> = {
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+  sat: 'Saturday',
+  sun: 'Sunday',
+};
+
+export const DEFAULT_DAY_HOURS: DayHours = { open: '09:00', close: '17:00' };
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const parseOpeningHours = (value: Json | null | undefined): OpeningHours => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const hours: OpeningHours = {};
+  weekdays.forEach((day) => {
+    const entry = value[day];
+    if (entry && typeof entry === 'object' && !Array.isArray(entry)
+      && typeof entry.open === 'string' && typeof entry.close === 'string'
+      && timePattern.test(entry.open) && timePattern.test(entry.close)) {
+      hours[day] = { open: entry.open, close: entry.close };
+    }
+  });
+  return hours;
+};
+
+// Closing at or before opening is read as past midnight, so only identical times are rejected
+export const isValidDayHours = (hours: DayHours) =>
+  timePattern.test(hours.open) && timePattern.test(hours.close) && hours.open !== hours.close;
+
+export const formatDayHours = (hours: DayHours | null | undefined) =>
+  hours ? `${hours.open}–${hours.close}` : 'Closed';
+
+// Intl.supportedValuesOf is ES2022, newer than the lib this project targets
+export const getTimezones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? [];
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+};
+
+export const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
@@ -0,0 +1,163 @@
+import { format, subMilliseconds } from 'date-fns';
+import { CategoryBreakdown } from '@/lib/feedbackCategories';
+import { getDateRangeBounds } from '@/lib/feedbackFilters';
+import { TrendRange } from '@/lib/feedbackTrends';
+import { CsatBreakdown, NpsBreakdown } from '@/lib/surveyMetrics';
+
+export interface Sentiment {
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+export interface AnalysisStats {
+  totalFeedback: number;
+  averageRating: number;
+  ratingDistribution: Record<string, number>;
+  pendingCount: number;
+  resolvedCount: number;
+  nps?: NpsBreakdown | null;
+  csat?: CsatBreakdown | null;
+  categoryBreakdown?: CategoryBreakdown[];
+}
+
+// Statistics cover every response in a period, but the model only reads the most recent ones
+export interface AnalysisSample {
+  promptRows: number;
+  totalRows: number;
+  sampled: boolean;
+}
+
+// ISO instants; the end is exclusive
+export interface AnalysisPeriod {
+  start: string;
+  end: string;
+}
+
+export interface CategoryDelta {
+  id: string | null;
+  name: string;
+  color: string;
+  count: number;
+  countDelta: number;
+  averageRatingDelta: number | null;
+}
+
+// Current period minus previous period; null where either side has no data
+export interface AnalysisDeltas {
+  totalFeedback: number;
+  averageRating: number | null;
+  ratingDistribution: Record<string, number>;
+  nps: number | null;
+  csat: number | null;
+  sentiment: Sentiment | null;
+  categories: CategoryDelta[];
+}
+
+export interface AnalysisComparison {
+  previousPeriod: AnalysisPeriod;
+  previousStats: AnalysisStats;
+  previousSample?: AnalysisSample;
+  previousSentiment: Sentiment;
+  summary: string | null;
+  deltas: AnalysisDeltas;
+  topics: {
+    emerging: string[];
+    fading: string[];
+    persisting: string[];
+  };
+}
+
+export interface AnalysisInsights {
+  sentiment?: Sentiment;
+  trends?: string[];
+  recommendations?: string[];
+  summary?: string;
+  keyTopics?: string[];
+  priorityActions?: string[];
+  impactAreas?: string[];
+  ratingDistribution?: {
+    1: number;
+    2: number;
+    3: number;
+    4: number;
+    5: number;
+  };
+  stats?: AnalysisStats;
+  sample?: AnalysisSample;
+  period?: AnalysisPeriod;
+  comparison?: AnalysisComparison;
+}
+
+// Normalised request parameters as stored with each saved analysis
+export interface AnalysisParameters {
+  startDate: string;
+  endDate: string;
+  branchIds: string[];
+  categoryIds: string[];
+  compare: boolean;
+}
+
+// Returned with every generated or cached result; null when the result couldn't be saved
+export interface AnalysisMeta {
+  id: string;
+  model: string;
+  createdAt: string;
+  cached: boolean;
+}
+
+export interface AnalysisRecord {
+  id: string;
+  analysis_type: string;
+  parameters: AnalysisParameters;
+  model: string;
+  feedback_count: number;
+  created_at: string;
+  created_by: string | null;
+  author: { display_name: string | null; email: string | null } | null;
+}
+
+// What to analyse: local calendar days plus optional branch and category filters (empty means all)
+export interface AnalysisScope {
+  range: TrendRange;
+  branchIds: string[];
+  categoryIds: string[];
+  compare: boolean;
+}
+
+export const buildAnalysisRequest = (type: string, scope: AnalysisScope) => {
+  const { start, end } = getDateRangeBounds(scope.range.from, scope.range.to);
+
+  return {
+    type,
+    startDate: start,
+    endDate: end,
+    branchIds: scope.branchIds,
+    categoryIds: scope.categoryIds,
+    compare: scope.compare,
+  };
+};
+
+export const formatAnalysisPeriod = (period: AnalysisPeriod) =>
+  `${format(new Date(period.start), 'MMM d, yyyy')} – ${format(subMilliseconds(new Date(period.end), 1), 'MMM d, yyyy')}`;
+
+export const formatAnalysisScope = (parameters: AnalysisParameters) => {
+  const parts = [formatAnalysisPeriod({ start: parameters.startDate, end: parameters.endDate })];
+  if (parameters.branchIds.length > 0) {
+    parts.push(`${parameters.branchIds.length} branch${parameters.branchIds.length === 1 ? '' : 'es'}`);
+  }
+  if (parameters.categoryIds.length > 0) {
+    parts.push(`${parameters.categoryIds.length} categor${parameters.categoryIds.length === 1 ? 'y' : 'ies'}`);
+  }
+  if (parameters.compare) parts.push('vs previous period');
+  return parts.join(' · ');
+};
+
+export const formatDelta = (value: number | null, suffix = '') =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${value}${suffix}`;
+
+// Green for improvements, red for regressions; lower is better for e.g. negative sentiment
+export const getDeltaClass = (value: number | null, lowerIsBetter = false) => {
+  if (value === null || value === 0) return 'text-muted-foreground';
+  return (value > 0) !== lowerIsBetter ? 'text-green-600' : 'text-red-600';
+};
@@ -0,0 +1,24 @@
+// Changes understood by the bulk_update_feedback database function
+export interface BulkFeedbackChanges {
+  status?: string;
+  priority?: string;
+  assigned_to?: string | null;
+  category_id?: string;
+  add_tag?: string;
+  remove_tag?: string;
+  archived?: boolean;
+}
+
+export const normalizeTag = (tag: string) =>
+  tag.trim().toLowerCase().replace(/\s+/g, '-').slice(0, 40);
+
+export const describeBulkChanges = (changes: BulkFeedbackChanges) => {
+  if (changes.archived !== undefined) return changes.archived ? 'archived' : 'restored';
+  if (changes.status) return `marked ${changes.status.replace('_', ' ')}`;
+  if (changes.priority) return `set to ${changes.priority} priority`;
+  if (changes.assigned_to !== undefined) return changes.assigned_to ? 'assigned' : 'unassigned';
+  if (changes.category_id) return 'categorized';
+  if (changes.add_tag) return `tagged "${changes.add_tag}"`;
+  if (changes.remove_tag) return `untagged "${changes.remove_tag}"`;
+  return 'updated';
+};
@@ -0,0 +1,81 @@
+import {
+  AlertTriangle, Building, Clock, DollarSign, Lightbulb, LucideIcon,
+  MessageSquare, Package, Sparkles, Star, Tag, Users, Utensils
+} from 'lucide-react';
+
+export interface FeedbackCategory {
+  id: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  color: string | null;
+  is_active: boolean;
+  sort_order: number | null;
+}
+
+export interface CategoryBreakdown {
+  id: string | null;
+  name: string;
+  color: string;
+  count: number;
+  averageRating: number;
+}
+
+export const DEFAULT_CATEGORY_COLOR = '#6366f1';
+
+// Icons offered in the category editor; names are stored as plain text on the category
+export const categoryIcons: Record<string, LucideIcon> = {
+  MessageSquare,
+  Star,
+  Users,
+  Package,
+  Building,
+  AlertTriangle,
+  Lightbulb,
+  Utensils,
+  Clock,
+  DollarSign,
+  Sparkles,
+  Tag,
+};
+
+export const getCategoryIcon = (icon?: string | null): LucideIcon =>
+  (icon && categoryIcons[icon]) || Tag;
+
+export const getCategoryColor = (category?: Pick<FeedbackCategory, 'color'> | null) =>
+  category?.color || DEFAULT_CATEGORY_COLOR;
+
+// Feedback counts and average rating per category, largest first; uncategorized feedback is grouped last.
+// Takes pre-aggregated counts, e.g. get_feedback_summary rows.
+export const calculateCategoryBreakdown = (
+  stats: { category_id: string | null; total: number; rating_sum: number }[],
+  categories: Pick<FeedbackCategory, 'id' | 'name' | 'color'>[]
+): CategoryBreakdown[] => {
+  const groups = new Map<string | null, { count: number; ratingTotal: number }>();
+
+  stats.forEach((item) => {
+    if (item.total === 0) return;
+    const key = categories.some(c => c.id === item.category_id) ? item.category_id : null;
+    const group = groups.get(key) || { count: 0, ratingTotal: 0 };
+    group.count += item.total;
+    group.ratingTotal += item.rating_sum;
+    groups.set(key, group);
+  });
+
+  const breakdown = Array.from(groups.entries()).map(([id, group]) => {
+    const category = categories.find(c => c.id === id);
+    return {
+      id,
+      name: category?.name || 'Uncategorized',
+      color: category ? getCategoryColor(category) : '#94a3b8',
+      count: group.count,
+      averageRating: Math.round((group.ratingTotal / group.count) * 10) / 10,
+    };
+  });
+
+  return breakdown.sort((a, b) => {
+    if (a.id === null) return 1;
+    if (b.id === null) return -1;
+    return b.count - a.count;
+  });
+};
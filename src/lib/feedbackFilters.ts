@@ -0,0 +1,97 @@
+export interface FeedbackFilters {
+  q: string;
+  branch: string;
+  category: string;
+  status: string;
+  priority: string;
+  rating: string;
+  assignee: string;
+  tag: string;
+  from: string;
+  to: string;
+  page: number;
+}
+
+export const FEEDBACK_PAGE_SIZE = 20;
+
+export const defaultFeedbackFilters: FeedbackFilters = {
+  q: '',
+  branch: 'all',
+  category: 'all',
+  status: 'all',
+  priority: 'all',
+  rating: 'all',
+  assignee: 'all',
+  tag: '',
+  from: '',
+  to: '',
+  page: 1,
+};
+
+const filterKeys = Object.keys(defaultFeedbackFilters) as (keyof FeedbackFilters)[];
+
+export const parseFeedbackFilters = (params: URLSearchParams): FeedbackFilters => {
+  const page = Number(params.get('page'));
+
+  return {
+    q: params.get('q') || defaultFeedbackFilters.q,
+    branch: params.get('branch') || defaultFeedbackFilters.branch,
+    category: params.get('category') || defaultFeedbackFilters.category,
+    status: params.get('status') || defaultFeedbackFilters.status,
+    priority: params.get('priority') || defaultFeedbackFilters.priority,
+    rating: params.get('rating') || defaultFeedbackFilters.rating,
+    assignee: params.get('assignee') || defaultFeedbackFilters.assignee,
+    tag: params.get('tag') || defaultFeedbackFilters.tag,
+    from: params.get('from') || defaultFeedbackFilters.from,
+    to: params.get('to') || defaultFeedbackFilters.to,
+    page: Number.isInteger(page) && page > 0 ? page : defaultFeedbackFilters.page,
+  };
+};
+
+// Writes filters into existing params, leaving unrelated keys (e.g. the dashboard section) alone
+export const writeFeedbackFilters = (params: URLSearchParams, filters: FeedbackFilters) => {
+  const next = new URLSearchParams(params);
+
+  filterKeys.forEach((key) => {
+    const value = String(filters[key]);
+    if (value === String(defaultFeedbackFilters[key])) {
+      next.delete(key);
+    } else {
+      next.set(key, value);
+    }
+  });
+
+  return next;
+};
+
+export const clearFeedbackFilters = (params: URLSearchParams) => {
+  const next = new URLSearchParams(params);
+  filterKeys.forEach((key) => next.delete(key));
+  return next;
+};
+
+export const hasActiveFeedbackFilters = (filters: FeedbackFilters) =>
+  filterKeys.some((key) => key !== 'page' && filters[key] !== defaultFeedbackFilters[key]);
+
+// Turns free text into a prefix-matching tsquery ("cold piz" -> "cold:* & piz:*")
+export const toPrefixTsQuery = (text: string) =>
+  text
+    .split(/\s+/)
+    .map((word) => word.replace(/[&|!():*<>'"\\]/g, ''))
+    .filter(Boolean)
+    .map((word) => `${word}:*`)
+    .join(' & ');
+
+// Date inputs are local calendar days; convert them to an inclusive timestamp range
+export const getDateRangeBounds = (from: string, to: string) => {
+  const start = from ? new Date(`${from}T00:00:00`) : null;
+  const end = to ? new Date(`${to}T00:00:00`) : null;
+  if (end) {
+    end.setDate(end.getDate() + 1);
+  }
+
+  return {
+    start: start ? start.toISOString() : null,
+    end: end ? end.toISOString() : null,
+  };
+};
@@ -0,0 +1,83 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export type QuestionType =
+  | 'single_choice'
+  | 'multi_choice'
+  | 'yes_no'
+  | 'scale'
+  | 'short_text'
+  | 'date';
+
+export interface FeedbackQuestion {
+  id?: string;
+  branch_id: string;
+  question_text: string;
+  question_type: QuestionType;
+  options: string[];
+  is_required: boolean;
+  is_active: boolean;
+  sort_order: number;
+}
+
+export interface FeedbackAnswer {
+  id: string;
+  question_id: string | null;
+  question_text: string;
+  question_type: string;
+  answer: Json;
+  created_at: string;
+}
+
+export type AnswerValue = string | string[] | number | boolean | null;
+
+export const questionTypeLabels: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  multi_choice: 'Multiple choice',
+  yes_no: 'Yes / No',
+  scale: 'Scale (0–10)',
+  short_text: 'Short text',
+  date: 'Date',
+};
+
+export const hasOptions = (type: QuestionType) =>
+  type === 'single_choice' || type === 'multi_choice';
+
+export const isAnswerEmpty = (value: AnswerValue | undefined) => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim().length === 0;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+};
+
+// Converts a raw feedback_questions row into the typed shape used by the UI
+export const toFeedbackQuestion = (row: {
+  id: string;
+  branch_id: string;
+  question_text: string;
+  question_type: string;
+  options: Json;
+  is_required: boolean;
+  is_active: boolean;
+  sort_order: number;
+}): FeedbackQuestion => ({
+  ...row,
+  question_type: row.question_type as QuestionType,
+  options: Array.isArray(row.options) ? row.options.map(String) : [],
+});
+
+export const formatAnswer = (type: string, answer: Json): string => {
+  if (answer === null || answer === undefined) return '—';
+
+  switch (type) {
+    case 'multi_choice':
+      return Array.isArray(answer) ? answer.join(', ') : String(answer);
+    case 'yes_no':
+      return answer === true ? 'Yes' : answer === false ? 'No' : String(answer);
+    case 'scale':
+      return `${answer}/10`;
+    case 'date':
+      return typeof answer === 'string' ? new Date(answer).toLocaleDateString() : String(answer);
+    default:
+      return String(answer);
+  }
+};
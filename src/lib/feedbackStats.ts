@@ -0,0 +1,143 @@
+import { CsatBreakdown, NpsBreakdown } from '@/lib/surveyMetrics';
+
+// A row from get_feedback_summary: all-time counts and sums for one branch and category
+export interface FeedbackSummaryRow {
+  branch_id: string | null;
+  category_id: string | null;
+  total: number;
+  pending: number;
+  in_progress: number;
+  resolved: number;
+  rating_sum: number;
+  star_responses: number;
+  star_score_sum: number;
+  nps_responses: number;
+  nps_promoters: number;
+  nps_detractors: number;
+  csat_responses: number;
+  csat_satisfied: number;
+  this_week: number;
+  this_month: number;
+  this_month_rating_sum: number;
+  last_month: number;
+  last_month_rating_sum: number;
+}
+
+export type FeedbackSummaryTotals = Omit<FeedbackSummaryRow, 'branch_id' | 'category_id'>;
+
+// A row from get_feedback_daily_stats: counts for one branch on one local day (yyyy-MM-dd)
+export interface FeedbackDailyRow {
+  branch_id: string | null;
+  day: string;
+  total: number;
+  rating_sum: number;
+  pending: number;
+  in_progress: number;
+  resolved: number;
+  rating_1: number;
+  rating_2: number;
+  rating_3: number;
+  rating_4: number;
+  rating_5: number;
+  responded: number;
+  response_seconds: number;
+}
+
+export type FeedbackDailyTotals = Omit<FeedbackDailyRow, 'branch_id' | 'day'>;
+
+export type Trend = 'up' | 'down' | 'stable';
+
+const emptySummaryTotals: FeedbackSummaryTotals = {
+  total: 0,
+  pending: 0,
+  in_progress: 0,
+  resolved: 0,
+  rating_sum: 0,
+  star_responses: 0,
+  star_score_sum: 0,
+  nps_responses: 0,
+  nps_promoters: 0,
+  nps_detractors: 0,
+  csat_responses: 0,
+  csat_satisfied: 0,
+  this_week: 0,
+  this_month: 0,
+  this_month_rating_sum: 0,
+  last_month: 0,
+  last_month_rating_sum: 0,
+};
+
+const emptyDailyTotals: FeedbackDailyTotals = {
+  total: 0,
+  rating_sum: 0,
+  pending: 0,
+  in_progress: 0,
+  resolved: 0,
+  rating_1: 0,
+  rating_2: 0,
+  rating_3: 0,
+  rating_4: 0,
+  rating_5: 0,
+  responded: 0,
+  response_seconds: 0,
+};
+
+const addRows = <T extends Record<string, number>>(empty: T, rows: T[]): T =>
+  rows.reduce<T>((totals, row) => {
+    const next = { ...totals };
+    (Object.keys(empty) as (keyof T)[]).forEach((key) => {
+      next[key] = (totals[key] + row[key]) as T[keyof T];
+    });
+    return next;
+  }, { ...empty });
+
+export const sumSummaryRows = (rows: FeedbackSummaryRow[]) => addRows(emptySummaryTotals, rows);
+
+export const sumDailyRows = (rows: FeedbackDailyRow[]) => addRows(emptyDailyTotals, rows);
+
+// Rounded to one decimal like the rest of the dashboard, or null without data
+export const averageOf = (sum: number, count: number) =>
+  count > 0 ? Math.round((sum / count) * 10) / 10 : null;
+
+export const compareTrend = (current: number, previous: number): Trend =>
+  current > previous ? 'up' : current < previous ? 'down' : 'stable';
+
+export const getSummaryNps = (totals: FeedbackSummaryTotals): NpsBreakdown | null => {
+  if (totals.nps_responses === 0) return null;
+
+  return {
+    score: Math.round(((totals.nps_promoters - totals.nps_detractors) / totals.nps_responses) * 100),
+    promoters: totals.nps_promoters,
+    passives: totals.nps_responses - totals.nps_promoters - totals.nps_detractors,
+    detractors: totals.nps_detractors,
+    responses: totals.nps_responses,
+  };
+};
+
+export const getSummaryCsat = (totals: FeedbackSummaryTotals): CsatBreakdown | null => {
+  if (totals.csat_responses === 0) return null;
+
+  return {
+    score: Math.round((totals.csat_satisfied / totals.csat_responses) * 100),
+    satisfied: totals.csat_satisfied,
+    responses: totals.csat_responses,
+  };
+};
+
+// Month-on-month volume and average rating, as shown on branch and region roll-ups
+export const getMonthTrends = (totals: FeedbackSummaryTotals) => ({
+  responsesTrend: compareTrend(totals.this_month, totals.last_month),
+  satisfactionTrend: compareTrend(
+    averageOf(totals.this_month_rating_sum, totals.this_month) ?? 0,
+    averageOf(totals.last_month_rating_sum, totals.last_month) ?? 0
+  ),
+});
+
+export const groupRowsBy = <T, K>(rows: T[], getKey: (row: T) => K) => {
+  const groups = new Map<K, T[]>();
+  rows.forEach((row) => {
+    const key = getKey(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+  return groups;
+};
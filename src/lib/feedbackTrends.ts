@@ -0,0 +1,131 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  format,
+  max,
+  min,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+import { FeedbackDailyRow, averageOf, groupRowsBy, sumDailyRows } from '@/lib/feedbackStats';
+
+export type TrendRangePreset = '7d' | '30d' | '90d' | 'custom';
+export type TrendGranularity = 'day' | 'week';
+export type TrendStatus = 'pending' | 'in_progress' | 'resolved';
+
+// Local calendar days in the same yyyy-MM-dd form as the inbox's from/to filters, both inclusive
+export interface TrendRange {
+  from: string;
+  to: string;
+}
+
+export type TrendBucket = {
+  key: string;
+  label: string;
+  from: string;
+  to: string;
+  volume: number;
+  averageRating: number | null;
+} & Record<TrendStatus, number>;
+
+export interface RatingBucket {
+  rating: number;
+  label: string;
+  count: number;
+}
+
+export const trendRangePresets: TrendRangePreset[] = ['7d', '30d', '90d', 'custom'];
+
+export const trendRangePresetLabels: Record<TrendRangePreset, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  custom: 'Custom range',
+};
+
+const presetDays: Record<Exclude<TrendRangePreset, 'custom'>, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+// Keeps daily charts readable and the feedback query bounded
+export const maxTrendDays = 366;
+
+export const trendStatuses: TrendStatus[] = ['pending', 'in_progress', 'resolved'];
+
+export const trendStatusLabels: Record<TrendStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In progress',
+  resolved: 'Resolved',
+};
+
+export const trendStatusColors: Record<TrendStatus, string> = {
+  pending: '#f97316',
+  in_progress: '#3b82f6',
+  resolved: '#22c55e',
+};
+
+export const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`);
+
+export const getPresetRange = (preset: Exclude<TrendRangePreset, 'custom'>, now = new Date()): TrendRange => ({
+  from: toDateInput(subDays(now, presetDays[preset] - 1)),
+  to: toDateInput(now),
+});
+
+export const getRangeDays = (range: TrendRange) =>
+  differenceInCalendarDays(fromDateInput(range.to), fromDateInput(range.from)) + 1;
+
+export const isValidTrendRange = (range: TrendRange) =>
+  !!range.from && !!range.to && getRangeDays(range) >= 1 && getRangeDays(range) <= maxTrendDays;
+
+// Daily buckets, or Monday-based weeks clipped to the range so drill-downs match what was plotted
+export const buildTrendBuckets = (
+  range: TrendRange,
+  granularity: TrendGranularity,
+  rows: FeedbackDailyRow[]
+): TrendBucket[] => {
+  const start = fromDateInput(range.from);
+  const end = fromDateInput(range.to);
+  const starts = granularity === 'day'
+    ? eachDayOfInterval({ start, end })
+    : eachWeekOfInterval({ start, end }, { weekStartsOn: 1 }).map((weekStart) => max([weekStart, start]));
+
+  // Rows are already per local day; weeks add up the days they cover
+  const grouped = groupRowsBy(rows, (row) =>
+    granularity === 'day' ? row.day : toDateInput(max([startOfWeek(fromDateInput(row.day), { weekStartsOn: 1 }), start]))
+  );
+
+  return starts.map((bucketStart) => {
+    const bucketEnd = granularity === 'day'
+      ? bucketStart
+      : min([addDays(startOfWeek(bucketStart, { weekStartsOn: 1 }), 6), end]);
+    const key = toDateInput(bucketStart);
+    const totals = sumDailyRows(grouped.get(key) || []);
+
+    return {
+      key,
+      label: granularity === 'day' || bucketEnd.getTime() === bucketStart.getTime()
+        ? format(bucketStart, 'MMM d')
+        : `${format(bucketStart, 'MMM d')}–${format(bucketEnd, 'MMM d')}`,
+      from: key,
+      to: toDateInput(bucketEnd),
+      volume: totals.total,
+      averageRating: averageOf(totals.rating_sum, totals.total),
+      pending: totals.pending,
+      in_progress: totals.in_progress,
+      resolved: totals.resolved,
+    };
+  });
+};
+
+export const buildRatingDistribution = (rows: FeedbackDailyRow[]): RatingBucket[] => {
+  const totals = sumDailyRows(rows);
+  const counts = [totals.rating_1, totals.rating_2, totals.rating_3, totals.rating_4, totals.rating_5];
+
+  return counts.map((count, index) => ({
+    rating: index + 1,
+    label: `${index + 1}★`,
+    count,
+  }));
+};
@@ -0,0 +1,75 @@
+export type Role = 'owner' | 'admin' | 'regional_manager' | 'branch_manager' | 'staff' | 'analyst';
+
+// Capability keys; the grants for each role live in the role_permissions table and back the RLS policies
+export type Permission =
+  | 'organization.manage'
+  | 'members.manage'
+  | 'branches.manage'
+  | 'categories.manage'
+  | 'forms.manage'
+  | 'routing.manage'
+  | 'qr_codes.manage'
+  | 'teams.manage'
+  | 'feedback.view'
+  | 'feedback.respond'
+  | 'feedback.manage'
+  | 'tasks.create'
+  | 'analytics.view';
+
+export const roles: Role[] = ['owner', 'admin', 'regional_manager', 'branch_manager', 'staff', 'analyst'];
+
+export const roleLabels: Record<Role, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  regional_manager: 'Regional Manager',
+  branch_manager: 'Branch Manager',
+  staff: 'Staff',
+  analyst: 'Analyst',
+};
+
+export const roleDescriptions: Record<Role, string> = {
+  owner: 'Full control, including the organization itself and other owners',
+  admin: 'Manages members, branches, categories and everything below',
+  regional_manager: 'Runs a region or several branches: feedback, forms, routing, QR codes and teams',
+  branch_manager: 'Runs a single branch: feedback, forms, routing, QR codes and teams',
+  staff: 'Handles and responds to feedback for their branch',
+  analyst: 'Read-only access to feedback and analytics across the organization',
+};
+
+// These roles see every branch; the rest only the branches they are assigned to
+export const organizationWideRoles: Role[] = ['owner', 'admin', 'analyst'];
+
+// Roles scoped to several branches rather than one
+export const multiBranchRoles: Role[] = ['regional_manager'];
+
+export const permissionLabels: Record<Permission, string> = {
+  'organization.manage': 'Manage organization',
+  'members.manage': 'Manage members and roles',
+  'branches.manage': 'Manage branches',
+  'categories.manage': 'Manage categories',
+  'forms.manage': 'Edit feedback forms',
+  'routing.manage': 'Edit routing rules',
+  'qr_codes.manage': 'Manage QR codes',
+  'teams.manage': 'Manage teams',
+  'feedback.view': 'View feedback',
+  'feedback.respond': 'Respond to and claim feedback',
+  'feedback.manage': 'Triage and assign feedback',
+  'tasks.create': 'Create tasks',
+  'analytics.view': 'View analytics',
+};
+
+export const getRoleLabel = (role?: string | null) =>
+  (role && roleLabels[role as Role]) || role || 'No role';
+
+// Dashboard sections that need a capability; sections not listed are open to every member
+export const sectionPermissions: Record<string, Permission> = {
+  'qr-codes': 'qr_codes.manage',
+  feedback: 'feedback.view',
+  'my-queue': 'feedback.respond',
+  analytics: 'analytics.view',
+  'form-settings': 'forms.manage',
+  categories: 'categories.manage',
+  branches: 'analytics.view',
+  'branch-comparison': 'analytics.view',
+  organization: 'organization.manage',
+};
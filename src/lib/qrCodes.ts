@@ -0,0 +1,95 @@
+import QRCode from 'qrcode';
+
+export interface QRCodeStats {
+  scans: number;
+  submissions: number;
+  last_scanned_at: string | null;
+}
+
+export type QRCodeStatus = 'active' | 'scheduled' | 'expired' | 'inactive';
+
+export const qrCodeStatuses: QRCodeStatus[] = ['active', 'scheduled', 'expired', 'inactive'];
+
+export const qrCodeStatusLabels: Record<QRCodeStatus, string> = {
+  active: 'Active',
+  scheduled: 'Scheduled',
+  expired: 'Expired',
+  inactive: 'Deactivated',
+};
+
+interface QRCodeSchedule {
+  is_active: boolean;
+  starts_at?: string | null;
+  ends_at?: string | null;
+}
+
+// Mirrors get_qr_code_status, which decides what a scan shows
+export const getQrCodeStatus = (qrCode: QRCodeSchedule, now = new Date()): QRCodeStatus => {
+  if (!qrCode.is_active) return 'inactive';
+  if (qrCode.starts_at && new Date(qrCode.starts_at) > now) return 'scheduled';
+  if (qrCode.ends_at && new Date(qrCode.ends_at) <= now) return 'expired';
+  return 'active';
+};
+
+// <input type="datetime-local"> works in local time without a zone
+export const toDateTimeInput = (value?: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const slugAlphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+// Lowercase so slugs survive being typed in from a printed card; must match qr_codes_slug_format
+export const generateQrSlug = (length = 10) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (byte) => slugAlphabet[byte % slugAlphabet.length]).join('');
+};
+
+export const maxBulkQrCodes = 200;
+
+// Same rendering for single and bulk codes, so a reprint looks like the original
+export const renderQrDataUrl = (url: string, width = 200) =>
+  QRCode.toDataURL(url, {
+    width,
+    margin: 2,
+    color: {
+      dark: '#000000',
+      light: '#FFFFFF'
+    }
+  });
+
+// "Table {n}" over 1..12 gives "Table 1" ... "Table 12"; without {n} the number is appended
+export const expandNamePattern = (pattern: string, from: number, to: number) => {
+  const template = pattern.includes('{n}') ? pattern : `${pattern.trim()} {n}`;
+  const labels: string[] = [];
+  for (let n = from; n <= to; n++) {
+    labels.push(template.split('{n}').join(String(n)).trim());
+  }
+  return labels;
+};
+
+// One label per line; blank lines and repeats are dropped
+export const parseLocationList = (text: string) =>
+  Array.from(new Set(text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean)));
+
+// What gets encoded in the printed code; the destination is looked up at scan time
+export const getQrShortUrl = (slug: string) => `${window.location.origin}/q/${slug}`;
+
+export const getQrFeedbackPath = (branchId: string, qrCodeId: string, categoryId?: string | null) => {
+  const params = new URLSearchParams({ branch: branchId, qr: qrCodeId });
+  if (categoryId) params.set('category', categoryId);
+  return `/feedback?${params.toString()}`;
+};
+
+// Set when the visitor arrived through a /q/:slug short link. A malformed id would fail
+// the whole insert, so anything that isn't a uuid is dropped; the database checks the rest.
+export const getQrCodeIdParam = (searchParams: URLSearchParams) => {
+  const qrCodeId = searchParams.get('qr');
+  return qrCodeId && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(qrCodeId) ? qrCodeId : null;
+};
+
+export const getConversionRate = (stats?: QRCodeStats) =>
+  stats && stats.scans > 0 ? Math.round((stats.submissions / stats.scans) * 100) : null;
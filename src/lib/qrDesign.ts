@@ -0,0 +1,328 @@
+import QRCode from 'qrcode';
+
+export interface QRDesign {
+  foreground: string;
+  background: string;
+  showLogo: boolean;
+  caption: string;
+}
+
+// A logo flattened onto the design's background, ready to embed
+export interface QRLogo {
+  dataUrl: string;
+  jpegBytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export type QRExportFormat = 'svg' | 'png' | 'pdf';
+
+export const defaultQrDesign: QRDesign = {
+  foreground: '#000000',
+  background: '#ffffff',
+  showLogo: true,
+  caption: 'Scan to share your feedback',
+};
+
+export const maxCaptionLength = 40;
+
+const quietZone = 4;
+// Share of the symbol covered by the logo; H error correction tolerates about 30% damage
+const logoScale = 0.22;
+const pngWidth = 2048;
+// Printed width of the PDF artwork, in points (100mm)
+const pdfWidth = 283.46;
+
+interface QRGeometry {
+  isDark: (row: number, col: number) => boolean;
+  size: number;
+  width: number;
+  height: number;
+  captionHeight: number;
+  logoBox: { x: number; y: number; size: number } | null;
+}
+
+// Everything is laid out in module units; each renderer only scales it
+const getGeometry = (url: string, design: QRDesign, logo: QRLogo | null): QRGeometry => {
+  const qr = QRCode.create(url, { errorCorrectionLevel: logo ? 'H' : 'M' });
+  const size = qr.modules.size;
+  const width = size + quietZone * 2;
+  const captionHeight = design.caption.trim() ? Math.round(width * 0.2) : 0;
+
+  let logoBox: QRGeometry['logoBox'] = null;
+  if (logo) {
+    // Odd size keeps the box centred on the module grid
+    const boxSize = Math.ceil(size * logoScale) | 1;
+    const offset = quietZone + (size - boxSize) / 2;
+    logoBox = { x: offset, y: offset, size: boxSize };
+  }
+
+  return {
+    isDark: (row, col) => qr.modules.get(row, col) === 1,
+    size,
+    width,
+    height: width + captionHeight,
+    captionHeight,
+    logoBox,
+  };
+};
+
+const forEachDarkModule = (geometry: QRGeometry, callback: (x: number, y: number) => void) => {
+  const { logoBox } = geometry;
+  for (let row = 0; row < geometry.size; row++) {
+    for (let col = 0; col < geometry.size; col++) {
+      const x = col + quietZone;
+      const y = row + quietZone;
+      const underLogo = logoBox
+        && x >= logoBox.x && x < logoBox.x + logoBox.size
+        && y >= logoBox.y && y < logoBox.y + logoBox.size;
+      if (geometry.isDark(row, col) && !underLogo) callback(x, y);
+    }
+  }
+};
+
+// The logo keeps its aspect ratio inside the cleared box, with a module of padding
+const getLogoRect = (geometry: QRGeometry, logo: QRLogo) => {
+  const box = geometry.logoBox!;
+  const inner = box.size - 2;
+  const ratio = logo.width / logo.height;
+  const width = ratio >= 1 ? inner : inner * ratio;
+  const height = ratio >= 1 ? inner / ratio : inner;
+  return {
+    x: box.x + (box.size - width) / 2,
+    y: box.y + (box.size - height) / 2,
+    width,
+    height,
+  };
+};
+
+// Scales the caption down for long text so it stays inside the frame
+const getCaptionFontSize = (geometry: QRGeometry, caption: string) =>
+  Math.min(geometry.captionHeight * 0.45, (geometry.width * 0.9) / (Math.max(caption.length, 1) * 0.58));
+
+const parseHexColor = (hex: string): [number, number, number] | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const value = match[1].length === 3 ? match[1].split('').map((c) => c + c).join('') : match[1];
+  return [0, 2, 4].map((i) => parseInt(value.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+const getLuminance = (hex: string) => {
+  const rgb = parseHexColor(hex);
+  if (!rgb) return null;
+  const [r, g, b] = rgb.map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// Scanners expect dark modules on a light background with a clear difference between them
+export const isScannableDesign = (design: QRDesign) => {
+  const foreground = getLuminance(design.foreground);
+  const background = getLuminance(design.background);
+  if (foreground === null || background === null) return false;
+  return foreground < background && (background + 0.05) / (foreground + 0.05) >= 3;
+};
+
+export const isValidHexColor = (value: string) => parseHexColor(value) !== null;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const buildQrSvg = (url: string, design: QRDesign, logo: QRLogo | null) => {
+  const geometry = getGeometry(url, design, logo);
+  const { width, height, captionHeight } = geometry;
+  const caption = design.caption.trim();
+
+  let modules = '';
+  forEachDarkModule(geometry, (x, y) => {
+    modules += `M${x} ${y}h1v1h-1z`;
+  });
+
+  let logoMarkup = '';
+  if (logo && geometry.logoBox) {
+    const rect = getLogoRect(geometry, logo);
+    logoMarkup = `<image href="${logo.dataUrl}" x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" preserveAspectRatio="xMidYMid meet"/>`;
+  }
+
+  let captionMarkup = '';
+  if (caption) {
+    const fontSize = getCaptionFontSize(geometry, caption);
+    captionMarkup = `<rect x="0" y="${width}" width="${width}" height="${captionHeight}" fill="${design.foreground}"/>`
+      + `<text x="${width / 2}" y="${width + captionHeight / 2}" fill="${design.background}" font-family="Helvetica, Arial, sans-serif" font-weight="bold" font-size="${fontSize}" text-anchor="middle" dominant-baseline="central">${escapeXml(caption)}</text>`;
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width * 10}" height="${height * 10}">`
+    + `<rect width="${width}" height="${height}" fill="${design.background}"/>`
+    + `<path d="${modules}" fill="${design.foreground}" shape-rendering="crispEdges"/>`
+    + logoMarkup
+    + captionMarkup
+    + '</svg>';
+};
+
+export const svgToDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render image'))), type, quality);
+  });
+
+export const renderQrPng = async (url: string, design: QRDesign, logo: QRLogo | null) => {
+  const svg = buildQrSvg(url, design, logo);
+  const image = await loadImage(svgToDataUrl(svg));
+  const canvas = document.createElement('canvas');
+  canvas.width = pngWidth;
+  canvas.height = Math.round(pngWidth * (image.height / image.width));
+  const context = canvas.getContext('2d')!;
+  context.imageSmoothingEnabled = false;
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas, 'image/png');
+};
+
+// Logos usually live on another host; fetching them (rather than pointing at the URL)
+// keeps exported files self-contained. Returns null when the host blocks it.
+export const fetchQrLogoImage = async (logoUrl: string) => {
+  let objectUrl: string | null = null;
+  try {
+    const response = await fetch(logoUrl);
+    if (!response.ok) return null;
+    objectUrl = URL.createObjectURL(await response.blob());
+    return await loadImage(objectUrl);
+  } catch (error) {
+    console.error('Error loading QR logo:', error);
+    return null;
+  } finally {
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+  }
+};
+
+// JPEG (used by the PDF) has no transparency, so the logo is flattened onto the code's background
+export const flattenQrLogo = async (image: HTMLImageElement, background: string): Promise<QRLogo> => {
+  const scale = Math.min(1, 512 / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = background;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const jpegBlob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+  return {
+    dataUrl: canvas.toDataURL('image/png'),
+    jpegBytes: new Uint8Array(await jpegBlob.arrayBuffer()),
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
+
+const pdfNumber = (value: number) => Number(value.toFixed(3)).toString();
+
+const pdfColor = (hex: string) =>
+  (parseHexColor(hex) ?? [0, 0, 0]).map((channel) => pdfNumber(channel / 255)).join(' ');
+
+// The built-in PDF fonts only cover Latin-1; anything else prints as "?"
+const latin1Bytes = (value: string) =>
+  Uint8Array.from(value, (char) => (char.charCodeAt(0) < 256 ? char.charCodeAt(0) : 63));
+
+const escapePdfText = (value: string) => value.replace(/([\\()])/g, '\\$1');
+
+// A single-page vector PDF: modules are filled rectangles, so print shops can scale it freely
+export const buildQrPdf = (url: string, design: QRDesign, logo: QRLogo | null) => {
+  const geometry = getGeometry(url, design, logo);
+  const scale = pdfWidth / geometry.width;
+  const pageHeight = geometry.height * scale;
+  const caption = design.caption.trim();
+
+  // PDF's origin is bottom-left; flip once so module coordinates match the SVG
+  let content = `${pdfColor(design.background)} rg 0 0 ${pdfNumber(pdfWidth)} ${pdfNumber(pageHeight)} re f\n`;
+  content += `q ${pdfNumber(scale)} 0 0 ${pdfNumber(-scale)} 0 ${pdfNumber(pageHeight)} cm ${pdfColor(design.foreground)} rg\n`;
+  forEachDarkModule(geometry, (x, y) => {
+    content += `${x} ${y} 1 1 re\n`;
+  });
+  content += 'f Q\n';
+
+  if (logo && geometry.logoBox) {
+    const rect = getLogoRect(geometry, logo);
+    const bottom = pageHeight - (rect.y + rect.height) * scale;
+    content += `q ${pdfNumber(rect.width * scale)} 0 0 ${pdfNumber(rect.height * scale)} ${pdfNumber(rect.x * scale)} ${pdfNumber(bottom)} cm /Logo Do Q\n`;
+  }
+
+  if (caption) {
+    const captionHeight = geometry.captionHeight * scale;
+    const fontSize = getCaptionFontSize(geometry, caption) * scale;
+    // Helvetica Bold averages a little over half an em per character
+    const textWidth = caption.length * fontSize * 0.58;
+    content += `${pdfColor(design.foreground)} rg 0 0 ${pdfNumber(pdfWidth)} ${pdfNumber(captionHeight)} re f\n`;
+    content += `BT /F1 ${pdfNumber(fontSize)} Tf ${pdfColor(design.background)} rg `
+      + `${pdfNumber((pdfWidth - textWidth) / 2)} ${pdfNumber((captionHeight - fontSize * 0.7) / 2)} Td `
+      + `(${escapePdfText(caption)}) Tj ET\n`;
+  }
+
+  const contentBytes = latin1Bytes(content);
+  const xObjects = logo ? '/XObject << /Logo 6 0 R >>' : '';
+  const objects: Array<Array<string | Uint8Array>> = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pdfNumber(pdfWidth)} ${pdfNumber(pageHeight)}] `
+      + `/Resources << /Font << /F1 5 0 R >> ${xObjects} >> /Contents 4 0 R >>`],
+    [`<< /Length ${contentBytes.length} >>\nstream\n`, contentBytes, '\nendstream'],
+    ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'],
+  ];
+  if (logo) {
+    objects.push([
+      `<< /Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} `
+        + `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${logo.jpegBytes.length} >>\nstream\n`,
+      logo.jpegBytes,
+      '\nendstream',
+    ]);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? latin1Bytes(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  write('%PDF-1.4\n');
+  const offsets = objects.map((parts, index) => {
+    const offset = length;
+    write(`${index + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+    return offset;
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
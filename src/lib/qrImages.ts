@@ -0,0 +1,60 @@
+import { supabase } from '@/integrations/supabase/client';
+import { renderQrDataUrl } from '@/lib/qrCodes';
+
+export const qrImageBucket = 'qr-codes';
+
+// The columns needed to find, render or store a code's image
+export interface StoredQRCode {
+  id: string;
+  organization_id: string;
+  feedback_url: string;
+  image_path: string | null;
+}
+
+export const getQrImagePath = (qrCode: Pick<StoredQRCode, 'id' | 'organization_id'>) =>
+  `${qrCode.organization_id}/${qrCode.id}.png`;
+
+export const getQrImageUrl = (imagePath: string) =>
+  supabase.storage.from(qrImageBucket).getPublicUrl(imagePath).data.publicUrl;
+
+// Stored image when there is one; otherwise rendered from the URL the code encodes
+export const getQrImageSrc = async (qrCode: StoredQRCode) =>
+  qrCode.image_path ? getQrImageUrl(qrCode.image_path) : renderQrDataUrl(qrCode.feedback_url);
+
+export const uploadQrImage = async (qrCode: StoredQRCode, dataUrl?: string) => {
+  const imagePath = getQrImagePath(qrCode);
+  const image = await (await fetch(dataUrl || await renderQrDataUrl(qrCode.feedback_url))).blob();
+
+  const { error: uploadError } = await supabase.storage
+    .from(qrImageBucket)
+    .upload(imagePath, image, { contentType: 'image/png', upsert: true });
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase
+    .from('qr_codes')
+    .update({ image_path: imagePath })
+    .eq('id', qrCode.id);
+  if (error) throw error;
+
+  return imagePath;
+};
+
+// Codes from before images moved to storage (or whose upload failed) get theirs rendered
+// and stored now. One at a time to keep large batches gentle; failures are left for next time.
+export const backfillQrImages = async <T extends StoredQRCode>(qrCodes: T[]) => {
+  const updated: T[] = [];
+  for (const qrCode of qrCodes) {
+    if (qrCode.image_path) {
+      updated.push(qrCode);
+      continue;
+    }
+
+    try {
+      updated.push({ ...qrCode, image_path: await uploadQrImage(qrCode) });
+    } catch (error) {
+      console.error('Error storing QR image:', error);
+      updated.push(qrCode);
+    }
+  }
+  return updated;
+};
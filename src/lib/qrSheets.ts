@@ -0,0 +1,100 @@
+export type QRSheetLayout = 'a4-grid' | 'stickers' | 'table-tents';
+
+export interface QRSheetItem {
+  label: string;
+  imageUrl: string;
+}
+
+export const qrSheetLayouts: QRSheetLayout[] = ['a4-grid', 'stickers', 'table-tents'];
+
+export const qrSheetLayoutLabels: Record<QRSheetLayout, string> = {
+  'a4-grid': 'A4 grid (12 per page)',
+  stickers: 'Stickers (24 per page)',
+  'table-tents': 'Table tents (1 per page, fold in half)',
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Page geometry is in mm so the sheet prints at true size on A4
+const layoutStyles: Record<QRSheetLayout, string> = {
+  'a4-grid': `
+    .sheet { display: grid; grid-template-columns: repeat(3, 1fr); grid-auto-rows: 66mm; gap: 4mm; }
+    .card { border: 1px dashed #bbb; }
+    .card img { width: 44mm; height: 44mm; }
+  `,
+  stickers: `
+    .sheet { display: grid; grid-template-columns: repeat(4, 1fr); grid-auto-rows: 44mm; gap: 3mm; }
+    .card { border: 1px dashed #ddd; border-radius: 3mm; }
+    .card img { width: 30mm; height: 30mm; }
+    .card .cta { display: none; }
+    .card .label { font-size: 9pt; }
+  `,
+  'table-tents': `
+    .card { height: 271mm; page-break-after: always; }
+    .card:last-child { page-break-after: auto; }
+    .panel { height: 50%; display: flex; flex-direction: column; align-items: center; justify-content: center; }
+    .panel + .panel { border-top: 1px dashed #bbb; }
+    .panel.flipped { transform: rotate(180deg); }
+    .card img { width: 80mm; height: 80mm; }
+    .card .label { font-size: 20pt; }
+    .card .cta { font-size: 14pt; }
+  `,
+};
+
+const renderCard = (layout: QRSheetLayout, item: QRSheetItem, callToAction: string) => {
+  const content = `
+    <img src="${item.imageUrl}" alt="" />
+    <div class="label">${escapeHtml(item.label)}</div>
+    <div class="cta">${escapeHtml(callToAction)}</div>
+  `;
+
+  // A tent shows the same code on both faces; the top face is upside down until folded
+  if (layout === 'table-tents') {
+    return `<div class="card"><div class="panel flipped">${content}</div><div class="panel">${content}</div></div>`;
+  }
+
+  return `<div class="card">${content}</div>`;
+};
+
+export const buildQrSheetHtml = (
+  layout: QRSheetLayout,
+  items: QRSheetItem[],
+  title: string,
+  callToAction = 'Scan to share your feedback',
+) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    @page { size: A4; margin: 13mm; }
+    * { box-sizing: border-box; }
+    body { margin: 0; font-family: system-ui, sans-serif; color: #111; }
+    .card { display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; break-inside: avoid; padding: 2mm; }
+    .label { font-weight: 600; font-size: 12pt; margin-top: 2mm; }
+    .cta { color: #555; font-size: 9pt; margin-top: 1mm; }
+    ${layoutStyles[layout]}
+  </style>
+</head>
+<body>
+  <div class="sheet">${items.map((item) => renderCard(layout, item, callToAction)).join('')}</div>
+  <script>window.addEventListener('load', () => window.print());</script>
+</body>
+</html>`;
+
+// Opens the sheet in a new tab, which brings up the print dialog once the QR images have
+// loaded; "Save as PDF" there gives a PDF. Returns false if the browser blocked the new window.
+export const printQrSheet = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  return true;
+};
@@ -0,0 +1,92 @@
+import { FeedbackSummaryRow, Trend, averageOf, compareTrend, sumSummaryRows } from '@/lib/feedbackStats';
+
+export interface Region {
+  id: string;
+  name: string;
+  parent_id: string | null;
+}
+
+export interface RegionNode {
+  region: Region;
+  depth: number;
+}
+
+export interface RollupMetrics {
+  volume: number;
+  averageRating: number;
+  pending: number;
+  thisMonth: number;
+  lastMonth: number;
+  trend: Trend;
+}
+
+// Region filter values besides a region id
+export const ALL_REGIONS = 'all';
+export const NO_REGION = 'none';
+
+const getChildrenByParent = (regions: Region[]) => {
+  const ids = new Set(regions.map((region) => region.id));
+  const children = new Map<string | null, Region[]>();
+  regions.forEach((region) => {
+    // A parent outside the list (e.g. not visible) puts the region at the top level
+    const parentId = region.parent_id && ids.has(region.parent_id) ? region.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) || []), region]);
+  });
+  children.forEach((list) => list.sort((a, b) => a.name.localeCompare(b.name)));
+  return children;
+};
+
+// Depth-first order with each region's depth, for indented lists and selects
+export const flattenRegions = (regions: Region[], rootId: string | null = null): RegionNode[] => {
+  const children = getChildrenByParent(regions);
+  const visited = new Set<string>();
+  const nodes: RegionNode[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    (children.get(parentId) || []).forEach((region) => {
+      if (visited.has(region.id)) return;
+      visited.add(region.id);
+      nodes.push({ region, depth });
+      visit(region.id, depth + 1);
+    });
+  };
+
+  const root = rootId ? regions.find((region) => region.id === rootId) : null;
+  if (root) {
+    visited.add(root.id);
+    nodes.push({ region: root, depth: 0 });
+    visit(root.id, 1);
+  } else {
+    visit(null, 0);
+  }
+  return nodes;
+};
+
+// The region itself plus every region nested below it
+export const getDescendantRegionIds = (regions: Region[], regionId: string) =>
+  new Set(flattenRegions(regions, regionId).map((node) => node.region.id));
+
+export const filterBranchesByRegion = <T extends { region_id: string | null }>(
+  branches: T[],
+  regions: Region[],
+  regionFilter: string
+): T[] => {
+  if (regionFilter === ALL_REGIONS) return branches;
+  if (regionFilter === NO_REGION) return branches.filter((branch) => !branch.region_id);
+
+  const regionIds = getDescendantRegionIds(regions, regionFilter);
+  return branches.filter((branch) => !!branch.region_id && regionIds.has(branch.region_id));
+};
+
+export const calculateRollup = (rows: FeedbackSummaryRow[]): RollupMetrics => {
+  const totals = sumSummaryRows(rows);
+
+  return {
+    volume: totals.total,
+    averageRating: averageOf(totals.rating_sum, totals.total) ?? 0,
+    pending: totals.pending,
+    thisMonth: totals.this_month,
+    lastMonth: totals.last_month,
+    trend: compareTrend(totals.this_month, totals.last_month),
+  };
+};
@@ -0,0 +1,111 @@
+export type SurveyMode = 'stars' | 'nps' | 'csat';
+
+export const surveyModeLabels: Record<SurveyMode, string> = {
+  stars: 'Classic stars (1–5)',
+  nps: 'Net Promoter Score (0–10)',
+  csat: 'Customer Satisfaction (CSAT)',
+};
+
+export const csatLabels = [
+  'Very dissatisfied',
+  'Dissatisfied',
+  'Neutral',
+  'Satisfied',
+  'Very satisfied',
+];
+
+interface ScoredFeedback {
+  rating: number;
+  score?: number | null;
+  survey_mode?: string | null;
+}
+
+export interface NpsBreakdown {
+  score: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+  responses: number;
+}
+
+export interface CsatBreakdown {
+  score: number;
+  satisfied: number;
+  responses: number;
+}
+
+export const getSurveyMode = (feedback: ScoredFeedback): SurveyMode =>
+  (feedback.survey_mode as SurveyMode) || 'stars';
+
+// Raw score on the survey's own scale; legacy rows only carry a star rating
+export const getRawScore = (feedback: ScoredFeedback) => feedback.score ?? feedback.rating;
+
+// Maps a raw survey score onto the 1-5 rating column shared by every survey mode
+export const toRating = (mode: SurveyMode, score: number) => {
+  if (mode === 'nps') {
+    return Math.max(1, Math.ceil(score / 2));
+  }
+  return score;
+};
+
+// Whether a response counts as positive (used for the Google review redirect)
+export const isPositiveScore = (mode: SurveyMode, score: number) =>
+  mode === 'nps' ? score >= 9 : score >= 4;
+
+export const calculateNps = (feedback: ScoredFeedback[]): NpsBreakdown | null => {
+  const scores = feedback
+    .filter(f => getSurveyMode(f) === 'nps')
+    .map(getRawScore);
+  if (scores.length === 0) return null;
+
+  const promoters = scores.filter(s => s >= 9).length;
+  const detractors = scores.filter(s => s <= 6).length;
+  const passives = scores.length - promoters - detractors;
+
+  return {
+    score: Math.round(((promoters - detractors) / scores.length) * 100),
+    promoters,
+    passives,
+    detractors,
+    responses: scores.length,
+  };
+};
+
+export const calculateCsat = (feedback: ScoredFeedback[]): CsatBreakdown | null => {
+  const scores = feedback
+    .filter(f => getSurveyMode(f) === 'csat')
+    .map(getRawScore);
+  if (scores.length === 0) return null;
+
+  const satisfied = scores.filter(s => s >= 4).length;
+
+  return {
+    score: Math.round((satisfied / scores.length) * 100),
+    satisfied,
+    responses: scores.length,
+  };
+};
+
+export const calculateStarAverage = (feedback: ScoredFeedback[]) => {
+  const ratings = feedback
+    .filter(f => getSurveyMode(f) === 'stars')
+    .map(getRawScore);
+  if (ratings.length === 0) return 0;
+
+  const average = ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+  return Math.round(average * 10) / 10;
+};
+
+export const formatScore = (feedback: ScoredFeedback) => {
+  const mode = getSurveyMode(feedback);
+  const score = getRawScore(feedback);
+
+  switch (mode) {
+    case 'nps':
+      return `NPS ${score}/10`;
+    case 'csat':
+      return csatLabels[score - 1] || `${score}/5`;
+    default:
+      return `${score}/5`;
+  }
+};
@@ -0,0 +1,59 @@
+export type TaskStatus = 'todo' | 'in_progress' | 'done';
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface Task {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string;
+  team_id: string | null;
+  assigned_to: string | null;
+  assigned_by: string | null;
+  feedback_id: string | null;
+  due_date: string | null;
+  completed_at: string | null;
+  created_at: string;
+  assignee?: {
+    display_name: string | null;
+    email: string | null;
+  } | null;
+  feedback?: {
+    subject: string;
+    rating: number;
+  } | null;
+}
+
+export const taskStatuses: TaskStatus[] = ['todo', 'in_progress', 'done'];
+
+export const taskStatusLabels: Record<TaskStatus, string> = {
+  todo: 'To Do',
+  in_progress: 'In Progress',
+  done: 'Done',
+};
+
+export const taskPriorityLabels: Record<TaskPriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+export const taskPriorityClasses: Record<TaskPriority, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-orange-100 text-orange-800',
+  high: 'bg-red-100 text-red-800',
+  urgent: 'bg-red-600 text-white',
+};
+
+export const TASK_SELECT =
+  '*, assignee:profiles!tasks_assigned_to_fkey(display_name, email), feedback:feedback(subject, rating)';
+
+export const isTaskOverdue = (task: Pick<Task, 'due_date' | 'status'>) =>
+  !!task.due_date && task.status !== 'done' && new Date(task.due_date) < new Date();
+
+// Columns changed when a task moves between board columns
+export const getStatusChanges = (status: TaskStatus) => ({
+  status,
+  completed_at: status === 'done' ? new Date().toISOString() : null,
+});
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -17,12 +17,18 @@ const Auth = () => {
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const { signUp, signIn, signInWithGoogle, user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  // Only follow same-site paths, e.g. back to /invite/:token after signing in
+  const redirectParam = searchParams.get('redirect');
+  const redirectPath = redirectParam?.startsWith('/') && !redirectParam.startsWith('//') ? redirectParam : '/dashboard';
+  const invitedEmail = searchParams.get('email') || undefined;
 
   useEffect(() => {
     if (user) {
-      navigate('/dashboard');
+      navigate(redirectPath, { replace: true });
     }
-  }, [user, navigate]);
+  }, [user, navigate, redirectPath]);
 
   const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -42,7 +48,7 @@ const Auth = () => {
       return;
     }
 
-    const { error } = await signUp(email, password, displayName);
+    const { error } = await signUp(email, password, displayName, redirectPath);
     
     setIsLoading(false);
   };
@@ -62,7 +68,7 @@ const Auth = () => {
 
   const handleGoogleSignIn = async () => {
     setIsLoading(true);
-    const { error } = await signInWithGoogle();
+    const { error } = await signInWithGoogle(redirectPath);
     setIsLoading(false);
   };
 
@@ -80,7 +86,7 @@ const Auth = () => {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="signin" className="w-full">
+          <Tabs defaultValue={searchParams.get('tab') === 'signup' ? 'signup' : 'signin'} className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="signin">Sign In</TabsTrigger>
               <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -121,6 +127,7 @@ const Auth = () => {
                       id="signin-email"
                       name="email"
                       type="email"
+                      defaultValue={invitedEmail}
                       placeholder="Enter your email"
                       required
                     />
@@ -193,6 +200,7 @@ const Auth = () => {
                       id="signup-email"
                       name="email"
                       type="email"
+                      defaultValue={invitedEmail}
                       placeholder="Enter your email"
                       required
                     />
@@ -1,26 +1,36 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSubscription } from '@/contexts/SubscriptionContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useDashboardStats } from '@/hooks/useDashboardStats';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
-import { QrCode, MessageSquare, Users, TrendingUp, Settings, LogOut, Plus, Globe, Activity, CheckCircle, Clock } from 'lucide-react';
+import { QrCode, MessageSquare, Users, TrendingUp, Settings, LogOut, Plus, Globe, Activity, CheckCircle, Clock, ThumbsUp, Smile, Building2 } from 'lucide-react';
 import { DashboardSidebar } from '@/components/DashboardSidebar';
 import { QRCodeGenerator } from '@/components/QRCodeGenerator';
 import { FeedbackList } from '@/components/FeedbackList';
 import { IntelligentAnalytics } from '@/components/IntelligentAnalytics';
 import FeedbackFormSettings from '@/components/FeedbackFormSettings';
+import { FeedbackCategoryManager } from '@/components/FeedbackCategoryManager';
+import { TeamManagement } from '@/components/TeamManagement';
 import BranchManagement from '@/components/BranchManagement';
+import { BranchComparison } from '@/components/BranchComparison';
+import { DashboardTrends } from '@/components/DashboardTrends';
 import LanguageSelector from '@/components/LanguageSelector';
 import { useLanguageDetection } from '@/hooks/useLanguageDetection';
 import { useTranslation } from '@/hooks/useTranslation';
 import { Settings as SettingsComponent } from '@/components/Settings';
+import { OrganizationSettings } from '@/components/OrganizationSettings';
+import { OrganizationSwitcher } from '@/components/OrganizationSwitcher';
 import { PricingCard } from '@/components/PricingCard';
 import { useToast } from '@/hooks/use-toast';
+import { FeedbackFilters, defaultFeedbackFilters, writeFeedbackFilters } from '@/lib/feedbackFilters';
 
 interface DashboardStats {
   totalFeedback: number;
@@ -36,16 +46,32 @@ interface DashboardStats {
 const Dashboard = () => {
   const { user, signOut } = useAuth();
   const { subscriptionTier } = useSubscription();
+  const { currentOrganization } = useOrganization();
+  const { canViewSection } = usePermissions();
   const { toast } = useToast();
   const language = useLanguageDetection();
   const { translatePageContent, isTranslating } = useTranslation();
-  const { stats, loading: statsLoading, error: statsError, refetch } = useDashboardStats();
-  const [activeSection, setActiveSection] = useState('dashboard');
+  const { stats, loading: statsLoading, error: statsError, lastUpdated, refetch } = useDashboardStats();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeSection = searchParams.get('section') || 'dashboard';
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showTranslate, setShowTranslate] = useState(false);
   const [showPricingModal, setShowPricingModal] = useState(false);
   const [selectedLanguage, setSelectedLanguage] = useState<string>('en');
 
+  // The section lives in the URL so views (including inbox filters) can be bookmarked
+  const setActiveSection = (section: string) => {
+    setSearchParams(section === 'dashboard' ? {} : { section });
+  };
+
+  // Chart drill-downs open the inbox with just the clicked slice's filters
+  const openFilteredFeedback = (filters: Partial<FeedbackFilters>) => {
+    setSearchParams(writeFeedbackFilters(
+      new URLSearchParams({ section: 'feedback' }),
+      { ...defaultFeedbackFilters, ...filters }
+    ));
+  };
+
   const refreshFeedback = () => {
     setRefreshTrigger(prev => prev + 1);
     refetch();
@@ -77,7 +103,27 @@ const Dashboard = () => {
   }
 
   const renderContent = () => {
-    switch (activeSection) {
+    if (!currentOrganization) {
+      return (
+        <Card className="max-w-lg mx-auto text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4 w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+              <Building2 className="h-6 w-6 text-primary" />
+            </div>
+            <CardTitle>No organization selected</CardTitle>
+            <CardDescription>
+              Create an organization to start collecting feedback, or ask an admin to invite you to theirs.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex justify-center">
+            <OrganizationSwitcher />
+          </CardContent>
+        </Card>
+      );
+    }
+
+    // Sections the role can't use fall back to the overview, e.g. from an old bookmark
+    switch (canViewSection(activeSection) ? activeSection : 'dashboard') {
       case 'analytics':
         return <IntelligentAnalytics />;
       case 'qr-codes':
@@ -95,15 +141,33 @@ const Dashboard = () => {
           <div className="space-y-6">
             <div>
               <h2 className="text-2xl font-bold mb-2">Feedback Management</h2>
-              <p className="text-muted-foreground">View and manage customer feedback</p>
+              <p className="text-muted-foreground">Search, filter and manage customer feedback</p>
             </div>
-            <FeedbackList onFeedbackUpdate={refreshFeedback} />
+            <FeedbackList key="inbox" mode="inbox" onFeedbackUpdate={refreshFeedback} />
           </div>
         );
+      case 'my-queue':
+        return (
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-2xl font-bold mb-2">My Queue</h2>
+              <p className="text-muted-foreground">Open feedback assigned to you</p>
+            </div>
+            <FeedbackList key="mine" queue="mine" onFeedbackUpdate={refreshFeedback} />
+          </div>
+        );
+      case 'teams':
+        return <TeamManagement />;
       case 'branches':
         return <BranchManagement />;
+      case 'branch-comparison':
+        return <BranchComparison />;
       case 'form-settings':
         return <FeedbackFormSettings />;
+      case 'categories':
+        return <FeedbackCategoryManager />;
+      case 'organization':
+        return <OrganizationSettings />;
       case 'settings':
         return <SettingsComponent />;
       default:
@@ -148,7 +212,11 @@ const Dashboard = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">{statsLoading ? '...' : `${stats.activeQRCodes}/${stats.totalQRCodes}`}</div>
-                  <p className="text-xs text-muted-foreground">Active codes</p>
+                  <p className="text-xs text-muted-foreground">
+                    Active codes
+                    {!statsLoading && stats.scheduledQRCodes > 0 && ` · ${stats.scheduledQRCodes} scheduled`}
+                    {!statsLoading && stats.retiredQRCodes > 0 && ` · ${stats.retiredQRCodes} retired`}
+                  </p>
                 </CardContent>
               </Card>
             </div>
@@ -177,52 +245,101 @@ const Dashboard = () => {
               </Card>
             </div>
 
+            {/* Survey Metrics Row */}
+            {!statsLoading && (stats.nps || stats.csat) && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {stats.nps && (
+                  <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm font-medium">Net Promoter Score</CardTitle>
+                      <ThumbsUp className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent>
+                      <div className={`text-2xl font-bold ${stats.nps.score >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                        {stats.nps.score > 0 ? `+${stats.nps.score}` : stats.nps.score}
+                      </div>
+                      <div className="flex gap-4 text-xs text-muted-foreground mt-1">
+                        <span className="text-green-600">{stats.nps.promoters} promoters</span>
+                        <span>{stats.nps.passives} passives</span>
+                        <span className="text-red-600">{stats.nps.detractors} detractors</span>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+                {stats.csat && (
+                  <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm font-medium">CSAT</CardTitle>
+                      <Smile className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-2xl font-bold">{stats.csat.score}%</div>
+                      <p className="text-xs text-muted-foreground">
+                        {stats.csat.satisfied} of {stats.csat.responses} customers satisfied
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            )}
+
+            {canViewSection('feedback') && (
+              <DashboardTrends refreshTrigger={refreshTrigger} onDrillDown={openFilteredFeedback} />
+            )}
+
             {/* Real-time Status Indicator */}
             <div className="flex justify-between items-center">
               <div className="flex items-center gap-2">
                 <div className={`w-2 h-2 rounded-full ${statsLoading ? 'bg-yellow-500' : 'bg-green-500'}`}></div>
                 <span className="text-sm text-muted-foreground">
-                  {statsLoading ? 'Updating...' : 'Live data'} • Last updated: {new Date().toLocaleTimeString()}
+                  {statsLoading ? 'Updating...' : 'Live data'}
+                  {lastUpdated && ` • Last updated: ${lastUpdated.toLocaleTimeString()}`}
                 </span>
               </div>
-              <Button variant="outline" size="sm" onClick={() => refetch()}>
+              <Button variant="outline" size="sm" onClick={refreshFeedback}>
                 Refresh
               </Button>
             </div>
 
             {/* Quick Actions */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setActiveSection('qr-codes')}>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <QrCode className="h-5 w-5" />
-                    QR Codes
-                  </CardTitle>
-                  <CardDescription>Generate and manage QR codes</CardDescription>
-                </CardHeader>
-              </Card>
+              {canViewSection('qr-codes') && (
+                <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setActiveSection('qr-codes')}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <QrCode className="h-5 w-5" />
+                      QR Codes
+                    </CardTitle>
+                    <CardDescription>Generate and manage QR codes</CardDescription>
+                  </CardHeader>
+                </Card>
+              )}
               
-              <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setActiveSection('analytics')}>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <TrendingUp className="h-5 w-5" />
-                    AI Analytics
-                  </CardTitle>
-                  <CardDescription>Intelligent insights from feedback</CardDescription>
-                </CardHeader>
-              </Card>
+              {canViewSection('analytics') && (
+                <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setActiveSection('analytics')}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <TrendingUp className="h-5 w-5" />
+                      AI Analytics
+                    </CardTitle>
+                    <CardDescription>Intelligent insights from feedback</CardDescription>
+                  </CardHeader>
+                </Card>
+              )}
             </div>
 
             {/* Recent Feedback */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Recent Feedback</CardTitle>
-                <CardDescription>Latest customer feedback and reviews</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <FeedbackList onFeedbackUpdate={refreshFeedback} />
-              </CardContent>
-            </Card>
+            {canViewSection('feedback') && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Recent Feedback</CardTitle>
+                  <CardDescription>Latest customer feedback and reviews</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <FeedbackList onFeedbackUpdate={refreshFeedback} />
+                </CardContent>
+              </Card>
+            )}
           </div>
         );
     }
@@ -244,6 +361,7 @@ const Dashboard = () => {
             </div>
             
             <div className="flex items-center gap-4">
+              {currentOrganization && <OrganizationSwitcher />}
               <Button 
                 variant="ghost" 
                 size="sm" 
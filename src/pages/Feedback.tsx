@@ -8,16 +8,15 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { MessageSquare, Star, CheckCircle, Globe } from 'lucide-react';
+import { MessageSquare, Star, CheckCircle, Globe, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useLanguageDetection } from '@/hooks/useLanguageDetection';
 import GoogleTranslate from '@/components/GoogleTranslate';
-
-interface FeedbackCategory {
-  id: string;
-  name: string;
-  description?: string;
-}
+import { FeedbackQuestionField } from '@/components/FeedbackQuestionField';
+import { AnswerValue, FeedbackQuestion, isAnswerEmpty, toFeedbackQuestion } from '@/lib/feedbackQuestions';
+import { FeedbackCategory, getCategoryColor, getCategoryIcon } from '@/lib/feedbackCategories';
+import { SurveyMode, csatLabels, isPositiveScore, toRating } from '@/lib/surveyMetrics';
+import { getQrCodeIdParam } from '@/lib/qrCodes';
 
 interface FeedbackFormSettings {
   id?: string;
@@ -28,6 +27,15 @@ interface FeedbackFormSettings {
   primary_color: string;
   background_color: string;
   google_place_id?: string;
+  survey_mode?: string;
+  show_category_picker?: boolean;
+}
+
+// Shape returned by get_public_feedback_form; null for unknown branches
+interface PublicFeedbackForm {
+  settings: FeedbackFormSettings | null;
+  questions: Parameters<typeof toFeedbackQuestion>[0][];
+  categories: FeedbackCategory[];
 }
 
 const Feedback = () => {
@@ -35,10 +43,17 @@ const Feedback = () => {
   const { toast } = useToast();
   const language = useLanguageDetection();
   const [branchId, setBranchId] = useState<string>('');
-  const [rating, setRating] = useState<number>(0);
+  // Feedback always belongs to a branch's organization, so links without one are invalid
+  const [isInvalidLink, setIsInvalidLink] = useState(false);
+  // Raw score on the branch's survey scale (stars/CSAT 1-5, NPS 0-10)
+  const [rating, setRating] = useState<number | null>(null);
   const [hoveredRating, setHoveredRating] = useState<number>(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [questions, setQuestions] = useState<FeedbackQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({});
+  const [categories, setCategories] = useState<FeedbackCategory[]>([]);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
   const [formSettings, setFormSettings] = useState<FeedbackFormSettings>({
     welcome_title: 'Welcome! 🍽️',
     welcome_description: "We'd love to hear your feedback",
@@ -46,32 +61,49 @@ const Feedback = () => {
     background_color: '#ffffff'
   });
 
+  const surveyMode = (formSettings.survey_mode || 'stars') as SurveyMode;
+
   useEffect(() => {
     const branch = searchParams.get('branch');
     if (branch) {
       setBranchId(branch);
-      fetchFormSettings(branch);
+      fetchForm(branch);
+    } else {
+      setIsInvalidLink(true);
     }
   }, [searchParams]);
 
-  const fetchFormSettings = async (branchId: string) => {
+  // Loaded through one function so a signed-in visitor from another organization sees the same form
+  const fetchForm = async (branchId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('feedback_form_settings')
-        .select('*')
-        .eq('branch_id', branchId)
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        throw error;
+      const { data, error } = await supabase.rpc('get_public_feedback_form', { branch_uuid: branchId });
+
+      if (error) throw error;
+
+      // Unknown and deactivated branches have no form
+      const form = data as unknown as PublicFeedbackForm | null;
+      if (!form) {
+        setIsInvalidLink(true);
+        return;
+      }
+
+      if (form.settings) {
+        setFormSettings(form.settings);
       }
+      setQuestions(form.questions.map(toFeedbackQuestion));
 
-      if (data) {
-        setFormSettings(data);
+      if (form.settings?.show_category_picker) {
+        setCategories(form.categories);
+
+        // QR codes can point at a category; preselect it if it's still active
+        const presetCategory = searchParams.get('category');
+        if (presetCategory && form.categories.some((category) => category.id === presetCategory)) {
+          setCategoryId(presetCategory);
+        }
       }
     } catch (error) {
-      console.error('Error fetching form settings:', error);
-      // Keep default settings if fetch fails
+      console.error('Error fetching feedback form:', error);
+      // Keep the default rating-only form if the fetch fails
     }
   };
 
@@ -79,7 +111,7 @@ const Feedback = () => {
     e.preventDefault();
     setIsSubmitting(true);
 
-    if (rating === 0) {
+    if (rating === null) {
       toast({
         title: "Rating required",
         description: "Please select a rating before submitting",
@@ -89,25 +121,45 @@ const Feedback = () => {
       return;
     }
 
+    const missingQuestion = questions.find(q => q.is_required && isAnswerEmpty(answers[q.id as string]));
+    if (missingQuestion) {
+      toast({
+        title: "Answer required",
+        description: `Please answer: ${missingQuestion.question_text}`,
+        variant: "destructive",
+      });
+      setIsSubmitting(false);
+      return;
+    }
+
     try {
       const formData = new FormData(e.currentTarget);
       const feedbackData = {
         subject: formData.get('subject') as string || 'General Feedback',
         message: formData.get('message') as string,
-        rating,
-        category_id: null,
-        branch_id: branchId || null,
+        rating: toRating(surveyMode, rating),
+        score: rating,
+        survey_mode: surveyMode,
+        category_id: categoryId,
+        branch_id: branchId,
+        qr_code_id: getQrCodeIdParam(searchParams),
         customer_name: formData.get('name') as string || null,
         customer_email: formData.get('email') as string || null,
-        customer_phone: formData.get('phone') as string || null,
-        status: 'pending',
-        priority: 'medium',
-        is_anonymous: !(formData.get('name') as string)
+        customer_phone: formData.get('phone') as string || null
       };
 
-      const { error } = await supabase
-        .from('feedback')
-        .insert([feedbackData]);
+      const answerRows = questions
+        .filter(q => !isAnswerEmpty(answers[q.id as string]))
+        .map(q => ({
+          question_id: q.id,
+          answer: answers[q.id as string]
+        }));
+
+      // One call so the feedback and its answers are saved together or not at all
+      const { error } = await supabase.rpc('submit_feedback', {
+        feedback: feedbackData,
+        answers: answerRows
+      });
 
       if (error) throw error;
 
@@ -117,8 +169,8 @@ const Feedback = () => {
         description: "Thank you for your feedback! We'll review it soon.",
       });
 
-      // Redirect to Google Review for positive feedback (4-5 stars)
-      if (rating >= 4 && formSettings.google_place_id) {
+      // Redirect to Google Review for positive feedback (4-5 stars, satisfied or NPS promoter)
+      if (isPositiveScore(surveyMode, rating) && formSettings.google_place_id) {
         setTimeout(() => {
           const googleReviewUrl = `https://search.google.com/local/writereview?placeid=${formSettings.google_place_id}`;
           window.open(googleReviewUrl, '_blank');
@@ -136,6 +188,100 @@ const Feedback = () => {
     }
   };
 
+  const renderRatingInput = () => {
+    switch (surveyMode) {
+      case 'nps':
+        return (
+          <div>
+            <label className="text-sm font-medium">How likely are you to recommend us to a friend or colleague?</label>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {Array.from({ length: 11 }, (_, score) => (
+                <button
+                  key={score}
+                  type="button"
+                  onClick={() => setRating(score)}
+                  className="h-10 w-10 rounded-md border text-sm font-medium transition-colors hover:scale-105"
+                  style={rating === score ? { backgroundColor: formSettings.primary_color, borderColor: formSettings.primary_color, color: '#ffffff' } : undefined}
+                >
+                  {score}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground mt-1">
+              <span>Not at all likely</span>
+              <span>Extremely likely</span>
+            </div>
+          </div>
+        );
+
+      case 'csat':
+        return (
+          <div>
+            <label className="text-sm font-medium">How satisfied were you with your experience?</label>
+            <div className="grid grid-cols-5 gap-2 mt-2">
+              {csatLabels.map((label, index) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setRating(index + 1)}
+                  className="p-2 rounded-md border text-xs transition-colors"
+                  style={rating === index + 1 ? { backgroundColor: formSettings.primary_color, borderColor: formSettings.primary_color, color: '#ffffff' } : undefined}
+                >
+                  <div className="text-2xl mb-1">{['😞', '🙁', '😐', '🙂', '😄'][index]}</div>
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+
+      default:
+        return (
+          <div>
+            <label className="text-sm font-medium">Rate your experience</label>
+            <div className="flex gap-1 mt-2">
+              {[1, 2, 3, 4, 5].map((star) => (
+                <button
+                  key={star}
+                  type="button"
+                  onClick={() => setRating(star)}
+                  onMouseEnter={() => setHoveredRating(star)}
+                  onMouseLeave={() => setHoveredRating(0)}
+                  className="p-1"
+                >
+                  <Star
+                    className={`h-8 w-8 cursor-pointer hover:scale-110 transition-transform ${
+                      star <= (hoveredRating || rating || 0)
+                        ? 'text-yellow-400 fill-yellow-400'
+                        : 'text-gray-300'
+                    }`}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+    }
+  };
+
+  if (isInvalidLink) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4 w-12 h-12 bg-red-100 rounded-full flex items-center justify-center">
+              <AlertCircle className="h-6 w-6 text-red-600" />
+            </div>
+            <CardTitle>Invalid feedback link</CardTitle>
+            <CardDescription>
+              This link isn't connected to a location that's collecting feedback. Please scan the QR code at the branch you visited.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
   if (isSubmitted) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4" style={{ backgroundColor: formSettings.background_color }}>
@@ -197,30 +343,45 @@ const Feedback = () => {
             <GoogleTranslate targetLanguage={language.code} />
             
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <label className="text-sm font-medium">Rate your experience</label>
-                <div className="flex gap-1 mt-2">
-                  {[1, 2, 3, 4, 5].map((star) => (
-                    <button
-                      key={star}
-                      type="button"
-                      onClick={() => setRating(star)}
-                      onMouseEnter={() => setHoveredRating(star)}
-                      onMouseLeave={() => setHoveredRating(0)}
-                      className="p-1"
-                    >
-                      <Star
-                        className={`h-8 w-8 cursor-pointer hover:scale-110 transition-transform ${
-                          star <= (hoveredRating || rating)
-                            ? 'text-yellow-400 fill-yellow-400'
-                            : 'text-gray-300'
-                        }`}
-                      />
-                    </button>
-                  ))}
-                </div>
-              </div>
+              {renderRatingInput()}
               
+              {categories.length > 0 && (
+                <div>
+                  <label className="text-sm font-medium">What is your feedback about? (optional)</label>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {categories.map((category) => {
+                      const Icon = getCategoryIcon(category.icon);
+                      const isSelected = categoryId === category.id;
+                      const color = getCategoryColor(category);
+
+                      return (
+                        <button
+                          key={category.id}
+                          type="button"
+                          onClick={() => setCategoryId(isSelected ? null : category.id)}
+                          className="flex items-center gap-2 px-3 py-2 rounded-md border text-sm transition-colors"
+                          style={isSelected ? { backgroundColor: color, borderColor: color, color: '#ffffff' } : { borderColor: color }}
+                          title={category.description || undefined}
+                        >
+                          <Icon className="h-4 w-4" />
+                          {category.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {questions.map((question) => (
+                <FeedbackQuestionField
+                  key={question.id}
+                  question={question}
+                  value={answers[question.id as string]}
+                  onChange={(value) => setAnswers(prev => ({ ...prev, [question.id as string]: value }))}
+                  primaryColor={formSettings.primary_color}
+                />
+              ))}
+
               <div>
                 <label className="text-sm font-medium">Tell us more (optional)</label>
                 <Textarea 
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MessageSquare, Send, AlertCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface ReplyThread {
+  feedback: {
+    subject: string;
+    message: string;
+    customer_name: string | null;
+    created_at: string;
+    branch_name: string | null;
+  };
+  responses: {
+    id: string;
+    message: string;
+    author_type: 'staff' | 'customer';
+    author_name: string | null;
+    created_at: string;
+  }[];
+}
+
+const FeedbackReply = () => {
+  const { token } = useParams();
+  const { toast } = useToast();
+  const [thread, setThread] = useState<ReplyThread | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    loadThread();
+  }, [token]);
+
+  const loadThread = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.functions.invoke('feedback-reply', {
+        body: { token, action: 'get' }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      setThread(data);
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      setLoadError('This reply link is invalid or has expired.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+
+    setSending(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('feedback-reply', {
+        body: { token, action: 'reply', message: message.trim() }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setThread(data);
+      setMessage('');
+      toast({
+        title: "Reply sent",
+        description: "Thank you! Our team will get back to you.",
+      });
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send your reply. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (loadError || !thread) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4 w-12 h-12 bg-red-100 rounded-full flex items-center justify-center">
+              <AlertCircle className="h-6 w-6 text-red-600" />
+            </div>
+            <CardTitle>Link unavailable</CardTitle>
+            <CardDescription>{loadError}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const businessName = thread.feedback.branch_name || 'our team';
+
+  return (
+    <div className="min-h-screen p-4 bg-muted/30">
+      <div className="max-w-2xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              {thread.feedback.subject}
+            </CardTitle>
+            <CardDescription>
+              Your conversation with {businessName}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="p-3 rounded-lg border">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">
+                  {thread.feedback.customer_name || 'You'}
+                </span>
+                <span>{new Date(thread.feedback.created_at).toLocaleString()}</span>
+              </div>
+              <p className="text-sm mt-2 whitespace-pre-wrap">{thread.feedback.message}</p>
+            </div>
+
+            {thread.responses.map((response) => (
+              <div
+                key={response.id}
+                className={`p-3 rounded-lg ${
+                  response.author_type === 'customer' ? 'border' : 'bg-muted ml-6'
+                }`}
+              >
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {response.author_type === 'customer'
+                      ? (thread.feedback.customer_name || 'You')
+                      : (response.author_name || businessName)}
+                  </span>
+                  <span>{new Date(response.created_at).toLocaleString()}</span>
+                </div>
+                <p className="text-sm mt-2 whitespace-pre-wrap">{response.message}</p>
+              </div>
+            ))}
+
+            <form onSubmit={handleSubmit} className="space-y-2 pt-2">
+              <Textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Write your reply..."
+                rows={4}
+                maxLength={5000}
+              />
+              <Button type="submit" className="w-full" disabled={sending || !message.trim()}>
+                <Send className="h-4 w-4 mr-2" />
+                {sending ? 'Sending...' : 'Send Reply'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default FeedbackReply;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, CalendarClock, CalendarX, Heart } from 'lucide-react';
+import { QRCodeStatus, getQrFeedbackPath } from '@/lib/qrCodes';
+
+interface RetiredQRCode {
+  status: Exclude<QRCodeStatus, 'active'>;
+  branch_name: string | null;
+  starts_at: string | null;
+}
+
+const retiredMessages: Record<RetiredQRCode['status'], { title: string; description: (code: RetiredQRCode) => string }> = {
+  inactive: {
+    title: 'This QR code has been retired',
+    description: (code) =>
+      `${code.branch_name || 'This location'} no longer uses this code. Thanks for wanting to share your thoughts; please ask a member of staff for the current one.`,
+  },
+  scheduled: {
+    title: "This QR code isn't live yet",
+    description: (code) =>
+      `It starts collecting feedback${code.starts_at ? ` on ${new Date(code.starts_at).toLocaleString()}` : ' soon'}. Please scan it again then.`,
+  },
+  expired: {
+    title: 'This event has ended',
+    description: (code) =>
+      `This code was for a limited-time event${code.branch_name ? ` at ${code.branch_name}` : ''} and is no longer collecting feedback. Thank you for stopping by!`,
+  },
+};
+
+const retiredIcons: Record<RetiredQRCode['status'], typeof Heart> = {
+  inactive: Heart,
+  scheduled: CalendarClock,
+  expired: CalendarX,
+};
+
+const QRRedirect = () => {
+  const { slug } = useParams();
+  const navigate = useNavigate();
+  const [notFound, setNotFound] = useState(false);
+  const [retired, setRetired] = useState<RetiredQRCode | null>(null);
+
+  useEffect(() => {
+    resolveQRCode();
+  }, [slug]);
+
+  const resolveQRCode = async () => {
+    try {
+      // Logs the scan server-side and returns the code's current destination
+      const { data, error } = await supabase.rpc('resolve_qr_code', {
+        qr_slug: slug,
+        scan_user_agent: navigator.userAgent,
+      });
+
+      if (error) throw error;
+
+      const code = data?.[0];
+      if (!code) {
+        setNotFound(true);
+        return;
+      }
+
+      if (code.status !== 'active') {
+        setRetired(code as RetiredQRCode);
+        return;
+      }
+
+      navigate(getQrFeedbackPath(code.branch_id, code.qr_code_id, code.category_id), { replace: true });
+    } catch (error) {
+      console.error('Error resolving QR code:', error);
+      setNotFound(true);
+    }
+  };
+
+  if (retired) {
+    const message = retiredMessages[retired.status];
+    const Icon = retiredIcons[retired.status];
+
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4 w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+              <Icon className="h-6 w-6 text-primary" />
+            </div>
+            <CardTitle>{message.title}</CardTitle>
+            <CardDescription>{message.description(retired)}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4 w-12 h-12 bg-red-100 rounded-full flex items-center justify-center">
+              <AlertCircle className="h-6 w-6 text-red-600" />
+            </div>
+            <CardTitle>QR code not found</CardTitle>
+            <CardDescription>
+              We couldn't find this QR code. Please ask a member of staff for a current one.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+    </div>
+  );
+};
+
+export default QRRedirect;
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { teamRoleLabels } from '@/components/TeamMembers';
+
+interface InvitationDetails {
+  team_name: string;
+  email: string;
+  role: string;
+  status: string;
+  expires_at: string;
+  invited_by_name: string | null;
+}
+
+const unavailableMessages: Record<string, string> = {
+  accepted: 'This invitation has already been accepted.',
+  expired: 'This invitation has expired. Ask the team manager to send you a new one.',
+  revoked: 'This invitation has been withdrawn by the team manager.',
+};
+
+const TeamInvite = () => {
+  const { token } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, loading: authLoading, signOut } = useAuth();
+  const { refreshOrganizations } = useOrganization();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    loadInvitation();
+  }, [token]);
+
+  const loadInvitation = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('get_team_invitation', { invite_token: token });
+
+      if (error) throw error;
+      setInvitation(data?.[0] ?? null);
+    } catch (error) {
+      console.error('Error loading invitation:', error);
+      setInvitation(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    try {
+      const { error } = await supabase.rpc('accept_team_invitation', { invite_token: token });
+
+      // Surface the database's reason, e.g. an expired link or a different email address
+      if (error) throw new Error(error.message);
+
+      // Accepting switches the workspace to the team's organization
+      await refreshOrganizations();
+
+      toast({
+        title: "Welcome aboard!",
+        description: `You've joined ${invitation?.team_name}`,
+      });
+      navigate('/dashboard?section=teams', { replace: true });
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to accept the invitation",
+        variant: "destructive",
+      });
+      loadInvitation();
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!invitation || invitation.status !== 'pending') {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4 w-12 h-12 bg-red-100 rounded-full flex items-center justify-center">
+              <AlertCircle className="h-6 w-6 text-red-600" />
+            </div>
+            <CardTitle>Invitation unavailable</CardTitle>
+            <CardDescription>
+              {(invitation && unavailableMessages[invitation.status]) || 'This invitation link is invalid.'}
+            </CardDescription>
+          </CardHeader>
+          {user && (
+            <CardContent>
+              <Button asChild variant="outline">
+                <Link to="/dashboard">Go to dashboard</Link>
+              </Button>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  const invitePath = `/invite/${token}`;
+  const authQuery = `redirect=${encodeURIComponent(invitePath)}&email=${encodeURIComponent(invitation.email)}`;
+  const emailMatches = user?.email?.toLowerCase() === invitation.email.toLowerCase();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <div className="mx-auto mb-4 w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+            <Users className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle>Join {invitation.team_name}</CardTitle>
+          <CardDescription>
+            {invitation.invited_by_name || 'A team manager'} invited {invitation.email} to join as{' '}
+            {(teamRoleLabels[invitation.role] || invitation.role).toLowerCase()}.
+            {' '}This invitation expires on {new Date(invitation.expires_at).toLocaleDateString()}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!user ? (
+            <>
+              <Button asChild className="w-full">
+                <Link to={`/auth?${authQuery}`}>Sign in to accept</Link>
+              </Button>
+              <Button asChild variant="outline" className="w-full">
+                <Link to={`/auth?${authQuery}&tab=signup`}>Create an account</Link>
+              </Button>
+            </>
+          ) : emailMatches ? (
+            <Button className="w-full" onClick={handleAccept} disabled={accepting}>
+              {accepting ? 'Joining...' : 'Accept invitation'}
+            </Button>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                You're signed in as {user.email}. Sign in as {invitation.email} to accept this invitation.
+              </p>
+              <Button variant="outline" className="w-full" onClick={signOut}>
+                Switch account
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TeamInvite;
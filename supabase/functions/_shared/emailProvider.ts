@@ -0,0 +1,98 @@
+import { Resend } from "npm:resend@4.0.0";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  replyTo?: string;
+}
+
+export interface EmailResult {
+  id: string;
+  provider: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<EmailResult>;
+}
+
+const createResendProvider = (): EmailProvider => {
+  const resendApiKey = Deno.env.get("RESEND_API_KEY");
+  if (!resendApiKey) {
+    throw new Error("RESEND_API_KEY is not configured");
+  }
+
+  const resend = new Resend(resendApiKey);
+
+  return {
+    name: "resend",
+    async send(message) {
+      const { data, error } = await resend.emails.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        reply_to: message.replyTo,
+      });
+
+      if (error) throw new Error(error.message);
+      return { id: data?.id ?? "", provider: "resend" };
+    },
+  };
+};
+
+// Plain SMTP, e.g. a local catcher such as Mailpit or MailHog (localhost:1025) in development
+const createSmtpProvider = (): EmailProvider => {
+  const hostname = Deno.env.get("SMTP_HOST") ?? "localhost";
+  const port = Number(Deno.env.get("SMTP_PORT") ?? "1025");
+  const username = Deno.env.get("SMTP_USER");
+  const password = Deno.env.get("SMTP_PASSWORD");
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port,
+          tls: Deno.env.get("SMTP_TLS") === "true",
+          auth: username && password ? { username, password } : undefined,
+        },
+      });
+
+      try {
+        await client.send({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          replyTo: message.replyTo,
+        });
+      } finally {
+        await client.close();
+      }
+
+      return { id: crypto.randomUUID(), provider: "smtp" };
+    },
+  };
+};
+
+// EMAIL_PROVIDER selects the transport; defaults to Resend
+export const getEmailProvider = (): EmailProvider => {
+  const provider = (Deno.env.get("EMAIL_PROVIDER") ?? "resend").toLowerCase();
+
+  switch (provider) {
+    case "smtp":
+      return createSmtpProvider();
+    case "resend":
+      return createResendProvider();
+    default:
+      throw new Error(`Unknown EMAIL_PROVIDER: ${provider}`);
+  }
+};
+
+export const getEmailSender = () =>
+  Deno.env.get("EMAIL_FROM") ?? "Smart Feedback <onboarding@resend.dev>";
@@ -0,0 +1,69 @@
+// The subset of JSON Schema we use to check model output. Unknown keywords are ignored and extra
+// properties are allowed, so a model adding fields doesn't fail an otherwise usable response.
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  minimum?: number;
+  maximum?: number;
+  enum?: unknown[];
+}
+
+const typeOf = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: NonNullable<JsonSchema["type"]>) => {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+};
+
+// Returns one message per problem, each prefixed with the JSON path; empty when the value is valid
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, path = "$"): string[] => {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${path} should be ${schema.type} but is ${typeOf(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} should be one of ${schema.enum.map(option => JSON.stringify(option)).join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} should be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} should be at most ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} items`);
+    }
+    const itemSchema = schema.items;
+    if (itemSchema) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, itemSchema, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    (schema.required ?? []).forEach(key => {
+      if (!(key in record)) errors.push(`${path}.${key} is required`);
+    });
+    Object.entries(schema.properties ?? {}).forEach(([key, propertySchema]) => {
+      if (key in record) errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+    });
+  }
+
+  return errors;
+};
@@ -0,0 +1,282 @@
+import { JsonSchema, validateJsonSchema } from "./jsonSchema.ts";
+
+export type LlmProviderName = "openai" | "anthropic" | "azure" | "local";
+
+export const llmProviderNames: LlmProviderName[] = ["openai", "anthropic", "azure", "local"];
+
+export interface LlmRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  complete(request: LlmRequest, signal: AbortSignal): Promise<string>;
+}
+
+// Per-organization choice; unset fields fall back to LLM_PROVIDER and the provider's default model
+export interface LlmSettings {
+  provider?: string | null;
+  model?: string | null;
+}
+
+// Rate limits, server errors and timeouts are worth another attempt; bad requests and auth errors aren't
+export class LlmError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const postJson = async (provider: string, url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    // Network failures and our own timeout both land here
+    throw new LlmError(`${provider} request failed: ${error instanceof Error ? error.message : String(error)}`, true);
+  }
+
+  if (!response.ok) {
+    throw new LlmError(`${provider} API error ${response.status}: ${await response.text()}`, isRetryableStatus(response.status));
+  }
+
+  return response.json();
+};
+
+interface ChatCompletion {
+  choices?: { message?: { content?: unknown } }[];
+}
+
+interface AnthropicMessage {
+  content?: { type: string; text?: string }[];
+}
+
+const readChatCompletion = (provider: string, data: ChatCompletion): string => {
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content !== "string") throw new LlmError(`${provider} returned no message content`, true);
+  return content;
+};
+
+const createOpenAIProvider = (model: string): LlmProvider => {
+  const apiKey = Deno.env.get("OPENAI_API_KEY");
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY is not configured");
+  }
+
+  return {
+    name: "openai",
+    model,
+    async complete(request, signal) {
+      const data = await postJson("OpenAI", "https://api.openai.com/v1/chat/completions", {
+        Authorization: `Bearer ${apiKey}`,
+      }, {
+        model,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.prompt },
+        ],
+        max_completion_tokens: request.maxTokens,
+        response_format: { type: "json_object" },
+      }, signal);
+
+      return readChatCompletion("OpenAI", data);
+    },
+  };
+};
+
+// The model is the deployment name, since Azure routes by deployment rather than model
+const createAzureOpenAIProvider = (model: string): LlmProvider => {
+  const endpoint = Deno.env.get("AZURE_OPENAI_ENDPOINT");
+  const apiKey = Deno.env.get("AZURE_OPENAI_API_KEY");
+  if (!endpoint || !apiKey) {
+    throw new Error("AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY must be configured");
+  }
+
+  const apiVersion = Deno.env.get("AZURE_OPENAI_API_VERSION") ?? "2024-10-21";
+  const url = `${endpoint.replace(/\/+$/, "")}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${apiVersion}`;
+
+  return {
+    name: "azure",
+    model,
+    async complete(request, signal) {
+      const data = await postJson("Azure OpenAI", url, { "api-key": apiKey }, {
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.prompt },
+        ],
+        max_completion_tokens: request.maxTokens,
+        response_format: { type: "json_object" },
+      }, signal);
+
+      return readChatCompletion("Azure OpenAI", data);
+    },
+  };
+};
+
+const createAnthropicProvider = (model: string): LlmProvider => {
+  const apiKey = Deno.env.get("ANTHROPIC_API_KEY");
+  if (!apiKey) {
+    throw new Error("ANTHROPIC_API_KEY is not configured");
+  }
+
+  return {
+    name: "anthropic",
+    model,
+    async complete(request, signal) {
+      const data = await postJson("Anthropic", "https://api.anthropic.com/v1/messages", {
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      }, {
+        model,
+        system: request.system,
+        messages: [{ role: "user", content: request.prompt }],
+        max_tokens: request.maxTokens,
+      }, signal);
+
+      const text = ((data as AnthropicMessage)?.content ?? [])
+        .filter(block => block.type === "text")
+        .map(block => block.text ?? "")
+        .join("");
+      if (!text) throw new LlmError("Anthropic returned no text content", true);
+      return text;
+    },
+  };
+};
+
+// Any OpenAI-compatible server, e.g. Ollama or vLLM (http://localhost:11434/v1), or a canned-response stub in tests
+const createLocalProvider = (model: string): LlmProvider => {
+  const baseUrl = (Deno.env.get("LOCAL_LLM_BASE_URL") ?? "http://localhost:11434/v1").replace(/\/+$/, "");
+  const apiKey = Deno.env.get("LOCAL_LLM_API_KEY");
+
+  return {
+    name: "local",
+    model,
+    async complete(request, signal) {
+      const data = await postJson("Local LLM", `${baseUrl}/chat/completions`, apiKey ? {
+        Authorization: `Bearer ${apiKey}`,
+      } : {}, {
+        model,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.prompt },
+        ],
+        max_tokens: request.maxTokens,
+      }, signal);
+
+      return readChatCompletion("Local LLM", data);
+    },
+  };
+};
+
+const defaultModels: Record<LlmProviderName, () => string | undefined> = {
+  openai: () => Deno.env.get("OPENAI_MODEL") ?? "gpt-5-mini-2025-08-07",
+  anthropic: () => Deno.env.get("ANTHROPIC_MODEL") ?? "claude-sonnet-4-5",
+  azure: () => Deno.env.get("AZURE_OPENAI_DEPLOYMENT"),
+  local: () => Deno.env.get("LOCAL_LLM_MODEL") ?? "llama3.1",
+};
+
+// Organization settings win over LLM_PROVIDER, which defaults to OpenAI. Never throws, so callers can
+// key caches or report the choice before finding out whether the provider is usable.
+export const resolveLlmSettings = (settings: LlmSettings = {}) => {
+  const provider = (settings.provider || Deno.env.get("LLM_PROVIDER") || "openai").toLowerCase();
+  const model = settings.model?.trim() ||
+    (llmProviderNames.includes(provider as LlmProviderName) ? defaultModels[provider as LlmProviderName]() : undefined);
+  return { provider, model: model ?? null };
+};
+
+// Throws when the provider is unknown or its secrets or model aren't set
+export const getLlmProvider = (settings: LlmSettings = {}): LlmProvider => {
+  const resolved = resolveLlmSettings(settings);
+  const provider = resolved.provider as LlmProviderName;
+  if (!llmProviderNames.includes(provider)) {
+    throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+
+  const model = resolved.model;
+  if (!model) {
+    throw new Error(`No model configured for LLM provider: ${provider}`);
+  }
+
+  switch (provider) {
+    case "anthropic":
+      return createAnthropicProvider(model);
+    case "azure":
+      return createAzureOpenAIProvider(model);
+    case "local":
+      return createLocalProvider(model);
+    case "openai":
+      return createOpenAIProvider(model);
+  }
+};
+
+// Providers whose secrets are set. A self-hosted server only counts once LOCAL_LLM_BASE_URL points at
+// one, since the localhost default is only reachable when running the functions locally.
+export const getConfiguredLlmProviders = (): LlmProviderName[] => {
+  const isSet = (name: string) => !!Deno.env.get(name);
+  const configured: Record<LlmProviderName, boolean> = {
+    openai: isSet("OPENAI_API_KEY"),
+    anthropic: isSet("ANTHROPIC_API_KEY"),
+    azure: isSet("AZURE_OPENAI_ENDPOINT") && isSet("AZURE_OPENAI_API_KEY"),
+    local: isSet("LOCAL_LLM_BASE_URL"),
+  };
+  return llmProviderNames.filter(name => configured[name]);
+};
+
+// Models sometimes wrap JSON in a markdown fence even when told not to
+const parseJsonResponse = (text: string): unknown => {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : text);
+  } catch {
+    throw new LlmError("Response was not valid JSON", true);
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface CompleteJsonOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+// Each attempt gets its own timeout. Invalid JSON and schema mismatches are retried like transient errors,
+// since a second sample usually gets the shape right.
+export const completeJson = async <T>(
+  provider: LlmProvider,
+  request: LlmRequest,
+  schema: JsonSchema,
+  {
+    timeoutMs = Number(Deno.env.get("LLM_TIMEOUT_MS") ?? "30000"),
+    maxRetries = Number(Deno.env.get("LLM_MAX_RETRIES") ?? "2"),
+  }: CompleteJsonOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const text = await provider.complete(request, AbortSignal.timeout(timeoutMs));
+      const value = parseJsonResponse(text);
+
+      const errors = validateJsonSchema(value, schema);
+      if (errors.length > 0) {
+        throw new LlmError(`Response did not match the schema: ${errors.slice(0, 5).join("; ")}`, true);
+      }
+
+      return value as T;
+    } catch (error) {
+      const retryable = error instanceof LlmError && error.retryable;
+      if (!retryable || attempt >= maxRetries) throw error;
+
+      // 0.5s, 1s, 2s... with jitter so concurrent callers don't retry in lockstep
+      await sleep(500 * 2 ** attempt + Math.random() * 250);
+    }
+  }
+};
@@ -0,0 +1,65 @@
+// Signed tokens for the customer reply-by-link page.
+// Format: <feedbackId>.<expiresAt unix seconds>.<base64url HMAC-SHA256 signature>
+
+const REPLY_TOKEN_TTL_DAYS = 30;
+
+const encoder = new TextEncoder();
+
+const getSecret = () => {
+  const secret = Deno.env.get("FEEDBACK_REPLY_SECRET");
+  if (!secret) {
+    throw new Error("FEEDBACK_REPLY_SECRET is not configured");
+  }
+  return secret;
+};
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const sign = async (payload: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toBase64Url(await crypto.subtle.sign("HMAC", key, encoder.encode(payload)));
+};
+
+export const createReplyToken = async (feedbackId: string) => {
+  const expiresAt = Math.floor(Date.now() / 1000) + REPLY_TOKEN_TTL_DAYS * 24 * 60 * 60;
+  const payload = `${feedbackId}.${expiresAt}`;
+  return `${payload}.${await sign(payload)}`;
+};
+
+// Returns the feedback id for a valid, unexpired token
+export const verifyReplyToken = async (token: string) => {
+  const [feedbackId, expiresAt, signature] = (token ?? "").split(".");
+  if (!feedbackId || !expiresAt || !signature) {
+    throw new Error("Invalid reply link");
+  }
+
+  const expected = await sign(`${feedbackId}.${expiresAt}`);
+  if (expected.length !== signature.length) {
+    throw new Error("Invalid reply link");
+  }
+
+  // Constant-time comparison
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  if (mismatch !== 0) {
+    throw new Error("Invalid reply link");
+  }
+
+  if (Number(expiresAt) * 1000 < Date.now()) {
+    throw new Error("This reply link has expired");
+  }
+
+  return feedbackId;
+};
@@ -1,17 +1,390 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.54.0";
+import { completeJson, getConfiguredLlmProviders, getLlmProvider, resolveLlmSettings } from "../_shared/llmProvider.ts";
+import { JsonSchema } from "../_shared/jsonSchema.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const logStep = (step: string, details?: any) => {
+const logStep = (step: string, details?: unknown) => {
   const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
   console.log(`[ANALYZE-FEEDBACK] ${step}${detailsStr}`);
 };
 
+// A row from get_feedback_period_stats: counts and sums for one category, or for uncategorized feedback
+interface PeriodStatsRow {
+  category_id: string | null;
+  category_name: string | null;
+  category_color: string | null;
+  total: number;
+  pending: number;
+  in_progress: number;
+  resolved: number;
+  rating_sum: number;
+  rating_1: number;
+  rating_2: number;
+  rating_3: number;
+  rating_4: number;
+  rating_5: number;
+  nps_responses: number;
+  nps_promoters: number;
+  nps_detractors: number;
+  csat_responses: number;
+  csat_satisfied: number;
+  fingerprint: string;
+}
+
+type PeriodStatsCount = Exclude<keyof PeriodStatsRow, 'category_id' | 'category_name' | 'category_color' | 'fingerprint'>;
+
+const sumOf = (rows: PeriodStatsRow[], key: PeriodStatsCount) =>
+  rows.reduce((sum, row) => sum + Number(row[key]), 0);
+
+const calculateSurveyMetrics = (rows: PeriodStatsRow[]) => {
+  const npsResponses = sumOf(rows, 'nps_responses');
+  const csatResponses = sumOf(rows, 'csat_responses');
+
+  const promoters = sumOf(rows, 'nps_promoters');
+  const detractors = sumOf(rows, 'nps_detractors');
+  const satisfied = sumOf(rows, 'csat_satisfied');
+
+  return {
+    nps: npsResponses > 0 ? {
+      score: Math.round(((promoters - detractors) / npsResponses) * 100),
+      promoters,
+      passives: npsResponses - promoters - detractors,
+      detractors,
+      responses: npsResponses
+    } : null,
+    csat: csatResponses > 0 ? {
+      score: Math.round((satisfied / csatResponses) * 100),
+      satisfied,
+      responses: csatResponses
+    } : null
+  };
+};
+
+// Feedback count and average rating per category, largest first with uncategorized last
+const calculateCategoryBreakdown = (rows: PeriodStatsRow[]) =>
+  rows
+    .map(row => ({
+      id: row.category_id,
+      name: row.category_name || 'Uncategorized',
+      color: row.category_color || (row.category_id ? '#6366f1' : '#94a3b8'),
+      count: Number(row.total),
+      averageRating: Math.round((row.rating_sum / row.total) * 10) / 10
+    }))
+    .sort((a, b) => {
+      if (a.id === null) return 1;
+      if (b.id === null) return -1;
+      return b.count - a.count;
+    });
+
+// Bump when the prompts change so analyses cached from older prompts are no longer reused
+const PROMPT_VERSION = 2;
+
+// Only the most recent responses of each period are sent to the model; statistics cover all of them
+const MAX_PROMPT_ROWS = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+const presetDays: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90 };
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface AnalysisPeriod {
+  start: Date;
+  end: Date;
+}
+
+interface AnalysisScope {
+  branchIds: string[];
+  categoryIds: string[];
+}
+
+// Custom ranges arrive as ISO instants with an exclusive end, already resolved to the user's local days
+const resolvePeriod = (timeRange?: string, startDate?: string, endDate?: string): AnalysisPeriod => {
+  if (startDate || endDate) {
+    const start = new Date(startDate ?? '');
+    const end = new Date(endDate ?? '');
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new Error('startDate and endDate must both be valid dates');
+    }
+    if (start >= end) throw new Error('startDate must be before endDate');
+    if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new Error(`Date ranges can span at most ${MAX_RANGE_DAYS} days`);
+    }
+    return { start, end };
+  }
+
+  const days = presetDays[timeRange ?? '30d'];
+  if (!days) throw new Error(`Unsupported time range: ${timeRange}`);
+
+  const end = new Date();
+  return { start: new Date(end.getTime() - days * DAY_MS), end };
+};
+
+// The same length of time immediately before the period
+const getPreviousPeriod = (period: AnalysisPeriod): AnalysisPeriod => ({
+  start: new Date(period.start.getTime() - (period.end.getTime() - period.start.getTime())),
+  end: period.start,
+});
+
+const parseIds = (value: unknown, name: string): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string' || !uuidPattern.test(id))) {
+    throw new Error(`${name} must be a list of ids`);
+  }
+  return value;
+};
+
+const fetchPeriodStats = (
+  supabase: ReturnType<typeof createClient>,
+  period: AnalysisPeriod,
+  scope: AnalysisScope
+) => supabase.rpc('get_feedback_period_stats', {
+  start_at: period.start.toISOString(),
+  end_at: period.end.toISOString(),
+  branch_ids: scope.branchIds,
+  category_ids: scope.categoryIds
+});
+
+const fetchPromptFeedback = (
+  supabase: ReturnType<typeof createClient>,
+  period: AnalysisPeriod,
+  scope: AnalysisScope
+) => {
+  let query = supabase
+    .from('feedback')
+    .select('subject, message, rating, score, survey_mode, status, priority, category:feedback_categories(name)')
+    .gte('created_at', period.start.toISOString())
+    .lt('created_at', period.end.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(MAX_PROMPT_ROWS);
+
+  if (scope.branchIds.length > 0) query = query.in('branch_id', scope.branchIds);
+  if (scope.categoryIds.length > 0) query = query.in('category_id', scope.categoryIds);
+  return query;
+};
+
+interface PromptFeedback {
+  subject: string;
+  message: string | null;
+  rating: number;
+  score: number | null;
+  survey_mode: string | null;
+  status: string;
+  priority: string;
+  category: { name: string } | null;
+}
+
+const calculateStats = (rows: PeriodStatsRow[]) => {
+  const totalFeedback = sumOf(rows, 'total');
+
+  return {
+    totalFeedback,
+    averageRating: totalFeedback > 0 ? sumOf(rows, 'rating_sum') / totalFeedback : 0,
+    ratingDistribution: {
+      1: sumOf(rows, 'rating_1'),
+      2: sumOf(rows, 'rating_2'),
+      3: sumOf(rows, 'rating_3'),
+      4: sumOf(rows, 'rating_4'),
+      5: sumOf(rows, 'rating_5'),
+    } as Record<number, number>,
+    pendingCount: sumOf(rows, 'pending'),
+    resolvedCount: sumOf(rows, 'resolved'),
+    ...calculateSurveyMetrics(rows),
+    categoryBreakdown: calculateCategoryBreakdown(rows)
+  };
+};
+
+type FeedbackStats = ReturnType<typeof calculateStats>;
+
+interface Sentiment {
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+// Rating-based sentiment, used when the model's estimate is unavailable
+const calculateRatingSentiment = (stats: FeedbackStats): Sentiment => {
+  const positiveCount = stats.ratingDistribution[4] + stats.ratingDistribution[5];
+  const negativeCount = stats.ratingDistribution[1] + stats.ratingDistribution[2];
+  const neutralCount = stats.totalFeedback - positiveCount - negativeCount;
+  const percent = (count: number) => stats.totalFeedback > 0 ? Math.round((count / stats.totalFeedback) * 100) : 0;
+
+  return {
+    positive: percent(positiveCount),
+    neutral: percent(neutralCount),
+    negative: percent(negativeCount)
+  };
+};
+
+const isSentiment = (value: unknown): value is Sentiment =>
+  !!value && typeof value === 'object' &&
+  ['positive', 'neutral', 'negative'].every(key => typeof (value as Record<string, unknown>)[key] === 'number');
+
+const isTopicList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(topic => typeof topic === 'string');
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+const percentage: JsonSchema = { type: 'number', minimum: 0, maximum: 100 };
+const sentimentSchema: JsonSchema = {
+  type: 'object',
+  required: ['positive', 'neutral', 'negative'],
+  properties: { positive: percentage, neutral: percentage, negative: percentage }
+};
+
+const insightProperties: Record<string, JsonSchema> = {
+  summary: { type: 'string' },
+  sentiment: sentimentSchema,
+  trends: stringList,
+  recommendations: stringList,
+  keyTopics: stringList,
+  priorityActions: stringList,
+  impactAreas: stringList,
+  ratingDistribution: { type: 'object' },
+  previousPeriod: {
+    type: 'object',
+    required: ['sentiment', 'keyTopics'],
+    properties: { sentiment: sentimentSchema, keyTopics: stringList }
+  },
+  comparisonSummary: { type: 'string' }
+};
+
+// Matches what each prompt below asks for
+const requiredInsights: Record<string, string[]> = {
+  sentiment: ['sentiment', 'keyTopics', 'summary', 'recommendations'],
+  trends: ['trends', 'summary', 'recommendations'],
+  recommendations: ['recommendations', 'priorityActions', 'summary', 'impactAreas'],
+  overview: ['sentiment', 'trends', 'recommendations', 'summary', 'keyTopics']
+};
+
+// Shape guaranteed by the schema; which fields are present depends on the analysis type
+interface ModelInsights {
+  summary?: string;
+  sentiment?: Sentiment;
+  keyTopics?: string[];
+  previousPeriod?: { sentiment: Sentiment; keyTopics: string[] };
+  comparisonSummary?: string;
+  [key: string]: unknown;
+}
+
+const getInsightsSchema = (type: string, compare: boolean): JsonSchema => {
+  const required = requiredInsights[type] ?? requiredInsights.overview;
+  return {
+    type: 'object',
+    required: compare
+      ? [...new Set([...required, 'sentiment', 'keyTopics', 'previousPeriod', 'comparisonSummary'])]
+      : required,
+    properties: insightProperties
+  };
+};
+
+const compareTopics = (current: string[], previous: string[]) => {
+  const normalize = (topic: string) => topic.trim().toLowerCase();
+  const currentSet = new Set(current.map(normalize));
+  const previousSet = new Set(previous.map(normalize));
+
+  return {
+    emerging: current.filter(topic => !previousSet.has(normalize(topic))),
+    fading: previous.filter(topic => !currentSet.has(normalize(topic))),
+    persisting: current.filter(topic => previousSet.has(normalize(topic)))
+  };
+};
+
+const roundDelta = (value: number) => Math.round(value * 10) / 10;
+
+// Changes from the previous period; metrics missing from either side have no delta
+const calculateDeltas = (
+  current: FeedbackStats,
+  previous: FeedbackStats,
+  currentSentiment: Sentiment,
+  previousSentiment: Sentiment
+) => {
+  const categoryIds = new Set([...current.categoryBreakdown, ...previous.categoryBreakdown].map(c => c.id));
+
+  return {
+    totalFeedback: current.totalFeedback - previous.totalFeedback,
+    averageRating: current.totalFeedback > 0 && previous.totalFeedback > 0
+      ? roundDelta(current.averageRating - previous.averageRating)
+      : null,
+    ratingDistribution: Object.fromEntries(
+      [1, 2, 3, 4, 5].map(rating => [rating, current.ratingDistribution[rating] - previous.ratingDistribution[rating]])
+    ),
+    nps: current.nps && previous.nps ? current.nps.score - previous.nps.score : null,
+    csat: current.csat && previous.csat ? current.csat.score - previous.csat.score : null,
+    sentiment: current.totalFeedback > 0 && previous.totalFeedback > 0 ? {
+      positive: currentSentiment.positive - previousSentiment.positive,
+      neutral: currentSentiment.neutral - previousSentiment.neutral,
+      negative: currentSentiment.negative - previousSentiment.negative
+    } : null,
+    categories: Array.from(categoryIds).map(id => {
+      const now = current.categoryBreakdown.find(c => c.id === id);
+      const before = previous.categoryBreakdown.find(c => c.id === id);
+      const category = now ?? before!;
+      return {
+        id,
+        name: category.name,
+        color: category.color,
+        count: now?.count ?? 0,
+        countDelta: (now?.count ?? 0) - (before?.count ?? 0),
+        averageRatingDelta: now && before ? roundDelta(now.averageRating - before.averageRating) : null
+      };
+    }).sort((a, b) => Math.abs(b.countDelta) - Math.abs(a.countDelta))
+  };
+};
+
+const hashSnapshot = async (snapshot: unknown) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(snapshot)));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Every row of a period, in a stable order; changes whenever its feedback is added, edited or deleted
+const fingerprintOf = (rows: PeriodStatsRow[]) =>
+  rows.map(row => `${row.category_id ?? 'none'}:${row.fingerprint}`).sort();
+
+// Trimmed rows sent to the model
+const summarizeForPrompt = (feedback: PromptFeedback[]) => feedback.map(f => ({
+  rating: f.rating,
+  surveyMode: f.survey_mode,
+  score: f.score,
+  subject: f.subject,
+  category: f.category?.name || null,
+  message: f.message?.substring(0, 200), // Limit message length
+  status: f.status,
+  priority: f.priority
+}));
+
+// How many of a period's responses the model saw
+const describeSample = (stats: FeedbackStats, feedback: PromptFeedback[]) => ({
+  promptRows: feedback.length,
+  totalRows: stats.totalFeedback,
+  sampled: feedback.length < stats.totalFeedback
+});
+
+// Statistics over the whole period, then the rows themselves, so the model knows when it only sees the latest
+const describeFeedbackData = (stats: FeedbackStats, feedback: PromptFeedback[]) => {
+  const overall = {
+    responses: stats.totalFeedback,
+    averageRating: Math.round(stats.averageRating * 10) / 10,
+    ratingDistribution: stats.ratingDistribution,
+    nps: stats.nps?.score ?? null,
+    csat: stats.csat?.score ?? null,
+    categories: stats.categoryBreakdown.map(c => ({ name: c.name, count: c.count, averageRating: c.averageRating }))
+  };
+  const shown = feedback.length < stats.totalFeedback
+    ? `the ${feedback.length} most recent of ${stats.totalFeedback} responses`
+    : `${feedback.length} responses`;
+
+  return `Statistics for all responses:
+${JSON.stringify(overall, null, 2)}
+
+Feedback data (${shown}):
+${JSON.stringify(summarizeForPrompt(feedback), null, 2)}`;
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -21,87 +394,152 @@ serve(async (req) => {
   try {
     logStep("Function started");
 
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAIApiKey) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) throw new Error('No authorization header provided');
 
     // Get request body
-    const { type, timeRange } = await req.json();
-    
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    logStep("Fetching feedback data", { type, timeRange });
-
-    // Calculate date range
-    const now = new Date();
-    let startDate = new Date();
-    switch (timeRange) {
-      case '7d':
-        startDate.setDate(now.getDate() - 7);
-        break;
-      case '30d':
-        startDate.setDate(now.getDate() - 30);
-        break;
-      case '90d':
-        startDate.setDate(now.getDate() - 90);
-        break;
-      default:
-        startDate.setDate(now.getDate() - 30);
-    }
-
-    // Fetch feedback data
-    const { data: feedback, error: feedbackError } = await supabase
-      .from('feedback')
-      .select('id, subject, message, rating, created_at, status, priority, customer_name')
-      .gte('created_at', startDate.toISOString())
-      .order('created_at', { ascending: false });
+    const { action, type, timeRange, startDate, endDate, branchIds, categoryIds, compare, refresh } = await req.json();
 
-    if (feedbackError) throw feedbackError;
-
-    logStep("Feedback data fetched", { count: feedback?.length });
+    // Lets the settings page offer only providers whose secrets are set; the names are all it reveals
+    if (action === 'providers') {
+      return new Response(JSON.stringify({
+        success: true,
+        configured: getConfiguredLlmProviders(),
+        defaultProvider: resolveLlmSettings().provider
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-    if (!feedback || feedback.length === 0) {
+    const analysisType = type || 'overview';
+    const period = resolvePeriod(timeRange, startDate, endDate);
+    const scope: AnalysisScope = {
+      branchIds: parseIds(branchIds, 'branchIds'),
+      categoryIds: parseIds(categoryIds, 'categoryIds')
+    };
+    const previousPeriod = compare ? getPreviousPeriod(period) : null;
+    
+    // Query as the caller so RLS limits the analysis to their current organization
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } }, auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) throw new Error('Not authenticated');
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, current_organization_id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (profileError) throw profileError;
+
+    const { data: organization, error: organizationError } = await supabase
+      .from('organizations')
+      .select('ai_provider, ai_model')
+      .eq('id', profile.current_organization_id)
+      .single();
+
+    if (organizationError) throw organizationError;
+
+    // Resolved without checking secrets: a misconfigured provider should end in the fallback analysis, not an error
+    const llmSettings = { provider: organization.ai_provider, model: organization.ai_model };
+    const resolvedLlm = resolveLlmSettings(llmSettings);
+    const modelKey = `${resolvedLlm.provider}/${resolvedLlm.model ?? ''}`;
+
+    logStep("Fetching feedback data", { type: analysisType, period, scope, compare: !!compare });
+
+    // The previous period uses the same branches and categories so the deltas compare like with like
+    const [currentResult, previousResult] = await Promise.all([
+      fetchPeriodStats(supabase, period, scope),
+      previousPeriod ? fetchPeriodStats(supabase, previousPeriod, scope) : Promise.resolve(null)
+    ]);
+
+    if (currentResult.error) throw currentResult.error;
+    if (previousResult?.error) throw previousResult.error;
+
+    const statsRows = (currentResult.data || []) as PeriodStatsRow[];
+    const previousStatsRows = (previousResult?.data || []) as PeriodStatsRow[];
+    const stats = calculateStats(statsRows);
+    const previousStats = previousPeriod ? calculateStats(previousStatsRows) : null;
+    const periodInfo = { start: period.start.toISOString(), end: period.end.toISOString() };
+
+    logStep("Feedback statistics fetched", { count: stats.totalFeedback, previousCount: previousStats?.totalFeedback });
+
+    if (stats.totalFeedback === 0) {
+      // Nothing worth keeping in the history
       return new Response(JSON.stringify({
         success: true,
         insights: {
-          summary: "No feedback data available for the selected time period.",
+          summary: "No feedback matches the selected period and filters.",
           trends: [],
           recommendations: ["Start collecting feedback to generate insights."],
           sentiment: { positive: 0, neutral: 0, negative: 0 },
-          keyTopics: []
+          keyTopics: [],
+          period: periodInfo
         }
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Calculate basic statistics
-    const stats = {
-      totalFeedback: feedback.length,
-      averageRating: feedback.reduce((sum, f) => sum + f.rating, 0) / feedback.length,
-      ratingDistribution: {
-        1: feedback.filter(f => f.rating === 1).length,
-        2: feedback.filter(f => f.rating === 2).length,
-        3: feedback.filter(f => f.rating === 3).length,
-        4: feedback.filter(f => f.rating === 4).length,
-        5: feedback.filter(f => f.rating === 5).length,
-      },
-      pendingCount: feedback.filter(f => f.status === 'pending').length,
-      resolvedCount: feedback.filter(f => f.status === 'resolved').length
+    const parameters = {
+      startDate: periodInfo.start,
+      endDate: periodInfo.end,
+      branchIds: [...scope.branchIds].sort(),
+      categoryIds: [...scope.categoryIds].sort(),
+      compare: !!compare
     };
 
-    // Prepare data for AI analysis
-    const feedbackSummary = feedback.map(f => ({
-      rating: f.rating,
-      subject: f.subject,
-      message: f.message?.substring(0, 200), // Limit message length
-      status: f.status,
-      priority: f.priority
-    }));
+    // New, edited or deleted feedback in either period changes the hash and forces a fresh analysis
+    const inputHash = await hashSnapshot({
+      version: PROMPT_VERSION,
+      model: modelKey,
+      type: analysisType,
+      parameters,
+      feedback: fingerprintOf(statsRows),
+      previousFeedback: fingerprintOf(previousStatsRows)
+    });
+
+    if (!refresh) {
+      // RLS limits the lookup to analyses the caller may see
+      const { data: cached, error: cachedError } = await supabase
+        .from('feedback_analyses')
+        .select('id, insights, model, created_at')
+        .eq('input_hash', inputHash)
+        .eq('model', modelKey)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (cachedError) throw cachedError;
+
+      if (cached) {
+        logStep("Returning cached analysis", { id: cached.id });
+        return new Response(JSON.stringify({
+          success: true,
+          insights: cached.insights,
+          analysis: { id: cached.id, model: cached.model, createdAt: cached.created_at, cached: true }
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const [promptResult, previousPromptResult] = await Promise.all([
+      fetchPromptFeedback(supabase, period, scope),
+      previousPeriod ? fetchPromptFeedback(supabase, previousPeriod, scope) : Promise.resolve(null)
+    ]);
+
+    if (promptResult.error) throw promptResult.error;
+    if (previousPromptResult?.error) throw previousPromptResult.error;
+
+    const feedback = (promptResult.data || []) as PromptFeedback[];
+    const previousFeedback = (previousPromptResult?.data || []) as PromptFeedback[];
+    const feedbackData = describeFeedbackData(stats, feedback);
 
     let prompt = '';
     
@@ -109,119 +547,94 @@ serve(async (req) => {
       case 'sentiment':
         prompt = `Analyze the sentiment and themes in this customer feedback data. Provide insights about customer satisfaction, common complaints, and positive feedback patterns.
 
-Feedback data (${feedback.length} responses):
-${JSON.stringify(feedbackSummary, null, 2)}
+${feedbackData}
 
 Please provide a JSON response with:
 - sentiment: {positive: number, neutral: number, negative: number} (percentages)
 - keyTopics: array of main topics/themes mentioned
 - summary: brief overview of customer sentiment
-- recommendations: array of 3-5 actionable recommendations
-
-Respond ONLY with valid JSON.`;
+- recommendations: array of 3-5 actionable recommendations`;
         break;
 
       case 'trends':
         prompt = `Analyze trends and patterns in this customer feedback data. Focus on rating distributions, common issues, and improvement opportunities.
 
-Feedback data (${feedback.length} responses):
-${JSON.stringify(feedbackSummary, null, 2)}
+${feedbackData}
 
 Please provide a JSON response with:
 - trends: array of key trends identified
 - ratingDistribution: {1: count, 2: count, 3: count, 4: count, 5: count}
 - summary: brief overview of trends
-- recommendations: array of 3-5 actionable recommendations
-
-Respond ONLY with valid JSON.`;
+- recommendations: array of 3-5 actionable recommendations`;
         break;
 
       case 'recommendations':
         prompt = `Analyze this customer feedback data and provide strategic recommendations for business improvement.
 
-Feedback data (${feedback.length} responses):
-${JSON.stringify(feedbackSummary, null, 2)}
+${feedbackData}
 
 Please provide a JSON response with:
 - recommendations: array of 5-7 detailed actionable recommendations
 - priorityActions: array of top 3 most important actions
 - summary: brief overview of the analysis
-- impactAreas: array of business areas that need attention
-
-Respond ONLY with valid JSON.`;
+- impactAreas: array of business areas that need attention`;
         break;
 
       default:
         prompt = `Provide a comprehensive analysis of this customer feedback data including sentiment, trends, and recommendations.
 
-Feedback data (${feedback.length} responses):
-${JSON.stringify(feedbackSummary, null, 2)}
+${feedbackData}
 
 Please provide a JSON response with:
 - sentiment: {positive: number, neutral: number, negative: number}
 - trends: array of key trends
 - recommendations: array of actionable recommendations
 - summary: comprehensive overview
-- keyTopics: main themes identified
-
-Respond ONLY with valid JSON.`;
+- keyTopics: main themes identified`;
     }
 
-    // Try OpenAI API, but provide fallback if it fails
-    let insights;
-    try {
-      logStep("Calling OpenAI API");
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-5-mini-2025-08-07',
-          messages: [
-            { 
-              role: 'system', 
-              content: 'You are an expert business analyst specializing in customer feedback analysis. Always respond with valid JSON only.' 
-            },
-            { role: 'user', content: prompt }
-          ],
-          max_completion_tokens: 1000
-        }),
-      });
+    if (previousPeriod && previousStats) {
+      prompt += `
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${await response.text()}`);
-      }
+For comparison, here is feedback from the previous period of the same length:
+${describeFeedbackData(previousStats, previousFeedback)}
 
-      const data = await response.json();
-      const analysis = data.choices[0].message.content;
+Also include, even if not requested above:
+- sentiment and keyTopics for the current period
+- previousPeriod: {sentiment: {positive: number, neutral: number, negative: number} (percentages), keyTopics: array of main topics}
+- comparisonSummary: one or two sentences on what changed since the previous period`;
+    }
 
-      logStep("OpenAI analysis received", { length: analysis.length });
+    prompt += `
 
-      // Parse the JSON response
-      try {
-        insights = JSON.parse(analysis);
-      } catch (e) {
-        throw new Error("Failed to parse OpenAI response as JSON");
-      }
-    } catch (aiError: any) {
-      logStep("OpenAI API failed, using fallback analytics", { error: aiError.message });
+Respond ONLY with valid JSON.`;
+
+    // Try the organization's model, but provide fallback if it fails
+    let insights: ModelInsights;
+    let model = modelKey;
+    try {
+      const llm = getLlmProvider(llmSettings);
+      logStep("Calling LLM provider", { provider: llm.name, model: llm.model });
+
+      insights = await completeJson<ModelInsights>(llm, {
+        system: 'You are an expert business analyst specializing in customer feedback analysis. Always respond with valid JSON only.',
+        prompt,
+        maxTokens: previousPeriod ? 1500 : 1000
+      }, getInsightsSchema(analysisType, !!previousPeriod));
+
+      logStep("LLM analysis received", { provider: llm.name });
+    } catch (aiError) {
+      logStep("LLM provider failed, using fallback analytics", { error: aiError instanceof Error ? aiError.message : String(aiError) });
+      model = 'fallback';
       
       // Provide basic analytics when AI is unavailable
       const avgRating = stats.averageRating;
-      const positiveCount = feedback.filter(f => f.rating >= 4).length;
-      const negativeCount = feedback.filter(f => f.rating <= 2).length;
-      const neutralCount = feedback.length - positiveCount - negativeCount;
+      const positiveCount = stats.ratingDistribution[4] + stats.ratingDistribution[5];
+      const negativeCount = stats.ratingDistribution[1] + stats.ratingDistribution[2];
       
       insights = {
-        summary: `Analysis of ${feedback.length} feedback responses. Average rating: ${avgRating.toFixed(1)}/5. ${stats.pendingCount} pending responses need attention.`,
-        sentiment: {
-          positive: Math.round((positiveCount / feedback.length) * 100),
-          neutral: Math.round((neutralCount / feedback.length) * 100),
-          negative: Math.round((negativeCount / feedback.length) * 100)
-        },
+        summary: `Analysis of ${stats.totalFeedback} feedback responses. Average rating: ${avgRating.toFixed(1)}/5. ${stats.nps ? `NPS: ${stats.nps.score}. ` : ''}${stats.csat ? `CSAT: ${stats.csat.score}%. ` : ''}${stats.pendingCount} pending responses need attention.`,
+        sentiment: calculateRatingSentiment(stats),
         trends: [
           `${positiveCount} customers gave positive ratings (4-5 stars)`,
           `${negativeCount} customers expressed dissatisfaction (1-2 stars)`,
@@ -243,14 +656,81 @@ Respond ONLY with valid JSON.`;
       };
     }
 
-    logStep("Analysis completed successfully");
+    let comparison = null;
+    if (previousPeriod && previousStats) {
+      const { previousPeriod: previousInsights, comparisonSummary, ...currentInsights } = insights;
+      insights = currentInsights;
+
+      // Model sentiment is only compared with model sentiment; otherwise both sides use ratings
+      const useModelSentiment = isSentiment(insights.sentiment) && isSentiment(previousInsights?.sentiment);
+      const currentSentiment = (useModelSentiment && insights.sentiment) || calculateRatingSentiment(stats);
+      const previousSentiment = (useModelSentiment && previousInsights?.sentiment) || calculateRatingSentiment(previousStats);
+
+      // Without model topics, categories stand in as the topics of each period
+      const categoryNames = (periodStats: FeedbackStats) =>
+        periodStats.categoryBreakdown.filter(c => c.id !== null).map(c => c.name);
+      const currentTopics = insights.keyTopics;
+      const previousTopics = previousInsights?.keyTopics;
+
+      comparison = {
+        previousPeriod: { start: previousPeriod.start.toISOString(), end: previousPeriod.end.toISOString() },
+        previousStats,
+        previousSample: describeSample(previousStats, previousFeedback),
+        previousSentiment,
+        summary: typeof comparisonSummary === 'string' ? comparisonSummary : null,
+        deltas: calculateDeltas(stats, previousStats, currentSentiment, previousSentiment),
+        topics: isTopicList(currentTopics) && isTopicList(previousTopics)
+          ? compareTopics(currentTopics, previousTopics)
+          : compareTopics(categoryNames(stats), categoryNames(previousStats))
+      };
+    }
+
+    const result = {
+      ...insights,
+      stats,
+      sample: describeSample(stats, feedback),
+      period: periodInfo,
+      ...(comparison ? { comparison } : {})
+    };
+
+    // Saved with the service role so history can't be written to directly. Fallback results are kept
+    // in the history too, but never served from the cache because their model doesn't match.
+    let analysis = null;
+    try {
+      const serviceClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+        { auth: { persistSession: false } }
+      );
+
+      const { data: saved, error: saveError } = await serviceClient
+        .from('feedback_analyses')
+        .insert({
+          organization_id: profile.current_organization_id,
+          created_by: profile.id,
+          analysis_type: analysisType,
+          parameters,
+          model,
+          input_hash: inputHash,
+          feedback_count: stats.totalFeedback,
+          insights: result
+        })
+        .select('id, created_at')
+        .single();
+
+      if (saveError) throw saveError;
+      analysis = { id: saved.id, model, createdAt: saved.created_at, cached: false };
+    } catch (saveError) {
+      // The caller still gets the insights; only the history entry is missing
+      logStep("Failed to save analysis", { error: saveError instanceof Error ? saveError.message : saveError });
+    }
+
+    logStep("Analysis completed successfully", { model, analysisId: analysis?.id });
 
     return new Response(JSON.stringify({
       success: true,
-      insights: {
-        ...insights,
-        stats
-      }
+      insights: result,
+      analysis
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -0,0 +1,120 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface BackfillRequest {
+  after?: string;
+  limit?: number;
+}
+
+const QR_IMAGE_BUCKET = "qr-codes";
+const DEFAULT_LIMIT = 500;
+const PAGE_SIZE = 100;
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[BACKFILL-QR-IMAGES] ${step}${detailsStr}`);
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Only PNG data URLs are copied; anything else is left for the app to render again from feedback_url
+const decodePngDataUrl = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:image\/png;base64,(.+)$/);
+  if (!match) throw new Error("qr_code_url is not a PNG data URL");
+  return Uint8Array.from(atob(match[1]), char => char.charCodeAt(0));
+};
+
+// One-off copy of the images stored inline in qr_codes.qr_code_url into the qr-codes bucket, run with the
+// service role key before the column is dropped. Works through codes in id order; call again with the
+// returned `next` cursor until `remaining` is 0.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    logStep("Function started");
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      return jsonResponse({ error: "The service role key is required" }, 401);
+    }
+
+    const { after, limit = DEFAULT_LIMIT }: BackfillRequest = await req.json().catch(() => ({}));
+    let cursor = after ?? null;
+    let migrated = 0;
+    const failed: { id: string; error: string }[] = [];
+
+    while (migrated + failed.length < limit) {
+      let query = supabaseClient
+        .from("qr_codes")
+        .select("id, organization_id, qr_code_url")
+        .is("image_path", null)
+        .not("qr_code_url", "is", null)
+        .order("id")
+        .limit(Math.min(PAGE_SIZE, limit - migrated - failed.length));
+      if (cursor) query = query.gt("id", cursor);
+
+      const { data: qrCodes, error } = await query;
+      if (error) throw error;
+      if (!qrCodes || qrCodes.length === 0) {
+        cursor = null;
+        break;
+      }
+
+      for (const qrCode of qrCodes) {
+        cursor = qrCode.id;
+        try {
+          const imagePath = `${qrCode.organization_id}/${qrCode.id}.png`;
+          const { error: uploadError } = await supabaseClient.storage
+            .from(QR_IMAGE_BUCKET)
+            .upload(imagePath, decodePngDataUrl(qrCode.qr_code_url), { contentType: "image/png", upsert: true });
+          if (uploadError) throw uploadError;
+
+          const { error: updateError } = await supabaseClient
+            .from("qr_codes")
+            .update({ image_path: imagePath, qr_code_url: null })
+            .eq("id", qrCode.id);
+          if (updateError) throw updateError;
+
+          migrated++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logStep("Failed to copy image", { id: qrCode.id, message });
+          failed.push({ id: qrCode.id, error: message });
+        }
+      }
+    }
+
+    // Failed codes keep their data URL, so they count here until they're copied or rendered again by the app
+    const { count: remaining, error: countError } = await supabaseClient
+      .from("qr_codes")
+      .select("id", { count: "exact", head: true })
+      .is("image_path", null)
+      .not("qr_code_url", "is", null);
+    if (countError) throw countError;
+
+    logStep("Batch finished", { migrated, failed: failed.length, remaining });
+    return jsonResponse({ migrated, failed, remaining, next: cursor });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { verifyReplyToken } from "../_shared/replyToken.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface FeedbackReplyRequest {
+  token: string;
+  action: 'get' | 'reply';
+  message?: string;
+}
+
+const MAX_REPLY_LENGTH = 5000;
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[FEEDBACK-REPLY] ${step}${detailsStr}`);
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Public endpoint behind the signed reply link: shows the customer-facing thread and accepts answers
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    logStep("Function started");
+
+    const { token, action, message }: FeedbackReplyRequest = await req.json();
+    const feedbackId = await verifyReplyToken(token);
+    logStep("Token verified", { feedbackId, action });
+
+    const { data: feedback, error: feedbackError } = await supabaseClient
+      .from("feedback")
+      .select("id, subject, message, status, customer_name, created_at, branches(name)")
+      .eq("id", feedbackId)
+      .single();
+
+    if (feedbackError || !feedback) throw new Error("Feedback not found");
+
+    if (action === "reply") {
+      const trimmed = (message ?? "").trim();
+      if (!trimmed) throw new Error("Message is required");
+      if (trimmed.length > MAX_REPLY_LENGTH) {
+        throw new Error(`Message must be ${MAX_REPLY_LENGTH} characters or fewer`);
+      }
+
+      const { error: insertError } = await supabaseClient
+        .from("feedback_responses")
+        .insert({
+          feedback_id: feedbackId,
+          author_type: "customer",
+          is_internal: false,
+          message: trimmed,
+        });
+
+      if (insertError) throw insertError;
+
+      // A customer answering back reopens resolved feedback
+      if (feedback.status === "resolved") {
+        await supabaseClient
+          .from("feedback")
+          .update({ status: "in_progress", resolved_at: null })
+          .eq("id", feedbackId);
+      }
+
+      logStep("Customer reply recorded", { feedbackId });
+    }
+
+    const { data: responses, error: responsesError } = await supabaseClient
+      .from("feedback_responses")
+      .select("id, message, author_type, created_at, profiles(display_name)")
+      .eq("feedback_id", feedbackId)
+      .eq("is_internal", false)
+      .order("created_at", { ascending: true });
+
+    if (responsesError) throw responsesError;
+
+    return jsonResponse({
+      feedback: {
+        subject: feedback.subject,
+        message: feedback.message,
+        customer_name: feedback.customer_name,
+        created_at: feedback.created_at,
+        branch_name: (feedback.branches as { name: string } | null)?.name ?? null,
+      },
+      responses: (responses || []).map((r) => ({
+        id: r.id,
+        message: r.message,
+        author_type: r.author_type,
+        author_name: r.author_type === "customer"
+          ? null
+          : (r.profiles as { display_name: string | null } | null)?.display_name ?? null,
+        created_at: r.created_at,
+      })),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in feedback-reply", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 400);
+  }
+});
@@ -0,0 +1,228 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getEmailProvider, getEmailSender } from "../_shared/emailProvider.ts";
+import { createReplyToken } from "../_shared/replyToken.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface SendFeedbackReplyRequest {
+  responseId: string;
+  // Sends again even though the customer already got this reply
+  resend?: boolean;
+}
+
+interface ReplyFeedback {
+  branch_id: string | null;
+  subject: string;
+  message: string;
+  customer_name: string | null;
+  customer_email: string | null;
+  branches: { name: string } | null;
+}
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[SEND-FEEDBACK-REPLY] ${step}${detailsStr}`);
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  let responseId: string | undefined;
+  // Set once the caller may send this reply and has claimed it, so failures before that leave its status alone
+  let claimed = false;
+
+  try {
+    logStep("Function started");
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    // Read through the caller's session so RLS decides whether they may see this response
+    const supabaseUser = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } }, auth: { persistSession: false } }
+    );
+
+    const requestBody: SendFeedbackReplyRequest = await req.json();
+    responseId = requestBody.responseId;
+    if (!responseId) throw new Error("responseId is required");
+
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) throw new Error("Not authenticated");
+
+    const { data: response, error: responseError } = await supabaseUser
+      .from("feedback_responses")
+      .select("id, message, is_internal, author_type, feedback_id, email_sent_at, profiles(display_name), feedback(branch_id, subject, message, customer_name, customer_email, branches(name))")
+      .eq("id", responseId)
+      .single();
+
+    if (responseError || !response) throw new Error("Response not found");
+    if (response.is_internal) throw new Error("Internal notes cannot be emailed");
+    if (response.author_type !== "staff") throw new Error("Only staff replies can be emailed");
+
+    const feedback = response.feedback as unknown as ReplyFeedback | null;
+
+    // Being able to read the response isn't enough: only people who may respond on the branch email its customers
+    const { data: canRespond, error: permissionError } = await supabaseUser.rpc("has_branch_permission", {
+      user_uuid: user.id,
+      permission_key: "feedback.respond",
+      branch_uuid: feedback?.branch_id,
+    });
+    if (permissionError) throw permissionError;
+    if (!canRespond) throw new Error("You do not have permission to email customers about this feedback");
+
+    const alreadySent = "This reply has already been emailed to the customer";
+    if (response.email_sent_at && !requestBody.resend) throw new Error(alreadySent);
+
+    // Re-checked in the update itself, so a reply sent since it was read above isn't sent again
+    let claim = supabaseAdmin
+      .from("feedback_responses")
+      .update({ email_status: "pending", email_error: null })
+      .eq("id", responseId);
+    if (!requestBody.resend) claim = claim.is("email_sent_at", null);
+
+    const { data: claimedRows, error: claimError } = await claim.select("id");
+    if (claimError) throw claimError;
+    if (!claimedRows || claimedRows.length === 0) throw new Error(alreadySent);
+    claimed = true;
+
+    if (!feedback?.customer_email) throw new Error("Customer did not leave an email address");
+
+    logStep("Processing reply", { responseId, feedbackId: response.feedback_id });
+
+    const appUrl = Deno.env.get("APP_URL") ?? req.headers.get("origin") ?? "";
+    const token = await createReplyToken(response.feedback_id);
+    const replyUrl = `${appUrl}/reply/${token}`;
+
+    const branchName = feedback.branches?.name ?? "Smart Feedback";
+    const responderName = (response.profiles as unknown as { display_name: string | null } | null)?.display_name ?? `The ${branchName} team`;
+    const subject = `Re: ${feedback.subject}`;
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>${escapeHtml(subject)}</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+            .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .reply { background: white; padding: 20px; border-radius: 5px; margin: 20px 0; border-left: 4px solid #667eea; white-space: pre-wrap; }
+            .original { color: #666; font-size: 14px; border-top: 1px solid #ddd; padding-top: 15px; }
+            .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${escapeHtml(branchName)}</h1>
+              <h2>We replied to your feedback</h2>
+            </div>
+            <div class="content">
+              <p>Hello${feedback.customer_name ? ` ${escapeHtml(feedback.customer_name)}` : ''},</p>
+
+              <p><strong>${escapeHtml(responderName)}</strong> has responded to your feedback:</p>
+
+              <div class="reply">${escapeHtml(response.message)}</div>
+
+              <p>You can answer back using the link below. Your reply goes straight to our team.</p>
+              <a href="${replyUrl}" class="button">Reply to ${escapeHtml(branchName)}</a>
+
+              <div class="original">
+                <p><strong>Your original feedback:</strong> ${escapeHtml(feedback.subject)}</p>
+                <p>${escapeHtml(feedback.message)}</p>
+              </div>
+
+              <div class="footer">
+                <p>Best regards,<br>${escapeHtml(branchName)}</p>
+                <p><em>Sent via Smart Feedback.</em></p>
+              </div>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const provider = getEmailProvider();
+    const emailResponse = await provider.send({
+      from: getEmailSender(),
+      to: [feedback.customer_email],
+      subject,
+      html: htmlContent,
+    });
+
+    logStep("Reply email sent successfully", emailResponse);
+
+    await supabaseAdmin
+      .from("feedback_responses")
+      .update({
+        email_status: "sent",
+        email_message_id: emailResponse.id,
+        email_sent_at: new Date().toISOString(),
+        email_error: null,
+      })
+      .eq("id", responseId);
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: "Reply sent successfully",
+      data: emailResponse
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders,
+      },
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in send-feedback-reply", { message: errorMessage });
+
+    // Only record a delivery failure once the response has been found, authorised and claimed
+    if (responseId && claimed) {
+      await supabaseAdmin
+        .from("feedback_responses")
+        .update({ email_status: "failed", email_error: errorMessage })
+        .eq("id", responseId);
+    }
+
+    return new Response(JSON.stringify({
+      error: errorMessage,
+      success: false
+    }), {
+      status: 500,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      },
+    });
+  }
+};
+
+serve(handler);
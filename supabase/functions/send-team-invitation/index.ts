@@ -1,25 +1,36 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { Resend } from "npm:resend@4.0.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getEmailProvider, getEmailSender } from "../_shared/emailProvider.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Either invite a new address to a team, or resend an existing invitation
 interface TeamInvitationRequest {
-  email: string;
-  teamName: string;
-  taskTitle?: string;
-  taskDescription?: string;
-  inviterName: string;
-  dueDate?: string;
+  teamId?: string;
+  email?: string;
+  role?: string;
+  invitationId?: string;
 }
 
-const logStep = (step: string, details?: any) => {
+const INVITATION_ROLES = ["member", "lead"];
+const INVITATION_TTL_DAYS = 7;
+
+const logStep = (step: string, details?: unknown) => {
   const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
   console.log(`[SEND-TEAM-INVITATION] ${step}${detailsStr}`);
 };
 
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -29,36 +40,117 @@ const handler = async (req: Request): Promise<Response> => {
   try {
     logStep("Function started");
 
-    const resendApiKey = Deno.env.get("RESEND_API_KEY");
-    if (!resendApiKey) {
-      throw new Error("RESEND_API_KEY is not configured");
-    }
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    // Everything goes through the caller's session, so RLS limits this to the team's manager or an admin
+    const supabaseUser = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } }, auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) throw new Error("Not authenticated");
+
+    const { data: inviter, error: inviterError } = await supabaseUser
+      .from("profiles")
+      .select("id, display_name, email")
+      .eq("user_id", user.id)
+      .single();
+
+    if (inviterError || !inviter) throw new Error("Profile not found");
 
-    const resend = new Resend(resendApiKey);
-    
     const requestBody: TeamInvitationRequest = await req.json();
-    const { email, teamName, taskTitle, taskDescription, inviterName, dueDate } = requestBody;
+    const { invitationId } = requestBody;
+
+    let teamId: string;
+    let email: string;
+    let role: string;
+
+    if (invitationId) {
+      const { data: existing, error: existingError } = await supabaseUser
+        .from("team_invitations")
+        .select("id, team_id, email, role, status")
+        .eq("id", invitationId)
+        .single();
+
+      if (existingError || !existing) throw new Error("Invitation not found");
+      if (existing.status === "accepted") throw new Error("This invitation has already been accepted");
+      if (existing.status === "revoked") throw new Error("This invitation has been revoked");
+
+      teamId = existing.team_id;
+      email = existing.email;
+      role = existing.role;
+    } else {
+      teamId = requestBody.teamId ?? "";
+      email = (requestBody.email ?? "").trim().toLowerCase();
+      role = requestBody.role ?? "member";
+
+      if (!teamId) throw new Error("teamId is required");
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new Error("A valid email address is required");
+      if (!INVITATION_ROLES.includes(role)) throw new Error(`Invalid role: ${role}`);
+    }
+
+    const { data: team, error: teamError } = await supabaseUser
+      .from("teams")
+      .select("id, name")
+      .eq("id", teamId)
+      .single();
 
-    logStep("Processing invitation request", { email, teamName, inviterName });
+    if (teamError || !team) throw new Error("Team not found");
 
-    // Create email content
-    const subject = taskTitle 
-      ? `New Task Assignment: ${taskTitle}`
-      : `Team Invitation: Join ${teamName}`;
+    const { data: existingMembers } = await supabaseUser
+      .from("team_members")
+      .select("id, profiles!team_members_user_id_fkey(email)")
+      .eq("team_id", teamId);
+
+    const alreadyMember = (existingMembers ?? []).some((member) =>
+      (member.profiles as unknown as { email: string | null } | null)?.email?.toLowerCase() === email
+    );
+    if (alreadyMember) throw new Error(`${email} is already a member of ${team.name}`);
+
+    logStep("Processing invitation", { teamId, email, role, resend: !!invitationId });
+
+    // Every send issues a fresh token and expiry, so links from earlier emails stop working
+    const token = crypto.randomUUID();
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: invitation, error: saveError } = await supabaseUser
+      .from("team_invitations")
+      .upsert({
+        team_id: teamId,
+        email,
+        role,
+        invited_by: inviter.id,
+        status: "pending",
+        token,
+        expires_at: expiresAt,
+        accepted_at: null,
+        accepted_by: null,
+      }, { onConflict: "team_id,email" })
+      .select("id")
+      .single();
+
+    if (saveError || !invitation) throw new Error(saveError?.message ?? "Failed to save invitation");
+
+    const appUrl = Deno.env.get("APP_URL") ?? req.headers.get("origin") ?? "";
+    const inviteUrl = `${appUrl}/invite/${token}`;
+    const inviterName = inviter.display_name ?? inviter.email ?? "A teammate";
+    const subject = `Team Invitation: Join ${team.name}`;
 
     const htmlContent = `
       <!DOCTYPE html>
       <html>
         <head>
           <meta charset="utf-8">
-          <title>${subject}</title>
+          <title>${escapeHtml(subject)}</title>
           <style>
             body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
             .container { max-width: 600px; margin: 0 auto; padding: 20px; }
             .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
             .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
             .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
-            .task-details { background: white; padding: 20px; border-radius: 5px; margin: 20px 0; border-left: 4px solid #667eea; }
             .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
           </style>
         </head>
@@ -66,31 +158,18 @@ const handler = async (req: Request): Promise<Response> => {
           <div class="container">
             <div class="header">
               <h1>🎯 Smart Feedback</h1>
-              <h2>${subject}</h2>
+              <h2>${escapeHtml(subject)}</h2>
             </div>
             <div class="content">
               <p>Hello!</p>
-              
-              <p><strong>${inviterName}</strong> has ${taskTitle ? 'assigned you a task' : 'invited you to join'} <strong>${teamName}</strong>.</p>
-              
-              ${taskTitle ? `
-                <div class="task-details">
-                  <h3>📋 Task Details</h3>
-                  <p><strong>Task:</strong> ${taskTitle}</p>
-                  ${taskDescription ? `<p><strong>Description:</strong> ${taskDescription}</p>` : ''}
-                  ${dueDate ? `<p><strong>Due Date:</strong> ${new Date(dueDate).toLocaleDateString()}</p>` : ''}
-                </div>
-              ` : ''}
-              
-              <p>To get started:</p>
-              <ol>
-                <li>Log in to Smart Feedback using this email address</li>
-                <li>Navigate to the dashboard</li>
-                <li>Check your ${taskTitle ? 'tasks' : 'teams'} section</li>
-              </ol>
-              
-              <p>If you don't have an account yet, you can sign up using the same email address.</p>
-              
+
+              <p><strong>${escapeHtml(inviterName)}</strong> has invited you to join <strong>${escapeHtml(team.name)}</strong> as a ${role === "lead" ? "team lead" : "team member"}.</p>
+
+              <p>Accept the invitation using the link below. If you don't have an account yet, you can create one with this email address (${escapeHtml(email)}) first.</p>
+              <a href="${inviteUrl}" class="button">Accept invitation</a>
+
+              <p>This invitation expires on ${new Date(expiresAt).toUTCString()}.</p>
+
               <div class="footer">
                 <p>Best regards,<br>The Smart Feedback Team</p>
                 <p><em>This is an automated message from Smart Feedback.</em></p>
@@ -101,20 +180,26 @@ const handler = async (req: Request): Promise<Response> => {
       </html>
     `;
 
-    // Send email using Resend with verified domain
-    const emailResponse = await resend.emails.send({
-      from: "Smart Feedback <onboarding@resend.dev>", // Using verified Resend domain
+    const provider = getEmailProvider();
+    const emailResponse = await provider.send({
+      from: getEmailSender(),
       to: [email],
-      subject: subject,
+      subject,
       html: htmlContent,
     });
 
     logStep("Team invitation email sent successfully", emailResponse);
 
-    return new Response(JSON.stringify({ 
-      success: true, 
+    await supabaseUser
+      .from("team_invitations")
+      .update({ last_sent_at: new Date().toISOString() })
+      .eq("id", invitation.id);
+
+    return new Response(JSON.stringify({
+      success: true,
       message: "Team invitation sent successfully",
-      data: emailResponse 
+      invitationId: invitation.id,
+      data: emailResponse
     }), {
       status: 200,
       headers: {
@@ -123,20 +208,21 @@ const handler = async (req: Request): Promise<Response> => {
       },
     });
 
-  } catch (error: any) {
-    logStep("ERROR in send-team-invitation", { message: error.message });
-    
-    return new Response(JSON.stringify({ 
-      error: error.message,
-      success: false 
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in send-team-invitation", { message: errorMessage });
+
+    return new Response(JSON.stringify({
+      error: errorMessage,
+      success: false
     }), {
       status: 500,
-      headers: { 
-        "Content-Type": "application/json", 
-        ...corsHeaders 
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
       },
     });
   }
 };
 
-serve(handler);
\ No newline at end of file
+serve(handler);
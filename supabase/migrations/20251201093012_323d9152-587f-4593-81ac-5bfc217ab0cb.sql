@@ -0,0 +1,89 @@
+-- Create custom questions for the public feedback form (configured per branch)
+CREATE TABLE public.feedback_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  branch_id UUID NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+  question_text TEXT NOT NULL,
+  question_type TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_required BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT feedback_questions_type_check CHECK (
+    question_type IN ('single_choice', 'multi_choice', 'yes_no', 'scale', 'short_text', 'date')
+  ),
+  CONSTRAINT feedback_questions_text_check CHECK (
+    length(trim(question_text)) > 0 AND length(question_text) <= 300
+  )
+);
+
+-- Create structured answers linked to a feedback row
+CREATE TABLE public.feedback_answers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  feedback_id UUID NOT NULL REFERENCES public.feedback(id) ON DELETE CASCADE,
+  question_id UUID REFERENCES public.feedback_questions(id) ON DELETE SET NULL,
+  -- Snapshot of the question so answers stay readable after the question is edited or removed
+  question_text TEXT NOT NULL,
+  question_type TEXT NOT NULL,
+  answer JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.feedback_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.feedback_answers ENABLE ROW LEVEL SECURITY;
+
+-- Policies for feedback questions (mirror feedback_form_settings)
+CREATE POLICY "Admins can manage all questions"
+ON public.feedback_questions
+FOR ALL
+USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Managers can manage their branch questions"
+ON public.feedback_questions
+FOR ALL
+USING (
+  get_user_role(auth.uid()) = 'manager'
+  AND branch_id = get_user_branch(auth.uid())
+);
+
+CREATE POLICY "Everyone can view active questions"
+ON public.feedback_questions
+FOR SELECT
+USING (is_active = true);
+
+-- Policies for feedback answers
+CREATE POLICY "Public can submit answers to active questions"
+ON public.feedback_answers
+FOR INSERT
+WITH CHECK (
+  question_id IS NOT NULL AND
+  EXISTS (
+    SELECT 1 FROM public.feedback_questions q
+    WHERE q.id = feedback_answers.question_id
+    AND q.is_active = true
+    AND q.question_type = feedback_answers.question_type
+  ) AND
+  length(answer::text) <= 2000
+);
+
+-- Answers are visible to whoever can see the parent feedback row
+CREATE POLICY "Staff can view answers for accessible feedback"
+ON public.feedback_answers
+FOR SELECT
+USING (
+  feedback_id IN (SELECT id FROM public.feedback)
+);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_feedback_questions_updated_at
+BEFORE UPDATE ON public.feedback_questions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_feedback_questions_branch_id ON public.feedback_questions(branch_id, sort_order);
+CREATE INDEX idx_feedback_answers_feedback_id ON public.feedback_answers(feedback_id);
+CREATE INDEX idx_feedback_answers_question_id ON public.feedback_answers(question_id);
@@ -0,0 +1,32 @@
+-- Add survey modes (classic stars, NPS, CSAT) per branch
+ALTER TABLE public.feedback_form_settings
+ADD COLUMN survey_mode TEXT NOT NULL DEFAULT 'stars';
+
+ALTER TABLE public.feedback_form_settings
+ADD CONSTRAINT feedback_form_settings_survey_mode_check
+CHECK (survey_mode IN ('stars', 'nps', 'csat'));
+
+-- Record which survey produced each feedback row and its raw score.
+-- rating stays populated on the 1-5 scale so existing views and policies keep working.
+ALTER TABLE public.feedback
+ADD COLUMN survey_mode TEXT NOT NULL DEFAULT 'stars',
+ADD COLUMN score INTEGER;
+
+ALTER TABLE public.feedback
+ADD CONSTRAINT feedback_survey_mode_check
+CHECK (survey_mode IN ('stars', 'nps', 'csat'));
+
+ALTER TABLE public.feedback
+ADD CONSTRAINT feedback_score_range_check
+CHECK (
+  score IS NULL OR
+  (survey_mode = 'nps' AND score >= 0 AND score <= 10) OR
+  (survey_mode IN ('stars', 'csat') AND score >= 1 AND score <= 5)
+);
+
+-- Backfill raw scores for existing star ratings
+UPDATE public.feedback
+SET score = rating
+WHERE score IS NULL;
+
+CREATE INDEX idx_feedback_survey_mode ON public.feedback(survey_mode);
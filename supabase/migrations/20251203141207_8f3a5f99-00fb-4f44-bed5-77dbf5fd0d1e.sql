@@ -0,0 +1,30 @@
+-- Support the feedback conversation timeline (staff replies and internal notes)
+
+-- Staff need to see who wrote each response, so allow them to read team profiles
+CREATE POLICY "Staff can view staff profiles"
+ON public.profiles
+FOR SELECT
+USING (
+  get_user_role(auth.uid()) = ANY (ARRAY['admin'::text, 'manager'::text, 'staff'::text])
+);
+
+-- Authors can edit and remove their own responses
+CREATE POLICY "Responders can update their own responses"
+ON public.feedback_responses
+FOR UPDATE
+USING (responder_id = get_user_profile_id(auth.uid()));
+
+CREATE POLICY "Responders can delete their own responses"
+ON public.feedback_responses
+FOR DELETE
+USING (responder_id = get_user_profile_id(auth.uid()));
+
+-- Admins and managers can moderate any response
+CREATE POLICY "Admins and managers can delete responses"
+ON public.feedback_responses
+FOR DELETE
+USING (
+  get_user_role(auth.uid()) = ANY (ARRAY['admin'::text, 'manager'::text])
+);
+
+CREATE INDEX idx_feedback_responses_created_at ON public.feedback_responses(feedback_id, created_at);
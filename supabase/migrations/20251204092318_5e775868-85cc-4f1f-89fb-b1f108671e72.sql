@@ -0,0 +1,29 @@
+-- Email replies to customers and customer answers via signed reply links
+
+-- Customer replies arrive through the reply link and have no profile
+ALTER TABLE public.feedback_responses
+ALTER COLUMN responder_id DROP NOT NULL;
+
+ALTER TABLE public.feedback_responses
+ADD COLUMN author_type TEXT NOT NULL DEFAULT 'staff',
+ADD COLUMN email_status TEXT,
+ADD COLUMN email_message_id TEXT,
+ADD COLUMN email_error TEXT,
+ADD COLUMN email_sent_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.feedback_responses
+ADD CONSTRAINT feedback_responses_author_type_check
+CHECK (author_type IN ('staff', 'customer'));
+
+ALTER TABLE public.feedback_responses
+ADD CONSTRAINT feedback_responses_staff_responder_check
+CHECK (author_type = 'customer' OR responder_id IS NOT NULL);
+
+ALTER TABLE public.feedback_responses
+ADD CONSTRAINT feedback_responses_email_status_check
+CHECK (email_status IS NULL OR email_status IN ('pending', 'sent', 'failed'));
+
+-- Customer replies are never internal notes
+ALTER TABLE public.feedback_responses
+ADD CONSTRAINT feedback_responses_customer_public_check
+CHECK (author_type = 'staff' OR is_internal = false);
@@ -0,0 +1,133 @@
+-- Feedback assignment and automatic routing
+
+-- Staff can claim unassigned feedback and release feedback assigned to them, on their own branch only
+CREATE POLICY "Staff can claim or release feedback"
+ON public.feedback
+FOR UPDATE
+USING (
+  get_user_role(auth.uid()) = 'staff'::text
+  AND branch_id = get_user_branch(auth.uid())
+  AND (assigned_to IS NULL OR assigned_to = get_user_profile_id(auth.uid()))
+)
+WITH CHECK (
+  branch_id = get_user_branch(auth.uid())
+  AND (assigned_to IS NULL OR assigned_to = get_user_profile_id(auth.uid()))
+);
+
+-- Routing rules applied to new feedback, first match by sort_order wins
+CREATE TABLE public.feedback_routing_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  branch_id UUID NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  strategy TEXT NOT NULL DEFAULT 'round_robin',
+  category_id UUID REFERENCES public.feedback_categories(id) ON DELETE CASCADE,
+  max_rating INTEGER,
+  assignee_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  last_assigned_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT feedback_routing_rules_strategy_check
+    CHECK (strategy IN ('round_robin', 'branch_manager', 'specific_user')),
+  CONSTRAINT feedback_routing_rules_max_rating_check
+    CHECK (max_rating IS NULL OR (max_rating >= 1 AND max_rating <= 5)),
+  CONSTRAINT feedback_routing_rules_assignee_check
+    CHECK (strategy <> 'specific_user' OR assignee_id IS NOT NULL)
+);
+
+ALTER TABLE public.feedback_routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage all routing rules"
+ON public.feedback_routing_rules
+FOR ALL
+USING (get_user_role(auth.uid()) = 'admin'::text)
+WITH CHECK (get_user_role(auth.uid()) = 'admin'::text);
+
+CREATE POLICY "Managers can manage their branch routing rules"
+ON public.feedback_routing_rules
+FOR ALL
+USING (
+  get_user_role(auth.uid()) = 'manager'::text
+  AND branch_id = get_user_branch(auth.uid())
+)
+WITH CHECK (
+  get_user_role(auth.uid()) = 'manager'::text
+  AND branch_id = get_user_branch(auth.uid())
+);
+
+CREATE TRIGGER update_feedback_routing_rules_updated_at
+BEFORE UPDATE ON public.feedback_routing_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_feedback_routing_rules_branch ON public.feedback_routing_rules(branch_id, sort_order);
+
+-- Assign new feedback using the first matching active rule of its branch
+CREATE OR REPLACE FUNCTION public.route_new_feedback()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    rule public.feedback_routing_rules%ROWTYPE;
+    next_assignee uuid;
+BEGIN
+    IF NEW.assigned_to IS NOT NULL OR NEW.branch_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO rule
+    FROM public.feedback_routing_rules r
+    WHERE r.branch_id = NEW.branch_id
+      AND r.is_active = true
+      AND (r.category_id IS NULL OR r.category_id = NEW.category_id)
+      AND (r.max_rating IS NULL OR NEW.rating <= r.max_rating)
+    ORDER BY r.sort_order, r.created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    IF rule.strategy = 'specific_user' THEN
+        next_assignee := rule.assignee_id;
+    ELSIF rule.strategy = 'branch_manager' THEN
+        SELECT manager_id INTO next_assignee FROM public.branches WHERE id = NEW.branch_id;
+    ELSE
+        -- Round-robin over the branch's staff, continuing after the last assignee
+        SELECT p.id INTO next_assignee
+        FROM public.profiles p
+        WHERE p.branch_id = NEW.branch_id
+          AND p.role = 'staff'
+          AND (rule.last_assigned_id IS NULL OR p.id > rule.last_assigned_id)
+        ORDER BY p.id
+        LIMIT 1;
+
+        IF next_assignee IS NULL THEN
+            SELECT p.id INTO next_assignee
+            FROM public.profiles p
+            WHERE p.branch_id = NEW.branch_id
+              AND p.role = 'staff'
+            ORDER BY p.id
+            LIMIT 1;
+        END IF;
+
+        IF next_assignee IS NOT NULL THEN
+            UPDATE public.feedback_routing_rules
+            SET last_assigned_id = next_assignee
+            WHERE id = rule.id;
+        END IF;
+    END IF;
+
+    NEW.assigned_to := next_assignee;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER route_new_feedback
+BEFORE INSERT ON public.feedback
+FOR EACH ROW
+EXECUTE FUNCTION public.route_new_feedback();
@@ -0,0 +1,13 @@
+-- Full-text search and server-side filtering for the feedback inbox
+ALTER TABLE public.feedback
+ADD COLUMN search_vector TSVECTOR
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(subject, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(customer_name, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(message, '')), 'C')
+) STORED;
+
+CREATE INDEX idx_feedback_search_vector ON public.feedback USING GIN (search_vector);
+
+-- Support the inbox's default ordering within a branch
+CREATE INDEX idx_feedback_branch_created_at ON public.feedback(branch_id, created_at DESC);
@@ -0,0 +1,47 @@
+-- Tags, archiving and batched bulk updates for feedback triage
+ALTER TABLE public.feedback
+ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_feedback_tags ON public.feedback USING GIN (tags);
+CREATE INDEX idx_feedback_archived_at ON public.feedback(archived_at);
+
+-- Applies one set of changes to many feedback rows in a single statement.
+-- Runs as the caller so the existing UPDATE policies decide which rows change;
+-- returns how many rows were actually updated.
+CREATE OR REPLACE FUNCTION public.bulk_update_feedback(feedback_ids uuid[], changes jsonb)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY INVOKER
+ SET search_path = public
+AS $$
+DECLARE
+    updated_count integer;
+BEGIN
+    UPDATE public.feedback f
+    SET
+        status = CASE WHEN changes ? 'status' THEN changes->>'status' ELSE f.status END,
+        resolved_at = CASE
+            WHEN NOT changes ? 'status' THEN f.resolved_at
+            WHEN changes->>'status' = 'resolved' THEN COALESCE(f.resolved_at, now())
+            ELSE NULL
+        END,
+        priority = CASE WHEN changes ? 'priority' THEN changes->>'priority' ELSE f.priority END,
+        assigned_to = CASE WHEN changes ? 'assigned_to' THEN (changes->>'assigned_to')::uuid ELSE f.assigned_to END,
+        category_id = CASE WHEN changes ? 'category_id' THEN (changes->>'category_id')::uuid ELSE f.category_id END,
+        tags = CASE
+            WHEN changes ? 'add_tag' AND NOT (changes->>'add_tag' = ANY (f.tags)) THEN array_append(f.tags, changes->>'add_tag')
+            WHEN changes ? 'remove_tag' THEN array_remove(f.tags, changes->>'remove_tag')
+            ELSE f.tags
+        END,
+        archived_at = CASE
+            WHEN NOT changes ? 'archived' THEN f.archived_at
+            WHEN (changes->>'archived')::boolean THEN COALESCE(f.archived_at, now())
+            ELSE NULL
+        END
+    WHERE f.id = ANY (feedback_ids);
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+    RETURN updated_count;
+END;
+$$;
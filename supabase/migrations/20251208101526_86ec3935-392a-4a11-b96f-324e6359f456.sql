@@ -0,0 +1,22 @@
+-- Per-branch toggle for showing the category picker on the public form
+ALTER TABLE public.feedback_form_settings
+ADD COLUMN show_category_picker BOOLEAN NOT NULL DEFAULT false;
+
+-- Deleting a category should uncategorize feedback and QR codes, not block or cascade
+ALTER TABLE public.feedback
+DROP CONSTRAINT feedback_category_id_fkey,
+ADD CONSTRAINT feedback_category_id_fkey
+  FOREIGN KEY (category_id) REFERENCES public.feedback_categories(id) ON DELETE SET NULL;
+
+ALTER TABLE public.qr_codes
+DROP CONSTRAINT qr_codes_category_id_fkey,
+ADD CONSTRAINT qr_codes_category_id_fkey
+  FOREIGN KEY (category_id) REFERENCES public.feedback_categories(id) ON DELETE SET NULL;
+
+-- Staff need hidden categories too, so older feedback keeps its label in lists and breakdowns
+CREATE POLICY "Staff can view all categories"
+ON public.feedback_categories
+FOR SELECT
+USING (get_user_role(auth.uid()) IN ('admin', 'manager', 'staff'));
+
+CREATE INDEX idx_feedback_categories_sort_order ON public.feedback_categories(sort_order);
@@ -0,0 +1,80 @@
+-- Task board statuses replace the old free-form 'pending' default
+UPDATE public.tasks SET status = 'todo' WHERE status NOT IN ('todo', 'in_progress', 'done');
+
+ALTER TABLE public.tasks
+ALTER COLUMN status SET DEFAULT 'todo',
+ADD CONSTRAINT tasks_status_check CHECK (status IN ('todo', 'in_progress', 'done')),
+ADD CONSTRAINT tasks_priority_check CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+ADD COLUMN feedback_id UUID REFERENCES public.feedback(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_tasks_team_id ON public.tasks(team_id);
+CREATE INDEX idx_tasks_feedback_id ON public.tasks(feedback_id);
+CREATE INDEX idx_tasks_assigned_to ON public.tasks(assigned_to);
+
+UPDATE public.team_members SET role = 'member' WHERE role NOT IN ('member', 'lead');
+
+ALTER TABLE public.team_members
+ADD CONSTRAINT team_members_role_check CHECK (role IN ('member', 'lead'));
+
+-- Mirrors is_team_member for members holding the lead role
+CREATE OR REPLACE FUNCTION public.is_team_lead(user_uuid uuid, team_uuid uuid)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM public.team_members
+        WHERE team_id = team_uuid
+        AND user_id = get_user_profile_id(user_uuid)
+        AND role = 'lead'
+    );
+END;
+$$;
+
+-- Members see their teams and teammates
+CREATE POLICY "Members can view their teams"
+ON public.teams
+FOR SELECT
+USING (is_team_member(auth.uid(), id));
+
+CREATE POLICY "Members can view their teammates"
+ON public.team_members
+FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+-- Members work the team board; leads can also edit and remove any team task
+CREATE POLICY "Members can view team tasks"
+ON public.tasks
+FOR SELECT
+USING (team_id IS NOT NULL AND is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Members can update team tasks"
+ON public.tasks
+FOR UPDATE
+USING (team_id IS NOT NULL AND is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Team leads can delete team tasks"
+ON public.tasks
+FOR DELETE
+USING (team_id IS NOT NULL AND is_team_lead(auth.uid(), team_id));
+
+-- Any staff member can create a task (e.g. from a feedback item) for themselves or a team they belong to
+CREATE POLICY "Staff can create tasks"
+ON public.tasks
+FOR INSERT
+WITH CHECK (
+  get_user_role(auth.uid()) IN ('admin', 'manager', 'staff')
+  AND assigned_by = get_user_profile_id(auth.uid())
+  AND (
+    team_id IS NULL
+    OR is_team_member(auth.uid(), team_id)
+    OR is_team_manager(auth.uid(), team_id)
+  )
+);
+
+CREATE POLICY "Creators can update their tasks"
+ON public.tasks
+FOR UPDATE
+USING (assigned_by = get_user_profile_id(auth.uid()));
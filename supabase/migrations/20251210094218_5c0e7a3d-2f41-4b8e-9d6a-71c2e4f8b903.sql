@@ -0,0 +1,106 @@
+-- Invitations are accepted through their emailed token rather than by matching
+-- the email address at sign-up, so drop the auto-accept trigger
+DROP TRIGGER IF EXISTS on_auth_user_process_invitations ON auth.users;
+DROP FUNCTION IF EXISTS public.process_pending_invitations();
+
+-- Invitations carry a team role, which is now limited to member and lead
+UPDATE public.team_invitations SET role = 'lead' WHERE role NOT IN ('member', 'lead');
+
+ALTER TABLE public.team_invitations
+DROP CONSTRAINT team_invitations_role_check,
+DROP CONSTRAINT team_invitations_status_check,
+ADD CONSTRAINT team_invitations_role_check CHECK (role IN ('member', 'lead')),
+ADD CONSTRAINT team_invitations_status_check CHECK (status IN ('pending', 'accepted', 'expired', 'revoked')),
+ADD COLUMN last_sent_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN accepted_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN accepted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_team_invitations_token ON public.team_invitations(token);
+
+-- Admins manage invitations for every team, alongside each team's manager
+CREATE POLICY "Admins can manage team invitations"
+ON public.team_invitations
+FOR ALL
+USING (get_user_role(auth.uid()) = 'admin')
+WITH CHECK (get_user_role(auth.uid()) = 'admin');
+
+-- Public lookup for the /invite/:token page; the token itself is the secret
+CREATE OR REPLACE FUNCTION public.get_team_invitation(invite_token uuid)
+ RETURNS TABLE(team_name text, email text, role text, status text, expires_at timestamp with time zone, invited_by_name text)
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        t.name,
+        i.email,
+        i.role,
+        CASE WHEN i.status = 'pending' AND i.expires_at <= now() THEN 'expired' ELSE i.status END,
+        i.expires_at,
+        p.display_name
+    FROM public.team_invitations i
+    JOIN public.teams t ON t.id = i.team_id
+    LEFT JOIN public.profiles p ON p.id = i.invited_by
+    WHERE i.token = invite_token;
+END;
+$$;
+
+-- Adds the signed-in user to the team when the token is valid and was sent to their address
+CREATE OR REPLACE FUNCTION public.accept_team_invitation(invite_token uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    invitation RECORD;
+    profile_id UUID;
+    user_email TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to accept an invitation';
+    END IF;
+
+    SELECT * INTO invitation
+    FROM public.team_invitations
+    WHERE token = invite_token
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    profile_id := get_user_profile_id(auth.uid());
+
+    -- Opening the link again after accepting is not an error
+    IF invitation.status = 'accepted' AND invitation.accepted_by = profile_id THEN
+        RETURN invitation.team_id;
+    END IF;
+
+    IF invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'This invitation is no longer valid';
+    END IF;
+
+    -- Expiry is derived from expires_at, as in get_team_invitation; the row stays pending
+    IF invitation.expires_at <= now() THEN
+        RAISE EXCEPTION 'This invitation has expired';
+    END IF;
+
+    SELECT email INTO user_email FROM auth.users WHERE id = auth.uid();
+    IF lower(user_email) <> lower(invitation.email) THEN
+        RAISE EXCEPTION 'This invitation was sent to a different email address';
+    END IF;
+
+    INSERT INTO public.team_members (team_id, user_id, role)
+    VALUES (invitation.team_id, profile_id, invitation.role)
+    ON CONFLICT (team_id, user_id) DO NOTHING;
+
+    UPDATE public.team_invitations
+    SET status = 'accepted', accepted_at = now(), accepted_by = profile_id, updated_at = now()
+    WHERE id = invitation.id;
+
+    RETURN invitation.team_id;
+END;
+$$;
@@ -0,0 +1,681 @@
+-- Organizations (workspaces) own every branch, category, QR code, team and setting
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT organizations_name_check CHECK (length(trim(name)) > 0 AND length(name) <= 100)
+);
+
+-- A user's role and branch are per organization; profiles.role and profiles.branch_id
+-- mirror the membership of the organization they currently have selected
+CREATE TABLE public.organization_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'staff',
+  branch_id UUID REFERENCES public.branches(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT organization_members_role_check CHECK (role IN ('admin', 'manager', 'staff', 'user')),
+  UNIQUE(organization_id, profile_id)
+);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_organization_members_updated_at
+BEFORE UPDATE ON public.organization_members
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_organization_members_profile_id ON public.organization_members(profile_id);
+
+ALTER TABLE public.profiles
+ADD COLUMN current_organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.get_user_organization(user_uuid uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN (SELECT current_organization_id FROM public.profiles WHERE user_id = user_uuid);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_member(user_uuid uuid, org_uuid uuid)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM public.organization_members
+        WHERE organization_id = org_uuid
+        AND profile_id = get_user_profile_id(user_uuid)
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_admin(user_uuid uuid, org_uuid uuid)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM public.organization_members
+        WHERE organization_id = org_uuid
+        AND profile_id = get_user_profile_id(user_uuid)
+        AND role = 'admin'
+    );
+END;
+$$;
+
+-- Roles and branches now come from the membership of the selected organization
+CREATE OR REPLACE FUNCTION public.get_user_role(user_uuid uuid)
+ RETURNS text
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN (
+        SELECT m.role
+        FROM public.profiles p
+        JOIN public.organization_members m
+          ON m.profile_id = p.id AND m.organization_id = p.current_organization_id
+        WHERE p.user_id = user_uuid
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_user_branch(user_uuid uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN (
+        SELECT m.branch_id
+        FROM public.profiles p
+        JOIN public.organization_members m
+          ON m.profile_id = p.id AND m.organization_id = p.current_organization_id
+        WHERE p.user_id = user_uuid
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_team_organization(team_uuid uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN (SELECT organization_id FROM public.teams WHERE id = team_uuid);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_feedback_organization(feedback_uuid uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN (SELECT organization_id FROM public.feedback WHERE id = feedback_uuid);
+END;
+$$;
+
+-- Scope every tenant-owned table to an organization
+ALTER TABLE public.branches ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.feedback_categories ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.feedback_form_settings ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.feedback_questions ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.feedback_routing_rules ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.qr_codes ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.teams ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.tasks ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.feedback ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.analytics_events ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+-- Everything that exists today becomes the first organization, with every user a member
+DO $$
+DECLARE
+    default_org_id uuid;
+BEGIN
+    INSERT INTO public.organizations (name) VALUES ('Default Organization') RETURNING id INTO default_org_id;
+
+    UPDATE public.branches SET organization_id = default_org_id;
+    UPDATE public.feedback_categories SET organization_id = default_org_id;
+    UPDATE public.feedback_form_settings SET organization_id = default_org_id;
+    UPDATE public.feedback_questions SET organization_id = default_org_id;
+    UPDATE public.feedback_routing_rules SET organization_id = default_org_id;
+    UPDATE public.qr_codes SET organization_id = default_org_id;
+    UPDATE public.teams SET organization_id = default_org_id;
+    UPDATE public.tasks SET organization_id = default_org_id;
+    UPDATE public.feedback SET organization_id = default_org_id;
+    UPDATE public.analytics_events SET organization_id = default_org_id;
+
+    INSERT INTO public.organization_members (organization_id, profile_id, role, branch_id)
+    SELECT default_org_id, id, role, branch_id FROM public.profiles;
+
+    UPDATE public.profiles SET current_organization_id = default_org_id;
+END;
+$$;
+
+-- New rows land in the caller's organization unless a branch says otherwise
+ALTER TABLE public.branches ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT get_user_organization(auth.uid());
+ALTER TABLE public.feedback_categories ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT get_user_organization(auth.uid());
+ALTER TABLE public.feedback_form_settings ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT get_user_organization(auth.uid());
+ALTER TABLE public.feedback_questions ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT get_user_organization(auth.uid());
+ALTER TABLE public.feedback_routing_rules ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT get_user_organization(auth.uid());
+ALTER TABLE public.qr_codes ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT get_user_organization(auth.uid());
+ALTER TABLE public.teams ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT get_user_organization(auth.uid());
+ALTER TABLE public.tasks ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT get_user_organization(auth.uid());
+ALTER TABLE public.feedback ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT get_user_organization(auth.uid());
+ALTER TABLE public.analytics_events ALTER COLUMN organization_id SET DEFAULT get_user_organization(auth.uid());
+
+CREATE INDEX idx_branches_organization_id ON public.branches(organization_id);
+CREATE INDEX idx_feedback_categories_organization_id ON public.feedback_categories(organization_id);
+CREATE INDEX idx_feedback_form_settings_organization_id ON public.feedback_form_settings(organization_id);
+CREATE INDEX idx_feedback_questions_organization_id ON public.feedback_questions(organization_id);
+CREATE INDEX idx_feedback_routing_rules_organization_id ON public.feedback_routing_rules(organization_id);
+CREATE INDEX idx_qr_codes_organization_id ON public.qr_codes(organization_id);
+CREATE INDEX idx_teams_organization_id ON public.teams(organization_id);
+CREATE INDEX idx_tasks_organization_id ON public.tasks(organization_id);
+CREATE INDEX idx_feedback_organization_id ON public.feedback(organization_id, created_at);
+CREATE INDEX idx_analytics_events_organization_id ON public.analytics_events(organization_id);
+
+-- Branch-bound rows always belong to their branch's organization; public feedback
+-- has no signed-in user, so this is also what scopes it
+CREATE OR REPLACE FUNCTION public.set_organization_from_branch()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    IF NEW.branch_id IS NOT NULL THEN
+        SELECT organization_id INTO NEW.organization_id
+        FROM public.branches
+        WHERE id = NEW.branch_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_feedback_organization
+BEFORE INSERT OR UPDATE OF branch_id ON public.feedback
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_branch();
+
+CREATE TRIGGER set_feedback_form_settings_organization
+BEFORE INSERT OR UPDATE OF branch_id ON public.feedback_form_settings
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_branch();
+
+CREATE TRIGGER set_feedback_questions_organization
+BEFORE INSERT OR UPDATE OF branch_id ON public.feedback_questions
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_branch();
+
+CREATE TRIGGER set_feedback_routing_rules_organization
+BEFORE INSERT OR UPDATE OF branch_id ON public.feedback_routing_rules
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_branch();
+
+CREATE TRIGGER set_qr_codes_organization
+BEFORE INSERT OR UPDATE OF branch_id ON public.qr_codes
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_branch();
+
+CREATE TRIGGER set_teams_organization
+BEFORE INSERT OR UPDATE OF branch_id ON public.teams
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_branch();
+
+-- Tenant isolation: these restrictive policies are ANDed with every existing policy,
+-- so a role only ever applies inside the organization the user has selected
+CREATE POLICY "Branches are limited to the current organization"
+ON public.branches AS RESTRICTIVE FOR ALL TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "Categories are limited to the current organization"
+ON public.feedback_categories AS RESTRICTIVE FOR ALL TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "Form settings are limited to the current organization"
+ON public.feedback_form_settings AS RESTRICTIVE FOR ALL TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "Questions are limited to the current organization"
+ON public.feedback_questions AS RESTRICTIVE FOR ALL TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "Routing rules are limited to the current organization"
+ON public.feedback_routing_rules AS RESTRICTIVE FOR ALL TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "QR codes are limited to the current organization"
+ON public.qr_codes AS RESTRICTIVE FOR ALL TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "Teams are limited to the current organization"
+ON public.teams AS RESTRICTIVE FOR ALL TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "Tasks are limited to the current organization"
+ON public.tasks AS RESTRICTIVE FOR ALL TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "Events are limited to the current organization"
+ON public.analytics_events AS RESTRICTIVE FOR SELECT TO authenticated
+USING (organization_id = get_user_organization(auth.uid()));
+
+-- Anyone may still submit feedback to any branch, signed in or not
+CREATE POLICY "Feedback reads are limited to the current organization"
+ON public.feedback AS RESTRICTIVE FOR SELECT TO authenticated
+USING (organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "Feedback updates are limited to the current organization"
+ON public.feedback AS RESTRICTIVE FOR UPDATE TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "Answers are limited to the current organization"
+ON public.feedback_answers AS RESTRICTIVE FOR SELECT TO authenticated
+USING (get_feedback_organization(feedback_id) = get_user_organization(auth.uid()));
+
+CREATE POLICY "Responses are limited to the current organization"
+ON public.feedback_responses AS RESTRICTIVE FOR ALL TO authenticated
+USING (get_feedback_organization(feedback_id) = get_user_organization(auth.uid()))
+WITH CHECK (get_feedback_organization(feedback_id) = get_user_organization(auth.uid()));
+
+CREATE POLICY "Team members are limited to the current organization"
+ON public.team_members AS RESTRICTIVE FOR ALL TO authenticated
+USING (get_team_organization(team_id) = get_user_organization(auth.uid()))
+WITH CHECK (get_team_organization(team_id) = get_user_organization(auth.uid()));
+
+CREATE POLICY "Team invitations are limited to the current organization"
+ON public.team_invitations AS RESTRICTIVE FOR ALL TO authenticated
+USING (get_team_organization(team_id) = get_user_organization(auth.uid()))
+WITH CHECK (get_team_organization(team_id) = get_user_organization(auth.uid()));
+
+-- Profiles are visible to yourself and to people in your current organization
+CREATE POLICY "Profiles are limited to the current organization"
+ON public.profiles AS RESTRICTIVE FOR ALL TO authenticated
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.profile_id = profiles.id
+    AND m.organization_id = get_user_organization(auth.uid())
+  )
+);
+
+-- The unused masked view and staff function ran as their owner and ignored RLS
+ALTER VIEW public.feedback_staff_view SET (security_invoker = true);
+ALTER FUNCTION public.get_feedback_for_staff() SECURITY INVOKER;
+
+CREATE POLICY "Members can view their organizations"
+ON public.organizations
+FOR SELECT
+USING (is_organization_member(auth.uid(), id));
+
+CREATE POLICY "Organization admins can update their organization"
+ON public.organizations
+FOR UPDATE
+USING (is_organization_admin(auth.uid(), id));
+
+CREATE POLICY "Members can view their organization's members"
+ON public.organization_members
+FOR SELECT
+USING (is_organization_member(auth.uid(), organization_id));
+
+CREATE POLICY "Organization admins can manage members"
+ON public.organization_members
+FOR ALL
+USING (is_organization_admin(auth.uid(), organization_id))
+WITH CHECK (is_organization_admin(auth.uid(), organization_id));
+
+-- Points a profile at an organization and copies that membership's role and branch onto it
+CREATE OR REPLACE FUNCTION public.apply_profile_organization(profile_uuid uuid, org_uuid uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    membership public.organization_members%ROWTYPE;
+BEGIN
+    SELECT * INTO membership
+    FROM public.organization_members
+    WHERE profile_id = profile_uuid AND organization_id = org_uuid;
+
+    UPDATE public.profiles
+    SET current_organization_id = membership.organization_id,
+        role = COALESCE(membership.role, 'user'),
+        branch_id = membership.branch_id,
+        updated_at = now()
+    WHERE id = profile_uuid;
+END;
+$$;
+
+-- Keep the profile mirror in step when an admin changes or removes the active membership
+CREATE OR REPLACE FUNCTION public.sync_profile_membership()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    next_org_id uuid;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = OLD.profile_id AND current_organization_id = OLD.organization_id
+        ) THEN
+            SELECT organization_id INTO next_org_id
+            FROM public.organization_members
+            WHERE profile_id = OLD.profile_id
+            ORDER BY created_at
+            LIMIT 1;
+
+            PERFORM apply_profile_organization(OLD.profile_id, next_org_id);
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = NEW.profile_id AND current_organization_id = NEW.organization_id
+    ) THEN
+        PERFORM apply_profile_organization(NEW.profile_id, NEW.organization_id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profile_membership
+AFTER INSERT OR UPDATE OR DELETE ON public.organization_members
+FOR EACH ROW EXECUTE FUNCTION public.sync_profile_membership();
+
+-- Users may edit their own name, but not grant themselves a role, branch or organization
+CREATE OR REPLACE FUNCTION public.protect_profile_membership()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $$
+BEGIN
+    IF current_user = 'authenticated' AND (
+        NEW.role IS DISTINCT FROM OLD.role
+        OR NEW.branch_id IS DISTINCT FROM OLD.branch_id
+        OR NEW.current_organization_id IS DISTINCT FROM OLD.current_organization_id
+    ) THEN
+        RAISE EXCEPTION 'Roles, branches and organizations are managed through organization membership';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_membership
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.protect_profile_membership();
+
+CREATE OR REPLACE FUNCTION public.switch_organization(org_uuid uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_organization_member(auth.uid(), org_uuid) THEN
+        RAISE EXCEPTION 'You are not a member of this organization';
+    END IF;
+
+    PERFORM apply_profile_organization(get_user_profile_id(auth.uid()), org_uuid);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.seed_organization_categories(org_uuid uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.feedback_categories (organization_id, name, description, icon, color, sort_order) VALUES
+    (org_uuid, 'General', 'General feedback and suggestions', 'MessageSquare', '#6366f1', 1),
+    (org_uuid, 'Service Quality', 'Feedback about service quality', 'Star', '#f59e0b', 2),
+    (org_uuid, 'Staff Behavior', 'Comments about staff interaction', 'Users', '#10b981', 3),
+    (org_uuid, 'Product Quality', 'Feedback about products', 'Package', '#ef4444', 4),
+    (org_uuid, 'Facilities', 'Comments about facilities and environment', 'Building', '#8b5cf6', 5),
+    (org_uuid, 'Complaint', 'Formal complaints', 'AlertTriangle', '#dc2626', 6),
+    (org_uuid, 'Suggestion', 'Improvement suggestions', 'Lightbulb', '#059669', 7);
+END;
+$$;
+
+-- Internal helpers, only called from the functions and triggers in this file
+REVOKE EXECUTE ON FUNCTION public.apply_profile_organization(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.seed_organization_categories(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Creates an organization with the caller as its admin and switches to it
+CREATE OR REPLACE FUNCTION public.create_organization(org_name text)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    member_profile_id uuid;
+    new_org_id uuid;
+BEGIN
+    member_profile_id := get_user_profile_id(auth.uid());
+    IF member_profile_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to create an organization';
+    END IF;
+
+    INSERT INTO public.organizations (name, created_by)
+    VALUES (trim(org_name), member_profile_id)
+    RETURNING id INTO new_org_id;
+
+    INSERT INTO public.organization_members (organization_id, profile_id, role)
+    VALUES (new_org_id, member_profile_id, 'admin');
+
+    PERFORM seed_organization_categories(new_org_id);
+    PERFORM apply_profile_organization(member_profile_id, new_org_id);
+
+    RETURN new_org_id;
+END;
+$$;
+
+-- New sign-ups get a workspace of their own, unless they are joining through a team invitation
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+    new_profile_id uuid;
+    new_org_id uuid;
+BEGIN
+    INSERT INTO public.profiles (user_id, display_name, email)
+    VALUES (
+        NEW.id,
+        NEW.raw_user_meta_data->>'full_name',
+        NEW.email
+    )
+    RETURNING id INTO new_profile_id;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.team_invitations
+        WHERE lower(email) = lower(NEW.email)
+        AND status = 'pending'
+        AND expires_at > now()
+    ) THEN
+        INSERT INTO public.organizations (name, created_by)
+        VALUES (
+            COALESCE(NULLIF(trim(NEW.raw_user_meta_data->>'full_name'), ''), split_part(NEW.email, '@', 1)) || '''s workspace',
+            new_profile_id
+        )
+        RETURNING id INTO new_org_id;
+
+        INSERT INTO public.organization_members (organization_id, profile_id, role)
+        VALUES (new_org_id, new_profile_id, 'admin');
+
+        PERFORM public.seed_organization_categories(new_org_id);
+        PERFORM public.apply_profile_organization(new_profile_id, new_org_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Accepting a team invitation also joins the team's organization and switches to it
+CREATE OR REPLACE FUNCTION public.accept_team_invitation(invite_token uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    invitation RECORD;
+    team RECORD;
+    member_profile_id UUID;
+    user_email TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to accept an invitation';
+    END IF;
+
+    SELECT * INTO invitation
+    FROM public.team_invitations
+    WHERE token = invite_token
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    member_profile_id := get_user_profile_id(auth.uid());
+    SELECT organization_id, branch_id INTO team FROM public.teams WHERE id = invitation.team_id;
+
+    -- Opening the link again after accepting is not an error
+    IF invitation.status = 'accepted' AND invitation.accepted_by = member_profile_id THEN
+        PERFORM apply_profile_organization(member_profile_id, team.organization_id);
+        RETURN invitation.team_id;
+    END IF;
+
+    IF invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'This invitation is no longer valid';
+    END IF;
+
+    -- Expiry is derived from expires_at, as in get_team_invitation; the row stays pending
+    IF invitation.expires_at <= now() THEN
+        RAISE EXCEPTION 'This invitation has expired';
+    END IF;
+
+    SELECT email INTO user_email FROM auth.users WHERE id = auth.uid();
+    IF lower(user_email) <> lower(invitation.email) THEN
+        RAISE EXCEPTION 'This invitation was sent to a different email address';
+    END IF;
+
+    INSERT INTO public.organization_members (organization_id, profile_id, role, branch_id)
+    VALUES (team.organization_id, member_profile_id, 'staff', team.branch_id)
+    ON CONFLICT (organization_id, profile_id) DO NOTHING;
+
+    INSERT INTO public.team_members (team_id, user_id, role)
+    VALUES (invitation.team_id, member_profile_id, invitation.role)
+    ON CONFLICT (team_id, user_id) DO NOTHING;
+
+    UPDATE public.team_invitations
+    SET status = 'accepted', accepted_at = now(), accepted_by = member_profile_id, updated_at = now()
+    WHERE id = invitation.id;
+
+    PERFORM apply_profile_organization(member_profile_id, team.organization_id);
+
+    RETURN invitation.team_id;
+END;
+$$;
+
+-- Round-robin over the branch's staff in the branch's organization
+CREATE OR REPLACE FUNCTION public.route_new_feedback()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    rule public.feedback_routing_rules%ROWTYPE;
+    next_assignee uuid;
+BEGIN
+    IF NEW.assigned_to IS NOT NULL OR NEW.branch_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO rule
+    FROM public.feedback_routing_rules r
+    WHERE r.branch_id = NEW.branch_id
+      AND r.is_active = true
+      AND (r.category_id IS NULL OR r.category_id = NEW.category_id)
+      AND (r.max_rating IS NULL OR NEW.rating <= r.max_rating)
+    ORDER BY r.sort_order, r.created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    IF rule.strategy = 'specific_user' THEN
+        next_assignee := rule.assignee_id;
+    ELSIF rule.strategy = 'branch_manager' THEN
+        SELECT manager_id INTO next_assignee FROM public.branches WHERE id = NEW.branch_id;
+    ELSE
+        -- Round-robin over the branch's staff, continuing after the last assignee
+        SELECT m.profile_id INTO next_assignee
+        FROM public.organization_members m
+        WHERE m.organization_id = rule.organization_id
+          AND m.branch_id = NEW.branch_id
+          AND m.role = 'staff'
+          AND (rule.last_assigned_id IS NULL OR m.profile_id > rule.last_assigned_id)
+        ORDER BY m.profile_id
+        LIMIT 1;
+
+        IF next_assignee IS NULL THEN
+            SELECT m.profile_id INTO next_assignee
+            FROM public.organization_members m
+            WHERE m.organization_id = rule.organization_id
+              AND m.branch_id = NEW.branch_id
+              AND m.role = 'staff'
+            ORDER BY m.profile_id
+            LIMIT 1;
+        END IF;
+
+        IF next_assignee IS NOT NULL THEN
+            UPDATE public.feedback_routing_rules
+            SET last_assigned_id = next_assignee
+            WHERE id = rule.id;
+        END IF;
+    END IF;
+
+    NEW.assigned_to := next_assignee;
+    RETURN NEW;
+END;
+$$;
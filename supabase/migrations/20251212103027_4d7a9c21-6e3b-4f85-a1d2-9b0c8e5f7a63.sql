@@ -0,0 +1,602 @@
+-- Replace the free-text admin/manager/staff/user roles with a defined permission model.
+-- Each role maps to a set of capabilities in role_permissions; RLS and the app both check
+-- capabilities rather than role names. Owners, admins and analysts act across the whole
+-- organization, the other roles only within the branches they are assigned to.
+
+CREATE TABLE public.role_permissions (
+  role TEXT NOT NULL,
+  permission TEXT NOT NULL,
+  PRIMARY KEY (role, permission),
+  CONSTRAINT role_permissions_role_check CHECK (role IN ('owner', 'admin', 'regional_manager', 'branch_manager', 'staff', 'analyst'))
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view role permissions"
+ON public.role_permissions
+FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT role, permission
+FROM (VALUES
+  ('organization.manage', ARRAY['owner']),
+  ('members.manage', ARRAY['owner', 'admin']),
+  ('branches.manage', ARRAY['owner', 'admin']),
+  ('categories.manage', ARRAY['owner', 'admin']),
+  ('forms.manage', ARRAY['owner', 'admin', 'regional_manager', 'branch_manager']),
+  ('routing.manage', ARRAY['owner', 'admin', 'regional_manager', 'branch_manager']),
+  ('qr_codes.manage', ARRAY['owner', 'admin', 'regional_manager', 'branch_manager']),
+  ('teams.manage', ARRAY['owner', 'admin', 'regional_manager', 'branch_manager']),
+  ('feedback.view', ARRAY['owner', 'admin', 'regional_manager', 'branch_manager', 'staff', 'analyst']),
+  ('feedback.respond', ARRAY['owner', 'admin', 'regional_manager', 'branch_manager', 'staff']),
+  ('feedback.manage', ARRAY['owner', 'admin', 'regional_manager', 'branch_manager']),
+  ('tasks.create', ARRAY['owner', 'admin', 'regional_manager', 'branch_manager', 'staff']),
+  ('analytics.view', ARRAY['owner', 'admin', 'regional_manager', 'branch_manager', 'analyst'])
+) AS matrix(permission, roles), unnest(matrix.roles) AS role;
+
+-- Regional managers cover several branches; everyone else is scoped by organization_members.branch_id
+CREATE TABLE public.organization_member_branches (
+  member_id UUID NOT NULL REFERENCES public.organization_members(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (member_id, branch_id)
+);
+
+CREATE INDEX idx_organization_member_branches_branch_id ON public.organization_member_branches(branch_id);
+
+ALTER TABLE public.organization_member_branches ENABLE ROW LEVEL SECURITY;
+
+-- Migrate existing roles; each organization's creator (or earliest admin) becomes its owner
+ALTER TABLE public.organization_members DROP CONSTRAINT organization_members_role_check;
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+
+UPDATE public.organization_members
+SET role = CASE role WHEN 'manager' THEN 'branch_manager' WHEN 'user' THEN 'analyst' ELSE role END;
+
+UPDATE public.organization_members m
+SET role = 'owner'
+FROM public.organizations o
+WHERE o.id = m.organization_id AND o.created_by = m.profile_id;
+
+UPDATE public.organization_members
+SET role = 'owner'
+WHERE id IN (
+  SELECT DISTINCT ON (organization_id) id
+  FROM public.organization_members
+  WHERE role = 'admin'
+  AND organization_id NOT IN (SELECT organization_id FROM public.organization_members WHERE role = 'owner')
+  ORDER BY organization_id, created_at
+);
+
+UPDATE public.profiles
+SET role = CASE role WHEN 'manager' THEN 'branch_manager' WHEN 'user' THEN 'analyst' ELSE role END
+WHERE current_organization_id IS NULL;
+
+ALTER TABLE public.organization_members
+ADD CONSTRAINT organization_members_role_check CHECK (role IN ('owner', 'admin', 'regional_manager', 'branch_manager', 'staff', 'analyst'));
+
+ALTER TABLE public.profiles ALTER COLUMN role SET DEFAULT 'analyst';
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_role_check CHECK (role IN ('owner', 'admin', 'regional_manager', 'branch_manager', 'staff', 'analyst'));
+
+CREATE OR REPLACE FUNCTION public.is_organization_wide_role(role_name text)
+ RETURNS boolean
+ LANGUAGE sql
+ IMMUTABLE
+AS $$
+    SELECT role_name IN ('owner', 'admin', 'analyst');
+$$;
+
+-- Whether the user's role in their current organization grants a capability
+CREATE OR REPLACE FUNCTION public.has_permission(user_uuid uuid, permission_key text)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM public.organization_members m
+        JOIN public.profiles p ON p.id = m.profile_id AND p.current_organization_id = m.organization_id
+        JOIN public.role_permissions rp ON rp.role = m.role
+        WHERE p.user_id = user_uuid
+        AND rp.permission = permission_key
+    );
+END;
+$$;
+
+-- Whether a branch falls inside the user's scope; rows without a branch need an organization-wide role
+CREATE OR REPLACE FUNCTION public.can_access_branch(user_uuid uuid, branch_uuid uuid)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM public.organization_members m
+        JOIN public.profiles p ON p.id = m.profile_id AND p.current_organization_id = m.organization_id
+        WHERE p.user_id = user_uuid
+        AND (
+            is_organization_wide_role(m.role)
+            OR m.branch_id = branch_uuid
+            OR EXISTS (
+                SELECT 1 FROM public.organization_member_branches mb
+                WHERE mb.member_id = m.id AND mb.branch_id = branch_uuid
+            )
+        )
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_branch_permission(user_uuid uuid, permission_key text, branch_uuid uuid)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN has_permission(user_uuid, permission_key) AND can_access_branch(user_uuid, branch_uuid);
+END;
+$$;
+
+-- Capabilities and branch scope for the signed-in user, used by the app to mirror RLS
+CREATE OR REPLACE FUNCTION public.get_user_access()
+ RETURNS TABLE(role text, permissions text[], branch_ids uuid[])
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        m.role,
+        COALESCE(ARRAY(SELECT rp.permission FROM public.role_permissions rp WHERE rp.role = m.role ORDER BY rp.permission), '{}'),
+        COALESCE(ARRAY(
+            SELECT m.branch_id WHERE m.branch_id IS NOT NULL
+            UNION
+            SELECT mb.branch_id FROM public.organization_member_branches mb WHERE mb.member_id = m.id
+        ), '{}')
+    FROM public.organization_members m
+    JOIN public.profiles p ON p.id = m.profile_id AND p.current_organization_id = m.organization_id
+    WHERE p.user_id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_admin(user_uuid uuid, org_uuid uuid)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM public.organization_members m
+        JOIN public.profiles p ON p.id = m.profile_id
+        JOIN public.role_permissions rp ON rp.role = m.role AND rp.permission = 'members.manage'
+        WHERE p.user_id = user_uuid
+        AND m.organization_id = org_uuid
+    );
+END;
+$$;
+
+-- Only owners may grant, change or remove the owner role, and an organization always keeps one.
+-- Runs as the caller so that create_organization, which is a definer function, can seat the first owner.
+CREATE OR REPLACE FUNCTION public.protect_organization_owners()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $$
+DECLARE
+    org_uuid uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.organization_id ELSE NEW.organization_id END;
+BEGIN
+    IF (TG_OP <> 'INSERT' AND OLD.role = 'owner') OR (TG_OP <> 'DELETE' AND NEW.role = 'owner') THEN
+        IF current_user = 'authenticated' AND NOT EXISTS (
+            SELECT 1
+            FROM public.organization_members m
+            JOIN public.profiles p ON p.id = m.profile_id
+            WHERE p.user_id = auth.uid()
+            AND m.organization_id = org_uuid
+            AND m.role = 'owner'
+        ) THEN
+            RAISE EXCEPTION 'Only owners can change the owner role';
+        END IF;
+    END IF;
+
+    IF TG_OP <> 'INSERT' AND OLD.role = 'owner'
+       AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+       AND NOT EXISTS (
+           SELECT 1 FROM public.organization_members
+           WHERE organization_id = org_uuid AND role = 'owner' AND id <> OLD.id
+       ) THEN
+        RAISE EXCEPTION 'An organization must keep at least one owner';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_organization_owners
+BEFORE UPDATE OR DELETE ON public.organization_members
+FOR EACH ROW EXECUTE FUNCTION public.protect_organization_owners();
+
+CREATE TRIGGER protect_organization_owners_insert
+BEFORE INSERT ON public.organization_members
+FOR EACH ROW
+WHEN (NEW.role = 'owner')
+EXECUTE FUNCTION public.protect_organization_owners();
+
+CREATE POLICY "Members can view branch assignments in their organization"
+ON public.organization_member_branches
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.organization_members m
+  WHERE m.id = organization_member_branches.member_id
+  AND is_organization_member(auth.uid(), m.organization_id)
+));
+
+CREATE POLICY "Organization admins can manage branch assignments"
+ON public.organization_member_branches
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.organization_members m
+  WHERE m.id = organization_member_branches.member_id
+  AND is_organization_admin(auth.uid(), m.organization_id)
+))
+WITH CHECK (EXISTS (
+  SELECT 1
+  FROM public.organization_members m
+  JOIN public.branches b ON b.id = organization_member_branches.branch_id AND b.organization_id = m.organization_id
+  WHERE m.id = organization_member_branches.member_id
+  AND is_organization_admin(auth.uid(), m.organization_id)
+));
+
+-- Renaming the organization is an owner capability
+DROP POLICY IF EXISTS "Organization admins can update their organization" ON public.organizations;
+
+CREATE POLICY "Owners can update their organization"
+ON public.organizations
+FOR UPDATE
+USING (id = get_user_organization(auth.uid()) AND has_permission(auth.uid(), 'organization.manage'));
+
+-- Replace every role-name policy with its capability equivalent
+DROP POLICY IF EXISTS "Admins can view all events" ON public.analytics_events;
+
+CREATE POLICY "Analysts can view events"
+ON public.analytics_events
+FOR SELECT
+USING (has_permission(auth.uid(), 'analytics.view'));
+
+DROP POLICY IF EXISTS "Admins can manage branches" ON public.branches;
+
+CREATE POLICY "Branch admins can manage branches"
+ON public.branches
+FOR ALL
+USING (has_permission(auth.uid(), 'branches.manage'))
+WITH CHECK (has_permission(auth.uid(), 'branches.manage'));
+
+DROP POLICY IF EXISTS "Admins can view all feedback with customer info" ON public.feedback;
+DROP POLICY IF EXISTS "Managers can view branch feedback with customer info" ON public.feedback;
+DROP POLICY IF EXISTS "Staff can view feedback content without personal info" ON public.feedback;
+DROP POLICY IF EXISTS "Staff can view limited feedback info" ON public.feedback;
+DROP POLICY IF EXISTS "Assigned staff can update their feedback" ON public.feedback;
+DROP POLICY IF EXISTS "Staff can claim or release feedback" ON public.feedback;
+
+CREATE POLICY "Members can view feedback for their branches"
+ON public.feedback
+FOR SELECT
+USING (has_branch_permission(auth.uid(), 'feedback.view', branch_id));
+
+CREATE POLICY "Managers can update feedback for their branches"
+ON public.feedback
+FOR UPDATE
+USING (has_branch_permission(auth.uid(), 'feedback.manage', branch_id))
+WITH CHECK (has_branch_permission(auth.uid(), 'feedback.manage', branch_id));
+
+CREATE POLICY "Assignees can update their feedback"
+ON public.feedback
+FOR UPDATE
+USING (assigned_to = get_user_profile_id(auth.uid()));
+
+CREATE POLICY "Responders can claim or release feedback"
+ON public.feedback
+FOR UPDATE
+USING (
+  has_branch_permission(auth.uid(), 'feedback.respond', branch_id)
+  AND (assigned_to IS NULL OR assigned_to = get_user_profile_id(auth.uid()))
+)
+WITH CHECK (
+  assigned_to IS NULL OR assigned_to = get_user_profile_id(auth.uid())
+);
+
+DROP POLICY IF EXISTS "Admins can manage categories" ON public.feedback_categories;
+DROP POLICY IF EXISTS "Staff can view all categories" ON public.feedback_categories;
+
+CREATE POLICY "Category admins can manage categories"
+ON public.feedback_categories
+FOR ALL
+USING (has_permission(auth.uid(), 'categories.manage'))
+WITH CHECK (has_permission(auth.uid(), 'categories.manage'));
+
+CREATE POLICY "Members can view all categories"
+ON public.feedback_categories
+FOR SELECT
+USING (has_permission(auth.uid(), 'feedback.view'));
+
+DROP POLICY IF EXISTS "Admins can manage all settings" ON public.feedback_form_settings;
+DROP POLICY IF EXISTS "Managers can manage their branch settings" ON public.feedback_form_settings;
+
+CREATE POLICY "Form managers can manage their branches' settings"
+ON public.feedback_form_settings
+FOR ALL
+USING (has_branch_permission(auth.uid(), 'forms.manage', branch_id))
+WITH CHECK (has_branch_permission(auth.uid(), 'forms.manage', branch_id));
+
+DROP POLICY IF EXISTS "Admins can manage all questions" ON public.feedback_questions;
+DROP POLICY IF EXISTS "Managers can manage their branch questions" ON public.feedback_questions;
+
+CREATE POLICY "Form managers can manage their branches' questions"
+ON public.feedback_questions
+FOR ALL
+USING (has_branch_permission(auth.uid(), 'forms.manage', branch_id))
+WITH CHECK (has_branch_permission(auth.uid(), 'forms.manage', branch_id));
+
+DROP POLICY IF EXISTS "Admins and managers can delete responses" ON public.feedback_responses;
+DROP POLICY IF EXISTS "Staff can create responses" ON public.feedback_responses;
+DROP POLICY IF EXISTS "Staff can view responses for accessible feedback" ON public.feedback_responses;
+
+CREATE POLICY "Members can view responses for accessible feedback"
+ON public.feedback_responses
+FOR SELECT
+USING (feedback_id IN (SELECT id FROM public.feedback));
+
+CREATE POLICY "Responders can create responses"
+ON public.feedback_responses
+FOR INSERT
+WITH CHECK (
+  responder_id = get_user_profile_id(auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.feedback f
+    WHERE f.id = feedback_responses.feedback_id
+    AND has_branch_permission(auth.uid(), 'feedback.respond', f.branch_id)
+  )
+);
+
+CREATE POLICY "Managers can delete responses"
+ON public.feedback_responses
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.feedback f
+  WHERE f.id = feedback_responses.feedback_id
+  AND has_branch_permission(auth.uid(), 'feedback.manage', f.branch_id)
+));
+
+DROP POLICY IF EXISTS "Admins can manage all routing rules" ON public.feedback_routing_rules;
+DROP POLICY IF EXISTS "Managers can manage their branch routing rules" ON public.feedback_routing_rules;
+
+CREATE POLICY "Routing managers can manage their branches' rules"
+ON public.feedback_routing_rules
+FOR ALL
+USING (has_branch_permission(auth.uid(), 'routing.manage', branch_id))
+WITH CHECK (has_branch_permission(auth.uid(), 'routing.manage', branch_id));
+
+DROP POLICY IF EXISTS "Admins and managers can view all profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Admins can manage all profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Staff can view staff profiles" ON public.profiles;
+
+-- The restrictive organization policy narrows this to fellow members
+CREATE POLICY "Members can view profiles in their organization"
+ON public.profiles
+FOR SELECT
+USING (get_user_organization(auth.uid()) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can view their own QR codes" ON public.qr_codes;
+DROP POLICY IF EXISTS "Users can create their own QR codes" ON public.qr_codes;
+DROP POLICY IF EXISTS "Users can update their own QR codes" ON public.qr_codes;
+DROP POLICY IF EXISTS "Users can delete their own QR codes" ON public.qr_codes;
+
+CREATE POLICY "QR managers can view their branches' QR codes"
+ON public.qr_codes
+FOR SELECT
+USING (user_id = auth.uid() OR has_branch_permission(auth.uid(), 'qr_codes.manage', branch_id));
+
+CREATE POLICY "QR managers can create QR codes for their branches"
+ON public.qr_codes
+FOR INSERT
+WITH CHECK (user_id = auth.uid() AND has_branch_permission(auth.uid(), 'qr_codes.manage', branch_id));
+
+CREATE POLICY "QR managers can update their branches' QR codes"
+ON public.qr_codes
+FOR UPDATE
+USING (has_branch_permission(auth.uid(), 'qr_codes.manage', branch_id))
+WITH CHECK (has_branch_permission(auth.uid(), 'qr_codes.manage', branch_id));
+
+CREATE POLICY "QR managers can delete their branches' QR codes"
+ON public.qr_codes
+FOR DELETE
+USING (has_branch_permission(auth.uid(), 'qr_codes.manage', branch_id));
+
+DROP POLICY IF EXISTS "Admins can manage all teams" ON public.teams;
+DROP POLICY IF EXISTS "Managers can create teams" ON public.teams;
+DROP POLICY IF EXISTS "Managers can manage their branch teams" ON public.teams;
+DROP POLICY IF EXISTS "Managers can view all teams in their branch" ON public.teams;
+DROP POLICY IF EXISTS "Managers can update their teams" ON public.teams;
+DROP POLICY IF EXISTS "Managers can delete their teams" ON public.teams;
+
+CREATE POLICY "Team managers can manage teams in their branches"
+ON public.teams
+FOR ALL
+USING (has_branch_permission(auth.uid(), 'teams.manage', branch_id))
+WITH CHECK (has_branch_permission(auth.uid(), 'teams.manage', branch_id));
+
+CREATE POLICY "Managers can view their teams"
+ON public.teams
+FOR SELECT
+USING (manager_id = get_user_profile_id(auth.uid()));
+
+CREATE POLICY "Managers can update their teams"
+ON public.teams
+FOR UPDATE
+USING (manager_id = get_user_profile_id(auth.uid()));
+
+CREATE POLICY "Managers can delete their teams"
+ON public.teams
+FOR DELETE
+USING (manager_id = get_user_profile_id(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can manage all team members" ON public.team_members;
+DROP POLICY IF EXISTS "Team managers can manage their team members" ON public.team_members;
+
+CREATE POLICY "Team managers can manage their team members"
+ON public.team_members
+FOR ALL
+USING (
+  is_team_manager(auth.uid(), team_id)
+  OR has_branch_permission(auth.uid(), 'teams.manage', (SELECT t.branch_id FROM public.teams t WHERE t.id = team_members.team_id))
+);
+
+DROP POLICY IF EXISTS "Admins can manage team invitations" ON public.team_invitations;
+
+CREATE POLICY "Team admins can manage team invitations"
+ON public.team_invitations
+FOR ALL
+USING (has_branch_permission(auth.uid(), 'teams.manage', (SELECT t.branch_id FROM public.teams t WHERE t.id = team_invitations.team_id)))
+WITH CHECK (has_branch_permission(auth.uid(), 'teams.manage', (SELECT t.branch_id FROM public.teams t WHERE t.id = team_invitations.team_id)));
+
+DROP POLICY IF EXISTS "Admins can manage all tasks" ON public.tasks;
+DROP POLICY IF EXISTS "Team managers can manage their team tasks" ON public.tasks;
+DROP POLICY IF EXISTS "Staff can create tasks" ON public.tasks;
+
+CREATE POLICY "Team managers can manage their team tasks"
+ON public.tasks
+FOR ALL
+USING (
+  (team_id IS NOT NULL AND is_team_manager(auth.uid(), team_id))
+  OR has_branch_permission(auth.uid(), 'teams.manage', (SELECT t.branch_id FROM public.teams t WHERE t.id = tasks.team_id))
+);
+
+CREATE POLICY "Members can create tasks"
+ON public.tasks
+FOR INSERT
+WITH CHECK (
+  has_permission(auth.uid(), 'tasks.create')
+  AND assigned_by = get_user_profile_id(auth.uid())
+  AND (
+    team_id IS NULL
+    OR is_team_member(auth.uid(), team_id)
+    OR is_team_manager(auth.uid(), team_id)
+  )
+);
+
+-- Branched on the old role names and was never called by the app
+DROP FUNCTION IF EXISTS public.get_feedback_for_staff();
+
+-- Creators own the organizations they start
+CREATE OR REPLACE FUNCTION public.apply_profile_organization(profile_uuid uuid, org_uuid uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    membership public.organization_members%ROWTYPE;
+BEGIN
+    SELECT * INTO membership
+    FROM public.organization_members
+    WHERE profile_id = profile_uuid AND organization_id = org_uuid;
+
+    UPDATE public.profiles
+    SET current_organization_id = membership.organization_id,
+        role = COALESCE(membership.role, 'analyst'),
+        branch_id = membership.branch_id,
+        updated_at = now()
+    WHERE id = profile_uuid;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_organization(org_name text)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    member_profile_id uuid;
+    new_org_id uuid;
+BEGIN
+    member_profile_id := get_user_profile_id(auth.uid());
+    IF member_profile_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to create an organization';
+    END IF;
+
+    IF org_name IS NULL OR length(trim(org_name)) = 0 THEN
+        RAISE EXCEPTION 'Organization name is required';
+    END IF;
+
+    INSERT INTO public.organizations (name, created_by)
+    VALUES (trim(org_name), member_profile_id)
+    RETURNING id INTO new_org_id;
+
+    INSERT INTO public.organization_members (organization_id, profile_id, role)
+    VALUES (new_org_id, member_profile_id, 'owner');
+
+    PERFORM seed_organization_categories(new_org_id);
+    PERFORM apply_profile_organization(member_profile_id, new_org_id);
+
+    RETURN new_org_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+    new_profile_id uuid;
+    new_org_id uuid;
+BEGIN
+    INSERT INTO public.profiles (user_id, display_name, email)
+    VALUES (
+        NEW.id,
+        NEW.raw_user_meta_data->>'full_name',
+        NEW.email
+    )
+    RETURNING id INTO new_profile_id;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.team_invitations
+        WHERE lower(email) = lower(NEW.email)
+        AND status = 'pending'
+        AND expires_at > now()
+    ) THEN
+        INSERT INTO public.organizations (name, created_by)
+        VALUES (
+            COALESCE(NULLIF(trim(NEW.raw_user_meta_data->>'full_name'), ''), split_part(NEW.email, '@', 1)) || '''s workspace',
+            new_profile_id
+        )
+        RETURNING id INTO new_org_id;
+
+        INSERT INTO public.organization_members (organization_id, profile_id, role)
+        VALUES (new_org_id, new_profile_id, 'owner');
+
+        PERFORM public.seed_organization_categories(new_org_id);
+        PERFORM public.apply_profile_organization(new_profile_id, new_org_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,102 @@
+-- Dynamic QR codes: printed codes encode /q/<slug>, which is resolved through qr_codes
+-- at scan time, so a code's destination can change without reprinting
+ALTER TABLE public.qr_codes ADD COLUMN slug text;
+
+-- Codes printed before this keep working through their /feedback URL; reprinting one
+-- from its slug makes it dynamic too
+
+UPDATE public.qr_codes
+SET slug = substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)
+WHERE slug IS NULL;
+
+ALTER TABLE public.qr_codes ALTER COLUMN slug SET NOT NULL;
+ALTER TABLE public.qr_codes ADD CONSTRAINT qr_codes_slug_key UNIQUE (slug);
+ALTER TABLE public.qr_codes ADD CONSTRAINT qr_codes_slug_format CHECK (slug ~ '^[a-z0-9]{6,32}$');
+
+-- Feedback submitted after a scan remembers which code it came from
+ALTER TABLE public.feedback
+ADD COLUMN qr_code_id uuid REFERENCES public.qr_codes(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_feedback_qr_code_id ON public.feedback(qr_code_id);
+
+CREATE INDEX idx_analytics_events_qr_scans
+ON public.analytics_events ((event_data->>'qr_code_id'))
+WHERE event_type = 'qr_scan';
+
+-- The form is public, so the qr id comes from the URL; drop it unless it is a code for
+-- the same branch rather than trusting the visitor
+CREATE OR REPLACE FUNCTION public.validate_feedback_qr_code()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    IF NEW.qr_code_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.qr_codes
+        WHERE id = NEW.qr_code_id
+        AND branch_id IS NOT DISTINCT FROM NEW.branch_id
+    ) THEN
+        NEW.qr_code_id := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_feedback_qr_code
+BEFORE INSERT OR UPDATE OF qr_code_id ON public.feedback
+FOR EACH ROW EXECUTE FUNCTION public.validate_feedback_qr_code();
+
+-- Called by the public /q/:slug page: logs the scan and returns where to send the visitor.
+-- Inactive or unknown codes return no row and are not logged.
+CREATE OR REPLACE FUNCTION public.resolve_qr_code(qr_slug text, scan_user_agent text DEFAULT NULL)
+ RETURNS TABLE(qr_code_id uuid, branch_id uuid, category_id uuid)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    code record;
+BEGIN
+    SELECT q.id, q.branch_id, q.category_id, q.organization_id
+    INTO code
+    FROM public.qr_codes q
+    WHERE q.slug = lower(qr_slug)
+    AND q.is_active = true;
+
+    IF NOT FOUND OR code.branch_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.analytics_events (event_type, event_data, user_id, user_agent, organization_id)
+    VALUES (
+        'qr_scan',
+        jsonb_build_object('qr_code_id', code.id, 'slug', lower(qr_slug), 'branch_id', code.branch_id),
+        auth.uid(),
+        left(scan_user_agent, 512),
+        code.organization_id
+    );
+
+    RETURN QUERY SELECT code.id, code.branch_id, code.category_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_qr_code(text, text) TO anon, authenticated;
+
+-- Scan counts and scan-to-submission conversion per code. Runs as the caller, so RLS
+-- limits it to the events and feedback they are allowed to see.
+CREATE OR REPLACE FUNCTION public.get_qr_code_stats()
+ RETURNS TABLE(qr_code_id uuid, scans bigint, submissions bigint, last_scanned_at timestamptz)
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $$
+    SELECT
+        q.id,
+        (SELECT count(*) FROM public.analytics_events e
+         WHERE e.event_type = 'qr_scan' AND e.event_data->>'qr_code_id' = q.id::text),
+        (SELECT count(*) FROM public.feedback f WHERE f.qr_code_id = q.id),
+        (SELECT max(e.created_at) FROM public.analytics_events e
+         WHERE e.event_type = 'qr_scan' AND e.event_data->>'qr_code_id' = q.id::text)
+    FROM public.qr_codes q;
+$$;
@@ -0,0 +1,37 @@
+-- Location labels for per-table / per-room QR codes, copied onto the feedback they produce
+ALTER TABLE public.qr_codes
+ADD COLUMN location_label text CHECK (location_label IS NULL OR length(trim(location_label)) BETWEEN 1 AND 100);
+
+ALTER TABLE public.feedback ADD COLUMN location_label text;
+
+-- The label always comes from the scanned code, never from the visitor
+CREATE OR REPLACE FUNCTION public.validate_feedback_qr_code()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    code_label text;
+BEGIN
+    IF NEW.qr_code_id IS NOT NULL THEN
+        SELECT q.location_label INTO code_label
+        FROM public.qr_codes q
+        WHERE q.id = NEW.qr_code_id
+        AND q.branch_id IS NOT DISTINCT FROM NEW.branch_id;
+
+        IF NOT FOUND THEN
+            NEW.qr_code_id := NULL;
+        END IF;
+    END IF;
+
+    NEW.location_label := code_label;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_feedback_qr_code ON public.feedback;
+
+CREATE TRIGGER validate_feedback_qr_code
+BEFORE INSERT OR UPDATE OF qr_code_id, location_label ON public.feedback
+FOR EACH ROW EXECUTE FUNCTION public.validate_feedback_qr_code();
@@ -0,0 +1,56 @@
+-- Rendered QR images live in storage at <organization_id>/<qr_code_id>.png instead of
+-- as base64 data URLs on every qr_codes row. They only encode the public short link,
+-- so the bucket is public and the images can be used directly in <img> and print sheets.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('qr-codes', 'qr-codes', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Only the image for a code the user can manage may be written, at that code's own path
+CREATE OR REPLACE FUNCTION public.can_manage_qr_image(object_name text)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.qr_codes q
+        WHERE object_name = q.organization_id::text || '/' || q.id::text || '.png'
+        AND (q.user_id = auth.uid() OR has_branch_permission(auth.uid(), 'qr_codes.manage', q.branch_id))
+    );
+$$;
+
+DROP POLICY IF EXISTS "QR images are publicly readable" ON storage.objects;
+DROP POLICY IF EXISTS "QR managers can upload QR images" ON storage.objects;
+DROP POLICY IF EXISTS "QR managers can replace QR images" ON storage.objects;
+DROP POLICY IF EXISTS "QR managers can delete QR images" ON storage.objects;
+
+CREATE POLICY "QR images are publicly readable"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'qr-codes');
+
+CREATE POLICY "QR managers can upload QR images"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'qr-codes' AND can_manage_qr_image(name));
+
+CREATE POLICY "QR managers can replace QR images"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'qr-codes' AND can_manage_qr_image(name))
+WITH CHECK (bucket_id = 'qr-codes' AND can_manage_qr_image(name));
+
+CREATE POLICY "QR managers can delete QR images"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'qr-codes' AND can_manage_qr_image(name));
+
+ALTER TABLE public.qr_codes ADD COLUMN image_path text;
+
+-- qr_code_url stays until the backfill-qr-images function has copied every existing image to
+-- storage; a later migration drops it. New codes only store image_path.
+ALTER TABLE public.qr_codes ALTER COLUMN qr_code_url DROP NOT NULL;
@@ -0,0 +1,92 @@
+-- Campaign and event codes only work between their start and end dates
+ALTER TABLE public.qr_codes
+ADD COLUMN starts_at timestamptz,
+ADD COLUMN ends_at timestamptz;
+
+ALTER TABLE public.qr_codes
+ADD CONSTRAINT qr_codes_schedule_check CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at);
+
+-- One place that decides whether a code is live; mirrored by getQrCodeStatus in the app
+CREATE OR REPLACE FUNCTION public.get_qr_code_status(code_is_active boolean, code_starts_at timestamptz, code_ends_at timestamptz)
+ RETURNS text
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN NOT code_is_active THEN 'inactive'
+        WHEN code_starts_at IS NOT NULL AND code_starts_at > now() THEN 'scheduled'
+        WHEN code_ends_at IS NOT NULL AND code_ends_at <= now() THEN 'expired'
+        ELSE 'active'
+    END;
+$$;
+
+-- Retired, not-yet-started and expired codes now resolve too, so the scan page can explain
+-- why there is no form; only active codes return a destination
+DROP FUNCTION IF EXISTS public.resolve_qr_code(text, text);
+
+CREATE OR REPLACE FUNCTION public.resolve_qr_code(qr_slug text, scan_user_agent text DEFAULT NULL)
+ RETURNS TABLE(qr_code_id uuid, branch_id uuid, category_id uuid, status text, branch_name text, starts_at timestamptz)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    code record;
+    code_status text;
+BEGIN
+    SELECT q.id, q.branch_id, q.category_id, q.organization_id, q.is_active, q.starts_at, q.ends_at, b.name AS branch
+    INTO code
+    FROM public.qr_codes q
+    LEFT JOIN public.branches b ON b.id = q.branch_id
+    WHERE q.slug = lower(qr_slug);
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    code_status := CASE
+        WHEN code.branch_id IS NULL THEN 'inactive'
+        ELSE get_qr_code_status(code.is_active, code.starts_at, code.ends_at)
+    END;
+
+    -- Scans of retired codes are logged too, so managers can see which ones are still posted
+    INSERT INTO public.analytics_events (event_type, event_data, user_id, user_agent, organization_id)
+    VALUES (
+        'qr_scan',
+        jsonb_build_object('qr_code_id', code.id, 'slug', lower(qr_slug), 'branch_id', code.branch_id, 'status', code_status),
+        auth.uid(),
+        left(scan_user_agent, 512),
+        code.organization_id
+    );
+
+    IF code_status = 'active' THEN
+        RETURN QUERY SELECT code.id, code.branch_id, code.category_id, code_status, code.branch, code.starts_at;
+    ELSE
+        RETURN QUERY SELECT code.id, NULL::uuid, NULL::uuid, code_status, code.branch, code.starts_at;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_qr_code(text, text) TO anon, authenticated;
+
+-- Direct /feedback?qr= links bypass resolve_qr_code, so the same status rules apply here: a code
+-- that is switched off, not started yet or past its end date gets no credit for the feedback
+CREATE OR REPLACE FUNCTION public.validate_feedback_qr_code()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    IF NEW.qr_code_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.qr_codes
+        WHERE id = NEW.qr_code_id
+        AND branch_id IS NOT DISTINCT FROM NEW.branch_id
+        AND get_qr_code_status(is_active, starts_at, ends_at) = 'active'
+    ) THEN
+        NEW.qr_code_id := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,179 @@
+-- Business details for branch administration
+ALTER TABLE public.branches
+ADD COLUMN timezone text NOT NULL DEFAULT 'UTC',
+ADD COLUMN opening_hours jsonb NOT NULL DEFAULT '{}'::jsonb,
+ADD COLUMN phone text CHECK (phone IS NULL OR length(trim(phone)) BETWEEN 1 AND 30),
+ADD COLUMN email text CHECK (email IS NULL OR validate_email_format(email));
+
+CREATE OR REPLACE FUNCTION public.validate_branch_timezone()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+        RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_branch_timezone
+BEFORE INSERT OR UPDATE OF timezone ON public.branches
+FOR EACH ROW EXECUTE FUNCTION public.validate_branch_timezone();
+
+-- A branch's manager works at that branch. Single-branch roles get it as their home branch
+-- (and stop managing any other); regional managers keep their home branch and cover this
+-- one as well. The membership sync then carries the home branch onto profiles.branch_id.
+CREATE OR REPLACE FUNCTION public.sync_branch_manager()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    manager_member record;
+BEGIN
+    IF NEW.manager_id IS NULL OR (TG_OP = 'UPDATE' AND NEW.manager_id IS NOT DISTINCT FROM OLD.manager_id) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT id, role, branch_id INTO manager_member
+    FROM public.organization_members
+    WHERE profile_id = NEW.manager_id AND organization_id = NEW.organization_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'The branch manager must be a member of this organization';
+    END IF;
+
+    IF is_organization_wide_role(manager_member.role) THEN
+        RETURN NEW;
+    END IF;
+
+    IF manager_member.role = 'regional_manager' AND manager_member.branch_id IS NOT NULL AND manager_member.branch_id <> NEW.id THEN
+        INSERT INTO public.organization_member_branches (member_id, branch_id)
+        VALUES (manager_member.id, NEW.id)
+        ON CONFLICT DO NOTHING;
+    ELSIF manager_member.role <> 'regional_manager' THEN
+        UPDATE public.organization_members SET branch_id = NEW.id WHERE id = manager_member.id;
+
+        UPDATE public.branches SET manager_id = NULL
+        WHERE manager_id = NEW.manager_id AND id <> NEW.id;
+    ELSIF manager_member.branch_id IS NULL THEN
+        UPDATE public.organization_members SET branch_id = NEW.id WHERE id = manager_member.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_branch_manager
+AFTER INSERT OR UPDATE OF manager_id ON public.branches
+FOR EACH ROW EXECUTE FUNCTION public.sync_branch_manager();
+
+-- Deactivating a branch moves its staff to another branch (or leaves them without one)
+-- in the same step, so nobody keeps a home branch that no longer takes feedback
+CREATE OR REPLACE FUNCTION public.deactivate_branch(branch_uuid uuid, reassign_to uuid DEFAULT NULL)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    branch_org_id uuid;
+BEGIN
+    SELECT organization_id INTO branch_org_id
+    FROM public.branches
+    WHERE id = branch_uuid;
+
+    IF branch_org_id IS NULL
+        OR branch_org_id IS DISTINCT FROM get_user_organization(auth.uid())
+        OR NOT has_permission(auth.uid(), 'branches.manage') THEN
+        RAISE EXCEPTION 'You are not allowed to manage this branch';
+    END IF;
+
+    IF reassign_to IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.branches
+        WHERE id = reassign_to AND organization_id = branch_org_id AND is_active AND id <> branch_uuid
+    ) THEN
+        RAISE EXCEPTION 'Staff can only be moved to another active branch of this organization';
+    END IF;
+
+    UPDATE public.organization_members
+    SET branch_id = reassign_to
+    WHERE organization_id = branch_org_id AND branch_id = branch_uuid;
+
+    DELETE FROM public.organization_member_branches WHERE branch_id = branch_uuid;
+
+    UPDATE public.branches
+    SET is_active = false, manager_id = NULL, updated_at = now()
+    WHERE id = branch_uuid;
+END;
+$$;
+
+-- A deactivated branch stops collecting feedback: its codes scan as inactive and feedback sent to
+-- it (e.g. from a form left open) gets no QR credit
+CREATE OR REPLACE FUNCTION public.resolve_qr_code(qr_slug text, scan_user_agent text DEFAULT NULL)
+ RETURNS TABLE(qr_code_id uuid, branch_id uuid, category_id uuid, status text, branch_name text, starts_at timestamptz)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    code record;
+    code_status text;
+BEGIN
+    SELECT q.id, q.branch_id, q.category_id, q.organization_id, q.is_active, q.starts_at, q.ends_at,
+        b.name AS branch, b.is_active AS branch_is_active
+    INTO code
+    FROM public.qr_codes q
+    LEFT JOIN public.branches b ON b.id = q.branch_id
+    WHERE q.slug = lower(qr_slug);
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    code_status := CASE
+        WHEN code.branch_id IS NULL OR NOT code.branch_is_active THEN 'inactive'
+        ELSE get_qr_code_status(code.is_active, code.starts_at, code.ends_at)
+    END;
+
+    -- Scans of retired codes are logged too, so managers can see which ones are still posted
+    INSERT INTO public.analytics_events (event_type, event_data, user_id, user_agent, organization_id)
+    VALUES (
+        'qr_scan',
+        jsonb_build_object('qr_code_id', code.id, 'slug', lower(qr_slug), 'branch_id', code.branch_id, 'status', code_status),
+        auth.uid(),
+        left(scan_user_agent, 512),
+        code.organization_id
+    );
+
+    IF code_status = 'active' THEN
+        RETURN QUERY SELECT code.id, code.branch_id, code.category_id, code_status, code.branch, code.starts_at;
+    ELSE
+        RETURN QUERY SELECT code.id, NULL::uuid, NULL::uuid, code_status, code.branch, code.starts_at;
+    END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_feedback_qr_code()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    IF NEW.qr_code_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.qr_codes q
+        JOIN public.branches b ON b.id = q.branch_id
+        WHERE q.id = NEW.qr_code_id
+        AND q.branch_id IS NOT DISTINCT FROM NEW.branch_id
+        AND b.is_active
+        AND get_qr_code_status(q.is_active, q.starts_at, q.ends_at) = 'active'
+    ) THEN
+        NEW.qr_code_id := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
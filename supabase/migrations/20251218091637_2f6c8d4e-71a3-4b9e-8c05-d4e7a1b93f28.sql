@@ -0,0 +1,180 @@
+-- Chains group branches into regions (or franchisees), which can nest: a country region can
+-- hold city regions, each holding branches. Roll-ups and regional manager scope follow the tree.
+CREATE TABLE public.regions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL DEFAULT get_user_organization(auth.uid()) REFERENCES public.organizations(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.regions(id) ON DELETE SET NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_regions_organization_id ON public.regions(organization_id);
+CREATE INDEX idx_regions_parent_id ON public.regions(parent_id);
+
+ALTER TABLE public.regions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_regions_updated_at
+BEFORE UPDATE ON public.regions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Members can view regions in their organization"
+ON public.regions
+FOR SELECT
+USING (is_organization_member(auth.uid(), organization_id));
+
+CREATE POLICY "Branch admins can manage regions"
+ON public.regions
+FOR ALL
+USING (has_permission(auth.uid(), 'branches.manage'))
+WITH CHECK (has_permission(auth.uid(), 'branches.manage'));
+
+CREATE POLICY "Regions are limited to the current organization"
+ON public.regions AS RESTRICTIVE FOR ALL TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
+
+-- A parent must belong to the same organization and may not sit below the region itself
+CREATE OR REPLACE FUNCTION public.validate_region_parent()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $$
+BEGIN
+    IF NEW.parent_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.parent_id = NEW.id THEN
+        RAISE EXCEPTION 'A region cannot be its own parent';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.regions WHERE id = NEW.parent_id AND organization_id = NEW.organization_id
+    ) THEN
+        RAISE EXCEPTION 'The parent region must belong to the same organization';
+    END IF;
+
+    IF EXISTS (
+        WITH RECURSIVE ancestors AS (
+            SELECT r.id, r.parent_id FROM public.regions r WHERE r.id = NEW.parent_id
+            UNION
+            SELECT r.id, r.parent_id FROM public.regions r JOIN ancestors a ON r.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE ancestors.id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'A region cannot be moved inside one of its own sub-regions';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_region_parent
+BEFORE INSERT OR UPDATE OF parent_id ON public.regions
+FOR EACH ROW EXECUTE FUNCTION public.validate_region_parent();
+
+ALTER TABLE public.branches
+ADD COLUMN region_id UUID REFERENCES public.regions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_branches_region_id ON public.branches(region_id);
+
+-- Regional managers can be given a whole region instead of listing its branches one by one
+ALTER TABLE public.organization_members
+ADD COLUMN region_id UUID REFERENCES public.regions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.organization_members
+ADD CONSTRAINT organization_members_region_role_check CHECK (region_id IS NULL OR role = 'regional_manager');
+
+-- Shared by branches and organization_members: the region has to be in the row's organization
+CREATE OR REPLACE FUNCTION public.validate_region_organization()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    IF NEW.region_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.regions WHERE id = NEW.region_id AND organization_id = NEW.organization_id
+    ) THEN
+        RAISE EXCEPTION 'The region must belong to the same organization';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_branch_region
+BEFORE INSERT OR UPDATE OF region_id ON public.branches
+FOR EACH ROW EXECUTE FUNCTION public.validate_region_organization();
+
+CREATE TRIGGER validate_member_region
+BEFORE INSERT OR UPDATE OF region_id ON public.organization_members
+FOR EACH ROW EXECUTE FUNCTION public.validate_region_organization();
+
+-- Every branch in a region and all of its sub-regions
+CREATE OR REPLACE FUNCTION public.get_region_branch_ids(region_uuid uuid)
+ RETURNS SETOF uuid
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $$
+    WITH RECURSIVE tree AS (
+        SELECT r.id FROM public.regions r WHERE r.id = region_uuid
+        UNION
+        SELECT r.id FROM public.regions r JOIN tree t ON r.parent_id = t.id
+    )
+    SELECT b.id FROM public.branches b JOIN tree ON b.region_id = tree.id;
+$$;
+
+-- Branch scope now also covers the member's region
+CREATE OR REPLACE FUNCTION public.can_access_branch(user_uuid uuid, branch_uuid uuid)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM public.organization_members m
+        JOIN public.profiles p ON p.id = m.profile_id AND p.current_organization_id = m.organization_id
+        WHERE p.user_id = user_uuid
+        AND (
+            is_organization_wide_role(m.role)
+            OR m.branch_id = branch_uuid
+            OR EXISTS (
+                SELECT 1 FROM public.organization_member_branches mb
+                WHERE mb.member_id = m.id AND mb.branch_id = branch_uuid
+            )
+            OR (m.region_id IS NOT NULL AND branch_uuid IN (SELECT get_region_branch_ids(m.region_id)))
+        )
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_user_access()
+ RETURNS TABLE(role text, permissions text[], branch_ids uuid[])
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        m.role,
+        COALESCE(ARRAY(SELECT rp.permission FROM public.role_permissions rp WHERE rp.role = m.role ORDER BY rp.permission), '{}'),
+        COALESCE(ARRAY(
+            SELECT m.branch_id WHERE m.branch_id IS NOT NULL
+            UNION
+            SELECT mb.branch_id FROM public.organization_member_branches mb WHERE mb.member_id = m.id
+            UNION
+            SELECT get_region_branch_ids(m.region_id) WHERE m.region_id IS NOT NULL
+        ), '{}')
+    FROM public.organization_members m
+    JOIN public.profiles p ON p.id = m.profile_id AND p.current_organization_id = m.organization_id
+    WHERE p.user_id = auth.uid();
+END;
+$$;
@@ -0,0 +1,166 @@
+-- Feedback statistics are aggregated in the database so dashboards stay fast however many
+-- responses an organization collects. The functions return counts and sums rather than
+-- averages, so the app can add rows up across branches, regions, categories or days.
+
+CREATE INDEX IF NOT EXISTS idx_feedback_organization_branch_created_at
+ON public.feedback(organization_id, branch_id, created_at);
+
+-- Branches the caller may aggregate over, or NULL for the whole organization. Resolved once per
+-- call instead of evaluating the feedback policies for every row.
+CREATE OR REPLACE FUNCTION public.get_feedback_branch_scope()
+ RETURNS uuid[]
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    access record;
+BEGIN
+    SELECT * INTO access FROM get_user_access();
+
+    IF access.role IS NULL OR NOT ('feedback.view' = ANY(access.permissions)) THEN
+        RAISE EXCEPTION 'You do not have permission to view feedback statistics';
+    END IF;
+
+    IF is_organization_wide_role(access.role) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN access.branch_ids;
+END;
+$$;
+
+-- All-time totals per branch and category, with survey scores split by mode and calendar
+-- months taken in the caller's time zone
+CREATE OR REPLACE FUNCTION public.get_feedback_summary(time_zone text DEFAULT 'UTC')
+ RETURNS TABLE(
+    branch_id uuid,
+    category_id uuid,
+    total bigint,
+    pending bigint,
+    in_progress bigint,
+    resolved bigint,
+    rating_sum bigint,
+    star_responses bigint,
+    star_score_sum bigint,
+    nps_responses bigint,
+    nps_promoters bigint,
+    nps_detractors bigint,
+    csat_responses bigint,
+    csat_satisfied bigint,
+    this_week bigint,
+    this_month bigint,
+    this_month_rating_sum bigint,
+    last_month bigint,
+    last_month_rating_sum bigint
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    scope uuid[] := get_feedback_branch_scope();
+    org_uuid uuid := get_user_organization(auth.uid());
+    month_start timestamptz := date_trunc('month', now() AT TIME ZONE time_zone) AT TIME ZONE time_zone;
+    previous_month_start timestamptz :=
+        (date_trunc('month', now() AT TIME ZONE time_zone) - interval '1 month') AT TIME ZONE time_zone;
+BEGIN
+    RETURN QUERY
+    SELECT
+        f.branch_id,
+        f.category_id,
+        count(*),
+        count(*) FILTER (WHERE f.status = 'pending'),
+        count(*) FILTER (WHERE f.status = 'in_progress'),
+        count(*) FILTER (WHERE f.status = 'resolved'),
+        COALESCE(sum(f.rating), 0),
+        count(*) FILTER (WHERE f.survey_mode = 'stars'),
+        COALESCE(sum(COALESCE(f.score, f.rating)) FILTER (WHERE f.survey_mode = 'stars'), 0),
+        count(*) FILTER (WHERE f.survey_mode = 'nps'),
+        count(*) FILTER (WHERE f.survey_mode = 'nps' AND COALESCE(f.score, f.rating) >= 9),
+        count(*) FILTER (WHERE f.survey_mode = 'nps' AND COALESCE(f.score, f.rating) <= 6),
+        count(*) FILTER (WHERE f.survey_mode = 'csat'),
+        count(*) FILTER (WHERE f.survey_mode = 'csat' AND COALESCE(f.score, f.rating) >= 4),
+        count(*) FILTER (WHERE f.created_at >= now() - interval '7 days'),
+        count(*) FILTER (WHERE f.created_at >= month_start),
+        COALESCE(sum(f.rating) FILTER (WHERE f.created_at >= month_start), 0),
+        count(*) FILTER (WHERE f.created_at >= previous_month_start AND f.created_at < month_start),
+        COALESCE(sum(f.rating) FILTER (WHERE f.created_at >= previous_month_start AND f.created_at < month_start), 0)
+    FROM public.feedback f
+    WHERE f.organization_id = org_uuid
+    AND (scope IS NULL OR f.branch_id = ANY(scope))
+    GROUP BY f.branch_id, f.category_id;
+END;
+$$;
+
+-- Per-branch, per-day counts for charts, with days taken in the caller's time zone. Response
+-- time uses each item's first public staff reply.
+CREATE OR REPLACE FUNCTION public.get_feedback_daily_stats(
+    start_date date,
+    end_date date,
+    time_zone text DEFAULT 'UTC',
+    include_archived boolean DEFAULT true
+)
+ RETURNS TABLE(
+    branch_id uuid,
+    day date,
+    total bigint,
+    rating_sum bigint,
+    pending bigint,
+    in_progress bigint,
+    resolved bigint,
+    rating_1 bigint,
+    rating_2 bigint,
+    rating_3 bigint,
+    rating_4 bigint,
+    rating_5 bigint,
+    responded bigint,
+    response_seconds numeric
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    scope uuid[] := get_feedback_branch_scope();
+    org_uuid uuid := get_user_organization(auth.uid());
+BEGIN
+    IF end_date < start_date OR end_date - start_date > 731 THEN
+        RAISE EXCEPTION 'Pick a date range of up to two years';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        f.branch_id,
+        (f.created_at AT TIME ZONE time_zone)::date,
+        count(*),
+        COALESCE(sum(f.rating), 0),
+        count(*) FILTER (WHERE f.status = 'pending'),
+        count(*) FILTER (WHERE f.status = 'in_progress'),
+        count(*) FILTER (WHERE f.status = 'resolved'),
+        count(*) FILTER (WHERE f.rating = 1),
+        count(*) FILTER (WHERE f.rating = 2),
+        count(*) FILTER (WHERE f.rating = 3),
+        count(*) FILTER (WHERE f.rating = 4),
+        count(*) FILTER (WHERE f.rating = 5),
+        count(fr.first_response_at),
+        COALESCE(sum(GREATEST(0, extract(epoch FROM fr.first_response_at - f.created_at))), 0)
+    FROM public.feedback f
+    LEFT JOIN LATERAL (
+        SELECT min(r.created_at) AS first_response_at
+        FROM public.feedback_responses r
+        WHERE r.feedback_id = f.id
+        AND r.author_type = 'staff'
+        AND r.is_internal = false
+    ) fr ON true
+    WHERE f.organization_id = org_uuid
+    AND (scope IS NULL OR f.branch_id = ANY(scope))
+    AND f.created_at >= start_date::timestamp AT TIME ZONE time_zone
+    AND f.created_at < (end_date + 1)::timestamp AT TIME ZONE time_zone
+    AND (include_archived OR f.archived_at IS NULL)
+    GROUP BY 1, 2;
+END;
+$$;
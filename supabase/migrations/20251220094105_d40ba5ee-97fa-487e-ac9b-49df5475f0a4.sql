@@ -0,0 +1,41 @@
+-- Every AI analysis is kept with the parameters and model that produced it. input_hash fingerprints
+-- the feedback that went into the prompt, so an unchanged request is answered from here instead of
+-- calling the model again. Rows are written by the analyze-feedback function with the service role.
+CREATE TABLE public.feedback_analyses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  analysis_type TEXT NOT NULL,
+  parameters JSONB NOT NULL DEFAULT '{}',
+  model TEXT NOT NULL,
+  input_hash TEXT NOT NULL,
+  feedback_count INTEGER NOT NULL DEFAULT 0,
+  insights JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_feedback_analyses_organization_id ON public.feedback_analyses(organization_id, created_at DESC);
+CREATE INDEX idx_feedback_analyses_input_hash ON public.feedback_analyses(organization_id, input_hash);
+
+ALTER TABLE public.feedback_analyses ENABLE ROW LEVEL SECURITY;
+
+-- Reports summarise the feedback their author could see, so branch-scoped members only get their own
+CREATE POLICY "Members can view their own analyses"
+ON public.feedback_analyses
+FOR SELECT
+USING (created_by = get_user_profile_id(auth.uid()));
+
+CREATE POLICY "Organization-wide roles can view all analyses"
+ON public.feedback_analyses
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM get_user_access() a WHERE is_organization_wide_role(a.role)));
+
+CREATE POLICY "Members can delete their own analyses"
+ON public.feedback_analyses
+FOR DELETE
+USING (created_by = get_user_profile_id(auth.uid()));
+
+CREATE POLICY "Analyses are limited to the current organization"
+ON public.feedback_analyses AS RESTRICTIVE FOR ALL TO authenticated
+USING (organization_id = get_user_organization(auth.uid()))
+WITH CHECK (organization_id = get_user_organization(auth.uid()));
@@ -0,0 +1,5 @@
+-- Which LLM analyze-feedback uses for this organization. NULL falls back to the LLM_PROVIDER secret and
+-- the provider's default model. API keys stay in function secrets; only the choice lives here.
+ALTER TABLE public.organizations
+  ADD COLUMN ai_provider TEXT CHECK (ai_provider IN ('openai', 'anthropic', 'azure', 'local')),
+  ADD COLUMN ai_model TEXT CHECK (char_length(ai_model) <= 100);
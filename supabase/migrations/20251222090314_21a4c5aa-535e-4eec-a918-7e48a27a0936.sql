@@ -0,0 +1,144 @@
+-- The public form used to insert the feedback row and its answers separately, so a failed answers
+-- insert left an orphaned row behind and a retry duplicated it. Both now go through one function call,
+-- which runs in a single transaction.
+
+-- Whether an answer has the JSON shape its question type produces on the form
+CREATE OR REPLACE FUNCTION public.is_valid_feedback_answer(question_type text, options jsonb, answer jsonb)
+ RETURNS boolean
+ LANGUAGE sql
+ IMMUTABLE
+ SET search_path = public
+AS $$
+    SELECT CASE question_type
+        WHEN 'single_choice' THEN
+            jsonb_typeof(answer) = 'string' AND options @> jsonb_build_array(answer)
+        WHEN 'multi_choice' THEN
+            jsonb_typeof(answer) = 'array'
+            AND jsonb_array_length(answer) > 0
+            AND NOT EXISTS (SELECT 1 FROM jsonb_array_elements(answer) a WHERE jsonb_typeof(a) <> 'string')
+            AND options @> answer
+        WHEN 'yes_no' THEN
+            jsonb_typeof(answer) = 'boolean'
+        WHEN 'scale' THEN
+            jsonb_typeof(answer) = 'number'
+            AND (answer #>> '{}') ~ '^([0-9]|10)$'
+        WHEN 'short_text' THEN
+            jsonb_typeof(answer) = 'string'
+            AND length(trim(answer #>> '{}')) > 0
+            AND length(answer #>> '{}') <= 200
+        WHEN 'date' THEN
+            jsonb_typeof(answer) = 'string'
+            AND (answer #>> '{}') ~ '^[0-9]{4}-(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])$'
+        ELSE false
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_feedback(feedback jsonb, answers jsonb DEFAULT '[]'::jsonb)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    new_feedback_id uuid := gen_random_uuid();
+    feedback_branch_id uuid := (feedback->>'branch_id')::uuid;
+    subject_text text := coalesce(nullif(trim(feedback->>'subject'), ''), 'General Feedback');
+    message_text text := feedback->>'message';
+    customer_name_text text := nullif(trim(feedback->>'customer_name'), '');
+    customer_email_text text := nullif(trim(feedback->>'customer_email'), '');
+    customer_phone_text text := nullif(trim(feedback->>'customer_phone'), '');
+    -- The survey comes from the branch's settings and the 1-5 rating from the score, not from the visitor
+    form_survey_mode text;
+    score_value integer := coalesce((feedback->>'score')::integer, (feedback->>'rating')::integer);
+    answer jsonb;
+    question record;
+BEGIN
+    -- Deactivated branches have stopped collecting feedback, even from forms that were already open
+    IF feedback_branch_id IS NULL OR NOT EXISTS (
+        SELECT 1 FROM public.branches WHERE id = feedback_branch_id AND is_active
+    ) THEN
+        RAISE EXCEPTION 'This location is not collecting feedback';
+    END IF;
+
+    -- The checks of the "Public can create validated feedback" policy, which doesn't apply in here
+    IF message_text IS NULL OR length(trim(message_text)) = 0 OR length(message_text) > 2000
+        OR length(subject_text) > 200
+        OR length(coalesce(customer_name_text, '')) > 100
+        OR length(coalesce(customer_email_text, '')) > 254
+        OR length(coalesce(customer_phone_text, '')) > 20 THEN
+        RAISE EXCEPTION 'Invalid feedback';
+    END IF;
+
+    IF customer_email_text IS NOT NULL AND NOT validate_email_format(customer_email_text) THEN
+        RAISE EXCEPTION 'Invalid email address';
+    END IF;
+
+    SELECT s.survey_mode INTO form_survey_mode
+    FROM public.feedback_form_settings s
+    WHERE s.branch_id = feedback_branch_id
+    LIMIT 1;
+    form_survey_mode := coalesce(form_survey_mode, 'stars');
+
+    IF score_value IS NULL
+        OR (form_survey_mode = 'nps' AND score_value NOT BETWEEN 0 AND 10)
+        OR (form_survey_mode <> 'nps' AND score_value NOT BETWEEN 1 AND 5) THEN
+        RAISE EXCEPTION 'Invalid score for a % survey', form_survey_mode;
+    END IF;
+
+    IF jsonb_typeof(answers) <> 'array' THEN
+        RAISE EXCEPTION 'Answers must be an array';
+    END IF;
+
+    -- Triggers still set the organization, validate the QR code and route the feedback
+    INSERT INTO public.feedback (
+        id, subject, message, rating, score, survey_mode, category_id, branch_id, qr_code_id,
+        customer_name, customer_email, customer_phone, is_anonymous, status, priority
+    ) VALUES (
+        new_feedback_id,
+        subject_text,
+        message_text,
+        CASE WHEN form_survey_mode = 'nps' THEN greatest(1, ceil(score_value / 2.0)::integer) ELSE score_value END,
+        score_value,
+        form_survey_mode,
+        (feedback->>'category_id')::uuid,
+        feedback_branch_id,
+        (feedback->>'qr_code_id')::uuid,
+        customer_name_text,
+        customer_email_text,
+        customer_phone_text,
+        customer_name_text IS NULL,
+        'pending',
+        'medium'
+    );
+
+    -- Answers may only reference active questions of the feedback's own branch. The question text and
+    -- type are snapshotted from the question itself rather than taken from the visitor.
+    FOR answer IN SELECT * FROM jsonb_array_elements(answers) LOOP
+        SELECT id, question_text, question_type, options INTO question
+        FROM public.feedback_questions
+        WHERE id = (answer->>'question_id')::uuid
+        AND branch_id = feedback_branch_id
+        AND is_active = true;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Unknown question %', answer->>'question_id';
+        END IF;
+
+        IF answer->'answer' IS NULL OR length((answer->'answer')::text) > 2000
+            OR NOT is_valid_feedback_answer(question.question_type, question.options, answer->'answer') THEN
+            RAISE EXCEPTION 'Invalid answer for question %', question.id;
+        END IF;
+
+        INSERT INTO public.feedback_answers (feedback_id, question_id, question_text, question_type, answer)
+        VALUES (new_feedback_id, question.id, question.question_text, question.question_type, answer->'answer');
+    END LOOP;
+
+    RETURN new_feedback_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_feedback(jsonb, jsonb) TO anon, authenticated;
+
+-- Answers are only written by submit_feedback now, which also checks the question belongs to the
+-- feedback's branch; the old policy let an answer point at an active question of any branch
+DROP POLICY IF EXISTS "Public can submit answers to active questions" ON public.feedback_answers;
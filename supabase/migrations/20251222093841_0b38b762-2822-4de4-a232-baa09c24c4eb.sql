@@ -0,0 +1,24 @@
+-- Customer replies only arrive through the feedback-reply function, which uses the service role.
+-- Staff could otherwise write or edit rows as author_type = 'customer' and forge replies in the thread.
+DROP POLICY IF EXISTS "Responders can create responses" ON public.feedback_responses;
+
+CREATE POLICY "Responders can create responses"
+ON public.feedback_responses
+FOR INSERT
+WITH CHECK (
+  author_type = 'staff'
+  AND responder_id = get_user_profile_id(auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.feedback f
+    WHERE f.id = feedback_responses.feedback_id
+    AND has_branch_permission(auth.uid(), 'feedback.respond', f.branch_id)
+  )
+);
+
+DROP POLICY IF EXISTS "Responders can update their own responses" ON public.feedback_responses;
+
+CREATE POLICY "Responders can update their own responses"
+ON public.feedback_responses
+FOR UPDATE
+USING (author_type = 'staff' AND responder_id = get_user_profile_id(auth.uid()))
+WITH CHECK (author_type = 'staff' AND responder_id = get_user_profile_id(auth.uid()));
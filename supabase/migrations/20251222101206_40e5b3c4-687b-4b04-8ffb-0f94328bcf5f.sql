@@ -0,0 +1,61 @@
+-- The tenant policies on branches, categories, form settings and questions also filter signed-in
+-- visitors of the public form, so someone whose current organization isn't the branch's (or who has
+-- no organization yet) got the default form, no categories and failing answers. The form now loads
+-- everything it needs through this function, and answers are validated inside submit_feedback,
+-- so neither depends on the caller's organization. Unknown and deactivated branches return NULL.
+CREATE OR REPLACE FUNCTION public.get_public_feedback_form(branch_uuid uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    branch_org_id uuid;
+BEGIN
+    SELECT organization_id INTO branch_org_id FROM public.branches WHERE id = branch_uuid AND is_active;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'settings', (
+            SELECT to_jsonb(s) - 'organization_id'
+            FROM public.feedback_form_settings s
+            WHERE s.branch_id = branch_uuid
+            LIMIT 1
+        ),
+        'questions', coalesce((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', q.id,
+                'branch_id', q.branch_id,
+                'question_text', q.question_text,
+                'question_type', q.question_type,
+                'options', q.options,
+                'is_required', q.is_required,
+                'is_active', q.is_active,
+                'sort_order', q.sort_order
+            ) ORDER BY q.sort_order)
+            FROM public.feedback_questions q
+            WHERE q.branch_id = branch_uuid
+            AND q.is_active = true
+        ), '[]'::jsonb),
+        'categories', coalesce((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', c.id,
+                'name', c.name,
+                'description', c.description,
+                'icon', c.icon,
+                'color', c.color,
+                'is_active', c.is_active,
+                'sort_order', c.sort_order
+            ) ORDER BY c.sort_order)
+            FROM public.feedback_categories c
+            WHERE c.organization_id = branch_org_id
+            AND c.is_active = true
+        ), '[]'::jsonb)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_feedback_form(uuid) TO anon, authenticated;
@@ -0,0 +1,20 @@
+-- resolve_qr_code also logs scans of inactive, scheduled and expired codes (with their status in
+-- event_data), so only scans of an active code count here. Scans logged before the status was
+-- recorded have none and still count.
+CREATE OR REPLACE FUNCTION public.get_qr_code_stats()
+ RETURNS TABLE(qr_code_id uuid, scans bigint, submissions bigint, last_scanned_at timestamptz)
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $$
+    SELECT
+        q.id,
+        (SELECT count(*) FROM public.analytics_events e
+         WHERE e.event_type = 'qr_scan' AND e.event_data->>'qr_code_id' = q.id::text
+           AND coalesce(e.event_data->>'status', 'active') = 'active'),
+        (SELECT count(*) FROM public.feedback f WHERE f.qr_code_id = q.id),
+        (SELECT max(e.created_at) FROM public.analytics_events e
+         WHERE e.event_type = 'qr_scan' AND e.event_data->>'qr_code_id' = q.id::text
+           AND coalesce(e.event_data->>'status', 'active') = 'active')
+    FROM public.qr_codes q;
+$$;
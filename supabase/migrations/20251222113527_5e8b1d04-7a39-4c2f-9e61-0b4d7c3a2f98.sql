@@ -0,0 +1,75 @@
+-- Counts and sums per category for one period of the feedback analysis, so its statistics cover
+-- every matching response rather than the rows a single request can return. The fingerprint
+-- changes whenever feedback in the group is added, edited or deleted, which keys the analysis cache.
+CREATE OR REPLACE FUNCTION public.get_feedback_period_stats(
+    start_at timestamptz,
+    end_at timestamptz,
+    branch_ids uuid[] DEFAULT NULL,
+    category_ids uuid[] DEFAULT NULL
+)
+ RETURNS TABLE(
+    category_id uuid,
+    category_name text,
+    category_color text,
+    total bigint,
+    pending bigint,
+    in_progress bigint,
+    resolved bigint,
+    rating_sum bigint,
+    rating_1 bigint,
+    rating_2 bigint,
+    rating_3 bigint,
+    rating_4 bigint,
+    rating_5 bigint,
+    nps_responses bigint,
+    nps_promoters bigint,
+    nps_detractors bigint,
+    csat_responses bigint,
+    csat_satisfied bigint,
+    fingerprint text
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $$
+DECLARE
+    scope uuid[] := get_feedback_branch_scope();
+    org_uuid uuid := get_user_organization(auth.uid());
+BEGIN
+    IF end_at <= start_at OR end_at - start_at > interval '366 days' THEN
+        RAISE EXCEPTION 'Pick a date range of up to 366 days';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id,
+        c.name,
+        c.color,
+        count(*),
+        count(*) FILTER (WHERE f.status = 'pending'),
+        count(*) FILTER (WHERE f.status = 'in_progress'),
+        count(*) FILTER (WHERE f.status = 'resolved'),
+        COALESCE(sum(f.rating), 0),
+        count(*) FILTER (WHERE f.rating = 1),
+        count(*) FILTER (WHERE f.rating = 2),
+        count(*) FILTER (WHERE f.rating = 3),
+        count(*) FILTER (WHERE f.rating = 4),
+        count(*) FILTER (WHERE f.rating = 5),
+        count(*) FILTER (WHERE f.survey_mode = 'nps'),
+        count(*) FILTER (WHERE f.survey_mode = 'nps' AND COALESCE(f.score, f.rating) >= 9),
+        count(*) FILTER (WHERE f.survey_mode = 'nps' AND COALESCE(f.score, f.rating) <= 6),
+        count(*) FILTER (WHERE f.survey_mode = 'csat'),
+        count(*) FILTER (WHERE f.survey_mode = 'csat' AND COALESCE(f.score, f.rating) >= 4),
+        md5(string_agg(f.id::text || ':' || f.updated_at::text, ',' ORDER BY f.id))
+    FROM public.feedback f
+    LEFT JOIN public.feedback_categories c ON c.id = f.category_id
+    WHERE f.organization_id = org_uuid
+    AND (scope IS NULL OR f.branch_id = ANY(scope))
+    AND f.created_at >= start_at
+    AND f.created_at < end_at
+    AND (branch_ids IS NULL OR cardinality(branch_ids) = 0 OR f.branch_id = ANY(branch_ids))
+    AND (category_ids IS NULL OR cardinality(category_ids) = 0 OR f.category_id = ANY(category_ids))
+    GROUP BY c.id, c.name, c.color;
+END;
+$$;